@@ -21,13 +21,20 @@ import "./utils/gestureHandler"
 import { useEffect, useState } from "react"
 import { useFonts } from "expo-font"
 import * as Linking from "expo-linking"
+import { GestureHandlerRootView } from "react-native-gesture-handler"
 import { KeyboardProvider } from "react-native-keyboard-controller"
 import { initialWindowMetrics, SafeAreaProvider } from "react-native-safe-area-context"
 
 import { initI18n } from "./i18n"
+import { useLanguage } from "./i18n/language"
 import { AppNavigator } from "./navigators/AppNavigator"
-import { useNavigationPersistence } from "./navigators/navigationUtilities"
+import { linkingConfig } from "./navigators/linking"
+import { navigationRef, useNavigationPersistence } from "./navigators/navigationUtilities"
+import { api } from "./services/api"
+import { trashStore } from "./services/trash"
+import { uploader } from "./services/upload"
 import { ThemeProvider } from "./theme/context"
+import { $styles } from "./theme/styles"
 import { customFontsToLoad } from "./theme/typography"
 import { loadDateFnsLocale } from "./utils/formatDate"
 import * as storage from "./utils/storage"
@@ -37,24 +44,9 @@ import { config as gluestackConfig } from "@gluestack-ui/config"
 export const NAVIGATION_PERSISTENCE_KEY = "NAVIGATION_STATE"
 
 // Web linking configuration
-const prefix = Linking.createURL("/")
-const config = {
-  screens: {
-    Login: {
-      path: "",
-    },
-    Welcome: "welcome",
-    Demo: {
-      screens: {
-        DemoShowroom: {
-          path: "showroom/:queryIndex?/:itemIndex?",
-        },
-        DemoDebug: "debug",
-        DemoPodcastList: "podcast",
-        DemoCommunity: "community",
-      },
-    },
-  },
+const linking = {
+  prefixes: [Linking.createURL("/")],
+  config: linkingConfig,
 }
 
 /**
@@ -71,6 +63,7 @@ export function App() {
 
   const [areFontsLoaded, fontLoadError] = useFonts(customFontsToLoad)
   const [isI18nInitialized, setIsI18nInitialized] = useState(false)
+  const language = useLanguage()
 
   useEffect(() => {
     initI18n()
@@ -78,6 +71,19 @@ export function App() {
       .then(() => loadDateFnsLocale())
   }, [])
 
+  // send uploads and album changes that were made offline
+  useEffect(() => api.startQueue(), [])
+
+  // pick up chunked uploads the last session didn't finish
+  useEffect(() => {
+    uploader.resumeAll()
+  }, [])
+
+  // photos that have sat in the trash past their retention are deleted for good
+  useEffect(() => {
+    trashStore.purgeExpired()
+  }, [])
+
   // Before we show the app, we have to wait for our state to be ready.
   // In the meantime, don't render anything. This will be the background
   // color set in native by rootView's background color.
@@ -88,25 +94,26 @@ export function App() {
     return null
   }
 
-  const linking = {
-    prefixes: [prefix],
-    config,
-  }
-
   // otherwise, we're ready to render the app
   return (
     <GluestackUIProvider config={gluestackConfig}>
-      <SafeAreaProvider initialMetrics={initialWindowMetrics}>
-        <KeyboardProvider>
-          <ThemeProvider>
-            <AppNavigator
-              linking={linking}
-              initialState={initialNavigationState}
-              onStateChange={onNavigationStateChange}
-            />
-          </ThemeProvider>
-        </KeyboardProvider>
-      </SafeAreaProvider>
+      <GestureHandlerRootView style={$styles.flex1}>
+        <SafeAreaProvider initialMetrics={initialWindowMetrics}>
+          <KeyboardProvider>
+            <ThemeProvider>
+              {/* remounts on language change so every screen translates again, right where the user was */}
+              <AppNavigator
+                key={language}
+                linking={linking}
+                initialState={
+                  navigationRef.isReady() ? navigationRef.getRootState() : initialNavigationState
+                }
+                onStateChange={onNavigationStateChange}
+              />
+            </ThemeProvider>
+          </KeyboardProvider>
+        </SafeAreaProvider>
+      </GestureHandlerRootView>
     </GluestackUIProvider>
   )
 }
@@ -0,0 +1,99 @@
+import { memo, useMemo } from "react"
+import { StyleProp, View, ViewStyle } from "react-native"
+
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import type { RgbaImage } from "@/utils/imageAnalysis"
+
+export interface CameraPreviewProps {
+  /**
+   * The frame to draw. Nothing but the background is drawn while this is null.
+   */
+  frame: RgbaImage | null
+  /**
+   * How many blocks wide the preview is drawn. Default: 16
+   */
+  columns?: number
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * Draws a camera frame as a coarse mosaic of colored blocks. This is only meant
+ * for providers that hand us raw pixels; native providers render their own preview.
+ * @param {CameraPreviewProps} props - The props for the `CameraPreview` component.
+ * @returns {JSX.Element} The rendered `CameraPreview` component.
+ */
+export const CameraPreview = memo(function CameraPreview(props: CameraPreviewProps) {
+  const { frame, columns = 16, style: $styleOverride } = props
+  const { themed } = useAppTheme()
+
+  const rows = useMemo(() => (frame ? mosaic(frame, columns) : []), [frame, columns])
+
+  return (
+    <View style={themed([$container, $styleOverride])} testID="camera-preview">
+      {rows.map((row, y) => (
+        <View key={y} style={$row}>
+          {row.map((color, x) => (
+            <View key={x} style={[$block, { backgroundColor: color }]} />
+          ))}
+        </View>
+      ))}
+    </View>
+  )
+})
+
+/**
+ * Averages the frame down to `columns` blocks across, keeping the aspect ratio.
+ */
+function mosaic(frame: RgbaImage, columns: number): string[][] {
+  const { width, height, data } = frame
+  const cols = Math.min(columns, width)
+  const blockSize = width / cols
+  const rowCount = Math.max(1, Math.round(height / blockSize))
+  const result: string[][] = []
+
+  for (let by = 0; by < rowCount; by++) {
+    const row: string[] = []
+    const y0 = Math.floor(by * blockSize)
+    const y1 = Math.min(height, Math.floor((by + 1) * blockSize))
+    for (let bx = 0; bx < cols; bx++) {
+      const x0 = Math.floor(bx * blockSize)
+      const x1 = Math.min(width, Math.floor((bx + 1) * blockSize))
+      let r = 0
+      let g = 0
+      let b = 0
+      let count = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4
+          r += data[i]
+          g += data[i + 1]
+          b += data[i + 2]
+          count++
+        }
+      }
+      count = Math.max(1, count)
+      row.push(`rgb(${Math.round(r / count)}, ${Math.round(g / count)}, ${Math.round(b / count)})`)
+    }
+    result.push(row)
+  }
+
+  return result
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  backgroundColor: colors.cameraBackground,
+  overflow: "hidden",
+})
+
+const $row: ViewStyle = {
+  flex: 1,
+  flexDirection: "row",
+}
+
+const $block: ViewStyle = {
+  flex: 1,
+}
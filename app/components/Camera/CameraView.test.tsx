@@ -0,0 +1,75 @@
+import { NavigationContainer } from "@react-navigation/native"
+import { act, fireEvent, render } from "@testing-library/react-native"
+
+import { FakeCameraProvider } from "@/services/camera"
+import { ThemeProvider } from "@/theme/context"
+
+import { CameraView } from "./CameraView"
+
+function renderCamera(provider: FakeCameraProvider, onCapture = jest.fn()) {
+  const utils = render(
+    <ThemeProvider>
+      <NavigationContainer>
+        <CameraView provider={provider} onCapture={onCapture} />
+      </NavigationContainer>
+    </ThemeProvider>,
+  )
+  return { ...utils, onCapture }
+}
+
+describe("CameraView", () => {
+  it("runs the whole capture flow against the fake provider", async () => {
+    const provider = new FakeCameraProvider({ width: 16, height: 12, frameIntervalMs: 0 })
+    const { getByTestId, onCapture } = renderCamera(provider)
+
+    await act(async () => {})
+    expect(provider.getState().status).toBe("ready")
+
+    act(() => {
+      provider.emitFrame()
+    })
+
+    await act(async () => {
+      fireEvent.press(getByTestId("camera-shutter"))
+    })
+
+    expect(onCapture).toHaveBeenCalledTimes(1)
+    expect(onCapture.mock.calls[0][0]).toMatchObject({
+      uri: expect.stringMatching(/^fake:\/\/captures\/capture-/),
+    })
+  })
+
+  it("says so when the camera can't be opened", async () => {
+    const provider = new FakeCameraProvider({ frameIntervalMs: 0 })
+    jest.spyOn(provider, "open").mockRejectedValue(new Error("no permission"))
+    const { findByTestId } = renderCamera(provider)
+
+    expect(await findByTestId("camera-error")).toBeTruthy()
+  })
+
+  it("drives lens, flash and zoom from the controls", async () => {
+    const provider = new FakeCameraProvider({ frameIntervalMs: 0 })
+    const { getByTestId } = renderCamera(provider)
+    await act(async () => {})
+
+    fireEvent.press(getByTestId("camera-flash"))
+    expect(provider.getState().flash).toBe("auto")
+
+    fireEvent.press(getByTestId("camera-zoom-in"))
+    expect(provider.getState().zoom).toBe(1.5)
+
+    await act(async () => {
+      fireEvent.press(getByTestId("camera-switch-lens"))
+    })
+    expect(provider.getState()).toMatchObject({ lens: "front", zoom: 1, flash: "off" })
+  })
+
+  it("closes the provider on unmount", async () => {
+    const provider = new FakeCameraProvider({ frameIntervalMs: 0 })
+    const { unmount } = renderCamera(provider)
+    await act(async () => {})
+
+    unmount()
+    expect(provider.getState().status).toBe("closed")
+  })
+})
@@ -0,0 +1,294 @@
+import { ReactNode, useState } from "react"
+import { Pressable, StyleProp, TextStyle, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import {
+  CameraError,
+  CameraProvider,
+  CapturedPhoto,
+  FlashMode,
+  useCamera,
+  useCameraProvider,
+} from "@/services/camera"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { ErrorType, reportCrash } from "@/utils/crashReporting"
+
+import { CameraPreview } from "./CameraPreview"
+
+export interface CameraViewProps {
+  /**
+   * The camera backend to drive. Defaults to the one supplied by `CameraProviderContext`.
+   */
+  provider?: CameraProvider
+  /**
+   * Whether the preview should be running. Default: true
+   */
+  active?: boolean
+  /**
+   * Called with every photo taken with the shutter button.
+   */
+  onCapture?: (photo: CapturedPhoto) => void
+  /**
+   * Overlays drawn on top of the preview, under the controls.
+   * Either plain elements or a render function that receives the current frame.
+   */
+  children?: ReactNode | ((frame: ReturnType<typeof useCamera>["frame"]) => ReactNode)
+  /**
+   * Extra controls shown in the top bar, between the flash and torch buttons.
+   */
+  controls?: ReactNode
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+const FLASH_CYCLE: Record<FlashMode, FlashMode> = { off: "auto", auto: "on", on: "off" }
+const FLASH_ICONS = { off: "flash-off", auto: "flash-outline", on: "flash" } as const
+const ZOOM_STEP = 0.5
+
+/**
+ * The live camera: preview, overlays and the shutter, lens, flash, torch and zoom controls.
+ * @param {CameraViewProps} props - The props for the `CameraView` component.
+ * @returns {JSX.Element} The rendered `CameraView` component.
+ */
+export function CameraView(props: CameraViewProps) {
+  const contextProvider = useCameraProvider()
+  const { provider = contextProvider, active = true, onCapture, children, controls, style } = props
+  const { state, frame, error, capture, switchLens, setFlash, setTorch, setZoom } = useCamera(
+    provider,
+    active,
+  )
+  const [lastCapture, setLastCapture] = useState<CapturedPhoto | null>(null)
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const isReady = state.status === "ready"
+  const isFront = state.lens === "front"
+  const iconColor = colors.cameraForeground
+
+  async function handleCapture() {
+    try {
+      const photo = await capture()
+      setLastCapture(photo)
+      onCapture?.(photo)
+    } catch (error) {
+      if (!(error instanceof CameraError)) reportCrash(error as Error, ErrorType.HANDLED)
+    }
+  }
+
+  async function handleSwitchLens() {
+    try {
+      await switchLens()
+    } catch (error) {
+      if (!(error instanceof CameraError)) reportCrash(error as Error, ErrorType.HANDLED)
+    }
+  }
+
+  return (
+    <View style={[$styles.flex1, style]}>
+      <CameraPreview frame={frame} style={$styles.absoluteFill} />
+
+      <View style={$styles.absoluteFill} pointerEvents="box-none">
+        {typeof children === "function" ? children(frame) : children}
+      </View>
+
+      <View style={themed($topBar)}>
+        <Pressable
+          testID="camera-flash"
+          accessibilityRole="button"
+          accessibilityLabel={translate("cameraScreen:flash", {
+            mode: translate(`cameraScreen:flashModes.${state.flash}`),
+          })}
+          disabled={isFront}
+          onPress={() => setFlash(FLASH_CYCLE[state.flash])}
+          style={[$iconButton, isFront && $disabled]}
+        >
+          <Ionicons name={FLASH_ICONS[state.flash]} size={24} color={iconColor} />
+        </Pressable>
+        <View style={$controls}>{controls}</View>
+        <Pressable
+          testID="camera-torch"
+          accessibilityRole="switch"
+          accessibilityLabel={translate("cameraScreen:torch")}
+          accessibilityState={{ checked: state.torch, disabled: isFront || !isReady }}
+          disabled={isFront || !isReady}
+          onPress={() => setTorch(!state.torch)}
+          style={[$iconButton, (isFront || !isReady) && $disabled]}
+        >
+          <Ionicons
+            name={state.torch ? "flashlight" : "flashlight-outline"}
+            size={24}
+            color={iconColor}
+          />
+        </Pressable>
+      </View>
+
+      {!isReady && state.status !== "capturing" && (
+        <View style={$statusContainer} pointerEvents="none">
+          <Text
+            testID={error ? "camera-error" : undefined}
+            tx={error ? "cameraScreen:unavailable" : "cameraScreen:opening"}
+            style={themed($statusText)}
+          />
+        </View>
+      )}
+
+      <View style={themed($bottomBar)}>
+        <View style={themed($zoomRow)}>
+          <Pressable
+            testID="camera-zoom-out"
+            accessibilityRole="button"
+            accessibilityLabel={translate("cameraScreen:zoomOut")}
+            disabled={state.zoom <= state.minZoom}
+            onPress={() => setZoom(state.zoom - ZOOM_STEP)}
+            style={$iconButton}
+          >
+            <Ionicons name="remove" size={20} color={iconColor} />
+          </Pressable>
+          <Text
+            testID="camera-zoom-level"
+            tx="cameraScreen:zoomLevel"
+            txOptions={{ zoom: state.zoom.toFixed(1) }}
+            size="xs"
+            style={themed($zoomText)}
+          />
+          <Pressable
+            testID="camera-zoom-in"
+            accessibilityRole="button"
+            accessibilityLabel={translate("cameraScreen:zoomIn")}
+            disabled={state.zoom >= state.maxZoom}
+            onPress={() => setZoom(state.zoom + ZOOM_STEP)}
+            style={$iconButton}
+          >
+            <Ionicons name="add" size={20} color={iconColor} />
+          </Pressable>
+        </View>
+
+        <View style={[$styles.row, $controlsRow]}>
+          <View style={themed($thumbnail)} accessibilityLabel={translate("cameraScreen:lastPhoto")}>
+            {lastCapture && (
+              <CameraPreview frame={lastCapture.frame} columns={4} style={$styles.flex1} />
+            )}
+          </View>
+
+          <Pressable
+            testID="camera-shutter"
+            accessibilityRole="button"
+            accessibilityLabel={translate("cameraScreen:capture")}
+            disabled={!isReady}
+            onPress={handleCapture}
+            style={({ pressed }) => [
+              themed($shutter),
+              pressed && $shutterPressed,
+              !isReady && $disabled,
+            ]}
+          />
+
+          <Pressable
+            testID="camera-switch-lens"
+            accessibilityRole="button"
+            accessibilityLabel={translate("cameraScreen:switchLens")}
+            disabled={!isReady}
+            onPress={handleSwitchLens}
+            style={[$iconButton, !isReady && $disabled]}
+          >
+            <Ionicons name="camera-reverse" size={28} color={iconColor} />
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const $topBar: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  justifyContent: "space-between",
+  paddingHorizontal: spacing.md,
+  paddingTop: spacing.md,
+})
+
+const $controls: ViewStyle = {
+  flex: 1,
+  flexDirection: "row",
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $statusContainer: ViewStyle = {
+  ...$styles.absoluteFill,
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $statusText: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.cameraForeground,
+})
+
+const $bottomBar: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  position: "absolute",
+  left: 0,
+  right: 0,
+  bottom: 0,
+  paddingVertical: spacing.md,
+  paddingHorizontal: spacing.lg,
+  backgroundColor: colors.palette.overlay50,
+})
+
+const $zoomRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  justifyContent: "center",
+  marginBottom: spacing.sm,
+})
+
+const $zoomText: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.cameraForeground,
+  minWidth: 48,
+  textAlign: "center",
+  marginHorizontal: spacing.xs,
+})
+
+const $controlsRow: ViewStyle = {
+  alignItems: "center",
+  justifyContent: "space-between",
+}
+
+const $iconButton: ViewStyle = {
+  width: 44,
+  height: 44,
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $disabled: ViewStyle = {
+  opacity: 0.4,
+}
+
+const $thumbnail: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  width: 44,
+  height: 44,
+  borderRadius: 6,
+  overflow: "hidden",
+  borderWidth: 1,
+  borderColor: colors.cameraForeground,
+})
+
+const $shutter: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  width: 72,
+  height: 72,
+  borderRadius: 36,
+  borderWidth: 4,
+  borderColor: colors.cameraForeground,
+  backgroundColor: colors.cameraForeground,
+})
+
+const $shutterPressed: ViewStyle = {
+  transform: [{ scale: 0.92 }],
+}
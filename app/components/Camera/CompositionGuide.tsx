@@ -0,0 +1,85 @@
+import { memo, useState } from "react"
+import { LayoutChangeEvent, StyleProp, View, ViewStyle } from "react-native"
+import Svg, { Line, Path } from "react-native-svg"
+
+import { isRTL } from "@/i18n"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import { compositionGuideShapes, CompositionGuideType } from "@/utils/composition"
+
+export interface CompositionGuideProps {
+  /**
+   * Which guide to draw.
+   */
+  guide: CompositionGuideType
+  /**
+   * Flip asymmetric guides horizontally. Defaults to the layout direction, so the
+   * golden spiral opens towards where right-to-left readers start.
+   */
+  mirrored?: boolean
+  /**
+   * Width of the guide lines. Default: 1
+   */
+  strokeWidth?: number
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * Composition guide lines drawn over the camera preview. Fills its parent and
+ * follows its shape, so rotating the device re-lays the guide for the new orientation.
+ * @param {CompositionGuideProps} props - The props for the `CompositionGuide` component.
+ * @returns {JSX.Element} The rendered `CompositionGuide` component.
+ */
+export const CompositionGuide = memo(function CompositionGuide(props: CompositionGuideProps) {
+  const { guide, mirrored = !!isRTL, strokeWidth = 1, style: $styleOverride } = props
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const {
+    theme: { colors },
+  } = useAppTheme()
+
+  function handleLayout(event: LayoutChangeEvent) {
+    const { width, height } = event.nativeEvent.layout
+    setSize((current) =>
+      current.width === width && current.height === height ? current : { width, height },
+    )
+  }
+
+  const shapes = compositionGuideShapes(guide, size.width, size.height, { mirrored })
+  const stroke = colors.cameraForeground
+
+  return (
+    <View
+      style={[$styles.absoluteFill, $styleOverride]}
+      pointerEvents="none"
+      onLayout={handleLayout}
+      testID="composition-guide"
+    >
+      {shapes.length > 0 && (
+        <Svg width={size.width} height={size.height} style={$guide}>
+          {shapes.map((shape, index) =>
+            shape.type === "line" ? (
+              <Line
+                key={index}
+                x1={shape.x1}
+                y1={shape.y1}
+                x2={shape.x2}
+                y2={shape.y2}
+                stroke={stroke}
+                strokeWidth={strokeWidth}
+              />
+            ) : (
+              <Path key={index} d={shape.d} stroke={stroke} strokeWidth={strokeWidth} fill="none" />
+            ),
+          )}
+        </Svg>
+      )}
+    </View>
+  )
+})
+
+const $guide: ViewStyle = {
+  opacity: 0.6,
+}
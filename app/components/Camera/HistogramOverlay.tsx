@@ -0,0 +1,173 @@
+import { memo, useMemo } from "react"
+import { StyleProp, TextStyle, View, ViewStyle } from "react-native"
+import Svg, { Path } from "react-native-svg"
+
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { analyzeExposure, normalizeHistograms, RgbaImage } from "@/utils/imageAnalysis"
+
+export interface HistogramOverlayProps {
+  /**
+   * The frame to analyze. Nothing is drawn while this is null.
+   */
+  frame: RgbaImage | null
+  /**
+   * Draw the luminance histogram only, or luminance with the red, green and blue
+   * channels on top. Default: rgb
+   */
+  mode?: "luminance" | "rgb"
+  /**
+   * Chart size in points. Default: 160 x 64
+   */
+  width?: number
+  height?: number
+  /**
+   * Fraction (0-1) of clipped pixels above which the clipping readout turns into a warning.
+   * Default: 0.01
+   */
+  warningThreshold?: number
+  /**
+   * Roughly how many pixels are sampled per frame. Large frames are subsampled to stay
+   * under this so the overlay keeps up with the preview. Default: 4096
+   */
+  maxSamples?: number
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+const BINS = 64
+
+/**
+ * A live exposure histogram with highlight and shadow clipping readouts,
+ * meant to sit on top of the camera preview.
+ * @param {HistogramOverlayProps} props - The props for the `HistogramOverlay` component.
+ * @returns {JSX.Element} The rendered `HistogramOverlay` component.
+ */
+export const HistogramOverlay = memo(function HistogramOverlay(props: HistogramOverlayProps) {
+  const {
+    frame,
+    mode = "rgb",
+    width = 160,
+    height = 64,
+    warningThreshold = 0.01,
+    maxSamples = 4096,
+    style: $styleOverride,
+  } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const analysis = useMemo(() => {
+    if (!frame) return null
+    const step = Math.max(1, Math.ceil(Math.sqrt((frame.width * frame.height) / maxSamples)))
+    return analyzeExposure(frame, { bins: BINS, step })
+  }, [frame, maxSamples])
+
+  if (!analysis) return null
+
+  const [luminance, red, green, blue] = normalizeHistograms(
+    analysis.luminance,
+    analysis.red,
+    analysis.green,
+    analysis.blue,
+  )
+  const { highlights, shadows } = analysis.clipping.overall
+
+  return (
+    <View
+      style={themed([$container, $styleOverride])}
+      accessibilityLabel={translate("histogramComponent:label")}
+      testID="histogram-overlay"
+    >
+      <Svg width={width} height={height}>
+        <Path d={areaPath(luminance, width, height)} fill={colors.histogramLuminance} />
+        {mode === "rgb" && (
+          <>
+            <Path
+              d={linePath(red, width, height)}
+              stroke={colors.histogramRed}
+              strokeWidth={1}
+              fill="none"
+            />
+            <Path
+              d={linePath(green, width, height)}
+              stroke={colors.histogramGreen}
+              strokeWidth={1}
+              fill="none"
+            />
+            <Path
+              d={linePath(blue, width, height)}
+              stroke={colors.histogramBlue}
+              strokeWidth={1}
+              fill="none"
+            />
+          </>
+        )}
+      </Svg>
+
+      <View style={$readouts}>
+        <Text
+          testID="histogram-shadows"
+          tx="histogramComponent:shadows"
+          txOptions={{ percent: formatPercent(shadows) }}
+          size="xxs"
+          style={themed([$readout, shadows > warningThreshold && $warning])}
+        />
+        <Text
+          testID="histogram-highlights"
+          tx="histogramComponent:highlights"
+          txOptions={{ percent: formatPercent(highlights) }}
+          size="xxs"
+          style={themed([$readout, highlights > warningThreshold && $warning])}
+        />
+      </View>
+    </View>
+  )
+})
+
+function formatPercent(fraction: number) {
+  return (fraction * 100).toFixed(1)
+}
+
+/**
+ * Maps each bucket to a point, darkest on the left, tallest bucket touching the top.
+ */
+function points(values: number[], width: number, height: number) {
+  const span = Math.max(1, values.length - 1)
+  return values.map(
+    (value, i) => `${((i / span) * width).toFixed(1)},${((1 - value) * height).toFixed(1)}`,
+  )
+}
+
+function linePath(values: number[], width: number, height: number) {
+  return `M${points(values, width, height).join("L")}`
+}
+
+function areaPath(values: number[], width: number, height: number) {
+  return `M0,${height}L${points(values, width, height).join("L")}L${width},${height}Z`
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  alignSelf: "flex-start",
+  padding: spacing.xs,
+  borderRadius: 6,
+  backgroundColor: colors.palette.overlay50,
+})
+
+const $readouts: ViewStyle = {
+  flexDirection: "row",
+  justifyContent: "space-between",
+}
+
+const $readout: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.cameraForeground,
+})
+
+const $warning: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
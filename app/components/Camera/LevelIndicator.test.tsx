@@ -0,0 +1,69 @@
+import { StyleSheet, ViewStyle } from "react-native"
+import { act, render, renderHook } from "@testing-library/react-native"
+
+import { FakeMotionSource, useLevel } from "@/services/motion"
+import { colors } from "@/theme/colors"
+import { ThemeProvider } from "@/theme/context"
+
+import { LevelIndicator } from "./LevelIndicator"
+
+function renderLevel(roll: number, pitch: number, tolerance?: number) {
+  return render(
+    <ThemeProvider>
+      <LevelIndicator reading={{ roll, pitch }} tolerance={tolerance} />
+    </ThemeProvider>,
+  )
+}
+
+const styleOf = (element: { props: { style: unknown } }): ViewStyle =>
+  StyleSheet.flatten(element.props.style as ViewStyle)
+
+describe("LevelIndicator", () => {
+  it("counter-rotates the horizon while the device is tilted", () => {
+    const { getByTestId } = renderLevel(5, 0)
+    const horizon = styleOf(getByTestId("level-horizon"))
+
+    expect(horizon.transform).toEqual([{ rotate: "-5deg" }])
+    expect(horizon.backgroundColor).toBe(colors.cameraForeground)
+  })
+
+  it("snaps to level and turns green within the tolerance", () => {
+    const { getByTestId } = renderLevel(1.5, -0.5, 2)
+    const horizon = styleOf(getByTestId("level-horizon"))
+    const bubble = styleOf(getByTestId("level-bubble"))
+
+    expect(horizon.transform).toEqual([{ rotate: "0deg" }])
+    expect(horizon.backgroundColor).toBe(colors.levelAligned)
+    expect(bubble.backgroundColor).toBe(colors.levelAligned)
+  })
+
+  it("moves the bubble with the pitch", () => {
+    const { getByTestId } = renderLevel(0, 5)
+    const bubble = styleOf(getByTestId("level-bubble"))
+
+    expect(bubble.transform).toEqual([{ translateY: 20 }])
+    expect(bubble.backgroundColor).toBe(colors.cameraForeground)
+  })
+})
+
+describe("useLevel", () => {
+  it("streams filtered readings while active and stops the source after", () => {
+    const source = new FakeMotionSource({ intervalMs: 0 })
+    const { result, rerender } = renderHook(
+      ({ active }: { active: boolean }) => useLevel(source, active),
+      {
+        initialProps: { active: true },
+      },
+    )
+
+    expect(result.current).toBeNull()
+    act(() => {
+      source.emitTilt({ roll: 3, pitch: 0 }, 0)
+    })
+    expect(result.current?.roll).toBeCloseTo(3)
+
+    rerender({ active: false })
+    expect(source.isRunning).toBe(false)
+    expect(result.current).toBeNull()
+  })
+})
@@ -0,0 +1,140 @@
+import { memo } from "react"
+import { StyleProp, TextStyle, View, ViewStyle } from "react-native"
+
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import { isLevel, LevelReading } from "@/services/motion"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+export interface LevelIndicatorProps {
+  /**
+   * The latest roll/pitch estimate. Nothing is drawn while this is null.
+   */
+  reading: LevelReading | null
+  /**
+   * How many degrees off level still counts as level. Default: 1
+   */
+  tolerance?: number
+  /**
+   * How far the pitch bubble moves per degree of tilt, in points. Default: 4
+   */
+  pitchScale?: number
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+const HORIZON_WIDTH = 160
+const MAX_PITCH_OFFSET = 60
+
+/**
+ * A horizon line that counter-rotates with the device and a bubble that follows its
+ * forward/back tilt. Each turns green and snaps into place once within `tolerance`.
+ * @param {LevelIndicatorProps} props - The props for the `LevelIndicator` component.
+ * @returns {JSX.Element} The rendered `LevelIndicator` component.
+ */
+export const LevelIndicator = memo(function LevelIndicator(props: LevelIndicatorProps) {
+  const { reading, tolerance = 1, pitchScale = 4, style: $styleOverride } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  if (!reading) return null
+
+  const rollLevel = isLevel(reading.roll, tolerance)
+  const pitchLevel = isLevel(reading.pitch, tolerance)
+  const rollColor = rollLevel ? colors.levelAligned : colors.cameraForeground
+  const pitchColor = pitchLevel ? colors.levelAligned : colors.cameraForeground
+
+  // snap to exactly level inside the tolerance so the line doesn't jitter
+  const rotation = rollLevel ? 0 : -reading.roll
+  const offset = pitchLevel
+    ? 0
+    : Math.max(-MAX_PITCH_OFFSET, Math.min(MAX_PITCH_OFFSET, reading.pitch * pitchScale))
+
+  return (
+    <View
+      style={[$container, $styleOverride]}
+      pointerEvents="none"
+      accessibilityLabel={translate("levelComponent:label", {
+        roll: reading.roll.toFixed(0),
+        pitch: reading.pitch.toFixed(0),
+      })}
+      testID="level-indicator"
+    >
+      <View style={$horizonRow}>
+        <View style={[$reference, { backgroundColor: rollColor }]} />
+        <View
+          testID="level-horizon"
+          style={[
+            $horizon,
+            { backgroundColor: rollColor, transform: [{ rotate: `${rotation}deg` }] },
+          ]}
+        />
+        <View style={[$reference, { backgroundColor: rollColor }]} />
+      </View>
+
+      <View style={[$target, { borderColor: pitchColor }]}>
+        <View
+          testID="level-bubble"
+          style={[$bubble, { backgroundColor: pitchColor, transform: [{ translateY: offset }] }]}
+        />
+      </View>
+
+      <Text
+        testID="level-roll"
+        tx="levelComponent:angle"
+        txOptions={{ angle: (rollLevel ? 0 : reading.roll).toFixed(0) }}
+        size="xxs"
+        style={themed([$angle, { color: rollColor }])}
+      />
+    </View>
+  )
+})
+
+const $container: ViewStyle = {
+  ...$styles.absoluteFill,
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $horizonRow: ViewStyle = {
+  flexDirection: "row",
+  alignItems: "center",
+}
+
+const $reference: ViewStyle = {
+  width: 16,
+  height: 2,
+}
+
+const $horizon: ViewStyle = {
+  width: HORIZON_WIDTH,
+  height: 2,
+  marginHorizontal: 8,
+}
+
+const $target: ViewStyle = {
+  position: "absolute",
+  width: 28,
+  height: 28,
+  borderRadius: 14,
+  borderWidth: 1,
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $bubble: ViewStyle = {
+  width: 8,
+  height: 8,
+  borderRadius: 4,
+}
+
+const $angle: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  position: "absolute",
+  marginTop: spacing.xxl,
+})
@@ -0,0 +1,103 @@
+import { useState } from "react"
+import { Modal, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { translate } from "@/i18n/translate"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+import { parseTags } from "./PhotoTagsSheet"
+
+export interface AddTagsSheetProps {
+  visible: boolean
+  onClose: () => void
+  /**
+   * Called with the tags typed in, when there are any.
+   */
+  onAdd: (tags: string[]) => void
+}
+
+/**
+ * A sheet for tags to add to several photos at once, on top of the tags each of them
+ * has. Tags are typed comma-separated.
+ * @param {AddTagsSheetProps} props - The props for the `AddTagsSheet` component.
+ * @returns {JSX.Element} The rendered `AddTagsSheet` component.
+ */
+export function AddTagsSheet(props: AddTagsSheetProps) {
+  const { visible, onClose, onAdd } = props
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable
+        style={$backdrop}
+        accessibilityRole="button"
+        accessibilityLabel={translate("common:cancel")}
+        onPress={onClose}
+      />
+      {/* mounted only while open, so it starts out empty every time */}
+      {visible && <AddTagsForm onAdd={onAdd} />}
+    </Modal>
+  )
+}
+
+function AddTagsForm(props: { onAdd: (tags: string[]) => void }) {
+  const { onAdd } = props
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["bottom"])
+  const [text, setText] = useState("")
+  const tags = parseTags(text)
+
+  return (
+    <View testID="add-tags-sheet" style={themed([$sheet, $insets])}>
+      <Text
+        preset="subheading"
+        tx="galleryScreen:selection.actions.addTags"
+        style={themed($title)}
+      />
+      <TextField
+        testID="add-tags-tags"
+        value={text}
+        onChangeText={setText}
+        labelTx="photoDetailScreen:tags.tags"
+        helperTx="galleryScreen:selection.tagsHelper"
+        autoCapitalize="none"
+        autoFocus
+        containerStyle={themed($field)}
+      />
+      <Button
+        testID="add-tags-add"
+        tx="galleryScreen:selection.addTags"
+        preset="reversed"
+        disabled={tags.length === 0}
+        onPress={() => onAdd(tags)}
+      />
+    </View>
+  )
+}
+
+const $backdrop: ViewStyle = {
+  flex: 1,
+}
+
+const $sheet: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  backgroundColor: colors.background,
+  borderTopLeftRadius: 16,
+  borderTopRightRadius: 16,
+  padding: spacing.lg,
+  shadowColor: colors.palette.neutral800,
+  shadowOffset: { width: 0, height: -2 },
+  shadowOpacity: 0.15,
+  shadowRadius: 8,
+  elevation: 12,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.md,
+})
@@ -0,0 +1,97 @@
+import { Modal, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { ListItem } from "@/components/ListItem"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import { useAlbumSummaries } from "@/services/albums"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+export interface AlbumChooserSheetProps {
+  visible: boolean
+  onClose: () => void
+  /**
+   * Called with the album the user picked.
+   */
+  onChoose: (albumId: string) => void
+}
+
+/**
+ * A sheet listing the user's plain albums, to pick the one photos go in. Smart
+ * albums aren't listed; their rules decide for them.
+ * @param {AlbumChooserSheetProps} props - The props for the `AlbumChooserSheet` component.
+ * @returns {JSX.Element} The rendered `AlbumChooserSheet` component.
+ */
+export function AlbumChooserSheet(props: AlbumChooserSheetProps) {
+  const { visible, onClose, onChoose } = props
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["bottom"])
+  const albums = useAlbumSummaries().filter(({ album }) => album.kind === "user")
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable
+        style={$backdrop}
+        accessibilityRole="button"
+        accessibilityLabel={translate("common:cancel")}
+        onPress={onClose}
+      />
+      <View testID="album-chooser-sheet" style={themed([$sheet, $insets])}>
+        <Text
+          preset="subheading"
+          tx="galleryScreen:selection.actions.addToAlbum"
+          style={themed($title)}
+        />
+        {albums.length === 0 && (
+          <Text tx="galleryScreen:selection.noAlbums" size="sm" style={themed($dim)} />
+        )}
+        {albums.map(({ album, count }) => (
+          <ListItem
+            key={album.id}
+            testID={`album-chooser-${album.id}`}
+            text={album.name}
+            RightComponent={
+              <Text
+                tx="galleryScreen:albums.count"
+                txOptions={{ count }}
+                size="xs"
+                style={themed([$dim, $count])}
+              />
+            }
+            bottomSeparator
+            onPress={() => onChoose(album.id)}
+          />
+        ))}
+      </View>
+    </Modal>
+  )
+}
+
+const $backdrop: ViewStyle = {
+  flex: 1,
+}
+
+const $sheet: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  backgroundColor: colors.background,
+  borderTopLeftRadius: 16,
+  borderTopRightRadius: 16,
+  padding: spacing.lg,
+  shadowColor: colors.palette.neutral800,
+  shadowOffset: { width: 0, height: -2 },
+  shadowOpacity: 0.15,
+  shadowRadius: 8,
+  elevation: 12,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $count: TextStyle = {
+  alignSelf: "center",
+}
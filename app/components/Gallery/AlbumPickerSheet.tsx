@@ -0,0 +1,89 @@
+import { Modal, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { Text } from "@/components/Text"
+import { Checkbox } from "@/components/Toggle/Checkbox"
+import { translate } from "@/i18n/translate"
+import { albumStore, useAlbumSummaries } from "@/services/albums"
+import type { PhotoRecord } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+export interface AlbumPickerSheetProps {
+  photo: PhotoRecord
+  visible: boolean
+  onClose: () => void
+}
+
+/**
+ * A sheet listing the user's plain albums with a checkbox each, to put a photo in
+ * or take it out of them. Smart albums aren't listed; their rules decide for them.
+ * @param {AlbumPickerSheetProps} props - The props for the `AlbumPickerSheet` component.
+ * @returns {JSX.Element} The rendered `AlbumPickerSheet` component.
+ */
+export function AlbumPickerSheet(props: AlbumPickerSheetProps) {
+  const { photo, visible, onClose } = props
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["bottom"])
+  const albums = useAlbumSummaries().filter(({ album }) => album.kind === "user")
+
+  const toggle = (albumId: string, add: boolean) => {
+    if (add) albumStore.addPhotos(albumId, [photo.id])
+    else albumStore.removePhotos(albumId, [photo.id])
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable
+        style={$backdrop}
+        accessibilityRole="button"
+        accessibilityLabel={translate("common:cancel")}
+        onPress={onClose}
+      />
+      <View testID="album-picker-sheet" style={themed([$sheet, $insets])}>
+        <Text preset="subheading" tx="photoDetailScreen:albums.title" style={themed($title)} />
+        {albums.length === 0 && (
+          <Text tx="photoDetailScreen:albums.empty" size="sm" style={themed($dim)} />
+        )}
+        {albums.map(({ album }) => (
+          <Checkbox
+            key={album.id}
+            testID={`album-picker-${album.id}`}
+            value={photo.albumIds.includes(album.id)}
+            onValueChange={(add) => toggle(album.id, add)}
+            label={album.name}
+            containerStyle={themed($option)}
+          />
+        ))}
+      </View>
+    </Modal>
+  )
+}
+
+const $backdrop: ViewStyle = {
+  flex: 1,
+}
+
+const $sheet: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  backgroundColor: colors.background,
+  borderTopLeftRadius: 16,
+  borderTopRightRadius: 16,
+  padding: spacing.lg,
+  shadowColor: colors.palette.neutral800,
+  shadowOffset: { width: 0, height: -2 },
+  shadowOpacity: 0.15,
+  shadowRadius: 8,
+  elevation: 12,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $option: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
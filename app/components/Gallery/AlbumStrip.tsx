@@ -0,0 +1,167 @@
+import { Image, ImageStyle, Pressable, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { Album, AlbumSummary } from "@/services/albums"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+export interface AlbumStripProps {
+  albums: AlbumSummary[]
+  /**
+   * Edge length of each album cover. Default: 88
+   */
+  coverSize?: number
+  onPressAlbum: (album: Album) => void
+  onLongPressAlbum?: (album: Album) => void
+  onPressNew: () => void
+  /**
+   * How many photos are in the trash. The trash card only shows while there are some.
+   */
+  trashCount?: number
+  onPressTrash?: () => void
+}
+
+/**
+ * A horizontally scrolling row of albums, each with its latest photo as the cover,
+ * followed by a card that starts a new album and, when there's anything in it, the
+ * trash. Smart albums are marked with a sparkle.
+ * @param {AlbumStripProps} props - The props for the `AlbumStrip` component.
+ * @returns {JSX.Element} The rendered `AlbumStrip` component.
+ */
+export function AlbumStrip(props: AlbumStripProps) {
+  const {
+    albums,
+    coverSize = 88,
+    onPressAlbum,
+    onLongPressAlbum,
+    onPressNew,
+    trashCount = 0,
+    onPressTrash,
+  } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+  const $size = { width: coverSize, height: coverSize }
+
+  return (
+    <View>
+      <Text preset="formLabel" tx="galleryScreen:albums.title" style={themed($title)} />
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {albums.map(({ album, count, cover }) => (
+          <Pressable
+            key={album.id}
+            testID={`album-card-${album.id}`}
+            accessibilityRole="button"
+            accessibilityHint={
+              album.kind === "smart" ? translate("galleryScreen:albums.smart") : undefined
+            }
+            onPress={() => onPressAlbum(album)}
+            onLongPress={onLongPressAlbum && (() => onLongPressAlbum(album))}
+            style={[themed($card), { width: coverSize }]}
+          >
+            <View style={[themed($cover), $size]}>
+              {cover && <Image source={{ uri: cover.uri }} style={$image} resizeMode="cover" />}
+              {album.kind === "smart" && (
+                <View style={themed($smartBadge)} pointerEvents="none">
+                  <Ionicons name="sparkles" size={12} color={colors.palette.neutral100} />
+                </View>
+              )}
+            </View>
+            <Text text={album.name} size="xs" weight="medium" numberOfLines={1} />
+            <Text
+              tx="galleryScreen:albums.count"
+              txOptions={{ count }}
+              size="xxs"
+              style={themed($dim)}
+            />
+          </Pressable>
+        ))}
+        <Pressable
+          testID="album-card-new"
+          accessibilityRole="button"
+          onPress={onPressNew}
+          style={[themed($card), { width: coverSize }]}
+        >
+          <View style={[themed([$cover, $newCover]), $size]}>
+            <Ionicons name="add" size={28} color={colors.tint} />
+          </View>
+          <Text tx="galleryScreen:albums.new" size="xs" style={themed($new)} numberOfLines={1} />
+        </Pressable>
+        {onPressTrash && trashCount > 0 && (
+          <Pressable
+            testID="album-card-trash"
+            accessibilityRole="button"
+            onPress={onPressTrash}
+            style={[themed($card), { width: coverSize }]}
+          >
+            <View style={[themed([$cover, $trashCover]), $size]}>
+              <Ionicons name="trash-outline" size={28} color={colors.textDim} />
+            </View>
+            <Text tx="galleryScreen:albums.trash" size="xs" weight="medium" numberOfLines={1} />
+            <Text
+              tx="galleryScreen:albums.count"
+              txOptions={{ count: trashCount }}
+              size="xxs"
+              style={themed($dim)}
+            />
+          </Pressable>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.sm,
+  marginBottom: spacing.xs,
+})
+
+const $card: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginEnd: spacing.sm,
+})
+
+const $cover: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  borderRadius: 8,
+  overflow: "hidden",
+  backgroundColor: colors.palette.neutral300,
+  marginBottom: spacing.xxs,
+})
+
+const $newCover: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  alignItems: "center",
+  justifyContent: "center",
+  backgroundColor: colors.background,
+  borderWidth: 1,
+  borderStyle: "dashed",
+  borderColor: colors.border,
+})
+
+const $trashCover: ViewStyle = {
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $image: ImageStyle = {
+  width: "100%",
+  height: "100%",
+}
+
+const $smartBadge: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  position: "absolute",
+  top: 4,
+  end: 4,
+  padding: 2,
+  borderRadius: 8,
+  backgroundColor: colors.palette.overlay50,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $new: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
@@ -0,0 +1,148 @@
+import { Pressable, TextStyle, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import { BatchJob, batchJobs, useBatchJobs } from "@/services/batch"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+/**
+ * The batch jobs started from the gallery, each with a progress bar and a button
+ * that cancels it while it runs and dismisses it once it's done. Renders nothing
+ * while there are none.
+ * @returns {JSX.Element | null} The rendered `BatchJobList` component.
+ */
+export function BatchJobList() {
+  const { themed } = useAppTheme()
+  const jobs = useBatchJobs()
+  if (jobs.length === 0) return null
+
+  return (
+    <View testID="batch-jobs" style={themed($list)}>
+      {jobs.map((job) => (
+        <BatchJobRow key={job.id} job={job} />
+      ))}
+    </View>
+  )
+}
+
+function BatchJobRow({ job }: { job: BatchJob }) {
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+  const running = job.status === "running"
+  const progress = job.total ? job.processed / job.total : 1
+
+  return (
+    <View testID={`batch-job-${job.id}`} style={$row}>
+      <View style={$body}>
+        <View style={$labels}>
+          <Text
+            tx={`galleryScreen:batch.${job.action}`}
+            size="xs"
+            weight="medium"
+            numberOfLines={1}
+            style={$title}
+          />
+          <Text
+            {...(job.status === "cancelled"
+              ? { tx: "galleryScreen:batch.cancelled" }
+              : {
+                  tx: "galleryScreen:batch.progress",
+                  txOptions: { processed: job.processed, total: job.total },
+                })}
+            size="xxs"
+            style={themed($dim)}
+          />
+        </View>
+        <View style={themed($track)}>
+          <View
+            style={[
+              themed(job.status === "cancelled" ? $fillCancelled : $fill),
+              { width: `${Math.round(progress * 100)}%` },
+            ]}
+          />
+        </View>
+        {job.failed > 0 && (
+          <Text
+            tx="galleryScreen:batch.failed"
+            txOptions={{ count: job.failed }}
+            size="xxs"
+            style={themed($failed)}
+          />
+        )}
+      </View>
+      <Pressable
+        testID={`batch-job-${job.id}-${running ? "cancel" : "dismiss"}`}
+        accessibilityRole="button"
+        accessibilityLabel={translate(running ? "common:cancel" : "galleryScreen:batch.dismiss")}
+        onPress={() => (running ? batchJobs.cancel(job.id) : batchJobs.dismiss(job.id))}
+        hitSlop={8}
+      >
+        <Ionicons
+          name={running ? "close-circle-outline" : "checkmark-circle-outline"}
+          size={22}
+          color={colors.textDim}
+        />
+      </Pressable>
+    </View>
+  )
+}
+
+const $list: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingVertical: spacing.xs,
+  rowGap: spacing.xs,
+  borderTopWidth: 1,
+  borderTopColor: colors.separator,
+  backgroundColor: colors.background,
+})
+
+const $row: ViewStyle = {
+  flexDirection: "row",
+  alignItems: "center",
+  columnGap: 12,
+}
+
+const $body: ViewStyle = {
+  flex: 1,
+}
+
+const $labels: ViewStyle = {
+  flexDirection: "row",
+  justifyContent: "space-between",
+  alignItems: "baseline",
+}
+
+const $title: TextStyle = {
+  flexShrink: 1,
+}
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $track: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  height: 4,
+  borderRadius: 2,
+  marginTop: spacing.xxs,
+  backgroundColor: colors.palette.neutral300,
+  overflow: "hidden",
+})
+
+const $fill: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  height: "100%",
+  backgroundColor: colors.tint,
+})
+
+const $fillCancelled: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  height: "100%",
+  backgroundColor: colors.textDim,
+})
+
+const $failed: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.error,
+  marginTop: spacing.xxxs,
+})
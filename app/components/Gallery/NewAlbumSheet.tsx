@@ -0,0 +1,171 @@
+import { useState } from "react"
+import { Modal, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { Checkbox } from "@/components/Toggle/Checkbox"
+import { Switch } from "@/components/Toggle/Switch"
+import { translate } from "@/i18n/translate"
+import type { PhotoRule, PhotoRuleSet } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+export interface NewAlbumSheetProps {
+  visible: boolean
+  onClose: () => void
+  /**
+   * Called with the album's name, plus its rules when it is a smart album.
+   */
+  onCreate: (name: string, rules?: PhotoRuleSet) => void
+}
+
+interface SmartForm {
+  favorites: boolean
+  tags: string
+  cameras: string
+}
+
+const EMPTY_FORM: SmartForm = { favorites: false, tags: "", cameras: "" }
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+function smartRules(form: SmartForm): PhotoRuleSet {
+  const rules: PhotoRule[] = []
+  if (form.favorites) rules.push({ type: "favorite", favorite: true })
+  const tags = splitList(form.tags)
+  if (tags.length) rules.push({ type: "tags", tags, match: "any" })
+  const models = splitList(form.cameras)
+  if (models.length) rules.push({ type: "cameraModel", models })
+  return { match: "all", rules }
+}
+
+/**
+ * A sheet for naming a new album. Switched to a smart album, it also asks which
+ * photos belong in it; every condition filled in has to hold.
+ * @param {NewAlbumSheetProps} props - The props for the `NewAlbumSheet` component.
+ * @returns {JSX.Element} The rendered `NewAlbumSheet` component.
+ */
+export function NewAlbumSheet(props: NewAlbumSheetProps) {
+  const { visible, onClose, onCreate } = props
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["bottom"])
+  const [name, setName] = useState("")
+  const [smart, setSmart] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const rules = smart ? smartRules(form) : undefined
+  const canCreate = !!name.trim() && (!rules || rules.rules.length > 0)
+
+  const reset = () => {
+    setName("")
+    setSmart(false)
+    setForm(EMPTY_FORM)
+  }
+
+  const close = () => {
+    reset()
+    onClose()
+  }
+
+  const create = () => {
+    if (!canCreate) return
+    onCreate(name.trim(), rules)
+    reset()
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={close}>
+      <Pressable
+        style={$backdrop}
+        accessibilityRole="button"
+        accessibilityLabel={translate("common:cancel")}
+        onPress={close}
+      />
+      <View testID="new-album-sheet" style={themed([$sheet, $insets])}>
+        <Text preset="subheading" tx="galleryScreen:albums.new" style={themed($title)} />
+        <TextField
+          testID="new-album-name"
+          value={name}
+          onChangeText={setName}
+          labelTx="galleryScreen:albums.name"
+          containerStyle={themed($field)}
+          onSubmitEditing={create}
+        />
+        <Switch
+          testID="new-album-smart"
+          value={smart}
+          onValueChange={setSmart}
+          labelTx="galleryScreen:albums.smart"
+          helperTx="galleryScreen:albums.smartHelper"
+          labelPosition="left"
+          containerStyle={themed($field)}
+        />
+        {smart && (
+          <>
+            <Checkbox
+              testID="new-album-favorites"
+              value={form.favorites}
+              onValueChange={(favorites) => setForm((current) => ({ ...current, favorites }))}
+              labelTx="galleryScreen:albums.rules.favorites"
+              containerStyle={themed($field)}
+            />
+            <TextField
+              testID="new-album-tags"
+              value={form.tags}
+              onChangeText={(tags) => setForm((current) => ({ ...current, tags }))}
+              labelTx="galleryScreen:albums.rules.tags"
+              placeholderTx="galleryScreen:albums.rules.tagsPlaceholder"
+              autoCapitalize="none"
+              containerStyle={themed($field)}
+            />
+            <TextField
+              testID="new-album-cameras"
+              value={form.cameras}
+              onChangeText={(cameras) => setForm((current) => ({ ...current, cameras }))}
+              labelTx="galleryScreen:albums.rules.cameras"
+              placeholderTx="galleryScreen:albums.rules.camerasPlaceholder"
+              containerStyle={themed($field)}
+            />
+          </>
+        )}
+        <Button
+          testID="new-album-create"
+          tx="galleryScreen:albums.create"
+          preset="reversed"
+          disabled={!canCreate}
+          onPress={create}
+        />
+      </View>
+    </Modal>
+  )
+}
+
+const $backdrop: ViewStyle = {
+  flex: 1,
+}
+
+const $sheet: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  backgroundColor: colors.background,
+  borderTopLeftRadius: 16,
+  borderTopRightRadius: 16,
+  padding: spacing.lg,
+  shadowColor: colors.palette.neutral800,
+  shadowOffset: { width: 0, height: -2 },
+  shadowOpacity: 0.15,
+  shadowRadius: 8,
+  elevation: 12,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.md,
+})
@@ -0,0 +1,96 @@
+import { ComponentProps, ReactElement, useCallback } from "react"
+import { FlatList, useWindowDimensions, ViewStyle } from "react-native"
+
+import type { PhotoRecord } from "@/services/library"
+
+import { PhotoThumbnail } from "./PhotoThumbnail"
+
+export interface PhotoGridProps {
+  photos: PhotoRecord[]
+  /**
+   * How many thumbnails per row. Default: 3
+   */
+  columns?: number
+  /**
+   * Space between thumbnails in pixels. Default: 2
+   */
+  gap?: number
+  onPressPhoto?: (photo: PhotoRecord) => void
+  onLongPressPhoto?: (photo: PhotoRecord) => void
+  /**
+   * The picked photos, in selection mode. Leave undefined outside of it.
+   */
+  selectedIds?: ReadonlySet<string>
+  /**
+   * Called when the list is scrolled close to its end. Use it to load the next page.
+   */
+  onEndReached?: () => void
+  ListHeaderComponent?: ReactElement
+  ListEmptyComponent?: ReactElement
+  /**
+   * Pass any additional props directly to the FlatList component.
+   */
+  FlatListProps?: Partial<ComponentProps<typeof FlatList<PhotoRecord>>>
+}
+
+/**
+ * A virtualized grid of square photo thumbnails.
+ * @param {PhotoGridProps} props - The props for the `PhotoGrid` component.
+ * @returns {JSX.Element} The rendered `PhotoGrid` component.
+ */
+export function PhotoGrid(props: PhotoGridProps) {
+  const {
+    photos,
+    columns = 3,
+    gap = 2,
+    onPressPhoto,
+    onLongPressPhoto,
+    selectedIds,
+    onEndReached,
+    ListHeaderComponent,
+    ListEmptyComponent,
+    FlatListProps,
+  } = props
+  const { width } = useWindowDimensions()
+  const size = Math.floor((width - gap * (columns - 1)) / columns)
+
+  const renderItem = useCallback(
+    ({ item, index }: { item: PhotoRecord; index: number }) => (
+      <PhotoThumbnail
+        photo={item}
+        size={size}
+        onPress={onPressPhoto}
+        onLongPress={onLongPressPhoto}
+        selected={selectedIds?.has(item.id)}
+        style={[index % columns !== columns - 1 && { marginEnd: gap }, { marginBottom: gap }]}
+      />
+    ),
+    [size, gap, columns, onPressPhoto, onLongPressPhoto, selectedIds],
+  )
+
+  return (
+    <FlatList
+      key={`grid-${columns}`}
+      data={photos}
+      numColumns={columns}
+      keyExtractor={keyExtractor}
+      renderItem={renderItem}
+      extraData={selectedIds}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
+      initialNumToRender={columns * 8}
+      windowSize={7}
+      removeClippedSubviews
+      ListHeaderComponent={ListHeaderComponent}
+      ListEmptyComponent={ListEmptyComponent}
+      contentContainerStyle={$content}
+      {...FlatListProps}
+    />
+  )
+}
+
+const keyExtractor = (photo: PhotoRecord) => photo.id
+
+const $content: ViewStyle = {
+  flexGrow: 1,
+}
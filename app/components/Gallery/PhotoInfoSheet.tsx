@@ -0,0 +1,95 @@
+import { Modal, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import { PhotoRecord, usePhotoDetails } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+export interface PhotoInfoSheetProps {
+  photo: PhotoRecord
+  visible: boolean
+  onClose: () => void
+}
+
+/**
+ * A sheet that slides up from the bottom with what's known about a photo: camera,
+ * exposure, location and so on. The file is only read while the sheet is open.
+ * @param {PhotoInfoSheetProps} props - The props for the `PhotoInfoSheet` component.
+ * @returns {JSX.Element} The rendered `PhotoInfoSheet` component.
+ */
+export function PhotoInfoSheet(props: PhotoInfoSheetProps) {
+  const { photo, visible, onClose } = props
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable
+        style={$backdrop}
+        accessibilityRole="button"
+        accessibilityLabel={translate("common:cancel")}
+        onPress={onClose}
+      />
+      {visible && <PhotoInfo photo={photo} />}
+    </Modal>
+  )
+}
+
+function PhotoInfo(props: { photo: PhotoRecord }) {
+  const { themed } = useAppTheme()
+  const details = usePhotoDetails(props.photo)
+  const $insets = useSafeAreaInsetsStyle(["bottom"])
+
+  return (
+    <View testID="photo-info-sheet" style={themed([$sheet, $insets])}>
+      <View style={themed($handle)} />
+      <Text preset="subheading" tx="photoDetailScreen:info.title" style={themed($title)} />
+      {details.map(({ key, value }) => (
+        <View key={key} style={themed($row)}>
+          <Text tx={`photoDetailScreen:info.${key}`} size="xs" style={themed($label)} />
+          <Text text={value} size="sm" testID={`photo-info-${key}`} />
+        </View>
+      ))}
+    </View>
+  )
+}
+
+const $backdrop: ViewStyle = {
+  flex: 1,
+}
+
+const $sheet: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  backgroundColor: colors.background,
+  borderTopLeftRadius: 16,
+  borderTopRightRadius: 16,
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+  shadowColor: colors.palette.neutral800,
+  shadowOffset: { width: 0, height: -2 },
+  shadowOpacity: 0.15,
+  shadowRadius: 8,
+  elevation: 12,
+})
+
+const $handle: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  alignSelf: "center",
+  width: 36,
+  height: 4,
+  borderRadius: 2,
+  backgroundColor: colors.border,
+  marginVertical: spacing.sm,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $row: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  paddingVertical: spacing.xs,
+  borderBottomWidth: 1,
+  borderBottomColor: colors.separator,
+})
+
+const $label: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
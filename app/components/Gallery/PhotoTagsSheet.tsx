@@ -0,0 +1,123 @@
+import { useState } from "react"
+import { Modal, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { translate } from "@/i18n/translate"
+import { photoLibrary, PhotoRecord } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { useSafeAreaInsetsStyle } from "@/utils/useSafeAreaInsetsStyle"
+
+export interface PhotoTagsSheetProps {
+  photo: PhotoRecord
+  visible: boolean
+  onClose: () => void
+}
+
+/**
+ * Reads tags typed comma-separated, dropping blanks and repeats.
+ */
+export function parseTags(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    ),
+  )
+}
+
+/**
+ * A sheet for a photo's caption and tags, both of which it can be searched by.
+ * Tags are typed comma-separated, and only saved when the user says so.
+ * @param {PhotoTagsSheetProps} props - The props for the `PhotoTagsSheet` component.
+ * @returns {JSX.Element} The rendered `PhotoTagsSheet` component.
+ */
+export function PhotoTagsSheet(props: PhotoTagsSheetProps) {
+  const { photo, visible, onClose } = props
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable
+        style={$backdrop}
+        accessibilityRole="button"
+        accessibilityLabel={translate("common:cancel")}
+        onPress={onClose}
+      />
+      {/* mounted only while open, so it starts from the photo as it is now */}
+      {visible && <PhotoTagsForm photo={photo} onDone={onClose} />}
+    </Modal>
+  )
+}
+
+function PhotoTagsForm(props: { photo: PhotoRecord; onDone: () => void }) {
+  const { photo, onDone } = props
+  const { themed } = useAppTheme()
+  const $insets = useSafeAreaInsetsStyle(["bottom"])
+  const [caption, setCaption] = useState(photo.caption ?? "")
+  const [tags, setTags] = useState(photo.tags.join(", "))
+
+  const save = () => {
+    photoLibrary.update(photo.id, {
+      caption: caption.trim() || undefined,
+      tags: parseTags(tags),
+    })
+    onDone()
+  }
+
+  return (
+    <View testID="photo-tags-sheet" style={themed([$sheet, $insets])}>
+      <Text preset="subheading" tx="photoDetailScreen:tags.title" style={themed($title)} />
+      <TextField
+        testID="photo-tags-caption"
+        value={caption}
+        onChangeText={setCaption}
+        labelTx="photoDetailScreen:tags.caption"
+        multiline
+        containerStyle={themed($field)}
+      />
+      <TextField
+        testID="photo-tags-tags"
+        value={tags}
+        onChangeText={setTags}
+        labelTx="photoDetailScreen:tags.tags"
+        helperTx="photoDetailScreen:tags.tagsHelper"
+        autoCapitalize="none"
+        containerStyle={themed($field)}
+      />
+      <Button
+        testID="photo-tags-save"
+        tx="photoDetailScreen:tags.save"
+        preset="reversed"
+        onPress={save}
+      />
+    </View>
+  )
+}
+
+const $backdrop: ViewStyle = {
+  flex: 1,
+}
+
+const $sheet: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  backgroundColor: colors.background,
+  borderTopLeftRadius: 16,
+  borderTopRightRadius: 16,
+  padding: spacing.lg,
+  shadowColor: colors.palette.neutral800,
+  shadowOffset: { width: 0, height: -2 },
+  shadowOpacity: 0.15,
+  shadowRadius: 8,
+  elevation: 12,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.md,
+})
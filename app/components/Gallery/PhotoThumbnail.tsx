@@ -0,0 +1,121 @@
+import { memo } from "react"
+import { Image, ImageStyle, Pressable, StyleProp, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { translate } from "@/i18n/translate"
+import type { PhotoRecord } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+export interface PhotoThumbnailProps {
+  photo: PhotoRecord
+  /**
+   * Edge length of the square thumbnail.
+   */
+  size: number
+  onPress?: (photo: PhotoRecord) => void
+  onLongPress?: (photo: PhotoRecord) => void
+  /**
+   * Whether the photo is picked, in selection mode. Leave undefined outside of it.
+   */
+  selected?: boolean
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * A square, cropped preview of a photo with its favorite and "likely blurry" badges,
+ * and in selection mode, a check mark showing whether it's picked.
+ * @param {PhotoThumbnailProps} props - The props for the `PhotoThumbnail` component.
+ * @returns {JSX.Element} The rendered `PhotoThumbnail` component.
+ */
+export const PhotoThumbnail = memo(function PhotoThumbnail(props: PhotoThumbnailProps) {
+  const { photo, size, onPress, onLongPress, selected, style } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  return (
+    <Pressable
+      testID={`photo-thumbnail-${photo.id}`}
+      accessibilityRole="imagebutton"
+      accessibilityState={selected === undefined ? undefined : { selected }}
+      onPress={onPress && (() => onPress(photo))}
+      onLongPress={onLongPress && (() => onLongPress(photo))}
+      accessibilityHint={
+        photo.sharpness?.blurry ? translate("galleryScreen:likelyBlurry") : undefined
+      }
+      style={[themed($container), { width: size, height: size }, style]}
+    >
+      <Image source={{ uri: photo.uri }} style={$image} resizeMode="cover" />
+      {photo.favorite && (
+        <View style={$badge} pointerEvents="none">
+          <Ionicons name="heart" size={14} color={colors.palette.neutral100} />
+        </View>
+      )}
+      {photo.sharpness?.blurry && (
+        <View
+          style={themed($blurryBadge)}
+          pointerEvents="none"
+          testID={`photo-thumbnail-${photo.id}-blurry`}
+        >
+          <Ionicons name="eye-off" size={12} color={colors.palette.neutral100} />
+        </View>
+      )}
+      {selected !== undefined && (
+        <View
+          style={themed(selected ? $selectedOverlay : $selectOverlay)}
+          pointerEvents="none"
+          testID={`photo-thumbnail-${photo.id}-${selected ? "selected" : "unselected"}`}
+        >
+          <Ionicons
+            name={selected ? "checkmark-circle" : "ellipse-outline"}
+            size={22}
+            color={selected ? colors.tint : colors.palette.neutral100}
+          />
+        </View>
+      )}
+    </Pressable>
+  )
+})
+
+const $container: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  backgroundColor: colors.palette.neutral300,
+  overflow: "hidden",
+})
+
+const $image: ImageStyle = {
+  width: "100%",
+  height: "100%",
+}
+
+const $badge: ViewStyle = {
+  position: "absolute",
+  bottom: 4,
+  start: 4,
+}
+
+const $selectOverlay: ViewStyle = {
+  ...$styles.absoluteFill,
+  alignItems: "flex-end",
+  justifyContent: "flex-end",
+  padding: 4,
+}
+
+const $selectedOverlay: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  ...$selectOverlay,
+  backgroundColor: colors.palette.overlay20,
+})
+
+const $blurryBadge: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  position: "absolute",
+  top: 4,
+  end: 4,
+  padding: 2,
+  borderRadius: 8,
+  backgroundColor: colors.palette.overlay50,
+})
@@ -0,0 +1,83 @@
+import { useMemo } from "react"
+import { StyleProp, TextStyle, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { PressableIcon } from "@/components/Icon"
+import { TextField, TextFieldAccessoryProps } from "@/components/TextField"
+import { translate } from "@/i18n/translate"
+import { useAppTheme } from "@/theme/context"
+
+export interface SearchBarProps {
+  value: string
+  onChangeText: (text: string) => void
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  containerStyle?: StyleProp<ViewStyle>
+}
+
+/**
+ * A `TextField` for searching the library, with a button to clear it.
+ * @param {SearchBarProps} props - The props for the `SearchBar` component.
+ * @returns {JSX.Element} The rendered `SearchBar` component.
+ */
+export function SearchBar(props: SearchBarProps) {
+  const { value, onChangeText, containerStyle } = props
+  const {
+    theme: { colors },
+  } = useAppTheme()
+
+  const LeftAccessory = useMemo(
+    () =>
+      function SearchIcon(accessory: TextFieldAccessoryProps) {
+        return (
+          <Ionicons
+            name="search"
+            size={18}
+            color={colors.textDim}
+            style={[accessory.style, $icon]}
+          />
+        )
+      },
+    [colors],
+  )
+
+  const RightAccessory = useMemo(
+    () =>
+      value
+        ? function ClearSearch(accessory: TextFieldAccessoryProps) {
+            return (
+              <PressableIcon
+                icon="x"
+                color={colors.textDim}
+                containerStyle={accessory.style}
+                size={16}
+                accessibilityRole="button"
+                accessibilityLabel={translate("galleryScreen:search.clear")}
+                onPress={() => onChangeText("")}
+              />
+            )
+          }
+        : undefined,
+    [value, colors, onChangeText],
+  )
+
+  return (
+    <TextField
+      testID="gallery-search"
+      value={value}
+      onChangeText={onChangeText}
+      placeholderTx="galleryScreen:search.placeholder"
+      autoCapitalize="none"
+      autoCorrect={false}
+      returnKeyType="search"
+      LeftAccessory={LeftAccessory}
+      RightAccessory={RightAccessory}
+      containerStyle={containerStyle}
+    />
+  )
+}
+
+const $icon: TextStyle = {
+  alignSelf: "center",
+}
@@ -0,0 +1,103 @@
+import { ComponentProps } from "react"
+import { Pressable, TextStyle, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { Text } from "@/components/Text"
+import type { BatchAction } from "@/services/batch"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+export interface SelectionBarProps {
+  /**
+   * How many photos are picked. The actions are disabled while none are.
+   */
+  count: number
+  /**
+   * Whether every picked photo is a favorite already, which turns favoriting into
+   * unfavoriting.
+   */
+  allFavorite: boolean
+  onAction: (action: BatchAction) => void
+}
+
+const ACTIONS: {
+  action: BatchAction
+  icon: ComponentProps<typeof Ionicons>["name"]
+}[] = [
+  { action: "addToAlbum", icon: "albums-outline" },
+  { action: "addTags", icon: "pricetags-outline" },
+  { action: "favorite", icon: "heart-outline" },
+  { action: "export", icon: "cloud-upload-outline" },
+  { action: "stripMetadata", icon: "eye-off-outline" },
+  { action: "trash", icon: "trash-outline" },
+]
+
+/**
+ * The bar along the bottom of the gallery in selection mode, with what can be done
+ * to the picked photos all at once.
+ * @param {SelectionBarProps} props - The props for the `SelectionBar` component.
+ * @returns {JSX.Element} The rendered `SelectionBar` component.
+ */
+export function SelectionBar(props: SelectionBarProps) {
+  const { count, allFavorite, onAction } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+  const disabled = count === 0
+
+  return (
+    <View testID="selection-bar" style={themed($bar)}>
+      {ACTIONS.map(({ action, icon }) => {
+        const shown = action === "favorite" && allFavorite ? "unfavorite" : action
+        return (
+          <Pressable
+            key={action}
+            testID={`selection-${action}`}
+            accessibilityRole="button"
+            accessibilityState={{ disabled }}
+            disabled={disabled}
+            onPress={() => onAction(shown)}
+            style={[$action, disabled && $disabled]}
+          >
+            <Ionicons
+              name={shown === "unfavorite" ? "heart" : icon}
+              size={22}
+              color={action === "trash" ? colors.error : colors.text}
+            />
+            <Text
+              tx={`galleryScreen:selection.actions.${shown}`}
+              size="xxs"
+              numberOfLines={1}
+              style={themed($label)}
+            />
+          </Pressable>
+        )
+      })}
+    </View>
+  )
+}
+
+const $bar: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  flexDirection: "row",
+  justifyContent: "space-around",
+  paddingTop: spacing.xs,
+  paddingBottom: spacing.xs,
+  borderTopWidth: 1,
+  borderTopColor: colors.separator,
+  backgroundColor: colors.background,
+})
+
+const $action: ViewStyle = {
+  flex: 1,
+  alignItems: "center",
+}
+
+const $disabled: ViewStyle = {
+  opacity: 0.4,
+}
+
+const $label: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.textDim,
+  marginTop: spacing.xxxs,
+})
@@ -0,0 +1,120 @@
+import { ReactElement, useCallback } from "react"
+import { FlatList, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Text } from "@/components/Text"
+import type { PhotoRecord, SimilarGroup } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+import { PhotoThumbnail } from "./PhotoThumbnail"
+
+export interface SimilarGroupListProps {
+  groups: SimilarGroup[]
+  /**
+   * Edge length of each thumbnail. Default: 96
+   */
+  thumbnailSize?: number
+  onPressPhoto?: (photo: PhotoRecord) => void
+  onLongPressPhoto?: (photo: PhotoRecord) => void
+  ListHeaderComponent?: ReactElement
+  ListEmptyComponent?: ReactElement
+}
+
+/**
+ * A list of near-duplicate groups, one horizontally scrolling row per group, with
+ * the suggested keeper first and outlined.
+ * @param {SimilarGroupListProps} props - The props for the `SimilarGroupList` component.
+ * @returns {JSX.Element} The rendered `SimilarGroupList` component.
+ */
+export function SimilarGroupList(props: SimilarGroupListProps) {
+  const {
+    groups,
+    thumbnailSize = 96,
+    onPressPhoto,
+    onLongPressPhoto,
+    ListHeaderComponent,
+    ListEmptyComponent,
+  } = props
+  const { themed } = useAppTheme()
+
+  const renderItem = useCallback(
+    ({ item }: { item: SimilarGroup }) => {
+      const others = item.photos.filter((photo) => photo.id !== item.keeper.id)
+      return (
+        <View style={themed($group)} testID={`similar-group-${item.keeper.id}`}>
+          <Text
+            tx="galleryScreen:similarGroup"
+            txOptions={{ count: item.photos.length }}
+            size="xs"
+            style={themed($groupTitle)}
+          />
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+              <PhotoThumbnail
+                photo={item.keeper}
+                size={thumbnailSize}
+                onPress={onPressPhoto}
+                onLongPress={onLongPressPhoto}
+                style={themed($keeper)}
+              />
+              <Text tx="galleryScreen:keeper" size="xxs" style={themed($keeperLabel)} />
+            </View>
+            {others.map((photo) => (
+              <PhotoThumbnail
+                key={photo.id}
+                photo={photo}
+                size={thumbnailSize}
+                onPress={onPressPhoto}
+                onLongPress={onLongPressPhoto}
+                style={themed($other)}
+              />
+            ))}
+          </ScrollView>
+        </View>
+      )
+    },
+    [themed, thumbnailSize, onPressPhoto, onLongPressPhoto],
+  )
+
+  return (
+    <FlatList
+      data={groups}
+      keyExtractor={keyExtractor}
+      renderItem={renderItem}
+      ListHeaderComponent={ListHeaderComponent}
+      ListEmptyComponent={ListEmptyComponent}
+      contentContainerStyle={$content}
+    />
+  )
+}
+
+const keyExtractor = (group: SimilarGroup) => group.keeper.id
+
+const $content: ViewStyle = {
+  flexGrow: 1,
+}
+
+const $group: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingStart: spacing.lg,
+  paddingBottom: spacing.md,
+})
+
+const $groupTitle: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.textDim,
+  marginBottom: spacing.xs,
+})
+
+const $keeper: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  borderWidth: 2,
+  borderColor: colors.tint,
+  marginEnd: spacing.sm,
+})
+
+const $keeperLabel: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
+
+const $other: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginEnd: spacing.xxs,
+  opacity: 0.8,
+})
@@ -0,0 +1,327 @@
+import { ReactElement, useCallback, useEffect, useMemo, useRef, useState } from "react"
+import {
+  FlatList,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useWindowDimensions,
+  View,
+  ViewStyle,
+} from "react-native"
+import { Gesture, GestureDetector } from "react-native-gesture-handler"
+
+import { Text } from "@/components/Text"
+import { isRTL } from "@/i18n"
+import {
+  groupByDate,
+  MonthCount,
+  PhotoRecord,
+  TimelineGranularity,
+  timelineTitle,
+} from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+import { PhotoThumbnail } from "./PhotoThumbnail"
+import { TimelineScrubber } from "./TimelineScrubber"
+
+export interface TimelineGridProps {
+  /**
+   * The photos to show, newest first.
+   */
+  photos: PhotoRecord[]
+  granularity: TimelineGranularity
+  /**
+   * How many thumbnails per row. Default: 3
+   */
+  columns?: number
+  /**
+   * Space between thumbnails in pixels. Default: 2
+   */
+  gap?: number
+  onPressPhoto?: (photo: PhotoRecord) => void
+  onLongPressPhoto?: (photo: PhotoRecord) => void
+  /**
+   * The picked photos, in selection mode. Leave undefined outside of it.
+   */
+  selectedIds?: ReadonlySet<string>
+  /**
+   * Called in selection mode as a sideways drag sweeps over the grid, with every photo
+   * from where the drag started to where it is now. `start` is true for the first
+   * call of each drag.
+   */
+  onSelectRange?: (photos: PhotoRecord[], start: boolean) => void
+  /**
+   * Called when the list is scrolled close to its end. Use it to load the next page.
+   */
+  onEndReached?: () => void
+  /**
+   * How many photos every month of the whole list holds, when `photos` is only the pages
+   * loaded so far. The scrubber then offers all of them, and jumping to one that isn't
+   * loaded yet calls `onEndReached` until it is. Without it, the scrubber offers the
+   * months that are loaded.
+   */
+  months?: MonthCount[]
+  ListHeaderComponent?: ReactElement
+  ListEmptyComponent?: ReactElement
+}
+
+type TimelineRow =
+  | { type: "header"; key: string; title?: string }
+  | { type: "photos"; key: string; photos: PhotoRecord[] }
+
+interface ScrubberStop {
+  key: string
+  label: string
+}
+
+const HEADER_HEIGHT = 44
+
+/**
+ * The photos grouped by day, month or year, each group under a header that sticks
+ * to the top while its photos scroll past. With more than one month to show, a
+ * scrubber along the edge jumps between months (or years, when grouping by year).
+ * Photos can come a page at a time; the groups grow as they do, and given the months
+ * of the whole list, the scrubber reaches the ones not loaded yet too.
+ *
+ * Every row has a fixed height, so jumps land precisely without rendering what
+ * lies in between, and in selection mode, a drag can tell which photo is under
+ * the finger from where it is alone.
+ * @param {TimelineGridProps} props - The props for the `TimelineGrid` component.
+ * @returns {JSX.Element} The rendered `TimelineGrid` component.
+ */
+export function TimelineGrid(props: TimelineGridProps) {
+  const {
+    photos,
+    granularity,
+    columns = 3,
+    gap = 2,
+    onPressPhoto,
+    onLongPressPhoto,
+    selectedIds,
+    onSelectRange,
+    onEndReached,
+    months,
+    ListHeaderComponent,
+    ListEmptyComponent,
+  } = props
+  const { themed } = useAppTheme()
+  const { width } = useWindowDimensions()
+  const size = Math.floor((width - gap * (columns - 1)) / columns)
+  const listRef = useRef<FlatList<TimelineRow>>(null)
+  const [listHeaderHeight, setListHeaderHeight] = useState(0)
+  const scrollY = useRef(0)
+  // where the current drag started, as an index into `ordered`
+  const anchor = useRef(-1)
+  // the scrubber stop being jumped to while its photos load
+  const [target, setTarget] = useState<string | null>(null)
+
+  // the scrubber steps through months, or years when the sections are years
+  const stopKey = useCallback(
+    (key: string) => (granularity === "year" ? key.slice(0, 4) : key.slice(0, 7)),
+    [granularity],
+  )
+
+  const { rows, stickyIndices, offsets, firstPhotos, ordered, stopRows } = useMemo(() => {
+    const rows: TimelineRow[] = []
+    const stickyIndices: number[] = []
+    const offsets: number[] = []
+    // for each row, the index in `ordered` of its first photo, or the next one for headers
+    const firstPhotos: number[] = []
+    const ordered: PhotoRecord[] = []
+    // the first row of every scrubber stop that's loaded
+    const stopRows = new Map<string, number>()
+    let offset = 0
+    const push = (row: TimelineRow, height: number) => {
+      rows.push(row)
+      offsets.push(offset)
+      firstPhotos.push(ordered.length)
+      offset += height
+      if (row.type === "photos") ordered.push(...row.photos)
+    }
+
+    for (const section of groupByDate(photos, { granularity })) {
+      const stop = stopKey(section.key)
+      if (stop && !stopRows.has(stop)) stopRows.set(stop, rows.length)
+      // one more for the list header, which the list counts as its first child
+      stickyIndices.push(rows.length + 1)
+      push({ type: "header", key: section.key, title: timelineTitle(section.key) }, HEADER_HEIGHT)
+      for (let start = 0; start < section.photos.length; start += columns) {
+        const chunk = section.photos.slice(start, start + columns)
+        push({ type: "photos", key: chunk[0].id, photos: chunk }, size + gap)
+      }
+    }
+    return { rows, stickyIndices, offsets, firstPhotos, ordered, stopRows }
+  }, [photos, granularity, stopKey, columns, size, gap])
+
+  const stops = useMemo(() => {
+    const keys = months ? months.map((month) => stopKey(month.month)) : stopRows.keys()
+    const stops: ScrubberStop[] = []
+    for (const key of keys) {
+      if (key && key !== stops.at(-1)?.key) {
+        stops.push({ key, label: timelineTitle(key) ?? key })
+      }
+    }
+    return stops
+  }, [months, stopKey, stopRows])
+
+  // how many photos there are in all, loaded or not
+  const total = months?.reduce((sum, month) => sum + month.count, 0) ?? photos.length
+
+  // pages load one at a time until the stop being jumped to is among them
+  useEffect(() => {
+    if (target === null) return
+    const rowIndex = stopRows.get(target)
+    if (rowIndex !== undefined) {
+      listRef.current?.scrollToIndex({ index: rowIndex, animated: false })
+      setTarget(null)
+    } else if (photos.length < total && onEndReached) {
+      onEndReached()
+    } else {
+      setTarget(null)
+    }
+  }, [target, stopRows, photos.length, total, onEndReached])
+
+  const renderItem = useCallback(
+    ({ item }: { item: TimelineRow }) =>
+      item.type === "header" ? (
+        <View style={themed($header)} testID={`timeline-header-${item.key || "undated"}`}>
+          <Text
+            {...(item.title ? { text: item.title } : { tx: "galleryScreen:timeline.undated" })}
+            weight="semiBold"
+            size="sm"
+            numberOfLines={1}
+          />
+        </View>
+      ) : (
+        <View style={[$row, { marginBottom: gap }]}>
+          {item.photos.map((photo, index) => (
+            <PhotoThumbnail
+              key={photo.id}
+              photo={photo}
+              size={size}
+              onPress={onPressPhoto}
+              onLongPress={onLongPressPhoto}
+              selected={selectedIds?.has(photo.id)}
+              style={index < columns - 1 && { marginEnd: gap }}
+            />
+          ))}
+        </View>
+      ),
+    [themed, size, gap, columns, onPressPhoto, onLongPressPhoto, selectedIds],
+  )
+
+  const getItemLayout = useCallback(
+    (_: ArrayLike<TimelineRow> | null | undefined, index: number) => ({
+      length: (offsets[index + 1] ?? offsets[index] + size + gap) - offsets[index],
+      offset: listHeaderHeight + offsets[index],
+      index,
+    }),
+    [offsets, listHeaderHeight, size, gap],
+  )
+
+  const onListHeaderLayout = (event: LayoutChangeEvent) =>
+    setListHeaderHeight(event.nativeEvent.layout.height)
+
+  const onScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    scrollY.current = event.nativeEvent.contentOffset.y
+  }
+
+  /**
+   * The index in `ordered` of the photo at a point in the list's frame, or -1 when
+   * there's none there.
+   */
+  const photoIndexAt = (x: number, y: number) => {
+    const contentY = y + scrollY.current - listHeaderHeight
+    if (contentY < 0 || rows.length === 0) return -1
+    // the last row starting at or above the point
+    let low = 0
+    let high = rows.length - 1
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (offsets[middle] <= contentY) low = middle
+      else high = middle - 1
+    }
+    const row = rows[low]
+    if (row.type === "header") return firstPhotos[low] < ordered.length ? firstPhotos[low] : -1
+    const column = Math.min(Math.max(Math.floor(x / (size + gap)), 0), columns - 1)
+    const index = isRTL ? columns - 1 - column : column
+    return firstPhotos[low] + Math.min(index, row.photos.length - 1)
+  }
+
+  const selectTo = (x: number, y: number) => {
+    const index = photoIndexAt(x, y)
+    if (index < 0 || !onSelectRange) return
+    const start = anchor.current < 0
+    if (start) anchor.current = index
+    const from = Math.min(anchor.current, index)
+    const to = Math.max(anchor.current, index)
+    onSelectRange(ordered.slice(from, to + 1), start)
+  }
+
+  // sideways first, so that dragging up and down still scrolls
+  const dragSelect = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(!!selectedIds && !!onSelectRange)
+    .activeOffsetX([-12, 12])
+    .failOffsetY([-12, 12])
+    .onStart((event) => selectTo(event.x, event.y))
+    .onUpdate((event) => selectTo(event.x, event.y))
+    .onFinalize(() => {
+      anchor.current = -1
+    })
+
+  const jumpTo = (stop: number) => setTarget(stops[stop]?.key ?? null)
+
+  return (
+    <View style={$container}>
+      <GestureDetector gesture={dragSelect}>
+        <View style={$container}>
+          <FlatList
+            ref={listRef}
+            data={rows}
+            extraData={selectedIds}
+            keyExtractor={keyExtractor}
+            renderItem={renderItem}
+            getItemLayout={getItemLayout}
+            stickyHeaderIndices={stickyIndices}
+            initialNumToRender={12}
+            windowSize={7}
+            onScroll={onScroll}
+            scrollEventThrottle={16}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
+            ListHeaderComponent={<View onLayout={onListHeaderLayout}>{ListHeaderComponent}</View>}
+            ListEmptyComponent={ListEmptyComponent}
+            contentContainerStyle={$content}
+            showsVerticalScrollIndicator={stops.length < 2}
+          />
+        </View>
+      </GestureDetector>
+      {stops.length > 1 && (
+        <TimelineScrubber labels={stops.map((stop) => stop.label)} onSelect={jumpTo} />
+      )}
+    </View>
+  )
+}
+
+const keyExtractor = (row: TimelineRow) => `${row.type}-${row.key}`
+
+const $container: ViewStyle = {
+  flex: 1,
+}
+
+const $content: ViewStyle = {
+  flexGrow: 1,
+}
+
+const $row: ViewStyle = {
+  flexDirection: "row",
+}
+
+const $header: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  height: HEADER_HEIGHT,
+  justifyContent: "center",
+  paddingHorizontal: spacing.lg,
+  backgroundColor: colors.background,
+})
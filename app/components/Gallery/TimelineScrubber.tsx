@@ -0,0 +1,118 @@
+import { useRef, useState } from "react"
+import { LayoutChangeEvent, TextStyle, View, ViewStyle } from "react-native"
+import { Gesture, GestureDetector } from "react-native-gesture-handler"
+
+import { Text } from "@/components/Text"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+export interface TimelineScrubberProps {
+  /**
+   * What to show while the thumb is over each stop, top to bottom.
+   */
+  labels: string[]
+  /**
+   * Called with the stop under the thumb whenever it changes.
+   */
+  onSelect: (index: number) => void
+}
+
+/**
+ * A track along the edge of the timeline for jumping through it fast. Dragging
+ * along it steps through the stops, e.g. months, with the current one shown in a
+ * bubble beside the thumb.
+ * @param {TimelineScrubberProps} props - The props for the `TimelineScrubber` component.
+ * @returns {JSX.Element} The rendered `TimelineScrubber` component.
+ */
+export function TimelineScrubber(props: TimelineScrubberProps) {
+  const { labels, onSelect } = props
+  const { themed } = useAppTheme()
+  const [height, setHeight] = useState(0)
+  const [active, setActive] = useState<{ index: number; y: number } | null>(null)
+  const selected = useRef(-1)
+
+  const onLayout = (event: LayoutChangeEvent) => setHeight(event.nativeEvent.layout.height)
+
+  const scrubTo = (y: number) => {
+    if (!height || !labels.length) return
+    const clamped = Math.min(Math.max(y, 0), height - 1)
+    const index = Math.floor((clamped / height) * labels.length)
+    if (index !== selected.current) {
+      selected.current = index
+      onSelect(index)
+    }
+    setActive({ index, y: clamped })
+  }
+
+  const release = () => {
+    selected.current = -1
+    setActive(null)
+  }
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .onBegin((event) => scrubTo(event.y))
+    .onUpdate((event) => scrubTo(event.y))
+    .onFinalize(release)
+
+  return (
+    <GestureDetector gesture={pan}>
+      <View
+        testID="timeline-scrubber"
+        accessibilityRole="adjustable"
+        style={$track}
+        onLayout={onLayout}
+      >
+        <View style={themed($rail)} />
+        {active && (
+          <>
+            <View style={[themed($thumb), { top: active.y - THUMB_SIZE / 2 }]} />
+            <View style={[themed($bubble), { top: active.y - 16 }]} pointerEvents="none">
+              <Text text={labels[active.index]} size="xs" weight="medium" style={themed($label)} />
+            </View>
+          </>
+        )}
+      </View>
+    </GestureDetector>
+  )
+}
+
+const THUMB_SIZE = 12
+
+const $track: ViewStyle = {
+  position: "absolute",
+  top: 0,
+  bottom: 0,
+  end: 0,
+  width: 28,
+  alignItems: "center",
+}
+
+const $rail: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  flex: 1,
+  width: 3,
+  borderRadius: 2,
+  backgroundColor: colors.palette.overlay20,
+})
+
+const $thumb: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  position: "absolute",
+  width: THUMB_SIZE,
+  height: THUMB_SIZE,
+  borderRadius: THUMB_SIZE / 2,
+  backgroundColor: colors.tint,
+})
+
+const $bubble: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  position: "absolute",
+  end: 32,
+  paddingHorizontal: spacing.sm,
+  paddingVertical: spacing.xxs,
+  borderRadius: 16,
+  backgroundColor: colors.palette.neutral800,
+})
+
+const $label: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.palette.neutral100,
+})
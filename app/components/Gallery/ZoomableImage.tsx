@@ -0,0 +1,178 @@
+import { useState } from "react"
+import { Image, ImageStyle, StyleProp, View, ViewStyle } from "react-native"
+import { Gesture, GestureDetector } from "react-native-gesture-handler"
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated"
+
+export interface ZoomableImageProps {
+  uri: string
+  /**
+   * Width over height of the image.
+   */
+  aspectRatio: number
+  /**
+   * Size of the frame the image is fitted into.
+   */
+  width: number
+  height: number
+  /**
+   * How far in pinching can go. Default: 4
+   */
+  maxScale?: number
+  /**
+   * How far in a double tap zooms. Default: 2.5
+   */
+  doubleTapScale?: number
+  /**
+   * Called when the image starts or stops being zoomed in, e.g. to stop a pager from
+   * taking over horizontal drags.
+   */
+  onZoomChange?: (zoomed: boolean) => void
+  testID?: string
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+const clamp = (value: number, min: number, max: number) => {
+  "worklet"
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * An image fitted into its frame that can be pinched or double tapped to zoom, and
+ * dragged around while zoomed in.
+ * @param {ZoomableImageProps} props - The props for the `ZoomableImage` component.
+ * @returns {JSX.Element} The rendered `ZoomableImage` component.
+ */
+export function ZoomableImage(props: ZoomableImageProps) {
+  const {
+    uri,
+    aspectRatio,
+    width,
+    height,
+    maxScale = 4,
+    doubleTapScale = 2.5,
+    onZoomChange,
+    testID,
+    style,
+  } = props
+  const [zoomed, setZoomed] = useState(false)
+
+  // the image is contained, so one of its sides matches the frame's
+  const imageWidth = Math.min(width, height * aspectRatio)
+  const imageHeight = imageWidth / aspectRatio
+
+  const scale = useSharedValue(1)
+  const translateX = useSharedValue(0)
+  const translateY = useSharedValue(0)
+  const start = useSharedValue({ scale: 1, x: 0, y: 0 })
+  const isZoomed = useSharedValue(false)
+
+  const reportZoom = (next: boolean) => {
+    setZoomed(next)
+    onZoomChange?.(next)
+  }
+
+  const updateZoomed = (next: boolean) => {
+    "worklet"
+    if (next === isZoomed.value) return
+    isZoomed.value = next
+    runOnJS(reportZoom)(next)
+  }
+
+  // how far the image can move before an edge comes away from the frame's edge
+  const limitX = (at: number) => {
+    "worklet"
+    return Math.max(0, (imageWidth * at - width) / 2)
+  }
+  const limitY = (at: number) => {
+    "worklet"
+    return Math.max(0, (imageHeight * at - height) / 2)
+  }
+
+  const zoomTo = (target: number, x: number, y: number) => {
+    "worklet"
+    scale.value = withTiming(target)
+    translateX.value = withTiming(clamp(x, -limitX(target), limitX(target)))
+    translateY.value = withTiming(clamp(y, -limitY(target), limitY(target)))
+    updateZoomed(target > 1)
+  }
+
+  const pinch = Gesture.Pinch()
+    .onStart(() => {
+      start.value = { scale: scale.value, x: translateX.value, y: translateY.value }
+    })
+    .onUpdate((event) => {
+      // a little give below 1x so pinching out doesn't feel like hitting a wall
+      scale.value = clamp(start.value.scale * event.scale, 0.8, maxScale)
+      translateX.value = clamp(translateX.value, -limitX(scale.value), limitX(scale.value))
+      translateY.value = clamp(translateY.value, -limitY(scale.value), limitY(scale.value))
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) zoomTo(1, 0, 0)
+      else updateZoomed(true)
+    })
+
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .averageTouches(true)
+    .onStart(() => {
+      start.value = { scale: scale.value, x: translateX.value, y: translateY.value }
+    })
+    .onUpdate((event) => {
+      const x = start.value.x + event.translationX
+      const y = start.value.y + event.translationY
+      translateX.value = clamp(x, -limitX(scale.value), limitX(scale.value))
+      translateY.value = clamp(y, -limitY(scale.value), limitY(scale.value))
+    })
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd((event) => {
+      if (isZoomed.value) {
+        zoomTo(1, 0, 0)
+        return
+      }
+      // keep the tapped point under the finger while zooming in on it
+      const factor = doubleTapScale - 1
+      zoomTo(doubleTapScale, (width / 2 - event.x) * factor, (height / 2 - event.y) * factor)
+    })
+
+  const $animatedImage = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }))
+
+  return (
+    <GestureDetector gesture={Gesture.Race(doubleTap, Gesture.Simultaneous(pinch, pan))}>
+      <View testID={testID} style={[$frame, { width, height }, style]}>
+        <Animated.View style={$animatedImage}>
+          <Image
+            source={{ uri }}
+            style={[$image, { width: imageWidth, height: imageHeight }]}
+            resizeMode="contain"
+          />
+        </Animated.View>
+      </View>
+    </GestureDetector>
+  )
+}
+
+const $frame: ViewStyle = {
+  alignItems: "center",
+  justifyContent: "center",
+  overflow: "hidden",
+}
+
+const $image: ImageStyle = {
+  alignSelf: "center",
+}
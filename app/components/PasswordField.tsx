@@ -0,0 +1,59 @@
+import { forwardRef, Ref, useMemo, useState } from "react"
+import {
+  // eslint-disable-next-line no-restricted-imports
+  TextInput,
+} from "react-native"
+
+import { translate } from "@/i18n/translate"
+import { useAppTheme } from "@/theme/context"
+
+import { PressableIcon } from "./Icon"
+import { TextField, TextFieldAccessoryProps, TextFieldProps } from "./TextField"
+
+export type PasswordFieldProps = Omit<TextFieldProps, "secureTextEntry" | "RightAccessory">
+
+/**
+ * A `TextField` for passwords, with a button to show what was typed.
+ * @param {PasswordFieldProps} props - The props for the `PasswordField` component.
+ * @returns {JSX.Element} The rendered `PasswordField` component.
+ */
+export const PasswordField = forwardRef(function PasswordField(
+  props: PasswordFieldProps,
+  ref: Ref<TextInput>,
+) {
+  const [hidden, setHidden] = useState(true)
+  const {
+    theme: { colors },
+  } = useAppTheme()
+
+  const RightAccessory = useMemo(
+    () =>
+      function PasswordVisibilityToggle(accessory: TextFieldAccessoryProps) {
+        return (
+          <PressableIcon
+            icon={hidden ? "view" : "hidden"}
+            color={colors.textDim}
+            containerStyle={accessory.style}
+            size={20}
+            accessibilityRole="button"
+            accessibilityLabel={translate(
+              hidden ? "authScreen:fields.showPassword" : "authScreen:fields.hidePassword",
+            )}
+            onPress={() => setHidden((current) => !current)}
+          />
+        )
+      },
+    [hidden, colors],
+  )
+
+  return (
+    <TextField
+      ref={ref}
+      autoCapitalize="none"
+      autoCorrect={false}
+      {...props}
+      secureTextEntry={hidden}
+      RightAccessory={RightAccessory}
+    />
+  )
+})
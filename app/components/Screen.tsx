@@ -1,4 +1,4 @@
-import { ReactNode, useRef, useState } from "react"
+import { ReactNode, Ref, useImperativeHandle, useRef, useState } from "react"
 import {
   KeyboardAvoidingView,
   KeyboardAvoidingViewProps,
@@ -77,6 +77,11 @@ interface ScrollScreenProps extends BaseScreenProps {
    * Pass any additional props directly to the ScrollView component.
    */
   ScrollViewProps?: ScrollViewProps
+  /**
+   * Receives the underlying ScrollView, e.g. to scroll to a section.
+   * Only applies to scroll preset.
+   */
+  scrollRef?: Ref<ScrollView | null>
 }
 
 interface AutoScreenProps extends Omit<ScrollScreenProps, "preset"> {
@@ -194,10 +199,12 @@ function ScreenWithScrolling(props: ScreenProps) {
     keyboardBottomOffset = DEFAULT_BOTTOM_OFFSET,
     contentContainerStyle,
     ScrollViewProps,
+    scrollRef,
     style,
   } = props as ScrollScreenProps
 
   const ref = useRef<ScrollView>(null)
+  useImperativeHandle<ScrollView | null, ScrollView | null>(scrollRef, () => ref.current, [])
 
   const { scrollEnabled, onContentSizeChange, onLayout } = useAutoPreset(props as AutoScreenProps)
 
@@ -25,6 +25,299 @@ const ar: Translations = {
       button: "لنحاول هذا مرّة أخرى",
     },
   },
+  cameraScreen: {
+    capture: "التقاط صورة",
+    switchLens: "تبديل الكاميرا",
+    flash: "الفلاش: {{mode}}",
+    flashModes: {
+      off: "إيقاف",
+      on: "تشغيل",
+      auto: "تلقائي",
+    },
+    torch: "المصباح",
+    zoomIn: "تكبير",
+    zoomOut: "تصغير",
+    zoomLevel: "{{zoom}}×",
+    opening: "جارٍ تشغيل الكاميرا…",
+    lastPhoto: "آخر صورة",
+    unavailable: "تعذّر تشغيل الكاميرا.",
+  },
+  galleryScreen: {
+    title: "المعرض",
+    photoCount: "الصور: {{count}}",
+    likelyBlurry: "على الأرجح ضبابية",
+    blurryFilter: "على الأرجح ضبابية: {{count}}",
+    showAll: "عرض كل الصور",
+    modes: {
+      all: "كل الصور",
+      similar: "المتشابهة",
+    },
+    similarGroup: "{{count}} صور متشابهة",
+    keeper: "المقترحة للاحتفاظ",
+    similarEmpty: {
+      heading: "لا توجد صور متشابهة",
+      content: "ستُجمع هنا اللقطات شبه المتطابقة واللقطات المتتابعة.",
+    },
+    empty: {
+      heading: "لا توجد صور بعد",
+      content: "ستظهر هنا الصور التي تلتقطها بالكاميرا.",
+    },
+    albums: {
+      title: "الألبومات",
+      count: "{{count}} صورة",
+      new: "ألبوم جديد",
+      trash: "المهملات",
+      smart: "ألبوم ذكي",
+      smartHelper: "يمتلئ تلقائيًا بالصور المطابقة.",
+      name: "الاسم",
+      create: "إنشاء",
+      delete: "حذف",
+      deleteTitle: 'حذف "{{name}}"؟',
+      deleteMessage: "تبقى الصور في مكتبتك.",
+      rules: {
+        favorites: "المفضلة فقط",
+        tags: "بأي من هذه الوسوم",
+        tagsPlaceholder: "شاطئ، غروب",
+        cameras: "ملتقطة بـ",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "ابحث في الوسوم والألبومات والتواريخ…",
+      clear: "مسح البحث",
+      results: "النتائج: {{count}}",
+      empty: {
+        heading: "لا توجد نتائج",
+        content: 'جرّب وسمًا أو اسم ألبوم أو كاميرا أو تاريخًا مثل "2024-03".',
+      },
+    },
+    timeline: {
+      day: "الأيام",
+      month: "الأشهر",
+      year: "السنوات",
+      undated: "بدون تاريخ",
+    },
+    selection: {
+      title: "المحدد: {{count}}",
+      all: "تحديد الكل",
+      actions: {
+        addToAlbum: "إضافة إلى ألبوم",
+        addTags: "إضافة وسوم",
+        favorite: "تفضيل",
+        unfavorite: "إلغاء التفضيل",
+        trash: "حذف",
+        export: "تصدير",
+        stripMetadata: "إزالة المعلومات",
+      },
+      noAlbums: "أنشئ ألبومًا أولاً.",
+      tagsHelper: "افصل الوسوم بفواصل. تحتفظ كل صورة بوسومها الحالية.",
+      addTags: "إضافة",
+      stripTitle: "إزالة معلومات الصور؟",
+      stripMessage:
+        "ستُزال معلومات الصور من هذه الملفات نهائيًا، مثل مكان التقاطها والكاميرا المستخدمة. الصور: {{count}}",
+      strip: "إزالة",
+    },
+    batch: {
+      addToAlbum: "جارٍ الإضافة إلى الألبوم",
+      addTags: "جارٍ إضافة الوسوم",
+      favorite: "جارٍ الإضافة إلى المفضلة",
+      unfavorite: "جارٍ الإزالة من المفضلة",
+      trash: "جارٍ الحذف",
+      export: "جارٍ التصدير",
+      stripMetadata: "جارٍ إزالة معلومات الصور",
+      progress: "{{processed}} من {{total}}",
+      cancelled: "تم الإلغاء",
+      failed: "فشل: {{count}}",
+      dismiss: "إغلاق",
+    },
+  },
+  histogramComponent: {
+    label: "مخطط التعريض",
+    toggle: "المخطط",
+    highlights: "الإضاءات {{percent}}%",
+    shadows: "الظلال {{percent}}%",
+  },
+  compositionGuideComponent: {
+    label: "دليل التكوين: {{guide}}",
+    guides: {
+      none: "إيقاف",
+      thirds: "قاعدة الأثلاث",
+      goldenRatio: "النسبة الذهبية",
+      goldenSpiral: "الحلزون الذهبي",
+      diagonals: "الأقطار",
+      centerCross: "علامة المركز",
+    },
+  },
+  levelComponent: {
+    label: "الاستواء: الميل الجانبي {{roll}}°، الميل الأمامي {{pitch}}°",
+    toggle: "ميزان الاستواء",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "تعديل",
+    done: "تم",
+    undo: "تراجع",
+    redo: "إعادة",
+    reset: "إعادة ضبط كل التعديلات",
+    missing: "لم تعد هذه الصورة في مكتبتك.",
+    rotate: "تدوير",
+    cropLabel: "قص إلى {{aspect}}",
+    crops: {
+      square: "مربع",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "التعريض",
+      contrast: "التباين",
+      saturation: "التشبع",
+      temperature: "درجة الحرارة",
+      tint: "الصبغة",
+    },
+    decrease: "تقليل {{adjustment}}",
+    increase: "زيادة {{adjustment}}",
+  },
+  settingsScreen: {
+    title: "الإعدادات",
+    sections: {
+      capture: "التصوير",
+      appearance: "المظهر",
+      privacy: "الخصوصية",
+      storage: "التخزين",
+      account: "الحساب",
+    },
+    signedInAs: "تم تسجيل الدخول باسم {{email}}",
+    signOut: "تسجيل الخروج",
+    captureFormat: "صيغة الصورة",
+    formats: {
+      jpeg: "JPEG (الأكثر توافقًا)",
+      heic: "HEIC (ملفات أصغر)",
+      raw: "RAW (للتحرير)",
+    },
+    grid: "شبكة التكوين",
+    theme: "السمة",
+    themes: {
+      system: "مطابقة النظام",
+      light: "فاتح",
+      dark: "داكن",
+    },
+    language: "اللغة",
+    systemLanguage: "مطابقة النظام",
+    saveLocation: "حفظ الموقع في الصور",
+    stripMetadataOnShare: "إزالة البيانات الوصفية عند المشاركة",
+    crashReports: "إرسال تقارير الأعطال",
+    cacheLimit: "حد ذاكرة التخزين المؤقت",
+    cacheSize: "{{size}} ميغابايت",
+    lowSpaceWarning: "التنبيه عند انخفاض مساحة التخزين",
+    reset: "إعادة ضبط كل الإعدادات",
+    restartTitle: "أعد التشغيل للإكمال",
+    restartMessage:
+      "اللغة الجديدة تُكتب في اتجاه مختلف. أغلق PixAssist وأعد فتحه لتغيير اتجاه الواجهة.",
+    languageErrorTitle: "تعذّر تغيير اللغة",
+    languageErrorMessage: "سيبقى التطبيق بلغته الحالية في الوقت الحالي. حاول مرة أخرى لاحقًا.",
+  },
+  authScreen: {
+    login: {
+      title: "مرحبًا بعودتك",
+      subtitle: "سجّل الدخول لنسخ صورك احتياطيًا ومزامنة ألبوماتك.",
+      submit: "تسجيل الدخول",
+      switch: "جديد على PixAssist؟ أنشئ حسابًا",
+    },
+    register: {
+      title: "أنشئ حسابك",
+      subtitle: "انسخ صورك احتياطيًا وتابع من حيث توقفت على أي جهاز.",
+      submit: "إنشاء حساب",
+      switch: "لديك حساب بالفعل؟ سجّل الدخول",
+    },
+    fields: {
+      name: "الاسم",
+      namePlaceholder: "اسمك",
+      email: "البريد الإلكتروني",
+      emailPlaceholder: "you@example.com",
+      password: "كلمة المرور",
+      passwordPlaceholder: "{{min}} أحرف على الأقل",
+      showPassword: "إظهار كلمة المرور",
+      hidePassword: "إخفاء كلمة المرور",
+    },
+    errors: {
+      nameRequired: "أدخل اسمك",
+      emailInvalid: "أدخل بريدًا إلكترونيًا صالحًا",
+      passwordRequired: "أدخل كلمة المرور",
+      passwordTooShort: "استخدم {{min}} أحرف على الأقل",
+      wrongCredentials: "البريد الإلكتروني وكلمة المرور غير متطابقين",
+      emailTaken: "يوجد حساب بهذا البريد الإلكتروني بالفعل",
+      offline: "تعذّر الوصول إلى PixAssist. تحقّق من اتصالك وحاول مرة أخرى.",
+      generic: "حدث خطأ ما. يُرجى المحاولة مرة أخرى.",
+    },
+  },
+  photoDetailScreen: {
+    edit: "تعديل",
+    missing: "لم تعد هذه الصورة في مكتبتك.",
+    position: "{{index}} من {{total}}",
+    info: {
+      title: "معلومات",
+      camera: "الكاميرا",
+      lens: "العدسة",
+      exposure: "التعريض",
+      location: "الموقع",
+      dimensions: "الأبعاد",
+      fileSize: "حجم الملف",
+    },
+    albums: {
+      title: "إضافة إلى ألبوم",
+      empty: "أنشئ ألبومًا في المعرض أولًا.",
+    },
+    tags: {
+      title: "التعليق والوسوم",
+      caption: "التعليق",
+      tags: "الوسوم",
+      tagsHelper: "افصل بين الوسوم بفواصل.",
+      save: "حفظ",
+    },
+    trash: "حذف",
+  },
+  albumScreen: {
+    title: "ألبوم",
+    empty: {
+      heading: "لا شيء هنا بعد",
+      content: "ستظهر هنا الصور التي تضيفها إلى هذا الألبوم.",
+    },
+    smartEmptyContent: "لا توجد صور تطابق قواعد هذا الألبوم بعد.",
+  },
+  onboardingScreen: {
+    title: "صور أفضل بجهد أقل",
+    features: {
+      assist: {
+        title: "عين ثانية",
+        content: "تساعدك أدلة التأطير والتلميحات المباشرة على التقاط اللقطة.",
+      },
+      organize: {
+        title: "مرتبة لك",
+        content: "يتم العثور على اللقطات الضبابية والمتشابهة تلقائيًا.",
+      },
+      sync: {
+        title: "آمنة في السحابة",
+        content: "تُرفع الصور في الخلفية وتستأنف من حيث توقفت.",
+      },
+    },
+    getStarted: "ابدأ",
+    haveAccount: "لدي حساب بالفعل",
+  },
+  trashScreen: {
+    title: "المحذوفة مؤخرًا",
+    empty: "إفراغ",
+    emptyTitle: "إفراغ سلة المهملات؟",
+    emptyMessage: "الصور التي ستُحذف نهائيًا: {{count}}. لا يمكن التراجع عن ذلك.",
+    photoTitle: "صورة محذوفة",
+    daysLeft: "الأيام المتبقية قبل حذفها نهائيًا: {{count}}",
+    restore: "استعادة",
+    deleteNow: "حذف الآن",
+    retention: "تُحذف الصور نهائيًا بعد {{count}} يومًا.",
+    nothing: {
+      heading: "سلة المهملات فارغة",
+      content: "تبقى الصور التي تحذفها هنا لفترة قبل أن تُحذف نهائيًا.",
+    },
+  },
 }
 
 export default ar
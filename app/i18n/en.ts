@@ -23,6 +23,299 @@ const en = {
       button: "Let's try this again",
     },
   },
+  cameraScreen: {
+    capture: "Take photo",
+    switchLens: "Switch camera",
+    flash: "Flash: {{mode}}",
+    flashModes: {
+      off: "Off",
+      on: "On",
+      auto: "Auto",
+    },
+    torch: "Torch",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    zoomLevel: "{{zoom}}×",
+    opening: "Starting camera…",
+    lastPhoto: "Last photo",
+    unavailable: "The camera couldn't be started.",
+  },
+  galleryScreen: {
+    title: "Gallery",
+    photoCount: "Photos: {{count}}",
+    likelyBlurry: "Likely blurry",
+    blurryFilter: "Likely blurry: {{count}}",
+    showAll: "Show all photos",
+    modes: {
+      all: "All photos",
+      similar: "Similar",
+    },
+    similarGroup: "{{count}} similar photos",
+    keeper: "Keeper",
+    similarEmpty: {
+      heading: "No similar photos",
+      content: "Near-identical shots and bursts will be grouped here.",
+    },
+    empty: {
+      heading: "No photos yet",
+      content: "Photos you take with the camera will show up here.",
+    },
+    albums: {
+      title: "Albums",
+      count: "{{count}} photos",
+      new: "New album",
+      trash: "Trash",
+      smart: "Smart album",
+      smartHelper: "Fills itself with the photos that match.",
+      name: "Name",
+      create: "Create",
+      delete: "Delete",
+      deleteTitle: 'Delete "{{name}}"?',
+      deleteMessage: "The photos stay in your library.",
+      rules: {
+        favorites: "Favorites only",
+        tags: "With any of these tags",
+        tagsPlaceholder: "beach, sunset",
+        cameras: "Taken with",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "Search tags, albums, cameras, dates…",
+      clear: "Clear search",
+      results: "Matches: {{count}}",
+      empty: {
+        heading: "No matches",
+        content: 'Try a tag, an album name, a camera or a date like "march 2024".',
+      },
+    },
+    timeline: {
+      day: "Days",
+      month: "Months",
+      year: "Years",
+      undated: "No date",
+    },
+    selection: {
+      title: "Selected: {{count}}",
+      all: "Select all",
+      actions: {
+        addToAlbum: "Add to album",
+        addTags: "Add tags",
+        favorite: "Favorite",
+        unfavorite: "Unfavorite",
+        trash: "Delete",
+        export: "Export",
+        stripMetadata: "Strip info",
+      },
+      noAlbums: "Create an album first.",
+      tagsHelper: "Separate tags with commas. Each photo keeps the tags it has.",
+      addTags: "Add",
+      stripTitle: "Strip photo info?",
+      stripMessage:
+        "The photo info in these files, like where they were taken and on what camera, will be removed for good. Photos: {{count}}",
+      strip: "Strip",
+    },
+    batch: {
+      addToAlbum: "Adding to album",
+      addTags: "Adding tags",
+      favorite: "Adding to favorites",
+      unfavorite: "Removing from favorites",
+      trash: "Deleting",
+      export: "Exporting",
+      stripMetadata: "Stripping photo info",
+      progress: "{{processed}} of {{total}}",
+      cancelled: "Cancelled",
+      failed: "Failed: {{count}}",
+      dismiss: "Dismiss",
+    },
+  },
+  histogramComponent: {
+    label: "Exposure histogram",
+    toggle: "Histogram",
+    highlights: "Highlights {{percent}}%",
+    shadows: "Shadows {{percent}}%",
+  },
+  compositionGuideComponent: {
+    label: "Composition guide: {{guide}}",
+    guides: {
+      none: "Off",
+      thirds: "Rule of thirds",
+      goldenRatio: "Golden ratio",
+      goldenSpiral: "Golden spiral",
+      diagonals: "Diagonals",
+      centerCross: "Center cross",
+    },
+  },
+  levelComponent: {
+    label: "Level: roll {{roll}}°, pitch {{pitch}}°",
+    toggle: "Level",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "Edit",
+    done: "Done",
+    undo: "Undo",
+    redo: "Redo",
+    reset: "Reset all edits",
+    missing: "This photo is no longer in your library.",
+    rotate: "Rotate",
+    cropLabel: "Crop to {{aspect}}",
+    crops: {
+      square: "Square",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "Exposure",
+      contrast: "Contrast",
+      saturation: "Saturation",
+      temperature: "Temperature",
+      tint: "Tint",
+    },
+    decrease: "Decrease {{adjustment}}",
+    increase: "Increase {{adjustment}}",
+  },
+  settingsScreen: {
+    title: "Settings",
+    sections: {
+      capture: "Capture",
+      appearance: "Appearance",
+      privacy: "Privacy",
+      storage: "Storage",
+      account: "Account",
+    },
+    signedInAs: "Signed in as {{email}}",
+    signOut: "Sign out",
+    captureFormat: "Photo format",
+    formats: {
+      jpeg: "JPEG (most compatible)",
+      heic: "HEIC (smaller files)",
+      raw: "RAW (for editing)",
+    },
+    grid: "Grid overlay",
+    theme: "Theme",
+    themes: {
+      system: "Match system",
+      light: "Light",
+      dark: "Dark",
+    },
+    language: "Language",
+    systemLanguage: "Match system",
+    saveLocation: "Save location in photos",
+    stripMetadataOnShare: "Remove metadata when sharing",
+    crashReports: "Send crash reports",
+    cacheLimit: "Cache limit",
+    cacheSize: "{{size}} MB",
+    lowSpaceWarning: "Warn when storage is low",
+    reset: "Reset all settings",
+    restartTitle: "Restart to finish",
+    restartMessage:
+      "The new language reads in a different direction. Close and reopen PixAssist to switch the layout.",
+    languageErrorTitle: "Couldn't switch language",
+    languageErrorMessage: "The app stays in its current language for now. Try again later.",
+  },
+  authScreen: {
+    login: {
+      title: "Welcome back",
+      subtitle: "Sign in to back up your photos and sync your albums.",
+      submit: "Sign in",
+      switch: "New to PixAssist? Create an account",
+    },
+    register: {
+      title: "Create your account",
+      subtitle: "Back up your photos and pick up where you left off on any device.",
+      submit: "Create account",
+      switch: "Already have an account? Sign in",
+    },
+    fields: {
+      name: "Name",
+      namePlaceholder: "Your name",
+      email: "Email",
+      emailPlaceholder: "you@example.com",
+      password: "Password",
+      passwordPlaceholder: "At least {{min}} characters",
+      showPassword: "Show password",
+      hidePassword: "Hide password",
+    },
+    errors: {
+      nameRequired: "Enter your name",
+      emailInvalid: "Enter a valid email address",
+      passwordRequired: "Enter your password",
+      passwordTooShort: "Use at least {{min}} characters",
+      wrongCredentials: "That email and password don't match",
+      emailTaken: "An account with that email already exists",
+      offline: "Can't reach PixAssist. Check your connection and try again.",
+      generic: "Something went wrong. Please try again.",
+    },
+  },
+  photoDetailScreen: {
+    edit: "Edit",
+    missing: "This photo is no longer in your library.",
+    position: "{{index}} of {{total}}",
+    info: {
+      title: "Info",
+      camera: "Camera",
+      lens: "Lens",
+      exposure: "Exposure",
+      location: "Location",
+      dimensions: "Dimensions",
+      fileSize: "File size",
+    },
+    albums: {
+      title: "Add to album",
+      empty: "Create an album in the gallery first.",
+    },
+    tags: {
+      title: "Caption and tags",
+      caption: "Caption",
+      tags: "Tags",
+      tagsHelper: "Separate tags with commas.",
+      save: "Save",
+    },
+    trash: "Delete",
+  },
+  albumScreen: {
+    title: "Album",
+    empty: {
+      heading: "Nothing here yet",
+      content: "Photos you add to this album will show up here.",
+    },
+    smartEmptyContent: "No photos match this album's rules yet.",
+  },
+  onboardingScreen: {
+    title: "Better photos, less effort",
+    features: {
+      assist: {
+        title: "A second pair of eyes",
+        content: "Framing guides and live hints help you get the shot.",
+      },
+      organize: {
+        title: "Sorted for you",
+        content: "Blurry shots and near-duplicates are found automatically.",
+      },
+      sync: {
+        title: "Safe in the cloud",
+        content: "Photos upload in the background and pick up where they left off.",
+      },
+    },
+    getStarted: "Get started",
+    haveAccount: "I already have an account",
+  },
+  trashScreen: {
+    title: "Recently deleted",
+    empty: "Empty",
+    emptyTitle: "Empty the trash?",
+    emptyMessage: "Photos to delete for good: {{count}}. This can't be undone.",
+    photoTitle: "Deleted photo",
+    daysLeft: "Days until it's deleted for good: {{count}}",
+    restore: "Restore",
+    deleteNow: "Delete now",
+    retention: "Photos are deleted for good after {{count}} days.",
+    nothing: {
+      heading: "Trash is empty",
+      content: "Photos you delete stay here for a while before they're gone for good.",
+    },
+  },
 }
 
 export default en
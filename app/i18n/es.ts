@@ -26,6 +26,300 @@ const es: Translations = {
       button: "Intentemos de nuevo",
     },
   },
+  cameraScreen: {
+    capture: "Tomar foto",
+    switchLens: "Cambiar cámara",
+    flash: "Flash: {{mode}}",
+    flashModes: {
+      off: "Apagado",
+      on: "Encendido",
+      auto: "Automático",
+    },
+    torch: "Linterna",
+    zoomIn: "Acercar",
+    zoomOut: "Alejar",
+    zoomLevel: "{{zoom}}×",
+    opening: "Iniciando cámara…",
+    lastPhoto: "Última foto",
+    unavailable: "No se pudo iniciar la cámara.",
+  },
+  galleryScreen: {
+    title: "Galería",
+    photoCount: "Fotos: {{count}}",
+    likelyBlurry: "Probablemente borrosa",
+    blurryFilter: "Probablemente borrosas: {{count}}",
+    showAll: "Mostrar todas las fotos",
+    modes: {
+      all: "Todas las fotos",
+      similar: "Similares",
+    },
+    similarGroup: "{{count}} fotos similares",
+    keeper: "Conservar",
+    similarEmpty: {
+      heading: "No hay fotos similares",
+      content: "Aquí se agruparán las tomas casi idénticas y las ráfagas.",
+    },
+    empty: {
+      heading: "Aún no hay fotos",
+      content: "Las fotos que tomes con la cámara aparecerán aquí.",
+    },
+    albums: {
+      title: "Álbumes",
+      count: "{{count}} fotos",
+      new: "Nuevo álbum",
+      trash: "Papelera",
+      smart: "Álbum inteligente",
+      smartHelper: "Se llena solo con las fotos que coinciden.",
+      name: "Nombre",
+      create: "Crear",
+      delete: "Eliminar",
+      deleteTitle: '¿Eliminar "{{name}}"?',
+      deleteMessage: "Las fotos se quedan en tu biblioteca.",
+      rules: {
+        favorites: "Solo favoritas",
+        tags: "Con alguna de estas etiquetas",
+        tagsPlaceholder: "playa, atardecer",
+        cameras: "Tomadas con",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "Busca etiquetas, álbumes, fechas…",
+      clear: "Borrar búsqueda",
+      results: "Resultados: {{count}}",
+      empty: {
+        heading: "Sin resultados",
+        content: 'Prueba con una etiqueta, un álbum, una cámara o una fecha como "2024-03".',
+      },
+    },
+    timeline: {
+      day: "Días",
+      month: "Meses",
+      year: "Años",
+      undated: "Sin fecha",
+    },
+    selection: {
+      title: "Seleccionadas: {{count}}",
+      all: "Seleccionar todo",
+      actions: {
+        addToAlbum: "Añadir a álbum",
+        addTags: "Añadir etiquetas",
+        favorite: "Favorito",
+        unfavorite: "Quitar favorito",
+        trash: "Eliminar",
+        export: "Exportar",
+        stripMetadata: "Quitar info",
+      },
+      noAlbums: "Crea un álbum primero.",
+      tagsHelper: "Separa las etiquetas con comas. Cada foto conserva las que ya tiene.",
+      addTags: "Añadir",
+      stripTitle: "¿Quitar la info de las fotos?",
+      stripMessage:
+        "Se quitará para siempre la información de estos archivos, como dónde se tomaron las fotos y con qué cámara. Fotos: {{count}}",
+      strip: "Quitar",
+    },
+    batch: {
+      addToAlbum: "Añadiendo al álbum",
+      addTags: "Añadiendo etiquetas",
+      favorite: "Añadiendo a favoritos",
+      unfavorite: "Quitando de favoritos",
+      trash: "Eliminando",
+      export: "Exportando",
+      stripMetadata: "Quitando la info de las fotos",
+      progress: "{{processed}} de {{total}}",
+      cancelled: "Cancelado",
+      failed: "Fallidas: {{count}}",
+      dismiss: "Descartar",
+    },
+  },
+  histogramComponent: {
+    label: "Histograma de exposición",
+    toggle: "Histograma",
+    highlights: "Luces {{percent}}%",
+    shadows: "Sombras {{percent}}%",
+  },
+  compositionGuideComponent: {
+    label: "Guía de composición: {{guide}}",
+    guides: {
+      none: "Desactivada",
+      thirds: "Regla de los tercios",
+      goldenRatio: "Proporción áurea",
+      goldenSpiral: "Espiral áurea",
+      diagonals: "Diagonales",
+      centerCross: "Cruz central",
+    },
+  },
+  levelComponent: {
+    label: "Nivel: giro {{roll}}°, inclinación {{pitch}}°",
+    toggle: "Nivel",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "Editar",
+    done: "Listo",
+    undo: "Deshacer",
+    redo: "Rehacer",
+    reset: "Restablecer todas las ediciones",
+    missing: "Esta foto ya no está en tu biblioteca.",
+    rotate: "Girar",
+    cropLabel: "Recortar a {{aspect}}",
+    crops: {
+      square: "Cuadrado",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "Exposición",
+      contrast: "Contraste",
+      saturation: "Saturación",
+      temperature: "Temperatura",
+      tint: "Matiz",
+    },
+    decrease: "Reducir {{adjustment}}",
+    increase: "Aumentar {{adjustment}}",
+  },
+  settingsScreen: {
+    title: "Ajustes",
+    sections: {
+      capture: "Captura",
+      appearance: "Apariencia",
+      privacy: "Privacidad",
+      storage: "Almacenamiento",
+      account: "Cuenta",
+    },
+    signedInAs: "Sesión iniciada como {{email}}",
+    signOut: "Cerrar sesión",
+    captureFormat: "Formato de foto",
+    formats: {
+      jpeg: "JPEG (más compatible)",
+      heic: "HEIC (archivos más pequeños)",
+      raw: "RAW (para editar)",
+    },
+    grid: "Cuadrícula",
+    theme: "Tema",
+    themes: {
+      system: "Igual que el sistema",
+      light: "Claro",
+      dark: "Oscuro",
+    },
+    language: "Idioma",
+    systemLanguage: "Igual que el sistema",
+    saveLocation: "Guardar la ubicación en las fotos",
+    stripMetadataOnShare: "Quitar metadatos al compartir",
+    crashReports: "Enviar informes de errores",
+    cacheLimit: "Límite de caché",
+    cacheSize: "{{size}} MB",
+    lowSpaceWarning: "Avisar cuando quede poco espacio",
+    reset: "Restablecer todos los ajustes",
+    restartTitle: "Reinicia para terminar",
+    restartMessage:
+      "El nuevo idioma se lee en otra dirección. Cierra y vuelve a abrir PixAssist para cambiar el diseño.",
+    languageErrorTitle: "No se pudo cambiar el idioma",
+    languageErrorMessage:
+      "La app seguirá en su idioma actual por ahora. Inténtalo de nuevo más tarde.",
+  },
+  authScreen: {
+    login: {
+      title: "Hola de nuevo",
+      subtitle: "Inicia sesión para hacer copia de tus fotos y sincronizar tus álbumes.",
+      submit: "Iniciar sesión",
+      switch: "¿Nuevo en PixAssist? Crea una cuenta",
+    },
+    register: {
+      title: "Crea tu cuenta",
+      subtitle: "Haz copia de tus fotos y sigue donde lo dejaste en cualquier dispositivo.",
+      submit: "Crear cuenta",
+      switch: "¿Ya tienes una cuenta? Inicia sesión",
+    },
+    fields: {
+      name: "Nombre",
+      namePlaceholder: "Tu nombre",
+      email: "Correo electrónico",
+      emailPlaceholder: "tu@ejemplo.com",
+      password: "Contraseña",
+      passwordPlaceholder: "Al menos {{min}} caracteres",
+      showPassword: "Mostrar contraseña",
+      hidePassword: "Ocultar contraseña",
+    },
+    errors: {
+      nameRequired: "Escribe tu nombre",
+      emailInvalid: "Escribe un correo electrónico válido",
+      passwordRequired: "Escribe tu contraseña",
+      passwordTooShort: "Usa al menos {{min}} caracteres",
+      wrongCredentials: "El correo y la contraseña no coinciden",
+      emailTaken: "Ya existe una cuenta con ese correo",
+      offline: "No se puede conectar con PixAssist. Revisa tu conexión e inténtalo de nuevo.",
+      generic: "Algo salió mal. Inténtalo de nuevo.",
+    },
+  },
+  photoDetailScreen: {
+    edit: "Editar",
+    missing: "Esta foto ya no está en tu biblioteca.",
+    position: "{{index}} de {{total}}",
+    info: {
+      title: "Información",
+      camera: "Cámara",
+      lens: "Objetivo",
+      exposure: "Exposición",
+      location: "Ubicación",
+      dimensions: "Dimensiones",
+      fileSize: "Tamaño del archivo",
+    },
+    albums: {
+      title: "Añadir a un álbum",
+      empty: "Primero crea un álbum en la galería.",
+    },
+    tags: {
+      title: "Descripción y etiquetas",
+      caption: "Descripción",
+      tags: "Etiquetas",
+      tagsHelper: "Separa las etiquetas con comas.",
+      save: "Guardar",
+    },
+    trash: "Eliminar",
+  },
+  albumScreen: {
+    title: "Álbum",
+    empty: {
+      heading: "Aún no hay nada",
+      content: "Las fotos que añadas a este álbum aparecerán aquí.",
+    },
+    smartEmptyContent: "Todavía ninguna foto cumple las reglas de este álbum.",
+  },
+  onboardingScreen: {
+    title: "Mejores fotos, menos esfuerzo",
+    features: {
+      assist: {
+        title: "Un segundo par de ojos",
+        content: "Las guías de encuadre y los consejos en vivo te ayudan a conseguir la toma.",
+      },
+      organize: {
+        title: "Ordenado por ti",
+        content: "Las fotos borrosas y casi duplicadas se detectan automáticamente.",
+      },
+      sync: {
+        title: "A salvo en la nube",
+        content: "Las fotos se suben en segundo plano y continúan donde se quedaron.",
+      },
+    },
+    getStarted: "Empezar",
+    haveAccount: "Ya tengo una cuenta",
+  },
+  trashScreen: {
+    title: "Eliminado recientemente",
+    empty: "Vaciar",
+    emptyTitle: "¿Vaciar la papelera?",
+    emptyMessage: "Fotos que se eliminarán para siempre: {{count}}. No se puede deshacer.",
+    photoTitle: "Foto eliminada",
+    daysLeft: "Días hasta que se elimine para siempre: {{count}}",
+    restore: "Restaurar",
+    deleteNow: "Eliminar ahora",
+    retention: "Las fotos se eliminan para siempre después de {{count}} días.",
+    nothing: {
+      heading: "La papelera está vacía",
+      content: "Las fotos que elimines se quedan aquí un tiempo antes de desaparecer para siempre.",
+    },
+  },
 }
 
 export default es
@@ -26,6 +26,303 @@ const fr: Translations = {
       button: "Essayons à nouveau",
     },
   },
+  cameraScreen: {
+    capture: "Prendre une photo",
+    switchLens: "Changer de caméra",
+    flash: "Flash : {{mode}}",
+    flashModes: {
+      off: "Désactivé",
+      on: "Activé",
+      auto: "Auto",
+    },
+    torch: "Lampe torche",
+    zoomIn: "Zoom avant",
+    zoomOut: "Zoom arrière",
+    zoomLevel: "{{zoom}}×",
+    opening: "Démarrage de la caméra…",
+    lastPhoto: "Dernière photo",
+    unavailable: "Impossible de démarrer l'appareil photo.",
+  },
+  galleryScreen: {
+    title: "Galerie",
+    photoCount: "Photos : {{count}}",
+    likelyBlurry: "Probablement floue",
+    blurryFilter: "Probablement floues : {{count}}",
+    showAll: "Afficher toutes les photos",
+    modes: {
+      all: "Toutes les photos",
+      similar: "Similaires",
+    },
+    similarGroup: "{{count}} photos similaires",
+    keeper: "À garder",
+    similarEmpty: {
+      heading: "Aucune photo similaire",
+      content: "Les prises quasi identiques et les rafales seront regroupées ici.",
+    },
+    empty: {
+      heading: "Pas encore de photos",
+      content: "Les photos prises avec l'appareil apparaîtront ici.",
+    },
+    albums: {
+      title: "Albums",
+      count: "{{count}} photos",
+      new: "Nouvel album",
+      trash: "Corbeille",
+      smart: "Album intelligent",
+      smartHelper: "Se remplit tout seul avec les photos correspondantes.",
+      name: "Nom",
+      create: "Créer",
+      delete: "Supprimer",
+      deleteTitle: "Supprimer « {{name}} » ?",
+      deleteMessage: "Les photos restent dans votre photothèque.",
+      rules: {
+        favorites: "Favoris uniquement",
+        tags: "Avec l'un de ces tags",
+        tagsPlaceholder: "plage, coucher de soleil",
+        cameras: "Prises avec",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "Rechercher tags, albums, dates…",
+      clear: "Effacer la recherche",
+      results: "Résultats : {{count}}",
+      empty: {
+        heading: "Aucun résultat",
+        content: "Essayez un tag, un nom d'album, un appareil ou une date comme « 2024-03 ».",
+      },
+    },
+    timeline: {
+      day: "Jours",
+      month: "Mois",
+      year: "Années",
+      undated: "Sans date",
+    },
+    selection: {
+      title: "Sélectionnées : {{count}}",
+      all: "Tout sélectionner",
+      actions: {
+        addToAlbum: "Ajouter à un album",
+        addTags: "Ajouter des tags",
+        favorite: "Favori",
+        unfavorite: "Retirer des favoris",
+        trash: "Supprimer",
+        export: "Exporter",
+        stripMetadata: "Retirer les infos",
+      },
+      noAlbums: "Créez d'abord un album.",
+      tagsHelper: "Séparez les tags par des virgules. Chaque photo garde ses tags.",
+      addTags: "Ajouter",
+      stripTitle: "Retirer les infos des photos ?",
+      stripMessage:
+        "Les infos de ces fichiers, comme le lieu et l'appareil des photos, seront définitivement supprimées. Photos : {{count}}",
+      strip: "Retirer",
+    },
+    batch: {
+      addToAlbum: "Ajout à l'album",
+      addTags: "Ajout des tags",
+      favorite: "Ajout aux favoris",
+      unfavorite: "Retrait des favoris",
+      trash: "Suppression",
+      export: "Exportation",
+      stripMetadata: "Retrait des infos",
+      progress: "{{processed}} sur {{total}}",
+      cancelled: "Annulé",
+      failed: "Échecs : {{count}}",
+      dismiss: "Fermer",
+    },
+  },
+  histogramComponent: {
+    label: "Histogramme d'exposition",
+    toggle: "Histogramme",
+    highlights: "Hautes lumières {{percent}} %",
+    shadows: "Ombres {{percent}} %",
+  },
+  compositionGuideComponent: {
+    label: "Guide de composition : {{guide}}",
+    guides: {
+      none: "Désactivé",
+      thirds: "Règle des tiers",
+      goldenRatio: "Nombre d'or",
+      goldenSpiral: "Spirale d'or",
+      diagonals: "Diagonales",
+      centerCross: "Croix centrale",
+    },
+  },
+  levelComponent: {
+    label: "Niveau : roulis {{roll}}°, tangage {{pitch}}°",
+    toggle: "Niveau",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "Modifier",
+    done: "Terminé",
+    undo: "Annuler",
+    redo: "Rétablir",
+    reset: "Réinitialiser toutes les modifications",
+    missing: "Cette photo n'est plus dans votre bibliothèque.",
+    rotate: "Pivoter",
+    cropLabel: "Recadrer en {{aspect}}",
+    crops: {
+      square: "Carré",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "Exposition",
+      contrast: "Contraste",
+      saturation: "Saturation",
+      temperature: "Température",
+      tint: "Teinte",
+    },
+    decrease: "Diminuer {{adjustment}}",
+    increase: "Augmenter {{adjustment}}",
+  },
+  settingsScreen: {
+    title: "Réglages",
+    sections: {
+      capture: "Prise de vue",
+      appearance: "Apparence",
+      privacy: "Confidentialité",
+      storage: "Stockage",
+      account: "Compte",
+    },
+    signedInAs: "Connecté en tant que {{email}}",
+    signOut: "Se déconnecter",
+    captureFormat: "Format des photos",
+    formats: {
+      jpeg: "JPEG (le plus compatible)",
+      heic: "HEIC (fichiers plus légers)",
+      raw: "RAW (pour la retouche)",
+    },
+    grid: "Grille",
+    theme: "Thème",
+    themes: {
+      system: "Comme le système",
+      light: "Clair",
+      dark: "Sombre",
+    },
+    language: "Langue",
+    systemLanguage: "Comme le système",
+    saveLocation: "Enregistrer la position dans les photos",
+    stripMetadataOnShare: "Supprimer les métadonnées au partage",
+    crashReports: "Envoyer les rapports de plantage",
+    cacheLimit: "Limite du cache",
+    cacheSize: "{{size}} Mo",
+    lowSpaceWarning: "Avertir quand le stockage est presque plein",
+    reset: "Réinitialiser tous les réglages",
+    restartTitle: "Redémarrez pour terminer",
+    restartMessage:
+      "La nouvelle langue se lit dans un autre sens. Fermez puis rouvrez PixAssist pour changer la mise en page.",
+    languageErrorTitle: "Impossible de changer de langue",
+    languageErrorMessage:
+      "L'application reste dans sa langue actuelle pour le moment. Réessayez plus tard.",
+  },
+  authScreen: {
+    login: {
+      title: "Bon retour",
+      subtitle: "Connectez-vous pour sauvegarder vos photos et synchroniser vos albums.",
+      submit: "Se connecter",
+      switch: "Nouveau sur PixAssist ? Créer un compte",
+    },
+    register: {
+      title: "Créez votre compte",
+      subtitle:
+        "Sauvegardez vos photos et reprenez là où vous en étiez sur n'importe quel appareil.",
+      submit: "Créer un compte",
+      switch: "Déjà un compte ? Se connecter",
+    },
+    fields: {
+      name: "Nom",
+      namePlaceholder: "Votre nom",
+      email: "E-mail",
+      emailPlaceholder: "vous@exemple.com",
+      password: "Mot de passe",
+      passwordPlaceholder: "Au moins {{min}} caractères",
+      showPassword: "Afficher le mot de passe",
+      hidePassword: "Masquer le mot de passe",
+    },
+    errors: {
+      nameRequired: "Saisissez votre nom",
+      emailInvalid: "Saisissez une adresse e-mail valide",
+      passwordRequired: "Saisissez votre mot de passe",
+      passwordTooShort: "Utilisez au moins {{min}} caractères",
+      wrongCredentials: "L'e-mail et le mot de passe ne correspondent pas",
+      emailTaken: "Un compte existe déjà avec cet e-mail",
+      offline: "Impossible de joindre PixAssist. Vérifiez votre connexion et réessayez.",
+      generic: "Une erreur s'est produite. Veuillez réessayer.",
+    },
+  },
+  photoDetailScreen: {
+    edit: "Modifier",
+    missing: "Cette photo ne fait plus partie de votre bibliothèque.",
+    position: "{{index}} sur {{total}}",
+    info: {
+      title: "Infos",
+      camera: "Appareil",
+      lens: "Objectif",
+      exposure: "Exposition",
+      location: "Lieu",
+      dimensions: "Dimensions",
+      fileSize: "Taille du fichier",
+    },
+    albums: {
+      title: "Ajouter à un album",
+      empty: "Créez d'abord un album dans la galerie.",
+    },
+    tags: {
+      title: "Légende et tags",
+      caption: "Légende",
+      tags: "Tags",
+      tagsHelper: "Séparez les tags par des virgules.",
+      save: "Enregistrer",
+    },
+    trash: "Supprimer",
+  },
+  albumScreen: {
+    title: "Album",
+    empty: {
+      heading: "Rien pour l'instant",
+      content: "Les photos que vous ajoutez à cet album apparaîtront ici.",
+    },
+    smartEmptyContent: "Aucune photo ne correspond encore aux règles de cet album.",
+  },
+  onboardingScreen: {
+    title: "De meilleures photos, sans effort",
+    features: {
+      assist: {
+        title: "Un deuxième regard",
+        content: "Les guides de cadrage et les conseils en direct vous aident à réussir la photo.",
+      },
+      organize: {
+        title: "Trié pour vous",
+        content: "Les photos floues et les quasi-doublons sont repérés automatiquement.",
+      },
+      sync: {
+        title: "En sécurité dans le cloud",
+        content:
+          "Les photos sont envoyées en arrière-plan et reprennent là où elles s'étaient arrêtées.",
+      },
+    },
+    getStarted: "Commencer",
+    haveAccount: "J'ai déjà un compte",
+  },
+  trashScreen: {
+    title: "Supprimés récemment",
+    empty: "Vider",
+    emptyTitle: "Vider la corbeille ?",
+    emptyMessage: "Photos à supprimer définitivement : {{count}}. Cette action est irréversible.",
+    photoTitle: "Photo supprimée",
+    daysLeft: "Jours avant suppression définitive : {{count}}",
+    restore: "Restaurer",
+    deleteNow: "Supprimer maintenant",
+    retention: "Les photos sont supprimées définitivement après {{count}} jours.",
+    nothing: {
+      heading: "La corbeille est vide",
+      content:
+        "Les photos que vous supprimez restent ici un moment avant de disparaître définitivement.",
+    },
+  },
 }
 
 export default fr
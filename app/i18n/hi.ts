@@ -25,6 +25,299 @@ const hi: Translations = {
       button: "चलो फिर से कोशिश करते हैं",
     },
   },
+  cameraScreen: {
+    capture: "फ़ोटो लें",
+    switchLens: "कैमरा बदलें",
+    flash: "फ़्लैश: {{mode}}",
+    flashModes: {
+      off: "बंद",
+      on: "चालू",
+      auto: "स्वचालित",
+    },
+    torch: "टॉर्च",
+    zoomIn: "ज़ूम इन",
+    zoomOut: "ज़ूम आउट",
+    zoomLevel: "{{zoom}}×",
+    opening: "कैमरा शुरू हो रहा है…",
+    lastPhoto: "पिछली फ़ोटो",
+    unavailable: "कैमरा शुरू नहीं हो सका।",
+  },
+  galleryScreen: {
+    title: "गैलरी",
+    photoCount: "फ़ोटो: {{count}}",
+    likelyBlurry: "संभवतः धुंधली",
+    blurryFilter: "संभवतः धुंधली: {{count}}",
+    showAll: "सभी फ़ोटो दिखाएँ",
+    modes: {
+      all: "सभी फ़ोटो",
+      similar: "मिलती-जुलती",
+    },
+    similarGroup: "{{count}} मिलती-जुलती फ़ोटो",
+    keeper: "रखने योग्य",
+    similarEmpty: {
+      heading: "कोई मिलती-जुलती फ़ोटो नहीं",
+      content: "लगभग एक जैसे शॉट और बर्स्ट यहाँ समूहित होंगे।",
+    },
+    empty: {
+      heading: "अभी तक कोई फ़ोटो नहीं",
+      content: "कैमरे से ली गई फ़ोटो यहाँ दिखाई देंगी।",
+    },
+    albums: {
+      title: "एल्बम",
+      count: "{{count}} फ़ोटो",
+      new: "नया एल्बम",
+      trash: "ट्रैश",
+      smart: "स्मार्ट एल्बम",
+      smartHelper: "मेल खाने वाली फ़ोटो से अपने आप भरता है।",
+      name: "नाम",
+      create: "बनाएँ",
+      delete: "हटाएँ",
+      deleteTitle: '"{{name}}" हटाएँ?',
+      deleteMessage: "फ़ोटो आपकी लाइब्रेरी में बनी रहेंगी।",
+      rules: {
+        favorites: "केवल पसंदीदा",
+        tags: "इनमें से किसी भी टैग के साथ",
+        tagsPlaceholder: "समुद्र तट, सूर्यास्त",
+        cameras: "इससे ली गई",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "टैग, एल्बम, तारीखें खोजें…",
+      clear: "खोज साफ़ करें",
+      results: "परिणाम: {{count}}",
+      empty: {
+        heading: "कोई परिणाम नहीं",
+        content: 'कोई टैग, एल्बम का नाम, कैमरा या "2024-03" जैसी तारीख आज़माएँ।',
+      },
+    },
+    timeline: {
+      day: "दिन",
+      month: "महीने",
+      year: "वर्ष",
+      undated: "कोई तारीख नहीं",
+    },
+    selection: {
+      title: "चयनित: {{count}}",
+      all: "सभी चुनें",
+      actions: {
+        addToAlbum: "एल्बम में जोड़ें",
+        addTags: "टैग जोड़ें",
+        favorite: "पसंदीदा",
+        unfavorite: "पसंदीदा से हटाएँ",
+        trash: "हटाएँ",
+        export: "निर्यात करें",
+        stripMetadata: "जानकारी हटाएँ",
+      },
+      noAlbums: "पहले एक एल्बम बनाएँ।",
+      tagsHelper: "टैग को अल्पविराम से अलग करें। हर फ़ोटो के मौजूदा टैग बने रहते हैं।",
+      addTags: "जोड़ें",
+      stripTitle: "फ़ोटो की जानकारी हटाएँ?",
+      stripMessage:
+        "इन फ़ाइलों से फ़ोटो की जानकारी, जैसे ये कहाँ और किस कैमरे से ली गईं, हमेशा के लिए हटा दी जाएगी। फ़ोटो: {{count}}",
+      strip: "हटाएँ",
+    },
+    batch: {
+      addToAlbum: "एल्बम में जोड़ा जा रहा है",
+      addTags: "टैग जोड़े जा रहे हैं",
+      favorite: "पसंदीदा में जोड़ा जा रहा है",
+      unfavorite: "पसंदीदा से हटाया जा रहा है",
+      trash: "हटाया जा रहा है",
+      export: "निर्यात हो रहा है",
+      stripMetadata: "फ़ोटो की जानकारी हटाई जा रही है",
+      progress: "{{total}} में से {{processed}}",
+      cancelled: "रद्द किया गया",
+      failed: "विफल: {{count}}",
+      dismiss: "हटाएँ",
+    },
+  },
+  histogramComponent: {
+    label: "एक्सपोज़र हिस्टोग्राम",
+    toggle: "हिस्टोग्राम",
+    highlights: "हाइलाइट्स {{percent}}%",
+    shadows: "छायाएँ {{percent}}%",
+  },
+  compositionGuideComponent: {
+    label: "कंपोज़िशन गाइड: {{guide}}",
+    guides: {
+      none: "बंद",
+      thirds: "तिहाई का नियम",
+      goldenRatio: "स्वर्णिम अनुपात",
+      goldenSpiral: "स्वर्णिम सर्पिल",
+      diagonals: "विकर्ण",
+      centerCross: "केंद्र क्रॉस",
+    },
+  },
+  levelComponent: {
+    label: "लेवल: रोल {{roll}}°, पिच {{pitch}}°",
+    toggle: "लेवल",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "संपादित करें",
+    done: "हो गया",
+    undo: "पूर्ववत करें",
+    redo: "फिर से करें",
+    reset: "सभी संपादन रीसेट करें",
+    missing: "यह फ़ोटो अब आपकी लाइब्रेरी में नहीं है।",
+    rotate: "घुमाएँ",
+    cropLabel: "{{aspect}} में क्रॉप करें",
+    crops: {
+      square: "वर्गाकार",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "एक्सपोज़र",
+      contrast: "कंट्रास्ट",
+      saturation: "संतृप्ति",
+      temperature: "तापमान",
+      tint: "टिंट",
+    },
+    decrease: "{{adjustment}} घटाएँ",
+    increase: "{{adjustment}} बढ़ाएँ",
+  },
+  settingsScreen: {
+    title: "सेटिंग्स",
+    sections: {
+      capture: "कैप्चर",
+      appearance: "दिखावट",
+      privacy: "गोपनीयता",
+      storage: "स्टोरेज",
+      account: "खाता",
+    },
+    signedInAs: "{{email}} के रूप में साइन इन है",
+    signOut: "साइन आउट करें",
+    captureFormat: "फ़ोटो फ़ॉर्मैट",
+    formats: {
+      jpeg: "JPEG (सबसे अनुकूल)",
+      heic: "HEIC (छोटी फ़ाइलें)",
+      raw: "RAW (संपादन के लिए)",
+    },
+    grid: "ग्रिड ओवरले",
+    theme: "थीम",
+    themes: {
+      system: "सिस्टम के अनुसार",
+      light: "लाइट",
+      dark: "डार्क",
+    },
+    language: "भाषा",
+    systemLanguage: "सिस्टम के अनुसार",
+    saveLocation: "फ़ोटो में स्थान सहेजें",
+    stripMetadataOnShare: "शेयर करते समय मेटाडेटा हटाएँ",
+    crashReports: "क्रैश रिपोर्ट भेजें",
+    cacheLimit: "कैश सीमा",
+    cacheSize: "{{size}} MB",
+    lowSpaceWarning: "स्टोरेज कम होने पर चेतावनी दें",
+    reset: "सभी सेटिंग्स रीसेट करें",
+    restartTitle: "पूरा करने के लिए फिर से शुरू करें",
+    restartMessage:
+      "नई भाषा अलग दिशा में पढ़ी जाती है। लेआउट बदलने के लिए PixAssist को बंद करके फिर से खोलें।",
+    languageErrorTitle: "भाषा नहीं बदली जा सकी",
+    languageErrorMessage: "ऐप फ़िलहाल अपनी मौजूदा भाषा में ही रहेगा। बाद में फिर से कोशिश करें।",
+  },
+  authScreen: {
+    login: {
+      title: "फिर से स्वागत है",
+      subtitle: "अपनी फ़ोटो का बैकअप लेने और एल्बम सिंक करने के लिए साइन इन करें।",
+      submit: "साइन इन करें",
+      switch: "PixAssist पर नए हैं? खाता बनाएँ",
+    },
+    register: {
+      title: "अपना खाता बनाएँ",
+      subtitle: "अपनी फ़ोटो का बैकअप लें और किसी भी डिवाइस पर वहीं से जारी रखें।",
+      submit: "खाता बनाएँ",
+      switch: "पहले से खाता है? साइन इन करें",
+    },
+    fields: {
+      name: "नाम",
+      namePlaceholder: "आपका नाम",
+      email: "ईमेल",
+      emailPlaceholder: "you@example.com",
+      password: "पासवर्ड",
+      passwordPlaceholder: "कम से कम {{min}} अक्षर",
+      showPassword: "पासवर्ड दिखाएँ",
+      hidePassword: "पासवर्ड छिपाएँ",
+    },
+    errors: {
+      nameRequired: "अपना नाम दर्ज करें",
+      emailInvalid: "मान्य ईमेल पता दर्ज करें",
+      passwordRequired: "अपना पासवर्ड दर्ज करें",
+      passwordTooShort: "कम से कम {{min}} अक्षर उपयोग करें",
+      wrongCredentials: "ईमेल और पासवर्ड मेल नहीं खाते",
+      emailTaken: "इस ईमेल से एक खाता पहले से मौजूद है",
+      offline: "PixAssist तक नहीं पहुँच सके। अपना कनेक्शन जाँचें और फिर से कोशिश करें।",
+      generic: "कुछ गलत हो गया। कृपया फिर से कोशिश करें।",
+    },
+  },
+  photoDetailScreen: {
+    edit: "संपादित करें",
+    missing: "यह फ़ोटो अब आपकी लाइब्रेरी में नहीं है।",
+    position: "{{total}} में से {{index}}",
+    info: {
+      title: "जानकारी",
+      camera: "कैमरा",
+      lens: "लेंस",
+      exposure: "एक्सपोज़र",
+      location: "स्थान",
+      dimensions: "आयाम",
+      fileSize: "फ़ाइल का आकार",
+    },
+    albums: {
+      title: "एल्बम में जोड़ें",
+      empty: "पहले गैलरी में एक एल्बम बनाएँ।",
+    },
+    tags: {
+      title: "कैप्शन और टैग",
+      caption: "कैप्शन",
+      tags: "टैग",
+      tagsHelper: "टैग को कॉमा से अलग करें।",
+      save: "सहेजें",
+    },
+    trash: "हटाएँ",
+  },
+  albumScreen: {
+    title: "एल्बम",
+    empty: {
+      heading: "यहाँ अभी कुछ नहीं है",
+      content: "इस एल्बम में जोड़ी गई फ़ोटो यहाँ दिखेंगी।",
+    },
+    smartEmptyContent: "अभी कोई फ़ोटो इस एल्बम के नियमों से मेल नहीं खाती।",
+  },
+  onboardingScreen: {
+    title: "बेहतर फ़ोटो, कम मेहनत",
+    features: {
+      assist: {
+        title: "एक और नज़र",
+        content: "फ़्रेमिंग गाइड और लाइव सुझाव आपको सही शॉट लेने में मदद करते हैं।",
+      },
+      organize: {
+        title: "आपके लिए व्यवस्थित",
+        content: "धुंधली और लगभग एक जैसी फ़ोटो अपने आप मिल जाती हैं।",
+      },
+      sync: {
+        title: "क्लाउड में सुरक्षित",
+        content: "फ़ोटो बैकग्राउंड में अपलोड होती हैं और जहाँ रुकी थीं वहीं से जारी रहती हैं।",
+      },
+    },
+    getStarted: "शुरू करें",
+    haveAccount: "मेरा पहले से खाता है",
+  },
+  trashScreen: {
+    title: "हाल ही में हटाई गई",
+    empty: "खाली करें",
+    emptyTitle: "ट्रैश खाली करें?",
+    emptyMessage: "हमेशा के लिए हटाई जाने वाली फ़ोटो: {{count}}. इसे पूर्ववत नहीं किया जा सकता।",
+    photoTitle: "हटाई गई फ़ोटो",
+    daysLeft: "हमेशा के लिए हटने में बचे दिन: {{count}}",
+    restore: "पुनर्स्थापित करें",
+    deleteNow: "अभी हटाएँ",
+    retention: "फ़ोटो {{count}} दिनों के बाद हमेशा के लिए हटा दी जाती हैं।",
+    nothing: {
+      heading: "ट्रैश खाली है",
+      content: "आपकी हटाई गई फ़ोटो हमेशा के लिए हटने से पहले कुछ समय यहाँ रहती हैं।",
+    },
+  },
 }
 
 export default hi
@@ -1,9 +1,9 @@
-import { I18nManager } from "react-native"
-import * as Localization from "expo-localization"
 import i18n from "i18next"
 import { initReactI18next } from "react-i18next"
 import "intl-pluralrules"
 
+import { settingsStore } from "@/services/settings"
+
 // if English isn't your default language, move Translations to the appropriate language file.
 import ar from "./ar"
 import en, { Translations } from "./en"
@@ -12,35 +12,20 @@ import fr from "./fr"
 import hi from "./hi"
 import ja from "./ja"
 import ko from "./ko"
-
-const fallbackLocale = "en-US"
-
-const systemLocales = Localization.getLocales()
+import { applyLayoutDirection, fallbackLocale, isRTLLanguage, resolveLanguage } from "./language"
 
 const resources = { ar, en, ko, es, fr, ja, hi }
-const supportedTags = Object.keys(resources)
-
-// Checks to see if the device locale matches any of the supported locales
-// Device locale may be more specific and still match (e.g., en-US matches en)
-const systemTagMatchesSupportedTags = (deviceTag: string) => {
-  const primaryTag = deviceTag.split("-")[0]
-  return supportedTags.includes(primaryTag)
-}
-
-const pickSupportedLocale: () => Localization.Locale | undefined = () => {
-  return systemLocales.find((locale) => systemTagMatchesSupportedTags(locale.languageTag))
-}
 
-const locale = pickSupportedLocale()
+const languageSetting = settingsStore.get("appearance.language")
 
 export let isRTL = false
 
 // Need to set RTL ASAP to ensure the app is rendered correctly. Waiting for i18n to init is too late.
-if (locale?.languageTag && locale?.textDirection === "rtl") {
-  I18nManager.allowRTL(true)
+if (isRTLLanguage(languageSetting)) {
+  applyLayoutDirection(true)
   isRTL = true
 } else {
-  I18nManager.allowRTL(false)
+  applyLayoutDirection(false)
 }
 
 export const initI18n = async () => {
@@ -48,7 +33,7 @@ export const initI18n = async () => {
 
   await i18n.init({
     resources,
-    lng: locale?.languageTag ?? fallbackLocale,
+    lng: resolveLanguage(languageSetting),
     fallbackLng: fallbackLocale,
     interpolation: {
       escapeValue: false,
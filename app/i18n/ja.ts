@@ -26,6 +26,299 @@ const ja: Translations = {
       button: "もう一度やってみよう",
     },
   },
+  cameraScreen: {
+    capture: "写真を撮る",
+    switchLens: "カメラを切り替え",
+    flash: "フラッシュ: {{mode}}",
+    flashModes: {
+      off: "オフ",
+      on: "オン",
+      auto: "自動",
+    },
+    torch: "ライト",
+    zoomIn: "ズームイン",
+    zoomOut: "ズームアウト",
+    zoomLevel: "{{zoom}}×",
+    opening: "カメラを起動中…",
+    lastPhoto: "最後の写真",
+    unavailable: "カメラを起動できませんでした。",
+  },
+  galleryScreen: {
+    title: "ギャラリー",
+    photoCount: "写真: {{count}}",
+    likelyBlurry: "ブレている可能性あり",
+    blurryFilter: "ブレている可能性あり: {{count}}",
+    showAll: "すべての写真を表示",
+    modes: {
+      all: "すべての写真",
+      similar: "類似",
+    },
+    similarGroup: "類似写真 {{count}} 枚",
+    keeper: "おすすめ",
+    similarEmpty: {
+      heading: "類似写真はありません",
+      content: "ほぼ同じ写真や連写はここにまとめられます。",
+    },
+    empty: {
+      heading: "写真はまだありません",
+      content: "カメラで撮った写真がここに表示されます。",
+    },
+    albums: {
+      title: "アルバム",
+      count: "{{count}} 枚",
+      new: "新規アルバム",
+      trash: "ゴミ箱",
+      smart: "スマートアルバム",
+      smartHelper: "条件に合う写真が自動で追加されます。",
+      name: "名前",
+      create: "作成",
+      delete: "削除",
+      deleteTitle: "「{{name}}」を削除しますか？",
+      deleteMessage: "写真はライブラリに残ります。",
+      rules: {
+        favorites: "お気に入りのみ",
+        tags: "次のいずれかのタグ",
+        tagsPlaceholder: "ビーチ, 夕焼け",
+        cameras: "撮影カメラ",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "タグ、アルバム、日付で検索…",
+      clear: "検索をクリア",
+      results: "一致: {{count}}",
+      empty: {
+        heading: "一致する写真はありません",
+        content: "タグ、アルバム名、カメラ、または「2024-03」のような日付で試してください。",
+      },
+    },
+    timeline: {
+      day: "日",
+      month: "月",
+      year: "年",
+      undated: "日付なし",
+    },
+    selection: {
+      title: "選択中：{{count}}",
+      all: "すべて選択",
+      actions: {
+        addToAlbum: "アルバムに追加",
+        addTags: "タグを追加",
+        favorite: "お気に入り",
+        unfavorite: "お気に入り解除",
+        trash: "削除",
+        export: "書き出し",
+        stripMetadata: "情報を削除",
+      },
+      noAlbums: "先にアルバムを作成してください。",
+      tagsHelper: "タグはカンマで区切ります。既存のタグはそのまま残ります。",
+      addTags: "追加",
+      stripTitle: "写真の情報を削除しますか？",
+      stripMessage:
+        "撮影場所や使用カメラなど、ファイル内の写真情報が完全に削除されます。写真：{{count}}枚",
+      strip: "削除",
+    },
+    batch: {
+      addToAlbum: "アルバムに追加中",
+      addTags: "タグを追加中",
+      favorite: "お気に入りに追加中",
+      unfavorite: "お気に入りから削除中",
+      trash: "削除中",
+      export: "書き出し中",
+      stripMetadata: "写真の情報を削除中",
+      progress: "{{processed}} / {{total}}",
+      cancelled: "キャンセルしました",
+      failed: "失敗：{{count}}",
+      dismiss: "閉じる",
+    },
+  },
+  histogramComponent: {
+    label: "露出ヒストグラム",
+    toggle: "ヒストグラム",
+    highlights: "ハイライト {{percent}}%",
+    shadows: "シャドウ {{percent}}%",
+  },
+  compositionGuideComponent: {
+    label: "構図ガイド: {{guide}}",
+    guides: {
+      none: "オフ",
+      thirds: "三分割法",
+      goldenRatio: "黄金比",
+      goldenSpiral: "黄金螺旋",
+      diagonals: "対角線",
+      centerCross: "中心十字",
+    },
+  },
+  levelComponent: {
+    label: "水準器: ロール {{roll}}°、ピッチ {{pitch}}°",
+    toggle: "水準器",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "編集",
+    done: "完了",
+    undo: "元に戻す",
+    redo: "やり直す",
+    reset: "すべての編集をリセット",
+    missing: "この写真はライブラリにありません。",
+    rotate: "回転",
+    cropLabel: "{{aspect}}に切り抜く",
+    crops: {
+      square: "正方形",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "露出",
+      contrast: "コントラスト",
+      saturation: "彩度",
+      temperature: "色温度",
+      tint: "色かぶり",
+    },
+    decrease: "{{adjustment}}を下げる",
+    increase: "{{adjustment}}を上げる",
+  },
+  settingsScreen: {
+    title: "設定",
+    sections: {
+      capture: "撮影",
+      appearance: "外観",
+      privacy: "プライバシー",
+      storage: "ストレージ",
+      account: "アカウント",
+    },
+    signedInAs: "{{email}} でサインイン中",
+    signOut: "サインアウト",
+    captureFormat: "写真の形式",
+    formats: {
+      jpeg: "JPEG（互換性重視）",
+      heic: "HEIC（ファイルが小さい）",
+      raw: "RAW（編集向け）",
+    },
+    grid: "グリッド",
+    theme: "テーマ",
+    themes: {
+      system: "システムに合わせる",
+      light: "ライト",
+      dark: "ダーク",
+    },
+    language: "言語",
+    systemLanguage: "システムに合わせる",
+    saveLocation: "写真に位置情報を保存",
+    stripMetadataOnShare: "共有時にメタデータを削除",
+    crashReports: "クラッシュレポートを送信",
+    cacheLimit: "キャッシュの上限",
+    cacheSize: "{{size}} MB",
+    lowSpaceWarning: "空き容量が少ないときに警告",
+    reset: "すべての設定をリセット",
+    restartTitle: "再起動して完了",
+    restartMessage:
+      "新しい言語は文字の向きが異なります。PixAssistを閉じてから再度開くとレイアウトが切り替わります。",
+    languageErrorTitle: "言語を切り替えられませんでした",
+    languageErrorMessage: "アプリはしばらく現在の言語のままです。後でもう一度お試しください。",
+  },
+  authScreen: {
+    login: {
+      title: "おかえりなさい",
+      subtitle: "サインインして写真をバックアップし、アルバムを同期しましょう。",
+      submit: "サインイン",
+      switch: "PixAssist は初めてですか？アカウントを作成",
+    },
+    register: {
+      title: "アカウントを作成",
+      subtitle: "写真をバックアップして、どのデバイスでも続きから使えます。",
+      submit: "アカウントを作成",
+      switch: "アカウントをお持ちですか？サインイン",
+    },
+    fields: {
+      name: "名前",
+      namePlaceholder: "お名前",
+      email: "メールアドレス",
+      emailPlaceholder: "you@example.com",
+      password: "パスワード",
+      passwordPlaceholder: "{{min}} 文字以上",
+      showPassword: "パスワードを表示",
+      hidePassword: "パスワードを隠す",
+    },
+    errors: {
+      nameRequired: "名前を入力してください",
+      emailInvalid: "有効なメールアドレスを入力してください",
+      passwordRequired: "パスワードを入力してください",
+      passwordTooShort: "{{min}} 文字以上にしてください",
+      wrongCredentials: "メールアドレスとパスワードが一致しません",
+      emailTaken: "このメールアドレスのアカウントはすでに存在します",
+      offline: "PixAssist に接続できません。接続を確認してもう一度お試しください。",
+      generic: "問題が発生しました。もう一度お試しください。",
+    },
+  },
+  photoDetailScreen: {
+    edit: "編集",
+    missing: "この写真はライブラリにありません。",
+    position: "{{index}} / {{total}}",
+    info: {
+      title: "情報",
+      camera: "カメラ",
+      lens: "レンズ",
+      exposure: "露出",
+      location: "撮影場所",
+      dimensions: "サイズ",
+      fileSize: "ファイルサイズ",
+    },
+    albums: {
+      title: "アルバムに追加",
+      empty: "まずギャラリーでアルバムを作成してください。",
+    },
+    tags: {
+      title: "キャプションとタグ",
+      caption: "キャプション",
+      tags: "タグ",
+      tagsHelper: "タグはカンマで区切ってください。",
+      save: "保存",
+    },
+    trash: "削除",
+  },
+  albumScreen: {
+    title: "アルバム",
+    empty: {
+      heading: "まだ何もありません",
+      content: "このアルバムに追加した写真がここに表示されます。",
+    },
+    smartEmptyContent: "このアルバムの条件に合う写真はまだありません。",
+  },
+  onboardingScreen: {
+    title: "もっと良い写真を、もっと手軽に",
+    features: {
+      assist: {
+        title: "もう一つの目",
+        content: "構図ガイドとライブヒントが撮影をサポートします。",
+      },
+      organize: {
+        title: "自動で整理",
+        content: "ぶれた写真やよく似た写真を自動で見つけます。",
+      },
+      sync: {
+        title: "クラウドで安心",
+        content: "写真はバックグラウンドでアップロードされ、中断しても続きから再開します。",
+      },
+    },
+    getStarted: "はじめる",
+    haveAccount: "アカウントをお持ちの方",
+  },
+  trashScreen: {
+    title: "最近削除した項目",
+    empty: "空にする",
+    emptyTitle: "ゴミ箱を空にしますか？",
+    emptyMessage: "完全に削除される写真：{{count}}枚。この操作は取り消せません。",
+    photoTitle: "削除した写真",
+    daysLeft: "完全に削除されるまでの日数：{{count}}",
+    restore: "復元",
+    deleteNow: "今すぐ削除",
+    retention: "写真は{{count}}日後に完全に削除されます。",
+    nothing: {
+      heading: "ゴミ箱は空です",
+      content: "削除した写真は、完全に削除されるまでしばらくここに残ります。",
+    },
+  },
 }
 
 export default ja
@@ -25,6 +25,299 @@ const ko: Translations = {
       button: "다시 시도해봅시다",
     },
   },
+  cameraScreen: {
+    capture: "사진 찍기",
+    switchLens: "카메라 전환",
+    flash: "플래시: {{mode}}",
+    flashModes: {
+      off: "끔",
+      on: "켬",
+      auto: "자동",
+    },
+    torch: "손전등",
+    zoomIn: "확대",
+    zoomOut: "축소",
+    zoomLevel: "{{zoom}}×",
+    opening: "카메라 시작 중…",
+    lastPhoto: "마지막 사진",
+    unavailable: "카메라를 시작할 수 없습니다.",
+  },
+  galleryScreen: {
+    title: "갤러리",
+    photoCount: "사진: {{count}}",
+    likelyBlurry: "흐릿할 수 있음",
+    blurryFilter: "흐릿할 수 있는 사진: {{count}}",
+    showAll: "모든 사진 보기",
+    modes: {
+      all: "모든 사진",
+      similar: "비슷한 사진",
+    },
+    similarGroup: "비슷한 사진 {{count}}장",
+    keeper: "추천",
+    similarEmpty: {
+      heading: "비슷한 사진 없음",
+      content: "거의 같은 사진과 연속 촬영 사진이 여기에 묶입니다.",
+    },
+    empty: {
+      heading: "아직 사진이 없습니다",
+      content: "카메라로 찍은 사진이 여기에 표시됩니다.",
+    },
+    albums: {
+      title: "앨범",
+      count: "사진 {{count}}장",
+      new: "새 앨범",
+      trash: "휴지통",
+      smart: "스마트 앨범",
+      smartHelper: "조건에 맞는 사진으로 자동으로 채워집니다.",
+      name: "이름",
+      create: "만들기",
+      delete: "삭제",
+      deleteTitle: '"{{name}}"을(를) 삭제할까요?',
+      deleteMessage: "사진은 보관함에 그대로 남아 있습니다.",
+      rules: {
+        favorites: "즐겨찾기만",
+        tags: "다음 태그 중 하나 포함",
+        tagsPlaceholder: "해변, 노을",
+        cameras: "촬영 기기",
+        camerasPlaceholder: "Pixel, iPhone",
+      },
+    },
+    search: {
+      placeholder: "태그, 앨범, 날짜 검색…",
+      clear: "검색 지우기",
+      results: "검색 결과: {{count}}",
+      empty: {
+        heading: "결과 없음",
+        content: '태그, 앨범 이름, 카메라 또는 "2024-03" 같은 날짜로 검색해 보세요.',
+      },
+    },
+    timeline: {
+      day: "일",
+      month: "월",
+      year: "연도",
+      undated: "날짜 없음",
+    },
+    selection: {
+      title: "선택됨: {{count}}",
+      all: "모두 선택",
+      actions: {
+        addToAlbum: "앨범에 추가",
+        addTags: "태그 추가",
+        favorite: "즐겨찾기",
+        unfavorite: "즐겨찾기 해제",
+        trash: "삭제",
+        export: "내보내기",
+        stripMetadata: "정보 제거",
+      },
+      noAlbums: "먼저 앨범을 만드세요.",
+      tagsHelper: "태그는 쉼표로 구분하세요. 사진마다 기존 태그는 그대로 유지됩니다.",
+      addTags: "추가",
+      stripTitle: "사진 정보를 제거할까요?",
+      stripMessage:
+        "촬영 장소와 카메라 등 파일에 담긴 사진 정보가 완전히 삭제됩니다. 사진: {{count}}장",
+      strip: "제거",
+    },
+    batch: {
+      addToAlbum: "앨범에 추가하는 중",
+      addTags: "태그 추가 중",
+      favorite: "즐겨찾기에 추가하는 중",
+      unfavorite: "즐겨찾기에서 제거하는 중",
+      trash: "삭제하는 중",
+      export: "내보내는 중",
+      stripMetadata: "사진 정보 제거 중",
+      progress: "{{processed}} / {{total}}",
+      cancelled: "취소됨",
+      failed: "실패: {{count}}",
+      dismiss: "닫기",
+    },
+  },
+  histogramComponent: {
+    label: "노출 히스토그램",
+    toggle: "히스토그램",
+    highlights: "하이라이트 {{percent}}%",
+    shadows: "섀도 {{percent}}%",
+  },
+  compositionGuideComponent: {
+    label: "구도 가이드: {{guide}}",
+    guides: {
+      none: "끄기",
+      thirds: "3분할 법칙",
+      goldenRatio: "황금비",
+      goldenSpiral: "황금 나선",
+      diagonals: "대각선",
+      centerCross: "중앙 십자",
+    },
+  },
+  levelComponent: {
+    label: "수평계: 롤 {{roll}}°, 피치 {{pitch}}°",
+    toggle: "수평계",
+    angle: "{{angle}}°",
+  },
+  editorScreen: {
+    title: "편집",
+    done: "완료",
+    undo: "실행 취소",
+    redo: "다시 실행",
+    reset: "모든 편집 초기화",
+    missing: "이 사진은 더 이상 보관함에 없습니다.",
+    rotate: "회전",
+    cropLabel: "{{aspect}}(으)로 자르기",
+    crops: {
+      square: "정사각형",
+      fourThree: "4:3",
+      sixteenNine: "16:9",
+    },
+    adjustments: {
+      exposure: "노출",
+      contrast: "대비",
+      saturation: "채도",
+      temperature: "색온도",
+      tint: "색조",
+    },
+    decrease: "{{adjustment}} 낮추기",
+    increase: "{{adjustment}} 높이기",
+  },
+  settingsScreen: {
+    title: "설정",
+    sections: {
+      capture: "촬영",
+      appearance: "화면",
+      privacy: "개인정보",
+      storage: "저장공간",
+      account: "계정",
+    },
+    signedInAs: "{{email}}(으)로 로그인됨",
+    signOut: "로그아웃",
+    captureFormat: "사진 형식",
+    formats: {
+      jpeg: "JPEG (호환성 우선)",
+      heic: "HEIC (작은 파일)",
+      raw: "RAW (편집용)",
+    },
+    grid: "격자",
+    theme: "테마",
+    themes: {
+      system: "시스템 설정 따르기",
+      light: "라이트",
+      dark: "다크",
+    },
+    language: "언어",
+    systemLanguage: "시스템 설정 따르기",
+    saveLocation: "사진에 위치 저장",
+    stripMetadataOnShare: "공유할 때 메타데이터 제거",
+    crashReports: "오류 보고서 보내기",
+    cacheLimit: "캐시 한도",
+    cacheSize: "{{size}}MB",
+    lowSpaceWarning: "저장공간이 부족하면 알림",
+    reset: "모든 설정 초기화",
+    restartTitle: "다시 시작하여 완료",
+    restartMessage:
+      "새 언어는 읽는 방향이 다릅니다. PixAssist를 닫았다가 다시 열면 화면 방향이 바뀝니다.",
+    languageErrorTitle: "언어를 바꿀 수 없습니다",
+    languageErrorMessage: "앱은 당분간 현재 언어로 유지됩니다. 나중에 다시 시도하세요.",
+  },
+  authScreen: {
+    login: {
+      title: "다시 오신 것을 환영해요",
+      subtitle: "로그인하고 사진을 백업하고 앨범을 동기화하세요.",
+      submit: "로그인",
+      switch: "PixAssist가 처음이신가요? 계정 만들기",
+    },
+    register: {
+      title: "계정 만들기",
+      subtitle: "사진을 백업하고 어느 기기에서든 이어서 사용하세요.",
+      submit: "계정 만들기",
+      switch: "이미 계정이 있으신가요? 로그인",
+    },
+    fields: {
+      name: "이름",
+      namePlaceholder: "이름",
+      email: "이메일",
+      emailPlaceholder: "you@example.com",
+      password: "비밀번호",
+      passwordPlaceholder: "{{min}}자 이상",
+      showPassword: "비밀번호 표시",
+      hidePassword: "비밀번호 숨기기",
+    },
+    errors: {
+      nameRequired: "이름을 입력하세요",
+      emailInvalid: "올바른 이메일 주소를 입력하세요",
+      passwordRequired: "비밀번호를 입력하세요",
+      passwordTooShort: "{{min}}자 이상 입력하세요",
+      wrongCredentials: "이메일과 비밀번호가 일치하지 않아요",
+      emailTaken: "이 이메일로 된 계정이 이미 있어요",
+      offline: "PixAssist에 연결할 수 없어요. 연결을 확인하고 다시 시도하세요.",
+      generic: "문제가 발생했어요. 다시 시도하세요.",
+    },
+  },
+  photoDetailScreen: {
+    edit: "편집",
+    missing: "이 사진은 더 이상 보관함에 없습니다.",
+    position: "{{total}}장 중 {{index}}번째",
+    info: {
+      title: "정보",
+      camera: "카메라",
+      lens: "렌즈",
+      exposure: "노출",
+      location: "위치",
+      dimensions: "크기",
+      fileSize: "파일 크기",
+    },
+    albums: {
+      title: "앨범에 추가",
+      empty: "먼저 갤러리에서 앨범을 만드세요.",
+    },
+    tags: {
+      title: "설명 및 태그",
+      caption: "설명",
+      tags: "태그",
+      tagsHelper: "태그는 쉼표로 구분하세요.",
+      save: "저장",
+    },
+    trash: "삭제",
+  },
+  albumScreen: {
+    title: "앨범",
+    empty: {
+      heading: "아직 아무것도 없습니다",
+      content: "이 앨범에 추가한 사진이 여기에 표시됩니다.",
+    },
+    smartEmptyContent: "아직 이 앨범의 조건에 맞는 사진이 없습니다.",
+  },
+  onboardingScreen: {
+    title: "더 좋은 사진을 더 쉽게",
+    features: {
+      assist: {
+        title: "또 하나의 눈",
+        content: "구도 가이드와 실시간 힌트로 원하는 장면을 담으세요.",
+      },
+      organize: {
+        title: "알아서 정리",
+        content: "흐린 사진과 비슷한 사진을 자동으로 찾아냅니다.",
+      },
+      sync: {
+        title: "클라우드에 안전하게",
+        content: "사진은 백그라운드에서 업로드되며 중단된 곳부터 이어집니다.",
+      },
+    },
+    getStarted: "시작하기",
+    haveAccount: "이미 계정이 있습니다",
+  },
+  trashScreen: {
+    title: "최근 삭제된 항목",
+    empty: "비우기",
+    emptyTitle: "휴지통을 비울까요?",
+    emptyMessage: "영구 삭제할 사진: {{count}}장. 되돌릴 수 없습니다.",
+    photoTitle: "삭제된 사진",
+    daysLeft: "영구 삭제까지 남은 일수: {{count}}",
+    restore: "복원",
+    deleteNow: "지금 삭제",
+    retention: "사진은 {{count}}일 후 영구 삭제됩니다.",
+    nothing: {
+      heading: "휴지통이 비어 있습니다",
+      content: "삭제한 사진은 영구 삭제되기 전까지 잠시 여기에 보관됩니다.",
+    },
+  },
 }
 
 export default ko
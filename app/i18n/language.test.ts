@@ -0,0 +1,76 @@
+import { I18nManager } from "react-native"
+import type { Locale } from "expo-localization"
+import i18n from "i18next"
+
+import { formatDate } from "@/utils/formatDate"
+
+import { changeLanguage, isRTLLanguage, resolveLanguage } from "./language"
+
+jest.mock("i18next", () => {
+  const instance = {
+    language: "en-US",
+    changeLanguage: jest.fn(async (language: string) => {
+      instance.language = language
+    }),
+  }
+  return instance
+})
+
+const locale = (languageTag: string, textDirection: "ltr" | "rtl" = "ltr") =>
+  ({ languageTag, textDirection }) as Locale
+
+describe("resolveLanguage", () => {
+  it("uses an explicit choice as is", () => {
+    expect(resolveLanguage("ja", [locale("fr-FR")])).toBe("ja")
+  })
+
+  it("follows the first supported system locale", () => {
+    expect(resolveLanguage("system", [locale("de-DE"), locale("es-MX")])).toBe("es-MX")
+  })
+
+  it("falls back to English when no system locale is supported", () => {
+    expect(resolveLanguage("system", [locale("de-DE")])).toBe("en-US")
+    expect(resolveLanguage("system", [])).toBe("en-US")
+  })
+})
+
+describe("isRTLLanguage", () => {
+  it("knows which languages read right to left", () => {
+    expect(isRTLLanguage("ar", [])).toBe(true)
+    expect(isRTLLanguage("ko", [locale("ar-EG", "rtl")])).toBe(false)
+  })
+
+  it("asks the system locale when following the system", () => {
+    expect(isRTLLanguage("system", [locale("ar-EG", "rtl")])).toBe(true)
+    expect(isRTLLanguage("system", [locale("he-IL", "rtl"), locale("en-US")])).toBe(false)
+  })
+})
+
+describe("changeLanguage", () => {
+  beforeEach(() => {
+    jest.spyOn(I18nManager, "allowRTL").mockImplementation(() => {})
+    jest.spyOn(I18nManager, "forceRTL").mockImplementation(() => {})
+  })
+
+  afterEach(() => jest.restoreAllMocks())
+
+  it("switches translations and date formats right away", async () => {
+    const result = await changeLanguage("fr")
+
+    expect(i18n.changeLanguage).toHaveBeenCalledWith("fr")
+    expect(formatDate("2024-01-15", "MMMM")).toBe("janvier")
+    expect(result).toEqual({ restartRequired: false })
+  })
+
+  it("asks for a restart when the layout direction flips", async () => {
+    const result = await changeLanguage("ar")
+
+    expect(I18nManager.allowRTL).toHaveBeenCalledWith(true)
+    expect(I18nManager.forceRTL).toHaveBeenCalledWith(true)
+    expect(result).toEqual({ restartRequired: true })
+
+    await changeLanguage("en")
+    expect(I18nManager.forceRTL).toHaveBeenLastCalledWith(false)
+    expect(formatDate("2024-01-15", "MMMM")).toBe("January")
+  })
+})
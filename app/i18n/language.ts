@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react"
+import { I18nManager } from "react-native"
+import * as Localization from "expo-localization"
+import i18n from "i18next"
+
+import { LANGUAGES, LanguageSetting } from "@/services/settings"
+import { loadDateFnsLocale } from "@/utils/formatDate"
+
+export const fallbackLocale = "en-US"
+
+// languages written right to left; the layout has to be mirrored for these
+const RTL_LANGUAGES = ["ar"]
+
+const supportedTags: readonly string[] = LANGUAGES.filter((language) => language !== "system")
+
+/**
+ * The first system locale we have translations for, if any. Device locales may be
+ * more specific and still match (e.g., en-US matches en).
+ */
+export function pickSupportedLocale(
+  systemLocales: Localization.Locale[] = Localization.getLocales(),
+): Localization.Locale | undefined {
+  return systemLocales.find((locale) => supportedTags.includes(locale.languageTag.split("-")[0]))
+}
+
+/**
+ * The language tag to hand i18next for a language setting. "system" follows the device.
+ */
+export function resolveLanguage(
+  setting: LanguageSetting,
+  systemLocales: Localization.Locale[] = Localization.getLocales(),
+): string {
+  if (setting !== "system") return setting
+  return pickSupportedLocale(systemLocales)?.languageTag ?? fallbackLocale
+}
+
+/**
+ * Whether a language setting calls for a right-to-left layout.
+ */
+export function isRTLLanguage(
+  setting: LanguageSetting,
+  systemLocales: Localization.Locale[] = Localization.getLocales(),
+): boolean {
+  if (setting !== "system") return RTL_LANGUAGES.includes(setting)
+  return pickSupportedLocale(systemLocales)?.textDirection === "rtl"
+}
+
+/**
+ * Tells React Native which layout direction to use. It only takes effect on the next
+ * launch, which is why changing direction needs a restart.
+ */
+export function applyLayoutDirection(rtl: boolean) {
+  I18nManager.allowRTL(rtl)
+  I18nManager.forceRTL(rtl)
+}
+
+/**
+ * Switches the app to another language while it runs: translations and date formats
+ * change right away, the layout direction on the next launch.
+ *
+ * @param setting The language to switch to.
+ * @returns Whether the layout direction changed, in which case the user has to restart
+ * the app to see the mirrored layout.
+ */
+export async function changeLanguage(setting: LanguageSetting) {
+  await i18n.changeLanguage(resolveLanguage(setting))
+  loadDateFnsLocale()
+
+  const rtl = isRTLLanguage(setting)
+  applyLayoutDirection(rtl)
+  return { restartRequired: rtl !== I18nManager.isRTL }
+}
+
+/**
+ * The current i18next language. Re-renders whenever it changes, which makes it a handy
+ * key for remounting anything that translated its text on render.
+ * @returns {string} - The current language tag.
+ */
+export function useLanguage() {
+  const [language, setLanguage] = useState(i18n.language)
+
+  useEffect(() => {
+    const onChange = (next: string) => setLanguage(next)
+    i18n.on("languageChanged", onChange)
+    return () => {
+      i18n.off("languageChanged", onChange)
+    }
+  }, [])
+
+  return language
+}
@@ -5,16 +5,31 @@
  * and a "main" flow which the user will use once logged in.
  */
 import { ComponentProps } from "react"
-import { NavigationContainer } from "@react-navigation/native"
-import { createBottomTabNavigator, BottomTabScreenProps } from "@react-navigation/bottom-tabs"
 import { Ionicons } from "@expo/vector-icons"
+import { createBottomTabNavigator, BottomTabScreenProps } from "@react-navigation/bottom-tabs"
+import {
+  CompositeScreenProps,
+  NavigationContainer,
+  NavigatorScreenParams,
+} from "@react-navigation/native"
+import { createNativeStackNavigator, NativeStackScreenProps } from "@react-navigation/native-stack"
 
 import Config from "@/config"
-import { ErrorBoundary } from "@/screens/ErrorScreen/ErrorBoundary"
-import { HomeScreen } from "@/screens/HomeScreen"
+import { AlbumScreen } from "@/screens/AlbumScreen"
 import { CameraScreen } from "@/screens/CameraScreen"
+import { EditorScreen } from "@/screens/EditorScreen"
+import { ErrorBoundary } from "@/screens/ErrorScreen/ErrorBoundary"
 import { GalleryScreen } from "@/screens/GalleryScreen"
+import { HomeScreen } from "@/screens/HomeScreen"
+import { LoginScreen } from "@/screens/LoginScreen"
+import { hasOnboarded, OnboardingScreen } from "@/screens/OnboardingScreen"
+import { PhotoDetailScreen } from "@/screens/PhotoDetailScreen"
+import { RegisterScreen } from "@/screens/RegisterScreen"
 import { SettingsScreen } from "@/screens/SettingsScreen"
+import { TrashScreen } from "@/screens/TrashScreen"
+import { useAuth } from "@/services/auth"
+import type { PhotoQuery } from "@/services/library"
+import type { SettingsSection } from "@/services/settings"
 import { useAppTheme } from "@/theme/context"
 
 import { navigationRef, useBackButtonHandler } from "./navigationUtilities"
@@ -28,11 +43,28 @@ import { navigationRef, useBackButtonHandler } from "./navigationUtilities"
  *   https://reactnavigation.org/docs/typescript#type-checking-the-navigator
  *   https://reactnavigation.org/docs/typescript/#organizing-types
  */
+export type AppStackParamList = {
+  Onboarding: undefined
+  Login: undefined
+  Register: undefined
+  Main: NavigatorScreenParams<AppTabParamList> | undefined
+  /**
+   * Pages through the photos matching `query`, the whole library by default.
+   */
+  PhotoDetail: { photoId: string; query?: Omit<PhotoQuery, "offset" | "limit"> }
+  Editor: { photoId: string }
+  Album: { albumId: string }
+  Trash: undefined
+}
+
 export type AppTabParamList = {
   Home: undefined
   Camera: undefined
   Gallery: undefined
-  Settings: undefined
+  /**
+   * Opens scrolled to `section`.
+   */
+  Settings: { section?: SettingsSection } | undefined
 }
 
 /**
@@ -41,14 +73,27 @@ export type AppTabParamList = {
  */
 const exitRoutes = Config.exitRoutes
 
-export type AppTabScreenProps<T extends keyof AppTabParamList> = BottomTabScreenProps<
-  AppTabParamList,
+export type AppStackScreenProps<T extends keyof AppStackParamList> = NativeStackScreenProps<
+  AppStackParamList,
   T
 >
 
+export type AppTabScreenProps<T extends keyof AppTabParamList> = CompositeScreenProps<
+  BottomTabScreenProps<AppTabParamList, T>,
+  AppStackScreenProps<keyof AppStackParamList>
+>
+
+/**
+ * The name of a screen, as opposed to a navigator: what `getActiveRouteName` returns.
+ */
+export type AppRouteName = Exclude<keyof AppStackParamList, "Main"> | keyof AppTabParamList
+
 // Documentation: https://reactnavigation.org/docs/bottom-tab-navigator/
 const Tab = createBottomTabNavigator<AppTabParamList>()
 
+// Documentation: https://reactnavigation.org/docs/native-stack-navigator/
+const Stack = createNativeStackNavigator<AppStackParamList>()
+
 const AppTabs = () => {
   const {
     theme: { colors },
@@ -66,44 +111,36 @@ const AppTabs = () => {
         tabBarInactiveTintColor: colors.palette.neutral400,
       }}
     >
-      <Tab.Screen 
-        name="Home" 
+      <Tab.Screen
+        name="Home"
         component={HomeScreen}
         options={{
           tabBarLabel: "Home",
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="home" size={size} color={color} />
-          ),
+          tabBarIcon: ({ color, size }) => <Ionicons name="home" size={size} color={color} />,
         }}
       />
-      <Tab.Screen 
-        name="Camera" 
+      <Tab.Screen
+        name="Camera"
         component={CameraScreen}
         options={{
           tabBarLabel: "Camera",
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="camera" size={size} color={color} />
-          ),
+          tabBarIcon: ({ color, size }) => <Ionicons name="camera" size={size} color={color} />,
         }}
       />
-      <Tab.Screen 
-        name="Gallery" 
+      <Tab.Screen
+        name="Gallery"
         component={GalleryScreen}
         options={{
           tabBarLabel: "Gallery",
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="images" size={size} color={color} />
-          ),
+          tabBarIcon: ({ color, size }) => <Ionicons name="images" size={size} color={color} />,
         }}
       />
-      <Tab.Screen 
-        name="Settings" 
+      <Tab.Screen
+        name="Settings"
         component={SettingsScreen}
         options={{
           tabBarLabel: "Settings",
-          tabBarIcon: ({ color, size }) => (
-            <Ionicons name="settings" size={size} color={color} />
-          ),
+          tabBarIcon: ({ color, size }) => <Ionicons name="settings" size={size} color={color} />,
         }}
       />
     </Tab.Navigator>
@@ -111,7 +148,44 @@ const AppTabs = () => {
 }
 
 export interface NavigationProps
-  extends Partial<ComponentProps<typeof NavigationContainer<AppTabParamList>>> {}
+  extends Partial<ComponentProps<typeof NavigationContainer<AppStackParamList>>> {}
+
+const AppStack = () => {
+  const {
+    theme: { colors },
+  } = useAppTheme()
+  const user = useAuth()
+
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: colors.background },
+      }}
+    >
+      {/* only one side is registered at a time, so there is no way back to the other */}
+      {user ? (
+        <Stack.Group>
+          <Stack.Screen name="Main" component={AppTabs} />
+          <Stack.Screen name="PhotoDetail" component={PhotoDetailScreen} />
+          <Stack.Screen
+            name="Editor"
+            component={EditorScreen}
+            options={{ presentation: "fullScreenModal" }}
+          />
+          <Stack.Screen name="Album" component={AlbumScreen} />
+          <Stack.Screen name="Trash" component={TrashScreen} />
+        </Stack.Group>
+      ) : (
+        <Stack.Group screenOptions={{ animation: "fade" }}>
+          {!hasOnboarded() && <Stack.Screen name="Onboarding" component={OnboardingScreen} />}
+          <Stack.Screen name="Login" component={LoginScreen} />
+          <Stack.Screen name="Register" component={RegisterScreen} />
+        </Stack.Group>
+      )}
+    </Stack.Navigator>
+  )
+}
 
 export const AppNavigator = (props: NavigationProps) => {
   const { navigationTheme } = useAppTheme()
@@ -121,7 +195,7 @@ export const AppNavigator = (props: NavigationProps) => {
   return (
     <NavigationContainer ref={navigationRef} theme={navigationTheme} {...props}>
       <ErrorBoundary catchErrors={Config.catchErrors}>
-        <AppTabs />
+        <AppStack />
       </ErrorBoundary>
     </NavigationContainer>
   )
@@ -0,0 +1,120 @@
+import { getPathFromState, getStateFromPath } from "@react-navigation/native"
+
+import { linkingConfig } from "./linking"
+
+const parse = (path: string) => getStateFromPath(path, linkingConfig)
+
+const build = (path: string) => {
+  const state = parse(path)
+  if (!state) throw new Error(`no route for ${path}`)
+  return getPathFromState(state, linkingConfig)
+}
+
+/**
+ * The route a path leads to, and the names of the routes it's nested in.
+ */
+const resolve = (path: string) => {
+  const parents: string[] = []
+  let state = parse(path)
+  while (state) {
+    const route = state.routes[state.index ?? state.routes.length - 1]
+    if (!route.state) return { parents, name: route.name, params: route.params }
+    parents.push(route.name)
+    state = route.state
+  }
+  throw new Error(`no route for ${path}`)
+}
+
+describe("linking", () => {
+  it("opens a photo", () => {
+    expect(resolve("/photo/p1")).toEqual({
+      parents: [],
+      name: "PhotoDetail",
+      params: { photoId: "p1" },
+    })
+    expect(build("/photo/p1")).toBe("/photo/p1")
+  })
+
+  it("keeps the query the viewer pages through", () => {
+    const state = {
+      routes: [
+        {
+          name: "PhotoDetail",
+          params: { photoId: "p1", query: { filter: { albumId: "a1", favorite: true } } },
+        },
+      ],
+    }
+    const path = getPathFromState(state, linkingConfig)
+
+    expect(resolve(path).params).toEqual(state.routes[0].params)
+  })
+
+  it("drops queries it doesn't understand", () => {
+    const query = (value: unknown) =>
+      (
+        resolve(`/photo/p1?query=${encodeURIComponent(JSON.stringify(value))}`).params as {
+          query?: unknown
+        }
+      ).query
+
+    expect(query({ filter: { tags: "sunset" } })).toBeUndefined()
+    expect(query({ filter: { owner: "someone" } })).toBeUndefined()
+    expect(query({ sortBy: "fileSize" })).toBeUndefined()
+    expect(query({ offset: 100 })).toBeUndefined()
+    expect(resolve("/photo/p1?query=%7Bnot-json").params).toMatchObject({ photoId: "p1" })
+  })
+
+  it("opens a photo in the editor", () => {
+    expect(resolve("/photo/p1/edit")).toEqual({
+      parents: [],
+      name: "Editor",
+      params: { photoId: "p1" },
+    })
+    expect(build("/photo/p1/edit")).toBe("/photo/p1/edit")
+  })
+
+  it("opens an album", () => {
+    expect(resolve("/album/a1")).toEqual({ parents: [], name: "Album", params: { albumId: "a1" } })
+    expect(build("/album/a1")).toBe("/album/a1")
+  })
+
+  it("opens the trash", () => {
+    expect(resolve("/trash")).toMatchObject({ parents: [], name: "Trash" })
+    expect(build("/trash")).toBe("/trash")
+  })
+
+  it("opens settings at a section", () => {
+    expect(resolve("/settings/privacy")).toEqual({
+      parents: ["Main"],
+      name: "Settings",
+      params: { section: "privacy" },
+    })
+    expect(build("/settings/privacy")).toBe("/settings/privacy")
+  })
+
+  it("opens settings at the top without a section", () => {
+    expect(resolve("/settings")).toMatchObject({ parents: ["Main"], name: "Settings" })
+    expect(resolve("/settings").params).toEqual({ section: undefined })
+    expect(build("/settings")).toBe("/settings")
+  })
+
+  it("ignores sections that don't exist", () => {
+    expect(resolve("/settings/bogus").params).toEqual({ section: undefined })
+  })
+
+  it("opens each tab", () => {
+    expect(resolve("/")).toMatchObject({ parents: ["Main"], name: "Home" })
+    expect(resolve("/camera")).toMatchObject({ parents: ["Main"], name: "Camera" })
+    expect(resolve("/gallery")).toMatchObject({ parents: ["Main"], name: "Gallery" })
+    expect(build("/")).toBe("/")
+    expect(build("/camera")).toBe("/camera")
+    expect(build("/gallery")).toBe("/gallery")
+  })
+
+  it("opens the auth screens", () => {
+    expect(resolve("/login")).toMatchObject({ parents: [], name: "Login" })
+    expect(resolve("/register")).toMatchObject({ parents: [], name: "Register" })
+    expect(build("/login")).toBe("/login")
+    expect(build("/register")).toBe("/register")
+  })
+})
@@ -0,0 +1,87 @@
+import type { LinkingOptions } from "@react-navigation/native"
+
+import { isPhotoRuleSet, PhotoFilter, PhotoQuery } from "@/services/library"
+import { SETTINGS_SECTIONS, SettingsSection } from "@/services/settings"
+
+import type { AppStackParamList } from "./AppNavigator"
+
+const isSettingsSection = (value: string): value is SettingsSection =>
+  (SETTINGS_SECTIONS as readonly string[]).includes(value)
+
+type PagingQuery = AppStackParamList["PhotoDetail"]["query"]
+
+const FILTER_FIELDS: Record<keyof PhotoFilter, "boolean" | "string" | "string[]" | "rules"> = {
+  ids: "string[]",
+  favorite: "boolean",
+  tags: "string[]",
+  blurry: "boolean",
+  albumId: "string",
+  capturedAfter: "string",
+  capturedBefore: "string",
+  rules: "rules",
+}
+
+const isFilter = (value: unknown): value is PhotoFilter =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.entries(value).every(([key, field]) => {
+    const type = FILTER_FIELDS[key as keyof PhotoFilter]
+    if (type === "string[]") {
+      return Array.isArray(field) && field.every((item) => typeof item === "string")
+    }
+    if (type === "rules") return isPhotoRuleSet(field)
+    return type !== undefined && typeof field === type
+  })
+
+/**
+ * The photo viewer's query travels as JSON. Links come from outside the app, so anything
+ * that isn't a well-formed query is dropped and the viewer pages through the whole library.
+ */
+const parsePagingQuery = (value: string): PagingQuery => {
+  try {
+    const { filter, sortBy, direction, ...rest }: PhotoQuery = JSON.parse(value)
+    if (Object.keys(rest).length > 0) return undefined
+    if (filter !== undefined && !isFilter(filter)) return undefined
+    if (sortBy !== undefined && !["capturedAt", "width", "height"].includes(sortBy)) {
+      return undefined
+    }
+    if (direction !== undefined && direction !== "asc" && direction !== "desc") return undefined
+    return { filter, sortBy, direction }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Maps URL paths to the routes in `AppNavigator`, e.g. `pixassist://photo/42` or
+ * `pixassist://settings/privacy`. Typed against the param lists, so renaming a route
+ * without updating its path fails to compile.
+ */
+export const linkingConfig: LinkingOptions<AppStackParamList>["config"] = {
+  screens: {
+    Login: "login",
+    Register: "register",
+    Main: {
+      screens: {
+        Home: "",
+        Camera: "camera",
+        Gallery: "gallery",
+        Settings: {
+          path: "settings/:section?",
+          // an unknown section still opens the screen, just at the top
+          parse: {
+            section: (section: string) => (isSettingsSection(section) ? section : undefined),
+          },
+        },
+      },
+    },
+    PhotoDetail: {
+      path: "photo/:photoId",
+      parse: { query: parsePagingQuery },
+      stringify: { query: (query: PagingQuery) => JSON.stringify(query) },
+    },
+    Editor: "photo/:photoId/edit",
+    Album: "album/:albumId",
+    Trash: "trash",
+  },
+}
@@ -11,7 +11,7 @@ import type { PersistNavigationConfig } from "@/config/config.base"
 import * as storage from "@/utils/storage"
 import { useIsMounted } from "@/utils/useIsMounted"
 
-import type { AppStackParamList, NavigationProps } from "./AppNavigator"
+import type { AppRouteName, AppStackParamList, NavigationProps } from "./AppNavigator"
 
 type Storage = typeof storage
 
@@ -30,16 +30,19 @@ export const navigationRef = createNavigationContainerRef<AppStackParamList>()
 /**
  * Gets the current screen from any navigation state.
  * @param {NavigationState | PartialState<NavigationState>} state - The navigation state to traverse.
- * @returns {string} - The name of the current screen.
+ * @returns {AppRouteName} - The name of the current screen.
  */
-export function getActiveRouteName(state: NavigationState | PartialState<NavigationState>): string {
-  const route = state.routes[state.index ?? 0]
+export function getActiveRouteName(
+  state: NavigationState | PartialState<NavigationState>,
+): AppRouteName {
+  // partial states (restored or from a deep link) may leave the index out, which means the last route
+  const route = state.routes[state.index ?? state.routes.length - 1]
 
   // Found the active route -- return the name
-  if (!route.state) return route.name as keyof AppStackParamList
+  if (!route.state) return route.name as AppRouteName
 
   // Recursive call to deal with nested routers
-  return getActiveRouteName(route.state as NavigationState<AppStackParamList>)
+  return getActiveRouteName(route.state)
 }
 
 const iosExit = () => false
@@ -123,7 +126,7 @@ export function useNavigationPersistence(storage: Storage, persistenceKey: strin
   const initNavState = navigationRestoredDefaultState(Config.persistNavigation)
   const [isRestored, setIsRestored] = useState(initNavState)
 
-  const routeNameRef = useRef<keyof AppStackParamList | undefined>(undefined)
+  const routeNameRef = useRef<AppRouteName | undefined>(undefined)
 
   const onNavigationStateChange = (state: NavigationState | undefined) => {
     const previousRouteName = routeNameRef.current
@@ -138,7 +141,7 @@ export function useNavigationPersistence(storage: Storage, persistenceKey: strin
       }
 
       // Save the current route name for later comparison
-      routeNameRef.current = currentRouteName as keyof AppStackParamList
+      routeNameRef.current = currentRouteName
 
       // Persist state to storage
       storage.save(persistenceKey, state)
@@ -172,13 +175,18 @@ export function useNavigationPersistence(storage: Storage, persistenceKey: strin
  * use this to navigate without the navigation
  * prop. If you have access to the navigation prop, do not use this.
  * @see {@link https://reactnavigation.org/docs/navigating-without-navigation-prop/}
- * @param {unknown} name - The name of the route to navigate to.
- * @param {unknown} params - The params to pass to the route.
+ * @param {keyof AppStackParamList} name - The name of the route to navigate to.
+ * @param {AppStackParamList[keyof AppStackParamList]} params - The params to pass to the route.
  */
-export function navigate(name: unknown, params?: unknown) {
+export function navigate<RouteName extends keyof AppStackParamList>(
+  ...args: RouteName extends unknown
+    ? undefined extends AppStackParamList[RouteName]
+      ? [name: RouteName, params?: AppStackParamList[RouteName]]
+      : [name: RouteName, params: AppStackParamList[RouteName]]
+    : never
+) {
   if (navigationRef.isReady()) {
-    // @ts-expect-error
-    navigationRef.navigate(name as never, params as never)
+    navigationRef.navigate<RouteName>(...args)
   }
 }
 
@@ -0,0 +1,78 @@
+import { FC } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { EmptyState } from "@/components/EmptyState"
+import { PhotoGrid } from "@/components/Gallery/PhotoGrid"
+import { Header } from "@/components/Header"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import { albumQuery, useAlbum } from "@/services/albums"
+import { usePagedPhotoQuery } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+const PAGE_SIZE = 60
+
+export const AlbumScreen: FC<AppStackScreenProps<"Album">> = function AlbumScreen({
+  navigation,
+  route,
+}) {
+  const { albumId } = route.params
+  const { themed } = useAppTheme()
+  const album = useAlbum(albumId)
+  const query = album ? albumQuery(album) : { filter: { albumId } }
+  const { items, total, loadMore } = usePagedPhotoQuery(query, PAGE_SIZE)
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <Header
+        {...(album ? { title: album.name } : { titleTx: "albumScreen:title" })}
+        leftIcon="back"
+        onLeftPress={() => navigation.goBack()}
+        safeAreaEdges={["top"]}
+      />
+      <PhotoGrid
+        photos={items}
+        onEndReached={loadMore}
+        onPressPhoto={(photo) => navigation.push("PhotoDetail", { photoId: photo.id, query })}
+        ListHeaderComponent={
+          <View style={themed($header)}>
+            <Text
+              tx="galleryScreen:photoCount"
+              txOptions={{ count: total }}
+              size="xs"
+              style={themed($count)}
+            />
+          </View>
+        }
+        ListEmptyComponent={
+          <EmptyState
+            style={themed($emptyState)}
+            headingTx="albumScreen:empty.heading"
+            contentTx={
+              album?.kind === "smart"
+                ? "albumScreen:smartEmptyContent"
+                : "albumScreen:empty.content"
+            }
+            button=""
+          />
+        }
+      />
+    </Screen>
+  )
+}
+
+const $header: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.sm,
+})
+
+const $count: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $emptyState: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xxl,
+})
@@ -1,30 +1,114 @@
-import { FC } from "react"
-import { View, ViewStyle } from "react-native"
+import { FC, useState } from "react"
+import { Pressable, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import { useIsFocused } from "@react-navigation/native"
+
+import { CameraView } from "@/components/Camera/CameraView"
+import { CompositionGuide } from "@/components/Camera/CompositionGuide"
+import { HistogramOverlay } from "@/components/Camera/HistogramOverlay"
+import { LevelIndicator } from "@/components/Camera/LevelIndicator"
 import { Screen } from "@/components/Screen"
-import { Text } from "@gluestack-ui/themed"
+import { translate } from "@/i18n/translate"
+import { addCapturedPhoto } from "@/services/library"
+import { useLevel, useMotionSource } from "@/services/motion"
+import { useSetting } from "@/services/settings"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { nextCompositionGuide } from "@/utils/composition"
 
 export const CameraScreen: FC = function CameraScreen() {
+  const isFocused = useIsFocused()
+  const [showHistogram, setShowHistogram] = useState(true)
+  const [showLevel, setShowLevel] = useState(true)
+  const [guide, setGuide] = useSetting("capture.grid")
+  const level = useLevel(useMotionSource(), isFocused && showLevel)
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
   return (
-    <Screen preset="fixed" contentContainerStyle={$container}>
-      <View style={$content}>
-        <Text size="2xl" color="$primary500" textAlign="center">
-          📷 Camera
-        </Text>
-        <Text size="lg" color="$textLight600" textAlign="center" mt="$4">
-          Camera functionality coming soon!
-        </Text>
-      </View>
+    <Screen
+      preset="fixed"
+      safeAreaEdges={["top"]}
+      backgroundColor={colors.cameraBackground}
+      systemBarStyle="light"
+      contentContainerStyle={$styles.flex1}
+    >
+      {/* Only keep the camera running while the tab is visible */}
+      <CameraView
+        active={isFocused}
+        onCapture={(photo) => addCapturedPhoto(photo)}
+        controls={
+          <>
+            <Pressable
+              testID="camera-guide"
+              accessibilityRole="button"
+              accessibilityLabel={translate("compositionGuideComponent:label", {
+                guide: translate(`compositionGuideComponent:guides.${guide}`),
+              })}
+              onPress={() => setGuide(nextCompositionGuide(guide))}
+              style={$controlButton}
+            >
+              <Ionicons
+                name={guide === "none" ? "grid-outline" : "grid"}
+                size={22}
+                color={colors.cameraForeground}
+              />
+            </Pressable>
+            <Pressable
+              testID="camera-level-toggle"
+              accessibilityRole="switch"
+              accessibilityLabel={translate("levelComponent:toggle")}
+              accessibilityState={{ checked: showLevel }}
+              onPress={() => setShowLevel((shown) => !shown)}
+              style={$controlButton}
+            >
+              <Ionicons
+                name={showLevel ? "git-commit" : "git-commit-outline"}
+                size={22}
+                color={colors.cameraForeground}
+              />
+            </Pressable>
+            <Pressable
+              testID="camera-histogram-toggle"
+              accessibilityRole="switch"
+              accessibilityLabel={translate("histogramComponent:toggle")}
+              accessibilityState={{ checked: showHistogram }}
+              onPress={() => setShowHistogram((shown) => !shown)}
+              style={$controlButton}
+            >
+              <Ionicons
+                name={showHistogram ? "stats-chart" : "stats-chart-outline"}
+                size={22}
+                color={colors.cameraForeground}
+              />
+            </Pressable>
+          </>
+        }
+      >
+        {(frame) => (
+          <>
+            <CompositionGuide guide={guide} />
+            {showLevel && <LevelIndicator reading={level} />}
+            {showHistogram && <HistogramOverlay frame={frame} style={themed($histogram)} />}
+          </>
+        )}
+      </CameraView>
     </Screen>
   )
 }
 
-const $container: ViewStyle = {
-  flex: 1,
-}
-
-const $content: ViewStyle = {
-  flex: 1,
-  justifyContent: "center",
+const $controlButton: ViewStyle = {
+  width: 44,
+  height: 44,
   alignItems: "center",
-  paddingHorizontal: 20,
+  justifyContent: "center",
 }
+
+const $histogram: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  position: "absolute",
+  top: spacing.md + 44 + spacing.xs,
+  start: spacing.md,
+})
@@ -0,0 +1,273 @@
+import { FC, useMemo } from "react"
+import { Image, ImageStyle, Pressable, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { CameraPreview } from "@/components/Camera/CameraPreview"
+import { Header } from "@/components/Header"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import {
+  Adjustment,
+  ADJUSTMENTS,
+  centeredCrop,
+  CROP_ASPECTS,
+  CropAspect,
+  editedSize,
+  Edit,
+  netAdjustment,
+  nudgeAdjustment,
+  renderEdits,
+  useEditHistory,
+} from "@/services/editor"
+import { getCapturedFrame, usePhoto } from "@/services/library"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+const PREVIEW_COLUMNS = 48
+
+const ADJUSTMENT_ORDER: Adjustment[] = ["exposure", "contrast", "saturation", "temperature", "tint"]
+const CROP_ORDER = Object.keys(CROP_ASPECTS) as CropAspect[]
+
+export const EditorScreen: FC<AppStackScreenProps<"Editor">> = function EditorScreen(props) {
+  const { navigation, route } = props
+  const { photoId } = route.params
+  const { themed, theme } = useAppTheme()
+  const photo = usePhoto(photoId)
+  const { edits, canUndo, canRedo, apply, undo, redo, reset } = useEditHistory(photoId)
+
+  const frame = photo ? getCapturedFrame(photo.uri) : undefined
+  const rendered = useMemo(() => (frame ? renderEdits(frame, edits) : null), [frame, edits])
+  const size = photo ? editedSize(photo.width, photo.height, edits) : { width: 1, height: 1 }
+
+  const nudge = (adjustment: Adjustment, direction: 1 | -1) =>
+    apply(nudgeAdjustment(edits, adjustment, direction * ADJUSTMENTS[adjustment].step), {
+      coalesce: true,
+    })
+
+  const historyButton = (
+    icon: "arrow-undo" | "arrow-redo",
+    enabled: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      testID={`editor-${icon === "arrow-undo" ? "undo" : "redo"}`}
+      accessibilityRole="button"
+      accessibilityLabel={translate(
+        icon === "arrow-undo" ? "editorScreen:undo" : "editorScreen:redo",
+      )}
+      accessibilityState={{ disabled: !enabled }}
+      disabled={!enabled}
+      onPress={onPress}
+      style={$iconButton}
+    >
+      <Ionicons name={icon} size={22} color={enabled ? theme.colors.text : theme.colors.textDim} />
+    </Pressable>
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <Header
+        titleTx="editorScreen:title"
+        leftTx="editorScreen:done"
+        // edits are saved as they happen, so there is nothing to confirm
+        onLeftPress={() => navigation.goBack()}
+        RightActionComponent={
+          <View style={$styles.row}>
+            {historyButton("arrow-undo", canUndo, undo)}
+            {historyButton("arrow-redo", canRedo, redo)}
+          </View>
+        }
+        safeAreaEdges={["top"]}
+      />
+
+      <View style={themed($previewContainer)}>
+        {!photo ? (
+          <Text tx="editorScreen:missing" style={themed($dim)} />
+        ) : rendered ? (
+          <CameraPreview
+            frame={rendered}
+            columns={PREVIEW_COLUMNS}
+            style={[$preview, { aspectRatio: rendered.width / rendered.height }]}
+          />
+        ) : (
+          // without the pixels we can only show rotation; tonal edits show up once decoded
+          <Image
+            source={{ uri: photo.uri }}
+            resizeMode="contain"
+            style={[
+              $image,
+              { aspectRatio: size.width / size.height },
+              { transform: [{ rotate: `${quarterTurns(edits) * 90}deg` }] },
+            ]}
+          />
+        )}
+      </View>
+
+      <ScrollView style={themed($controls)} contentContainerStyle={themed($controlsContent)}>
+        <View style={themed($row)}>
+          <Pressable
+            testID="editor-rotate"
+            accessibilityRole="button"
+            onPress={() => apply({ type: "rotate", quarterTurns: 1 })}
+            style={themed($chip)}
+          >
+            <Ionicons name="refresh" size={16} color={theme.colors.text} />
+            <Text tx="editorScreen:rotate" size="xs" />
+          </Pressable>
+          {CROP_ORDER.map((aspect) => (
+            <Pressable
+              key={aspect}
+              testID={`editor-crop-${aspect}`}
+              accessibilityRole="button"
+              accessibilityLabel={translate("editorScreen:cropLabel", {
+                aspect: translate(`editorScreen:crops.${aspect}`),
+              })}
+              onPress={() => apply(centeredCrop(size.width, size.height, aspect))}
+              style={themed($chip)}
+            >
+              <Ionicons name="crop" size={16} color={theme.colors.text} />
+              <Text tx={`editorScreen:crops.${aspect}`} size="xs" />
+            </Pressable>
+          ))}
+        </View>
+
+        {ADJUSTMENT_ORDER.map((adjustment) => {
+          const value = netAdjustment(edits, adjustment)
+          return (
+            <View key={adjustment} style={themed($adjustment)}>
+              <Text tx={`editorScreen:adjustments.${adjustment}`} style={$styles.flex1} />
+              <Pressable
+                testID={`editor-${adjustment}-decrease`}
+                accessibilityRole="button"
+                accessibilityLabel={translate("editorScreen:decrease", {
+                  adjustment: translate(`editorScreen:adjustments.${adjustment}`),
+                })}
+                onPress={() => nudge(adjustment, -1)}
+                style={$iconButton}
+              >
+                <Ionicons name="remove-circle-outline" size={24} color={theme.colors.tint} />
+              </Pressable>
+              <Text testID={`editor-${adjustment}-value`} size="xs" style={themed($value)}>
+                {formatValue(value)}
+              </Text>
+              <Pressable
+                testID={`editor-${adjustment}-increase`}
+                accessibilityRole="button"
+                accessibilityLabel={translate("editorScreen:increase", {
+                  adjustment: translate(`editorScreen:adjustments.${adjustment}`),
+                })}
+                onPress={() => nudge(adjustment, 1)}
+                style={$iconButton}
+              >
+                <Ionicons name="add-circle-outline" size={24} color={theme.colors.tint} />
+              </Pressable>
+            </View>
+          )
+        })}
+
+        <Pressable
+          testID="editor-reset"
+          accessibilityRole="button"
+          accessibilityState={{ disabled: !canUndo }}
+          disabled={!canUndo}
+          onPress={reset}
+        >
+          <Text
+            tx="editorScreen:reset"
+            size="xs"
+            style={themed(canUndo ? $reset : [$reset, $dim])}
+          />
+        </Pressable>
+      </ScrollView>
+    </Screen>
+  )
+}
+
+function quarterTurns(edits: readonly Edit[]) {
+  return (
+    edits.reduce((turns, edit) => (edit.type === "rotate" ? turns + edit.quarterTurns : turns), 0) %
+    4
+  )
+}
+
+function formatValue(value: number) {
+  const rounded = Math.round(value * 100) / 100
+  return rounded > 0 ? `+${rounded}` : `${rounded}`
+}
+
+const $previewContainer: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  flex: 1,
+  alignItems: "center",
+  justifyContent: "center",
+  padding: spacing.md,
+  backgroundColor: colors.cameraBackground,
+})
+
+const $preview: ViewStyle = {
+  maxWidth: "100%",
+  maxHeight: "100%",
+}
+
+const $image: ImageStyle = {
+  maxWidth: "100%",
+  maxHeight: "100%",
+}
+
+const $controls: ThemedStyle<ViewStyle> = () => ({
+  flexGrow: 0,
+  maxHeight: "45%",
+})
+
+const $controlsContent: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.md,
+  rowGap: spacing.xs,
+})
+
+const $row: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  flexWrap: "wrap",
+  gap: spacing.xs,
+  marginBottom: spacing.xs,
+})
+
+const $chip: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  columnGap: spacing.xxs,
+  paddingHorizontal: spacing.sm,
+  paddingVertical: spacing.xs,
+  borderRadius: 16,
+  borderWidth: 1,
+  borderColor: colors.border,
+})
+
+const $adjustment: ThemedStyle<ViewStyle> = () => ({
+  flexDirection: "row",
+  alignItems: "center",
+})
+
+const $iconButton: ViewStyle = {
+  width: 44,
+  height: 44,
+  alignItems: "center",
+  justifyContent: "center",
+}
+
+const $value: ThemedStyle<TextStyle> = () => ({
+  minWidth: 44,
+  textAlign: "center",
+  fontVariant: ["tabular-nums"],
+})
+
+const $reset: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.tint,
+  marginTop: spacing.sm,
+  textAlign: "center",
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
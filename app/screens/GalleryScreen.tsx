@@ -1,30 +1,382 @@
-import { FC } from "react"
-import { View, ViewStyle } from "react-native"
+import { FC, useMemo, useState } from "react"
+import { Alert, Pressable, TextStyle, View, ViewStyle } from "react-native"
+
+import { EmptyState } from "@/components/EmptyState"
+import { AddTagsSheet } from "@/components/Gallery/AddTagsSheet"
+import { AlbumChooserSheet } from "@/components/Gallery/AlbumChooserSheet"
+import { AlbumStrip } from "@/components/Gallery/AlbumStrip"
+import { BatchJobList } from "@/components/Gallery/BatchJobList"
+import { NewAlbumSheet } from "@/components/Gallery/NewAlbumSheet"
+import { PhotoGrid } from "@/components/Gallery/PhotoGrid"
+import { SearchBar } from "@/components/Gallery/SearchBar"
+import { SelectionBar } from "@/components/Gallery/SelectionBar"
+import { SimilarGroupList } from "@/components/Gallery/SimilarGroupList"
+import { TimelineGrid } from "@/components/Gallery/TimelineGrid"
+import { Header } from "@/components/Header"
 import { Screen } from "@/components/Screen"
-import { Text } from "@gluestack-ui/themed"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { AppTabScreenProps } from "@/navigators/AppNavigator"
+import { Album, albumStore, useAlbumSummaries } from "@/services/albums"
+import { BatchAction, batchJobs } from "@/services/batch"
+import {
+  photoLibrary,
+  PhotoRecord,
+  PhotoRuleSet,
+  TIMELINE_GRANULARITIES,
+  TimelineGranularity,
+  useLibraryVersion,
+  usePagedPhotoQuery,
+  usePhotoMonths,
+  usePhotoQuery,
+  useSimilarGroups,
+} from "@/services/library"
+import { usePhotoSearch } from "@/services/search"
+import { useTrashedPhotos } from "@/services/trash"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useSelection } from "@/utils/useSelection"
 
-export const GalleryScreen: FC = function GalleryScreen() {
-  return (
-    <Screen preset="fixed" contentContainerStyle={$container}>
-      <View style={$content}>
-        <Text size="2xl" color="$primary500" textAlign="center">
-          🖼️ Gallery
-        </Text>
-        <Text size="lg" color="$textLight600" textAlign="center" mt="$4">
-          Photo gallery coming soon!
-        </Text>
+const PAGE_SIZE = 60
+
+type GalleryMode = "all" | "similar"
+const MODES: GalleryMode[] = ["all", "similar"]
+
+type SelectionSheet = "albums" | "tags"
+
+export const GalleryScreen: FC<AppTabScreenProps<"Gallery">> = function GalleryScreen({
+  navigation,
+}) {
+  const { themed } = useAppTheme()
+  const [mode, setMode] = useState<GalleryMode>("all")
+  const [onlyBlurry, setOnlyBlurry] = useState(false)
+  const query = onlyBlurry ? { filter: { blurry: true } } : {}
+  const { items, total, loadMore } = usePagedPhotoQuery(query, PAGE_SIZE)
+  const months = usePhotoMonths(query)
+  const version = useLibraryVersion()
+  const [granularity, setGranularity] = useState<TimelineGranularity>("day")
+  const { total: blurryCount } = usePhotoQuery({ filter: { blurry: true }, limit: 0 })
+  const groups = useSimilarGroups()
+  const albums = useAlbumSummaries()
+  const trashed = useTrashedPhotos()
+  const [creatingAlbum, setCreatingAlbum] = useState(false)
+  const [search, setSearch] = useState("")
+  const hits = usePhotoSearch(search)
+  const searching = mode === "all" && !!search.trim()
+  const results = useMemo(() => hits.map((hit) => hit.photo), [hits])
+  const [selecting, setSelecting] = useState(false)
+  const selection = useSelection()
+  const [selectionSheet, setSelectionSheet] = useState<SelectionSheet | null>(null)
+  // every photo listed, including the timeline's pages that aren't loaded yet
+  const allListed = () => (searching ? results : photoLibrary.query(query).items)
+  // in the order they're listed, which is the order batch jobs work through them
+  const picked = useMemo(
+    () => (selection.ids.size ? allListed().filter((photo) => selection.ids.has(photo.id)) : []),
+    // `query` is rebuilt every render from `onlyBlurry`, and the library is mutable
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [searching, results, onlyBlurry, version, selection.ids],
+  )
+  // swiping through a photo's neighbors stays within what the gallery lists
+  const openPhoto = (photo: PhotoRecord) =>
+    navigation.navigate("PhotoDetail", {
+      photoId: photo.id,
+      query: searching ? { filter: { ids: results.map((result) => result.id) } } : query,
+    })
+  const openAlbum = (album: Album) => navigation.navigate("Album", { albumId: album.id })
+
+  const startSelecting = (photo: PhotoRecord) => {
+    setSelecting(true)
+    selection.set([photo.id])
+  }
+
+  const stopSelecting = () => {
+    setSelecting(false)
+    setSelectionSheet(null)
+    selection.clear()
+  }
+
+  const pressPhoto = (photo: PhotoRecord) =>
+    selecting ? selection.toggle(photo.id) : openPhoto(photo)
+
+  const selectRange = (photos: PhotoRecord[], start: boolean) =>
+    selection.selectRange(
+      photos.map((photo) => photo.id),
+      start,
+    )
+
+  // each action runs as a batch job, listed with its progress until dismissed
+  const runBatch = (start: (photoIds: string[]) => void) => {
+    start(picked.map((photo) => photo.id))
+    stopSelecting()
+  }
+
+  const confirmStripMetadata = () =>
+    Alert.alert(
+      translate("galleryScreen:selection.stripTitle"),
+      translate("galleryScreen:selection.stripMessage", { count: picked.length }),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("galleryScreen:selection.strip"),
+          style: "destructive",
+          onPress: () => runBatch((ids) => batchJobs.stripMetadata(ids)),
+        },
+      ],
+    )
+
+  const onSelectionAction = (action: BatchAction) => {
+    switch (action) {
+      case "addToAlbum":
+        return setSelectionSheet("albums")
+      case "addTags":
+        return setSelectionSheet("tags")
+      case "stripMetadata":
+        return confirmStripMetadata()
+      case "favorite":
+      case "unfavorite":
+        return runBatch((ids) => batchJobs.setFavorite(ids, action === "favorite"))
+      case "trash":
+        return runBatch((ids) => batchJobs.trash(ids))
+      case "export":
+        return runBatch((ids) => batchJobs.export(ids))
+    }
+  }
+
+  const createAlbum = (name: string, rules?: PhotoRuleSet) => {
+    setCreatingAlbum(false)
+    openAlbum(rules ? albumStore.createSmartAlbum(name, rules) : albumStore.createAlbum(name))
+  }
+
+  const confirmDeleteAlbum = (album: Album) =>
+    Alert.alert(
+      translate("galleryScreen:albums.deleteTitle", { name: album.name }),
+      translate("galleryScreen:albums.deleteMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("galleryScreen:albums.delete"),
+          style: "destructive",
+          onPress: () => albumStore.remove(album.id),
+        },
+      ],
+    )
+
+  // kept out of the list, so the keyboard stays up when results replace the timeline
+  const top = selecting ? (
+    <Header
+      titleTx="galleryScreen:selection.title"
+      titleTxOptions={{ count: picked.length }}
+      leftTx="common:cancel"
+      onLeftPress={stopSelecting}
+      rightTx="galleryScreen:selection.all"
+      onRightPress={() => selection.set(allListed().map((photo) => photo.id))}
+      safeAreaEdges={[]}
+    />
+  ) : (
+    <View style={themed($top)}>
+      <Text preset="heading" tx="galleryScreen:title" />
+      {mode === "all" && (
+        <SearchBar value={search} onChangeText={setSearch} containerStyle={themed($search)} />
+      )}
+    </View>
+  )
+
+  const header = (
+    <View style={themed($header)}>
+      <Text
+        tx={searching ? "galleryScreen:search.results" : "galleryScreen:photoCount"}
+        txOptions={{ count: searching ? results.length : total }}
+        size="xs"
+        style={themed($count)}
+      />
+      {mode === "all" && !searching && (
+        <AlbumStrip
+          albums={albums}
+          onPressAlbum={openAlbum}
+          onLongPressAlbum={confirmDeleteAlbum}
+          onPressNew={() => setCreatingAlbum(true)}
+          trashCount={trashed.length}
+          onPressTrash={() => navigation.navigate("Trash")}
+        />
+      )}
+      <View style={themed($modes)} accessibilityRole="tablist">
+        {MODES.map((option) => (
+          <Pressable
+            key={option}
+            testID={`gallery-mode-${option}`}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: mode === option }}
+            onPress={() => {
+              setMode(option)
+              stopSelecting()
+            }}
+          >
+            <Text
+              tx={`galleryScreen:modes.${option}`}
+              size="xs"
+              weight={mode === option ? "bold" : "normal"}
+              style={themed(mode === option ? $modeSelected : $mode)}
+            />
+          </Pressable>
+        ))}
       </View>
+      {mode === "all" && !searching && (blurryCount > 0 || onlyBlurry) && (
+        <Pressable
+          testID="gallery-blurry-filter"
+          accessibilityRole="switch"
+          accessibilityState={{ checked: onlyBlurry }}
+          onPress={() => setOnlyBlurry((only) => !only)}
+        >
+          <Text
+            tx={onlyBlurry ? "galleryScreen:showAll" : "galleryScreen:blurryFilter"}
+            txOptions={{ count: blurryCount }}
+            size="xs"
+            style={themed($filter)}
+          />
+        </Pressable>
+      )}
+      {mode === "all" && !searching && (
+        <View style={themed($modes)} accessibilityRole="radiogroup">
+          {TIMELINE_GRANULARITIES.map((option) => (
+            <Pressable
+              key={option}
+              testID={`gallery-group-${option}`}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: granularity === option }}
+              onPress={() => setGranularity(option)}
+            >
+              <Text
+                tx={`galleryScreen:timeline.${option}`}
+                size="xs"
+                weight={granularity === option ? "bold" : "normal"}
+                style={themed(granularity === option ? $modeSelected : $mode)}
+              />
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  )
+
+  return (
+    <Screen preset="fixed" safeAreaEdges={["top"]} contentContainerStyle={$styles.flex1}>
+      {top}
+      {mode === "similar" ? (
+        <SimilarGroupList
+          groups={groups}
+          onPressPhoto={openPhoto}
+          ListHeaderComponent={header}
+          ListEmptyComponent={
+            <EmptyState
+              style={themed($emptyState)}
+              headingTx="galleryScreen:similarEmpty.heading"
+              contentTx="galleryScreen:similarEmpty.content"
+              button=""
+            />
+          }
+        />
+      ) : searching ? (
+        <PhotoGrid
+          photos={results}
+          onPressPhoto={pressPhoto}
+          onLongPressPhoto={selecting ? undefined : startSelecting}
+          selectedIds={selecting ? selection.ids : undefined}
+          ListHeaderComponent={header}
+          ListEmptyComponent={
+            <EmptyState
+              style={themed($emptyState)}
+              headingTx="galleryScreen:search.empty.heading"
+              contentTx="galleryScreen:search.empty.content"
+              button=""
+            />
+          }
+        />
+      ) : (
+        <TimelineGrid
+          photos={items}
+          granularity={granularity}
+          onPressPhoto={pressPhoto}
+          onLongPressPhoto={selecting ? undefined : startSelecting}
+          selectedIds={selecting ? selection.ids : undefined}
+          onSelectRange={selectRange}
+          onEndReached={loadMore}
+          months={months}
+          ListHeaderComponent={header}
+          ListEmptyComponent={
+            <EmptyState
+              style={themed($emptyState)}
+              headingTx="galleryScreen:empty.heading"
+              contentTx="galleryScreen:empty.content"
+              button=""
+            />
+          }
+        />
+      )}
+      <BatchJobList />
+      {selecting && (
+        <SelectionBar
+          count={picked.length}
+          allFavorite={picked.length > 0 && picked.every((photo) => photo.favorite)}
+          onAction={onSelectionAction}
+        />
+      )}
+      <AlbumChooserSheet
+        visible={selectionSheet === "albums"}
+        onClose={() => setSelectionSheet(null)}
+        onChoose={(albumId) => runBatch((ids) => batchJobs.addToAlbum(ids, albumId))}
+      />
+      <AddTagsSheet
+        visible={selectionSheet === "tags"}
+        onClose={() => setSelectionSheet(null)}
+        onAdd={(tags) => runBatch((ids) => batchJobs.addTags(ids, tags))}
+      />
+      <NewAlbumSheet
+        visible={creatingAlbum}
+        onClose={() => setCreatingAlbum(false)}
+        onCreate={createAlbum}
+      />
     </Screen>
   )
 }
 
-const $container: ViewStyle = {
-  flex: 1,
-}
+const $top: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingTop: spacing.md,
+})
 
-const $content: ViewStyle = {
-  flex: 1,
-  justifyContent: "center",
-  alignItems: "center",
-  paddingHorizontal: 20,
-}
+const $header: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.sm,
+})
+
+const $search: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginVertical: spacing.xs,
+})
+
+const $count: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $modes: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  columnGap: spacing.md,
+  marginTop: spacing.xs,
+})
+
+const $mode: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $modeSelected: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
+
+const $filter: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.tint,
+  marginTop: spacing.xxs,
+})
+
+const $emptyState: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xxl,
+})
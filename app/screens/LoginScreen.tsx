@@ -0,0 +1,135 @@
+import { FC, useRef, useState } from "react"
+import {
+  // eslint-disable-next-line no-restricted-imports
+  TextInput,
+  TextStyle,
+  ViewStyle,
+} from "react-native"
+
+import { Button } from "@/components/Button"
+import { PasswordField } from "@/components/PasswordField"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import type { LoginRequest } from "@/services/api/types"
+import { authStore } from "@/services/auth"
+import { authProblemMessage, FieldErrors, validateLogin } from "@/services/auth/validation"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+export const LoginScreen: FC<AppStackScreenProps<"Login">> = function LoginScreen({ navigation }) {
+  const { themed } = useAppTheme()
+  const passwordInput = useRef<TextInput>(null)
+  const [form, setForm] = useState<LoginRequest>({ email: "", password: "" })
+  const [errors, setErrors] = useState<FieldErrors<LoginRequest>>({})
+  const [problem, setProblem] = useState<TxKeyPath | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const update = (field: keyof LoginRequest) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }))
+    setErrors((current) => ({ ...current, [field]: undefined }))
+  }
+
+  const submit = async () => {
+    const found = validateLogin(form)
+    setErrors(found)
+    setProblem(null)
+    if (Object.keys(found).length > 0 || submitting) return
+
+    setSubmitting(true)
+    const result = await authStore.signIn({ ...form, email: form.email.trim() })
+    // on success the navigator swaps this screen out for the tabs
+    if (result.kind !== "ok") {
+      setProblem(authProblemMessage(result, "login"))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Screen
+      preset="auto"
+      contentContainerStyle={themed($container)}
+      safeAreaEdges={["top", "bottom"]}
+    >
+      <Text testID="login-heading" tx="authScreen:login.title" preset="heading" />
+      <Text tx="authScreen:login.subtitle" preset="subheading" style={themed($subtitle)} />
+
+      <TextField
+        testID="login-email"
+        value={form.email}
+        onChangeText={update("email")}
+        labelTx="authScreen:fields.email"
+        placeholderTx="authScreen:fields.emailPlaceholder"
+        autoCapitalize="none"
+        autoComplete="email"
+        autoCorrect={false}
+        keyboardType="email-address"
+        returnKeyType="next"
+        onSubmitEditing={() => passwordInput.current?.focus()}
+        status={errors.email ? "error" : undefined}
+        helperTx={errors.email}
+        containerStyle={themed($field)}
+      />
+      <PasswordField
+        ref={passwordInput}
+        testID="login-password"
+        value={form.password}
+        onChangeText={update("password")}
+        labelTx="authScreen:fields.password"
+        autoComplete="current-password"
+        returnKeyType="go"
+        onSubmitEditing={submit}
+        status={errors.password ? "error" : undefined}
+        helperTx={errors.password}
+        containerStyle={themed($field)}
+      />
+
+      {problem && <Text testID="login-problem" tx={problem} style={themed($problem)} />}
+
+      <Button
+        testID="login-submit"
+        tx="authScreen:login.submit"
+        preset="reversed"
+        disabled={submitting}
+        onPress={submit}
+        style={themed($submit)}
+      />
+      <Button
+        testID="login-register"
+        tx="authScreen:login.switch"
+        onPress={() => navigation.replace("Register")}
+        style={themed($switch)}
+      />
+    </Screen>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.xxl,
+  paddingHorizontal: spacing.lg,
+})
+
+const $subtitle: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.xs,
+  marginBottom: spacing.lg,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $problem: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.error,
+  marginBottom: spacing.md,
+})
+
+const $submit: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xs,
+})
+
+const $switch: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.sm,
+  borderWidth: 0,
+})
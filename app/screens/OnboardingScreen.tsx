@@ -0,0 +1,111 @@
+import { FC } from "react"
+import { Image, ImageStyle, TextStyle, View, ViewStyle } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import * as storage from "@/utils/storage"
+
+export const ONBOARDING_STORAGE_KEY = "pixassist.onboarded"
+
+/**
+ * Whether this install has been through onboarding. Signing out doesn't bring it back.
+ */
+export const hasOnboarded = () => storage.loadString(ONBOARDING_STORAGE_KEY) !== null
+
+const logo = require("@assets/images/logo.png")
+
+const FEATURES = [
+  { key: "assist", icon: "aperture" },
+  { key: "organize", icon: "images" },
+  { key: "sync", icon: "cloud-upload" },
+] as const
+
+export const OnboardingScreen: FC<AppStackScreenProps<"Onboarding">> = function OnboardingScreen({
+  navigation,
+}) {
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const finish = (next: "Login" | "Register") => {
+    storage.saveString(ONBOARDING_STORAGE_KEY, new Date().toISOString())
+    navigation.replace(next)
+  }
+
+  return (
+    <Screen
+      preset="auto"
+      safeAreaEdges={["top", "bottom"]}
+      contentContainerStyle={themed($container)}
+    >
+      <Image style={$logo} source={logo} resizeMode="contain" />
+      <Text preset="heading" tx="onboardingScreen:title" style={themed($title)} />
+      {FEATURES.map(({ key, icon }) => (
+        <View key={key} style={themed($feature)}>
+          <Ionicons name={icon} size={28} color={colors.tint} />
+          <View style={$featureText}>
+            <Text preset="bold" tx={`onboardingScreen:features.${key}.title`} />
+            <Text tx={`onboardingScreen:features.${key}.content`} size="xs" style={themed($dim)} />
+          </View>
+        </View>
+      ))}
+      <Button
+        testID="onboarding-register"
+        tx="onboardingScreen:getStarted"
+        preset="reversed"
+        onPress={() => finish("Register")}
+        style={themed($primary)}
+      />
+      <Button
+        testID="onboarding-login"
+        tx="onboardingScreen:haveAccount"
+        onPress={() => finish("Login")}
+        style={themed($secondary)}
+      />
+    </Screen>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingVertical: spacing.xxl,
+})
+
+const $logo: ImageStyle = {
+  height: 88,
+  width: "100%",
+}
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.xl,
+  marginBottom: spacing.lg,
+})
+
+const $feature: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  columnGap: spacing.md,
+  marginBottom: spacing.lg,
+})
+
+const $featureText: ViewStyle = {
+  flex: 1,
+}
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $primary: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.lg,
+})
+
+const $secondary: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.sm,
+})
@@ -0,0 +1,194 @@
+import { FC, useCallback, useMemo, useState } from "react"
+import {
+  FlatList,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Pressable,
+  TextStyle,
+  View,
+  ViewStyle,
+} from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+
+import { AlbumPickerSheet } from "@/components/Gallery/AlbumPickerSheet"
+import { PhotoInfoSheet } from "@/components/Gallery/PhotoInfoSheet"
+import { PhotoTagsSheet } from "@/components/Gallery/PhotoTagsSheet"
+import { ZoomableImage } from "@/components/Gallery/ZoomableImage"
+import { Header } from "@/components/Header"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import { PhotoRecord, usePhoto, usePhotoQuery } from "@/services/library"
+import { trashStore } from "@/services/trash"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+const ACTION_LABELS = {
+  tags: "photoDetailScreen:tags.title",
+  albums: "photoDetailScreen:albums.title",
+  info: "photoDetailScreen:info.title",
+  edit: "photoDetailScreen:edit",
+  trash: "photoDetailScreen:trash",
+} as const
+
+export const PhotoDetailScreen: FC<AppStackScreenProps<"PhotoDetail">> = function PhotoDetailScreen(
+  props,
+) {
+  const { navigation, route } = props
+  const { photoId, query = {} } = route.params
+  const { themed, theme } = useAppTheme()
+  const photo = usePhoto(photoId)
+  const { items } = usePhotoQuery(query)
+  const [frame, setFrame] = useState<{ width: number; height: number }>()
+  const [zoomed, setZoomed] = useState(false)
+  const [showInfo, setShowInfo] = useState(false)
+  const [showAlbums, setShowAlbums] = useState(false)
+  const [showTags, setShowTags] = useState(false)
+
+  // a photo that dropped out of the query, e.g. just edited out of a filter, is shown on its own
+  const pages = useMemo(
+    () => (items.some((item) => item.id === photoId) ? items : photo ? [photo] : []),
+    [items, photo, photoId],
+  )
+  const index = pages.findIndex((item) => item.id === photoId)
+  // only where the pager starts; after that, swiping moves it and `photoId` follows
+  const [initialIndex] = useState(Math.max(index, 0))
+
+  // nothing to confirm: the photo can be restored from the trash for a while yet
+  const moveToTrash = () => {
+    trashStore.trash([photoId])
+    navigation.goBack()
+  }
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout
+    setFrame((current) =>
+      current?.width === width && current.height === height ? current : { width, height },
+    )
+  }
+
+  const onPageChange = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!frame) return
+    const page = pages[Math.round(event.nativeEvent.contentOffset.x / frame.width)]
+    if (page && page.id !== photoId) navigation.setParams({ photoId: page.id })
+  }
+
+  const renderItem = useCallback(
+    ({ item }: { item: PhotoRecord }) =>
+      frame ? (
+        <ZoomableImage
+          testID={`photo-detail-${item.id}`}
+          uri={item.uri}
+          aspectRatio={item.width / item.height}
+          width={frame.width}
+          height={frame.height}
+          onZoomChange={setZoomed}
+        />
+      ) : null,
+    [frame],
+  )
+
+  const action = (
+    name: keyof typeof ACTION_LABELS,
+    icon:
+      | "pricetags-outline"
+      | "albums-outline"
+      | "information-circle-outline"
+      | "create-outline"
+      | "trash-outline",
+    onPress: () => void,
+  ) => (
+    <Pressable
+      testID={`photo-detail-${name}`}
+      accessibilityRole="button"
+      accessibilityLabel={translate(ACTION_LABELS[name])}
+      onPress={onPress}
+      style={$iconButton}
+    >
+      <Ionicons name={icon} size={22} color={theme.colors.text} />
+    </Pressable>
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <Header
+        titleTx={index >= 0 ? "photoDetailScreen:position" : undefined}
+        titleTxOptions={{ index: index + 1, total: pages.length }}
+        leftIcon="back"
+        onLeftPress={() => navigation.goBack()}
+        RightActionComponent={
+          photo ? (
+            <View style={$styles.row}>
+              {action("tags", "pricetags-outline", () => setShowTags(true))}
+              {action("albums", "albums-outline", () => setShowAlbums(true))}
+              {action("info", "information-circle-outline", () => setShowInfo(true))}
+              {action("edit", "create-outline", () => navigation.navigate("Editor", { photoId }))}
+              {action("trash", "trash-outline", moveToTrash)}
+            </View>
+          ) : undefined
+        }
+        safeAreaEdges={["top"]}
+      />
+      <View style={$styles.flex1} onLayout={onLayout}>
+        {pages.length === 0 ? (
+          <View style={themed($missing)}>
+            <Text tx="photoDetailScreen:missing" style={themed($dim)} />
+          </View>
+        ) : (
+          frame && (
+            <FlatList
+              data={pages}
+              keyExtractor={(item) => item.id}
+              renderItem={renderItem}
+              horizontal
+              pagingEnabled
+              showsHorizontalScrollIndicator={false}
+              scrollEnabled={!zoomed}
+              initialScrollIndex={Math.min(initialIndex, pages.length - 1)}
+              getItemLayout={(_, page) => ({
+                length: frame.width,
+                offset: frame.width * page,
+                index: page,
+              })}
+              onMomentumScrollEnd={onPageChange}
+              initialNumToRender={1}
+              windowSize={3}
+            />
+          )
+        )}
+      </View>
+      {photo && (
+        <>
+          <PhotoInfoSheet photo={photo} visible={showInfo} onClose={() => setShowInfo(false)} />
+          <PhotoTagsSheet photo={photo} visible={showTags} onClose={() => setShowTags(false)} />
+          <AlbumPickerSheet
+            photo={photo}
+            visible={showAlbums}
+            onClose={() => setShowAlbums(false)}
+          />
+        </>
+      )}
+    </Screen>
+  )
+}
+
+const $missing: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flex: 1,
+  alignItems: "center",
+  justifyContent: "center",
+  padding: spacing.md,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $iconButton: ViewStyle = {
+  width: 44,
+  height: 44,
+  alignItems: "center",
+  justifyContent: "center",
+}
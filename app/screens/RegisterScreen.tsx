@@ -0,0 +1,165 @@
+import { FC, useRef, useState } from "react"
+import {
+  // eslint-disable-next-line no-restricted-imports
+  TextInput,
+  TextStyle,
+  ViewStyle,
+} from "react-native"
+
+import { Button } from "@/components/Button"
+import { PasswordField } from "@/components/PasswordField"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import type { RegisterRequest } from "@/services/api/types"
+import { authStore } from "@/services/auth"
+import {
+  authProblemMessage,
+  FieldErrors,
+  MIN_PASSWORD_LENGTH,
+  validateRegistration,
+} from "@/services/auth/validation"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+export const RegisterScreen: FC<AppStackScreenProps<"Register">> = function RegisterScreen({
+  navigation,
+}) {
+  const { themed } = useAppTheme()
+  const emailInput = useRef<TextInput>(null)
+  const passwordInput = useRef<TextInput>(null)
+  const [form, setForm] = useState<RegisterRequest>({ name: "", email: "", password: "" })
+  const [errors, setErrors] = useState<FieldErrors<RegisterRequest>>({})
+  const [problem, setProblem] = useState<TxKeyPath | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const update = (field: keyof RegisterRequest) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }))
+    setErrors((current) => ({ ...current, [field]: undefined }))
+  }
+
+  const submit = async () => {
+    const found = validateRegistration(form)
+    setErrors(found)
+    setProblem(null)
+    if (Object.keys(found).length > 0 || submitting) return
+
+    setSubmitting(true)
+    const result = await authStore.register({
+      name: form.name.trim(),
+      email: form.email.trim(),
+      password: form.password,
+    })
+    // on success the navigator swaps this screen out for the tabs
+    if (result.kind !== "ok") {
+      setProblem(authProblemMessage(result, "register"))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Screen
+      preset="auto"
+      contentContainerStyle={themed($container)}
+      safeAreaEdges={["top", "bottom"]}
+    >
+      <Text testID="register-heading" tx="authScreen:register.title" preset="heading" />
+      <Text tx="authScreen:register.subtitle" preset="subheading" style={themed($subtitle)} />
+
+      <TextField
+        testID="register-name"
+        value={form.name}
+        onChangeText={update("name")}
+        labelTx="authScreen:fields.name"
+        placeholderTx="authScreen:fields.namePlaceholder"
+        autoComplete="name"
+        textContentType="name"
+        returnKeyType="next"
+        onSubmitEditing={() => emailInput.current?.focus()}
+        status={errors.name ? "error" : undefined}
+        helperTx={errors.name}
+        containerStyle={themed($field)}
+      />
+      <TextField
+        ref={emailInput}
+        testID="register-email"
+        value={form.email}
+        onChangeText={update("email")}
+        labelTx="authScreen:fields.email"
+        placeholderTx="authScreen:fields.emailPlaceholder"
+        autoCapitalize="none"
+        autoComplete="email"
+        autoCorrect={false}
+        keyboardType="email-address"
+        returnKeyType="next"
+        onSubmitEditing={() => passwordInput.current?.focus()}
+        status={errors.email ? "error" : undefined}
+        helperTx={errors.email}
+        containerStyle={themed($field)}
+      />
+      <PasswordField
+        ref={passwordInput}
+        testID="register-password"
+        value={form.password}
+        onChangeText={update("password")}
+        labelTx="authScreen:fields.password"
+        placeholderTx="authScreen:fields.passwordPlaceholder"
+        placeholderTxOptions={{ min: MIN_PASSWORD_LENGTH }}
+        autoComplete="new-password"
+        returnKeyType="go"
+        onSubmitEditing={submit}
+        status={errors.password ? "error" : undefined}
+        helperTx={errors.password}
+        helperTxOptions={{ min: MIN_PASSWORD_LENGTH }}
+        containerStyle={themed($field)}
+      />
+
+      {problem && <Text testID="register-problem" tx={problem} style={themed($problem)} />}
+
+      <Button
+        testID="register-submit"
+        tx="authScreen:register.submit"
+        preset="reversed"
+        disabled={submitting}
+        onPress={submit}
+        style={themed($submit)}
+      />
+      <Button
+        testID="register-login"
+        tx="authScreen:register.switch"
+        onPress={() => navigation.replace("Login")}
+        style={themed($switch)}
+      />
+    </Screen>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.xxl,
+  paddingHorizontal: spacing.lg,
+})
+
+const $subtitle: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.xs,
+  marginBottom: spacing.lg,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.lg,
+})
+
+const $problem: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.error,
+  marginBottom: spacing.md,
+})
+
+const $submit: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xs,
+})
+
+const $switch: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.sm,
+  borderWidth: 0,
+})
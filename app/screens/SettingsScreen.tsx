@@ -1,30 +1,290 @@
-import { FC } from "react"
-import { View, ViewStyle } from "react-native"
+import { FC, useEffect, useRef } from "react"
+import { Alert, LayoutChangeEvent, ScrollView, TextStyle, ViewStyle } from "react-native"
+
+import { ListItem } from "@/components/ListItem"
 import { Screen } from "@/components/Screen"
-import { Text } from "@gluestack-ui/themed"
+import { Text } from "@/components/Text"
+import { Checkbox } from "@/components/Toggle/Checkbox"
+import { Radio } from "@/components/Toggle/Radio"
+import { Switch } from "@/components/Toggle/Switch"
+import { changeLanguage } from "@/i18n/language"
+import { translate } from "@/i18n/translate"
+import type { AppTabScreenProps } from "@/navigators/AppNavigator"
+import { authStore, useAuth } from "@/services/auth"
+import {
+  CACHE_LIMITS_MB,
+  CAPTURE_FORMATS,
+  LANGUAGES,
+  LanguageSetting,
+  SettingsSection,
+  settingsStore,
+  THEMES,
+  useSetting,
+} from "@/services/settings"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { COMPOSITION_GUIDES } from "@/utils/composition"
+import { ErrorType, reportCrash } from "@/utils/crashReporting"
+
+// languages are always listed in their own script, so people can find theirs
+const LANGUAGE_NAMES: Record<Exclude<LanguageSetting, "system">, string> = {
+  en: "English",
+  ar: "العربية",
+  es: "Español",
+  fr: "Français",
+  hi: "हिन्दी",
+  ja: "日本語",
+  ko: "한국어",
+}
+
+export const SettingsScreen: FC<AppTabScreenProps<"Settings">> = function SettingsScreen({
+  navigation,
+  route,
+}) {
+  const { themed } = useAppTheme()
+  const section = route.params?.section
+  const scrollRef = useRef<ScrollView>(null)
+  const sectionOffsets = useRef<Partial<Record<SettingsSection, number>>>({})
+  const user = useAuth()
+  const [captureFormat, setCaptureFormat] = useSetting("capture.format")
+  const [grid, setGrid] = useSetting("capture.grid")
+  const [theme, setTheme] = useSetting("appearance.theme")
+  const [language, setLanguage] = useSetting("appearance.language")
+  const [saveLocation, setSaveLocation] = useSetting("privacy.saveLocation")
+  const [stripMetadata, setStripMetadata] = useSetting("privacy.stripMetadataOnShare")
+  const [crashReports, setCrashReports] = useSetting("privacy.crashReports")
+  const [cacheLimit, setCacheLimit] = useSetting("storage.cacheLimitMb")
+  const [lowSpaceWarning, setLowSpaceWarning] = useSetting("storage.lowSpaceWarning")
+
+  // the section may not be laid out yet, in which case its onLayout gets to scroll instead
+  const scrollToSection = () => {
+    const y = section && sectionOffsets.current[section]
+    if (y === undefined) return
+    scrollRef.current?.scrollTo({ y, animated: true })
+    // cleared so that a link to the same section scrolls there again
+    navigation.setParams({ section: undefined })
+  }
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(scrollToSection, [section])
+
+  const onSectionLayout = (name: SettingsSection) => (event: LayoutChangeEvent) => {
+    sectionOffsets.current[name] = event.nativeEvent.layout.y
+    if (name === section) scrollToSection()
+  }
+
+  // both picking a language and resetting the settings come through here, so the app
+  // always ends up in the language the setting says
+  const applyLanguage = async (next: LanguageSetting) => {
+    try {
+      const { restartRequired } = await changeLanguage(next)
+      // translated after the switch, so it shows up in the language just picked
+      if (restartRequired) {
+        Alert.alert(
+          translate("settingsScreen:restartTitle"),
+          translate("settingsScreen:restartMessage"),
+        )
+      }
+    } catch (error) {
+      reportCrash(error as Error, ErrorType.HANDLED)
+      Alert.alert(
+        translate("settingsScreen:languageErrorTitle"),
+        translate("settingsScreen:languageErrorMessage"),
+      )
+    }
+  }
+
+  const selectLanguage = (next: LanguageSetting) => {
+    setLanguage(next)
+    applyLanguage(next)
+  }
+
+  const resetAll = () => {
+    settingsStore.reset()
+    const next = settingsStore.get("appearance.language")
+    if (next !== language) applyLanguage(next)
+  }
 
-export const SettingsScreen: FC = function SettingsScreen() {
   return (
-    <Screen preset="fixed" contentContainerStyle={$container}>
-      <View style={$content}>
-        <Text size="2xl" color="$primary500" textAlign="center">
-          ⚙️ Settings
-        </Text>
-        <Text size="lg" color="$textLight600" textAlign="center" mt="$4">
-          App settings coming soon!
-        </Text>
-      </View>
+    <Screen
+      preset="scroll"
+      scrollRef={scrollRef}
+      safeAreaEdges={["top"]}
+      contentContainerStyle={themed($container)}
+    >
+      <Text preset="heading" tx="settingsScreen:title" style={themed($title)} />
+
+      <SectionHeading section="capture" onLayout={onSectionLayout("capture")} />
+      <Text preset="formLabel" tx="settingsScreen:captureFormat" style={themed($label)} />
+      {CAPTURE_FORMATS.map((format) => (
+        <Radio
+          key={format}
+          testID={`settings-capture-format-${format}`}
+          value={captureFormat === format}
+          onValueChange={() => setCaptureFormat(format)}
+          labelTx={`settingsScreen:formats.${format}`}
+          containerStyle={themed($option)}
+        />
+      ))}
+      <Text preset="formLabel" tx="settingsScreen:grid" style={themed($label)} />
+      {COMPOSITION_GUIDES.map((guide) => (
+        <Radio
+          key={guide}
+          testID={`settings-grid-${guide}`}
+          value={grid === guide}
+          onValueChange={() => setGrid(guide)}
+          labelTx={`compositionGuideComponent:guides.${guide}`}
+          containerStyle={themed($option)}
+        />
+      ))}
+
+      <SectionHeading section="appearance" onLayout={onSectionLayout("appearance")} />
+      <Text preset="formLabel" tx="settingsScreen:theme" style={themed($label)} />
+      {THEMES.map((option) => (
+        <Radio
+          key={option}
+          testID={`settings-theme-${option}`}
+          value={theme === option}
+          onValueChange={() => setTheme(option)}
+          labelTx={`settingsScreen:themes.${option}`}
+          containerStyle={themed($option)}
+        />
+      ))}
+      <Text preset="formLabel" tx="settingsScreen:language" style={themed($label)} />
+      {LANGUAGES.map((option) => (
+        <Radio
+          key={option}
+          testID={`settings-language-${option}`}
+          value={language === option}
+          onValueChange={() => selectLanguage(option)}
+          {...(option === "system"
+            ? { labelTx: "settingsScreen:systemLanguage" }
+            : { label: LANGUAGE_NAMES[option] })}
+          containerStyle={themed($option)}
+        />
+      ))}
+
+      <SectionHeading section="privacy" onLayout={onSectionLayout("privacy")} />
+      <Switch
+        testID="settings-save-location"
+        value={saveLocation}
+        onValueChange={setSaveLocation}
+        labelTx="settingsScreen:saveLocation"
+        labelPosition="left"
+        containerStyle={themed($option)}
+      />
+      <Checkbox
+        testID="settings-strip-metadata"
+        value={stripMetadata}
+        onValueChange={setStripMetadata}
+        labelTx="settingsScreen:stripMetadataOnShare"
+        containerStyle={themed($option)}
+      />
+      <Checkbox
+        testID="settings-crash-reports"
+        value={crashReports}
+        onValueChange={setCrashReports}
+        labelTx="settingsScreen:crashReports"
+        containerStyle={themed($option)}
+      />
+
+      <SectionHeading section="storage" onLayout={onSectionLayout("storage")} />
+      <Text preset="formLabel" tx="settingsScreen:cacheLimit" style={themed($label)} />
+      {CACHE_LIMITS_MB.map((size) => (
+        <Radio
+          key={size}
+          testID={`settings-cache-limit-${size}`}
+          value={cacheLimit === size}
+          onValueChange={() => setCacheLimit(size)}
+          labelTx="settingsScreen:cacheSize"
+          labelTxOptions={{ size }}
+          containerStyle={themed($option)}
+        />
+      ))}
+      <Switch
+        testID="settings-low-space-warning"
+        value={lowSpaceWarning}
+        onValueChange={setLowSpaceWarning}
+        labelTx="settingsScreen:lowSpaceWarning"
+        labelPosition="left"
+        containerStyle={themed($option)}
+      />
+
+      {user && (
+        <>
+          <SectionHeading section="account" onLayout={onSectionLayout("account")} />
+          <Text
+            tx="settingsScreen:signedInAs"
+            txOptions={{ email: user.email }}
+            size="xs"
+            style={themed($label)}
+          />
+          <ListItem
+            testID="settings-sign-out"
+            tx="settingsScreen:signOut"
+            bottomSeparator
+            onPress={() => authStore.signOut()}
+          />
+        </>
+      )}
+
+      <ListItem
+        testID="settings-reset"
+        tx="settingsScreen:reset"
+        textStyle={themed($reset)}
+        topSeparator
+        bottomSeparator
+        onPress={resetAll}
+        style={themed($resetItem)}
+      />
     </Screen>
   )
 }
 
-const $container: ViewStyle = {
-  flex: 1,
+function SectionHeading(props: {
+  section: SettingsSection
+  onLayout: (event: LayoutChangeEvent) => void
+}) {
+  const { themed } = useAppTheme()
+  return (
+    <Text
+      preset="subheading"
+      tx={`settingsScreen:sections.${props.section}`}
+      accessibilityRole="header"
+      onLayout={props.onLayout}
+      style={themed($sectionHeading)}
+    />
+  )
 }
 
-const $content: ViewStyle = {
-  flex: 1,
-  justifyContent: "center",
-  alignItems: "center",
-  paddingHorizontal: 20,
-}
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingTop: spacing.md,
+  paddingBottom: spacing.xxl,
+})
+
+const $title: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.sm,
+})
+
+const $sectionHeading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.lg,
+  marginBottom: spacing.xs,
+})
+
+const $label: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.sm,
+  marginBottom: spacing.xxs,
+})
+
+const $option: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.xs,
+})
+
+const $resetItem: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xl,
+})
+
+const $reset: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
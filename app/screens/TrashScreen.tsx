@@ -0,0 +1,100 @@
+import { FC, useMemo } from "react"
+import { Alert, TextStyle, View, ViewStyle } from "react-native"
+
+import { EmptyState } from "@/components/EmptyState"
+import { PhotoGrid } from "@/components/Gallery/PhotoGrid"
+import { Header } from "@/components/Header"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/AppNavigator"
+import type { PhotoRecord } from "@/services/library"
+import { TRASH_RETENTION_DAYS, trashStore, useTrashedPhotos } from "@/services/trash"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+export const TrashScreen: FC<AppStackScreenProps<"Trash">> = function TrashScreen({ navigation }) {
+  const { themed } = useAppTheme()
+  const items = useTrashedPhotos()
+  const photos = useMemo(() => items.map((item) => item.photo), [items])
+
+  const confirmEmpty = () =>
+    Alert.alert(
+      translate("trashScreen:emptyTitle"),
+      translate("trashScreen:emptyMessage", { count: items.length }),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("trashScreen:empty"),
+          style: "destructive",
+          onPress: () => trashStore.empty(),
+        },
+      ],
+    )
+
+  const choose = (photo: PhotoRecord) => {
+    const item = trashStore.get(photo.id)
+    if (!item) return
+    Alert.alert(
+      translate("trashScreen:photoTitle"),
+      translate("trashScreen:daysLeft", { count: trashStore.daysLeft(item) }),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        { text: translate("trashScreen:restore"), onPress: () => trashStore.restore([photo.id]) },
+        {
+          text: translate("trashScreen:deleteNow"),
+          style: "destructive",
+          onPress: () => trashStore.purge([photo.id]),
+        },
+      ],
+    )
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <Header
+        titleTx="trashScreen:title"
+        leftIcon="back"
+        onLeftPress={() => navigation.goBack()}
+        {...(items.length > 0 && { rightTx: "trashScreen:empty", onRightPress: confirmEmpty })}
+        safeAreaEdges={["top"]}
+      />
+      <PhotoGrid
+        photos={photos}
+        onPressPhoto={choose}
+        ListHeaderComponent={
+          <View style={themed($header)}>
+            <Text
+              tx="trashScreen:retention"
+              txOptions={{ count: TRASH_RETENTION_DAYS }}
+              size="xs"
+              style={themed($dim)}
+            />
+          </View>
+        }
+        ListEmptyComponent={
+          <EmptyState
+            style={themed($emptyState)}
+            headingTx="trashScreen:nothing.heading"
+            contentTx="trashScreen:nothing.content"
+            button=""
+          />
+        }
+      />
+    </Screen>
+  )
+}
+
+const $header: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.sm,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $emptyState: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xxl,
+})
@@ -0,0 +1,178 @@
+import { NewPhoto, PhotoLibrary, PhotoRuleSet } from "@/services/library"
+import { storage } from "@/utils/storage"
+
+import { albumQuery, AlbumStore } from "./AlbumStore"
+
+const STORAGE_KEY = "test.albums"
+
+function photo(day: number, extra: Partial<NewPhoto> = {}): NewPhoto {
+  return {
+    uri: `file:///photos/${day}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt: new Date(Date.UTC(2024, 0, day, 9)).toISOString(),
+    ...extra,
+  }
+}
+
+function setup() {
+  let photoId = 0
+  let albumId = 0
+  const library = new PhotoLibrary({
+    storageKey: "test.photoLibrary",
+    generateId: () => `photo-${++photoId}`,
+  })
+  const createStore = () =>
+    new AlbumStore({
+      storageKey: STORAGE_KEY,
+      library,
+      generateId: () => `album-${++albumId}`,
+      now: () => new Date("2024-02-01T12:00:00.000Z"),
+    })
+  return { library, store: createStore(), createStore }
+}
+
+const favorites: PhotoRuleSet = { match: "all", rules: [{ type: "favorite", favorite: true }] }
+
+describe("AlbumStore", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("creates albums and keeps them across restarts", () => {
+    const { store, createStore } = setup()
+    const listener = jest.fn()
+    store.subscribe(listener)
+
+    const trip = store.createAlbum("  Trip ")
+    const faves = store.createSmartAlbum("Favorites", favorites)
+
+    expect(trip).toEqual({
+      kind: "user",
+      id: "album-1",
+      name: "Trip",
+      createdAt: "2024-02-01T12:00:00.000Z",
+    })
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(createStore().all()).toEqual([trip, faves])
+  })
+
+  it("adds and removes photos in a plain album", () => {
+    const { library, store } = setup()
+    const trip = store.createAlbum("Trip")
+    const a = library.add(photo(1))
+    const b = library.add(photo(2))
+
+    expect(store.addPhotos(trip.id, [a.id, b.id, a.id])).toBe(2)
+    expect(library.get(a.id)?.albumIds).toEqual([trip.id])
+    expect(store.photoIds(trip.id).sort()).toEqual([a.id, b.id])
+
+    expect(store.removePhotos(trip.id, [a.id, "photo-404"])).toBe(1)
+    expect(store.photoIds(trip.id)).toEqual([b.id])
+  })
+
+  it("won't add photos to a smart album by hand", () => {
+    const { library, store } = setup()
+    const faves = store.createSmartAlbum("Favorites", favorites)
+    const a = library.add(photo(1))
+
+    expect(store.addPhotos(faves.id, [a.id])).toBe(0)
+    expect(library.get(a.id)?.albumIds).toEqual([])
+  })
+
+  it("keeps smart albums in step as photos are added, edited and removed", () => {
+    const { library, store } = setup()
+    library.add(photo(1, { favorite: true }))
+    const faves = store.createSmartAlbum("Favorites", favorites)
+    expect(store.summaries()[0].count).toBe(1)
+
+    const listener = jest.fn()
+    store.subscribe(listener)
+    const b = library.add(photo(2))
+    // not a favorite, so the album doesn't change
+    expect(listener).not.toHaveBeenCalled()
+
+    library.update(b.id, { favorite: true })
+    expect(store.photoIds(faves.id)).toContain(b.id)
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    library.remove(b.id)
+    expect(store.photoIds(faves.id)).toEqual(["photo-1"])
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it("re-evaluates a smart album when its rules change", () => {
+    const { library, store } = setup()
+    library.add(photo(1, { favorite: true }))
+    library.add(photo(2, { tags: ["dog"] }))
+    const album = store.createSmartAlbum("Picks", favorites)
+    expect(store.photoIds(album.id)).toEqual(["photo-1"])
+
+    store.setRules(album.id, {
+      match: "any",
+      rules: [{ type: "tags", tags: ["dog"], match: "any" }],
+    })
+    expect(store.photoIds(album.id)).toEqual(["photo-2"])
+  })
+
+  it("summarises albums with a count and the latest photo as the cover", () => {
+    const { library, store } = setup()
+    library.add(photo(3, { favorite: true }))
+    library.add(photo(5, { favorite: true }))
+    library.add(photo(4))
+    store.createSmartAlbum("Favorites", favorites)
+    const empty = store.createAlbum("Empty")
+
+    const [faves, none] = store.summaries()
+    expect(faves.count).toBe(2)
+    expect(faves.cover?.id).toBe("photo-2")
+    expect(none).toEqual({ album: empty, count: 0, cover: undefined })
+  })
+
+  it("takes a deleted album off its photos", () => {
+    const { library, store } = setup()
+    const trip = store.createAlbum("Trip")
+    const other = store.createAlbum("Other")
+    const a = library.add(photo(1, { albumIds: [trip.id, other.id] }))
+
+    expect(store.remove(trip.id)).toEqual(trip)
+    expect(store.get(trip.id)).toBeUndefined()
+    expect(library.get(a.id)?.albumIds).toEqual([other.id])
+  })
+
+  it("catches up after the library reloads", () => {
+    const { library, store } = setup()
+    const faves = store.createSmartAlbum("Favorites", favorites)
+    expect(store.photoIds(faves.id)).toEqual([])
+
+    const other = new PhotoLibrary({ storageKey: "test.photoLibrary", generateId: () => "photo-x" })
+    other.add(photo(1, { favorite: true }))
+    library.reload()
+
+    expect(store.photoIds(faves.id)).toEqual(["photo-x"])
+  })
+
+  it("drops malformed albums from storage", () => {
+    storage.set(
+      STORAGE_KEY,
+      JSON.stringify({
+        version: 1,
+        albums: [
+          { kind: "smart", id: "a", name: "Bad", createdAt: "2024-01-01", rules: { match: "x" } },
+          { kind: "user", id: "b", name: "Good", createdAt: "2024-01-01" },
+        ],
+      }),
+    )
+    const { store } = setup()
+
+    expect(store.all().map((album) => album.id)).toEqual(["b"])
+  })
+
+  it("builds the query for an album", () => {
+    const { store } = setup()
+    expect(albumQuery(store.createAlbum("Trip"))).toEqual({ filter: { albumId: "album-1" } })
+    expect(albumQuery(store.createSmartAlbum("Favorites", favorites))).toEqual({
+      filter: { rules: favorites },
+    })
+  })
+})
@@ -0,0 +1,300 @@
+import {
+  isPhotoRuleSet,
+  matchesRules,
+  PhotoChange,
+  photoLibrary,
+  PhotoLibrary,
+  PhotoQuery,
+  PhotoRecord,
+  PhotoRuleSet,
+} from "@/services/library"
+import * as storage from "@/utils/storage"
+
+import type { Album, AlbumSummary, SmartAlbum, UserAlbum } from "./types"
+
+export const ALBUMS_STORAGE_KEY = "pixassist.albums"
+
+interface PersistedAlbums {
+  version: 1
+  albums: Album[]
+}
+
+export type AlbumListener = () => void
+
+export interface AlbumStoreOptions {
+  /**
+   * The storage key the albums are persisted under.
+   */
+  storageKey?: string
+  /**
+   * The library whose photos go in the albums.
+   */
+  library?: PhotoLibrary
+  /**
+   * Creates ids for new albums. Handy to override in tests.
+   */
+  generateId?: () => string
+  now?: () => Date
+}
+
+let idCounter = 0
+const defaultGenerateId = () => {
+  idCounter += 1
+  return `album-${Date.now().toString(36)}-${idCounter.toString(36)}`
+}
+
+const isAlbum = (value: unknown): value is Album => {
+  if (!value || typeof value !== "object") return false
+  const album = value as Record<string, unknown>
+  if (typeof album.id !== "string" || typeof album.name !== "string") return false
+  if (typeof album.createdAt !== "string") return false
+  return album.kind === "user" || (album.kind === "smart" && isPhotoRuleSet(album.rules))
+}
+
+/**
+ * The query that lists an album's photos.
+ */
+export function albumQuery(album: Album): Omit<PhotoQuery, "offset" | "limit"> {
+  return { filter: album.kind === "user" ? { albumId: album.id } : { rules: album.rules } }
+}
+
+function belongs(photo: PhotoRecord, album: Album) {
+  return album.kind === "user"
+    ? photo.albumIds.includes(album.id)
+    : matchesRules(photo, album.rules)
+}
+
+/**
+ * The user's albums, plain and smart. Which photos are in each album is worked out
+ * once with a scan of the library, then kept current from the library's change events
+ * one photo at a time, so adding or editing a photo never rescans everything.
+ */
+export class AlbumStore {
+  private storageKey: string
+  private library: PhotoLibrary
+  private generateId: () => string
+  private now: () => Date
+  private albums: Map<string, Album> | null = null
+  private members: Map<string, Set<string>> | null = null
+  // the library version `members` reflects; a reload without change events leaves it behind
+  private membersVersion = -1
+  private listeners = new Set<AlbumListener>()
+  private version = 0
+
+  constructor(options: AlbumStoreOptions = {}) {
+    this.storageKey = options.storageKey ?? ALBUMS_STORAGE_KEY
+    this.library = options.library ?? photoLibrary
+    this.generateId = options.generateId ?? defaultGenerateId
+    this.now = options.now ?? (() => new Date())
+    this.library.subscribe((change) => this.onPhotoChange(change))
+  }
+
+  /**
+   * Increments on every change to the albums or who is in them. Useful as a cheap
+   * snapshot for `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: AlbumListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Every album, in the order they were created.
+   */
+  all(): Album[] {
+    return Array.from(this.index().values())
+  }
+
+  get(id: string): Album | undefined {
+    return this.index().get(id)
+  }
+
+  createAlbum(name: string): UserAlbum {
+    const album: UserAlbum = { kind: "user", ...this.newAlbumFields(name) }
+    this.insert(album)
+    return album
+  }
+
+  createSmartAlbum(name: string, rules: PhotoRuleSet): SmartAlbum {
+    const album: SmartAlbum = { kind: "smart", ...this.newAlbumFields(name), rules }
+    this.insert(album)
+    return album
+  }
+
+  rename(id: string, name: string): Album | undefined {
+    const album = this.get(id)
+    if (!album) return undefined
+    const renamed = { ...album, name: name.trim() }
+    this.index().set(id, renamed)
+    this.commit()
+    return renamed
+  }
+
+  /**
+   * Replaces a smart album's rules. Returns the updated album, or undefined when
+   * there is no smart album with that id.
+   */
+  setRules(id: string, rules: PhotoRuleSet): SmartAlbum | undefined {
+    const album = this.get(id)
+    if (album?.kind !== "smart") return undefined
+    const updated: SmartAlbum = { ...album, rules }
+    this.index().set(id, updated)
+    if (this.members) this.members.set(id, this.scan(updated))
+    this.commit()
+    return updated
+  }
+
+  /**
+   * Deletes an album. The photos stay in the library; a plain album is taken off
+   * each of its photos.
+   */
+  remove(id: string): Album | undefined {
+    const album = this.get(id)
+    if (!album) return undefined
+    this.index().delete(id)
+    this.members?.delete(id)
+    this.commit()
+    if (album.kind === "user") {
+      for (const photo of this.library.all()) {
+        if (photo.albumIds.includes(id)) this.removeAlbumId(photo, id)
+      }
+    }
+    return album
+  }
+
+  /**
+   * Puts photos in a plain album. Returns how many weren't in it already.
+   */
+  addPhotos(albumId: string, photoIds: string[]): number {
+    if (this.get(albumId)?.kind !== "user") return 0
+    let added = 0
+    for (const photoId of photoIds) {
+      const photo = this.library.get(photoId)
+      if (!photo || photo.albumIds.includes(albumId)) continue
+      this.library.update(photoId, { albumIds: [...photo.albumIds, albumId] })
+      added += 1
+    }
+    return added
+  }
+
+  /**
+   * Takes photos out of a plain album. Returns how many were in it.
+   */
+  removePhotos(albumId: string, photoIds: string[]): number {
+    if (this.get(albumId)?.kind !== "user") return 0
+    let removed = 0
+    for (const photoId of photoIds) {
+      const photo = this.library.get(photoId)
+      if (!photo?.albumIds.includes(albumId)) continue
+      this.removeAlbumId(photo, albumId)
+      removed += 1
+    }
+    return removed
+  }
+
+  /**
+   * The ids of the photos in an album, in no particular order.
+   */
+  photoIds(albumId: string): string[] {
+    return Array.from(this.membership().get(albumId) ?? [])
+  }
+
+  /**
+   * Every album with its photo count and cover, in the order they were created.
+   */
+  summaries(): AlbumSummary[] {
+    const members = this.membership()
+    return this.all().map((album) => {
+      const ids = members.get(album.id) ?? new Set<string>()
+      let cover: PhotoRecord | undefined
+      for (const id of ids) {
+        const photo = this.library.get(id)
+        if (photo && (!cover || photo.capturedAt > cover.capturedAt)) cover = photo
+      }
+      return { album, count: ids.size, cover }
+    })
+  }
+
+  private newAlbumFields(name: string) {
+    return { id: this.generateId(), name: name.trim(), createdAt: this.now().toISOString() }
+  }
+
+  private insert(album: Album) {
+    this.index().set(album.id, album)
+    if (this.members) this.members.set(album.id, this.scan(album))
+    this.commit()
+  }
+
+  private removeAlbumId(photo: PhotoRecord, albumId: string) {
+    this.library.update(photo.id, { albumIds: photo.albumIds.filter((id) => id !== albumId) })
+  }
+
+  private scan(album: Album) {
+    return new Set(
+      this.library
+        .all()
+        .filter((photo) => belongs(photo, album))
+        .map((photo) => photo.id),
+    )
+  }
+
+  private membership(): Map<string, Set<string>> {
+    if (!this.members || this.membersVersion !== this.library.getVersion()) {
+      this.members = new Map(this.all().map((album) => [album.id, this.scan(album)]))
+      this.membersVersion = this.library.getVersion()
+    }
+    return this.members
+  }
+
+  private onPhotoChange(change: PhotoChange) {
+    // nobody has asked who is in which album yet, so there is nothing to keep current
+    if (!this.members) return
+    this.membersVersion = this.library.getVersion()
+
+    const { photo } = change
+    let touched = false
+    for (const album of this.all()) {
+      const ids = this.members.get(album.id)
+      if (!ids) continue
+      const was = ids.has(photo.id)
+      const is = change.type !== "removed" && belongs(photo, album)
+      if (is) ids.add(photo.id)
+      else ids.delete(photo.id)
+      // a member that changed can change the album's cover, even if it stays in
+      if (was || is) touched = true
+    }
+    if (touched) this.notify()
+  }
+
+  private index(): Map<string, Album> {
+    if (!this.albums) {
+      const persisted = storage.load<PersistedAlbums>(this.storageKey)
+      const albums = persisted && Array.isArray(persisted.albums) ? persisted.albums : []
+      this.albums = new Map(albums.filter(isAlbum).map((album) => [album.id, album]))
+    }
+    return this.albums
+  }
+
+  private commit() {
+    const persisted: PersistedAlbums = { version: 1, albums: this.all() }
+    storage.save(this.storageKey, persisted)
+    this.notify()
+  }
+
+  private notify() {
+    this.version += 1
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Singleton instance of the album store for convenience
+export const albumStore = new AlbumStore()
@@ -0,0 +1,40 @@
+import type { PhotoRecord, PhotoRuleSet } from "@/services/library"
+
+interface AlbumBase {
+  id: string
+  name: string
+  /**
+   * ISO 8601 timestamp.
+   */
+  createdAt: string
+}
+
+/**
+ * An album the user fills by hand. Which photos are in it is recorded on the photos
+ * themselves, in `PhotoRecord.albumIds`.
+ */
+export interface UserAlbum extends AlbumBase {
+  kind: "user"
+}
+
+/**
+ * An album whose photos are whichever ones match its rules, at any moment.
+ */
+export interface SmartAlbum extends AlbumBase {
+  kind: "smart"
+  rules: PhotoRuleSet
+}
+
+export type Album = UserAlbum | SmartAlbum
+
+/**
+ * An album with what a list of albums shows for it.
+ */
+export interface AlbumSummary {
+  album: Album
+  count: number
+  /**
+   * The most recently taken photo in the album.
+   */
+  cover?: PhotoRecord
+}
@@ -0,0 +1,38 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+
+import { albumStore, AlbumStore } from "./AlbumStore"
+import type { Album, AlbumSummary } from "./types"
+
+/**
+ * Re-renders whenever the albums or their photos change and returns the store version.
+ * @param {AlbumStore} store - The store to watch.
+ * @returns {number} - The store version.
+ */
+export function useAlbumsVersion(store: AlbumStore = albumStore) {
+  const subscribe = useCallback((onChange: () => void) => store.subscribe(onChange), [store])
+  const getSnapshot = useCallback(() => store.getVersion(), [store])
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
+
+/**
+ * Every album with its photo count and cover, kept up to date.
+ * @param {AlbumStore} store - The store to read from.
+ * @returns {AlbumSummary[]} - The albums, in the order they were created.
+ */
+export function useAlbumSummaries(store: AlbumStore = albumStore): AlbumSummary[] {
+  const version = useAlbumsVersion(store)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => store.summaries(), [store, version])
+}
+
+/**
+ * A single album, kept up to date.
+ * @param {string} id - The album to look up.
+ * @param {AlbumStore} store - The store to look in.
+ * @returns {Album | undefined} - The album, or undefined once it is deleted.
+ */
+export function useAlbum(id: string, store: AlbumStore = albumStore): Album | undefined {
+  const version = useAlbumsVersion(store)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => store.get(id), [store, version, id])
+}
@@ -0,0 +1,385 @@
+/**
+ * This Api class lets you define an API endpoint and methods to request
+ * data and process it.
+ *
+ * See the [Backend API Integration](https://docs.infinite.red/ignite-cli/boilerplate/app/services/#backend-api-integration)
+ * documentation for more details.
+ */
+import { AppState } from "react-native"
+import { ApiResponse, ApisauceInstance, create } from "apisauce"
+
+import Config from "@/config"
+
+import { getGeneralApiProblem } from "./apiProblem"
+import { DrainOutcome, QueuedCall, RequestQueue } from "./RequestQueue"
+import { backoffDelay, DEFAULT_RETRY_POLICY, isTemporaryProblem, withRetry } from "./retry"
+import type {
+  AlbumSyncRequest,
+  AlbumSyncResponse,
+  ApiConfig,
+  ApiPhoto,
+  ApiResult,
+  AssistModel,
+  AuthSession,
+  LoginRequest,
+  PhotoUpload,
+  QueueableResult,
+  RegisterRequest,
+  UploadSession,
+  UploadSessionRequest,
+} from "./types"
+import {
+  isAlbumSyncResponse,
+  isApiPhoto,
+  isAssistModel,
+  isAuthSession,
+  isUploadSession,
+} from "./validate"
+
+/**
+ * Configuring the apisauce instance.
+ */
+export const DEFAULT_API_CONFIG: ApiConfig = {
+  url: Config.API_URL,
+  timeout: 10000,
+  retry: DEFAULT_RETRY_POLICY,
+}
+
+/**
+ * Manages all requests to the API. You can use this class to build out
+ * various requests that you need to call from your backend API.
+ */
+export class Api {
+  apisauce: ApisauceInstance
+  config: ApiConfig
+  queue: RequestQueue
+
+  /**
+   * Set up our API instance. Keep this lightweight!
+   */
+  constructor(config: ApiConfig = DEFAULT_API_CONFIG) {
+    this.config = config
+    this.queue = config.queue ?? new RequestQueue()
+    this.apisauce = create({
+      baseURL: this.config.url,
+      timeout: this.config.timeout,
+      adapter: this.config.adapter,
+      headers: {
+        Accept: "application/json",
+      },
+    })
+    this.apisauce.addRequestTransform((request) => {
+      const token = this.config.auth?.getAccessToken()
+      if (token && request.headers) request.headers.Authorization = `Bearer ${token}`
+    })
+  }
+
+  /**
+   * Signs in with an email and password.
+   * @param {LoginRequest} request - The credentials.
+   * @returns {Promise<ApiResult<AuthSession>>} The user and their tokens, or a problem. Wrong credentials are `unauthorized`.
+   */
+  async login(request: LoginRequest): Promise<ApiResult<AuthSession>> {
+    return this.retry(async () => {
+      const response = await this.apisauce.post("auth/login", request)
+      return this.parse(response, (data) => (isAuthSession(data) ? data : undefined))
+    })
+  }
+
+  /**
+   * Creates an account and signs in to it.
+   * @param {RegisterRequest} request - The new account's details.
+   * @returns {Promise<ApiResult<AuthSession>>} The user and their tokens, or a problem. A taken email is `rejected`.
+   */
+  async register(request: RegisterRequest): Promise<ApiResult<AuthSession>> {
+    return this.retry(async () => {
+      const response = await this.apisauce.post("auth/register", request)
+      return this.parse(response, (data) => (isAuthSession(data) ? data : undefined))
+    })
+  }
+
+  /**
+   * Trades a refresh token in for new tokens. The old refresh token stops working.
+   * @param {string} refreshToken - The current refresh token.
+   * @returns {Promise<ApiResult<AuthSession>>} The user and their new tokens, or a problem.
+   */
+  async refreshSession(refreshToken: string): Promise<ApiResult<AuthSession>> {
+    return this.retry(async () => {
+      const response = await this.apisauce.post("auth/refresh", { refreshToken })
+      return this.parse(response, (data) => (isAuthSession(data) ? data : undefined))
+    })
+  }
+
+  /**
+   * Revokes a refresh token on the server.
+   * @param {string} refreshToken - The token to revoke.
+   * @returns {Promise<ApiResult<null>>} Ok, or a problem.
+   */
+  async logout(refreshToken: string): Promise<ApiResult<null>> {
+    const response = await this.apisauce.post("auth/logout", { refreshToken })
+    return this.parse(response, () => null)
+  }
+
+  /**
+   * Uploads a photo file along with its metadata. Queued when the server can't be reached.
+   * @param {PhotoUpload} upload - The photo to upload.
+   * @returns {Promise<QueueableResult<ApiPhoto>>} The stored photo, a problem, or the queued request.
+   */
+  async uploadPhoto(upload: PhotoUpload): Promise<QueueableResult<ApiPhoto>> {
+    return this.sendOrQueue({ endpoint: "uploadPhoto", params: upload }, () =>
+      this.postPhoto(upload),
+    )
+  }
+
+  /**
+   * Pushes local album changes and pulls everything that changed on the server since
+   * the last sync. Queued when the server can't be reached.
+   * @param {AlbumSyncRequest} request - The cursor of the last sync and the local changes.
+   * @returns {Promise<QueueableResult<AlbumSyncResponse>>} The server changes and the next cursor, a problem, or the queued request.
+   */
+  async syncAlbums(request: AlbumSyncRequest): Promise<QueueableResult<AlbumSyncResponse>> {
+    return this.sendOrQueue({ endpoint: "syncAlbums", params: request }, () =>
+      this.postAlbumSync(request),
+    )
+  }
+
+  /**
+   * Lists the on-device assist models the app can download.
+   * @returns {Promise<ApiResult<AssistModel[]>>} The available models, or a problem.
+   */
+  async getAssistModels(): Promise<ApiResult<AssistModel[]>> {
+    const result = await this.request(async () => {
+      const response = await this.apisauce.get<{ models: unknown }>("assist/models")
+      return this.parse(response, (data) => {
+        const models = (data as { models?: unknown } | null)?.models
+        return Array.isArray(models) && models.every(isAssistModel) ? models : undefined
+      })
+    })
+    this.drainAfter(result)
+    return result
+  }
+
+  /**
+   * Starts a resumable upload. See `ChunkedUploader`, which drives the rest.
+   * @param {UploadSessionRequest} request - The photo's metadata and size.
+   * @returns {Promise<ApiResult<UploadSession>>} The new session, or a problem.
+   */
+  async createUploadSession(request: UploadSessionRequest): Promise<ApiResult<UploadSession>> {
+    return this.request(async () => {
+      const response = await this.apisauce.post("uploads", request)
+      return this.parse(response, (data) => (isUploadSession(data) ? data : undefined))
+    })
+  }
+
+  /**
+   * Looks up which chunks of an upload the server already has.
+   * @param {string} uploadId - The session to look up.
+   * @returns {Promise<ApiResult<UploadSession>>} The session, or a problem. `not-found` means it expired.
+   */
+  async getUploadSession(uploadId: string): Promise<ApiResult<UploadSession>> {
+    return this.request(async () => {
+      const response = await this.apisauce.get(`uploads/${encodeURIComponent(uploadId)}`)
+      return this.parse(response, (data) => (isUploadSession(data) ? data : undefined))
+    })
+  }
+
+  /**
+   * Sends one chunk of a resumable upload.
+   * @param {string} uploadId - The session the chunk belongs to.
+   * @param {number} index - The chunk number, from 0.
+   * @param {number} offset - Where the chunk starts in the file.
+   * @param {number} total - The size of the whole file.
+   * @param {Uint8Array} chunk - The bytes.
+   * @param {AbortSignal} signal - Aborts the request, for cancelling.
+   * @returns {Promise<ApiResult<null>>} Ok once the server has stored the chunk, or a problem.
+   */
+  async uploadChunk(
+    uploadId: string,
+    index: number,
+    offset: number,
+    total: number,
+    chunk: Uint8Array,
+    signal?: AbortSignal,
+  ): Promise<ApiResult<null>> {
+    return this.request(async () => {
+      const response = await this.apisauce.put(
+        `uploads/${encodeURIComponent(uploadId)}/chunks/${index}`,
+        // axios sends a view's whole underlying buffer, so copy out just this chunk
+        chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength),
+        {
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Range": `bytes ${offset}-${offset + chunk.length - 1}/${total}`,
+          },
+          signal,
+        },
+      )
+      return this.parse(response, () => null)
+    })
+  }
+
+  /**
+   * Finishes a resumable upload once every chunk is in.
+   * @param {string} uploadId - The session to finish.
+   * @returns {Promise<ApiResult<ApiPhoto>>} The stored photo, or a problem.
+   */
+  async completeUpload(uploadId: string): Promise<ApiResult<ApiPhoto>> {
+    return this.request(async () => {
+      const response = await this.apisauce.post(`uploads/${encodeURIComponent(uploadId)}/complete`)
+      return this.parse(response, (data) => (isApiPhoto(data) ? data : undefined))
+    })
+  }
+
+  /**
+   * Drops a resumable upload and whatever chunks the server has for it.
+   * @param {string} uploadId - The session to drop.
+   * @returns {Promise<ApiResult<null>>} Ok, or a problem.
+   */
+  async cancelUpload(uploadId: string): Promise<ApiResult<null>> {
+    return this.authorized(async () => {
+      const response = await this.apisauce.delete(`uploads/${encodeURIComponent(uploadId)}`)
+      return this.parse(response, () => null)
+    })
+  }
+
+  /**
+   * Sends the queued requests, oldest first, until the queue is empty or the server
+   * is out of reach again. Listen on `queue` for the results.
+   */
+  drainQueue(): Promise<DrainOutcome> {
+    return this.queue.drain((call) => this.authorized(() => this.send(call)))
+  }
+
+  /**
+   * Drains the queue now, whenever the app comes back to the foreground, and with
+   * backoff for as long as the server stays out of reach. Returns a function that stops it.
+   */
+  startQueue() {
+    const policy = this.config.retry ?? DEFAULT_RETRY_POLICY
+    let attempt = 0
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+
+    const run = async () => {
+      clearTimeout(timer)
+      const outcome = await this.drainQueue()
+      if (stopped) return
+      if (outcome === "offline") timer = setTimeout(run, backoffDelay(attempt++, policy))
+      else attempt = 0
+    }
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active") return
+      attempt = 0
+      run()
+    })
+    run()
+
+    return () => {
+      stopped = true
+      clearTimeout(timer)
+      subscription.remove()
+    }
+  }
+
+  private async postPhoto(upload: PhotoUpload): Promise<ApiResult<ApiPhoto>> {
+    const { uri, fileName, mimeType, ...metadata } = upload
+    const body = new FormData()
+    // React Native's FormData reads the file from `uri` itself
+    body.append("file", { uri, name: fileName, type: mimeType } as unknown as Blob)
+    body.append("metadata", JSON.stringify(metadata))
+
+    const response = await this.apisauce.post("photos", body, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+    return this.parse(response, (data) => (isApiPhoto(data) ? data : undefined))
+  }
+
+  private async postAlbumSync(request: AlbumSyncRequest): Promise<ApiResult<AlbumSyncResponse>> {
+    const response = await this.apisauce.post("albums/sync", request)
+    return this.parse(response, (data) => (isAlbumSyncResponse(data) ? data : undefined))
+  }
+
+  /**
+   * One attempt at a queued call.
+   */
+  private send(call: QueuedCall): Promise<ApiResult<unknown>> {
+    switch (call.endpoint) {
+      case "uploadPhoto":
+        return this.postPhoto(call.params)
+      case "syncAlbums":
+        return this.postAlbumSync(call.params)
+    }
+  }
+
+  /**
+   * Sends a mutating request with retries, and queues it if it still can't get through.
+   * While older requests are waiting it goes straight to the back of the queue instead,
+   * so changes reach the server in the order they were made.
+   */
+  private async sendOrQueue<T>(
+    call: QueuedCall,
+    send: () => Promise<ApiResult<T>>,
+  ): Promise<QueueableResult<T>> {
+    if (this.queue.size > 0) {
+      const { id } = this.queue.enqueue(call)
+      this.drainQueue()
+      return { kind: "queued", id }
+    }
+
+    const result = await this.request(send)
+    if (isTemporaryProblem(result)) return { kind: "queued", id: this.queue.enqueue(call).id }
+    this.drainAfter(result)
+    return result
+  }
+
+  /**
+   * Sends an authorized request: with backoff on temporary problems, and once more with
+   * fresh tokens after a 401.
+   */
+  private request<T>(send: () => Promise<ApiResult<T>>) {
+    return this.authorized(() => this.retry(send))
+  }
+
+  private retry<T>(send: () => Promise<ApiResult<T>>) {
+    return this.config.retry ? withRetry(send, this.config.retry) : send()
+  }
+
+  /**
+   * A 401 usually means the access token expired, so refresh it and try exactly once more.
+   */
+  private async authorized<T>(send: () => Promise<ApiResult<T>>): Promise<ApiResult<T>> {
+    const result = await send()
+    if (result.kind !== "unauthorized" || !this.config.auth) return result
+    return (await this.config.auth.refresh()) ? send() : result
+  }
+
+  /**
+   * Any response from the server means we're back online, so that's a good time to
+   * send whatever is waiting.
+   */
+  private drainAfter(result: ApiResult<unknown>) {
+    if (!isTemporaryProblem(result) && this.queue.size > 0) this.drainQueue()
+  }
+
+  /**
+   * Turns a response into an `ApiResult`: transport and status problems first, then
+   * `bad-data` when `read` can't make sense of the body.
+   */
+  private parse<T>(
+    response: ApiResponse<unknown>,
+    read: (data: unknown) => T | undefined,
+  ): ApiResult<T> {
+    if (!response.ok) {
+      const problem = getGeneralApiProblem(response)
+      if (problem) return problem
+    }
+
+    const data = read(response.data)
+    if (data === undefined) {
+      if (__DEV__) console.tron?.log?.(`Bad data from ${response.config?.url}`, response.data)
+      return { kind: "bad-data" }
+    }
+    return { kind: "ok", data }
+  }
+}
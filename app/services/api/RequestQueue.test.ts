@@ -0,0 +1,139 @@
+import * as storage from "@/utils/storage"
+
+import { QueuedCall, REQUEST_QUEUE_STORAGE_KEY, RequestQueue } from "./RequestQueue"
+import { backoffDelay, DEFAULT_RETRY_POLICY, withRetry } from "./retry"
+import type { ApiResult } from "./types"
+
+const offline: ApiResult<never> = { kind: "cannot-connect", temporary: true }
+
+const sync = (cursor: string): QueuedCall => ({
+  endpoint: "syncAlbums",
+  params: { cursor, changes: [] },
+})
+
+const createQueue = () => {
+  let id = 0
+  return new RequestQueue({ generateId: () => `r${++id}`, now: () => 1000 })
+}
+
+describe("backoffDelay", () => {
+  it("doubles the cap with every attempt", () => {
+    expect(
+      [0, 1, 2, 3].map((attempt) => backoffDelay(attempt, DEFAULT_RETRY_POLICY, () => 1)),
+    ).toEqual([500, 1000, 2000, 4000])
+  })
+
+  it("never goes past the maximum", () => {
+    expect(backoffDelay(20, DEFAULT_RETRY_POLICY, () => 1)).toBe(30_000)
+  })
+
+  it("picks a random delay below the cap", () => {
+    expect(backoffDelay(2, DEFAULT_RETRY_POLICY, () => 0.25)).toBe(500)
+    expect(backoffDelay(2, DEFAULT_RETRY_POLICY, () => 0)).toBe(0)
+  })
+})
+
+describe("withRetry", () => {
+  const policy = { retries: 2, baseDelayMs: 100, maxDelayMs: 1000 }
+  const wait = jest.fn(() => Promise.resolve())
+
+  beforeEach(() => wait.mockClear())
+
+  it("retries temporary problems until one gets through", async () => {
+    const send = jest
+      .fn<Promise<ApiResult<number>>, []>()
+      .mockResolvedValueOnce(offline)
+      .mockResolvedValueOnce({ kind: "timeout", temporary: true })
+      .mockResolvedValueOnce({ kind: "ok", data: 1 })
+
+    expect(await withRetry(send, policy, wait)).toEqual({ kind: "ok", data: 1 })
+    expect(send).toHaveBeenCalledTimes(3)
+    expect(wait).toHaveBeenCalledTimes(2)
+  })
+
+  it("gives up after the last retry", async () => {
+    const send = jest.fn(() => Promise.resolve(offline))
+    expect(await withRetry(send, policy, wait)).toEqual(offline)
+    expect(send).toHaveBeenCalledTimes(3)
+  })
+
+  it("doesn't retry permanent problems", async () => {
+    const send = jest.fn(() => Promise.resolve<ApiResult<number>>({ kind: "rejected" }))
+    expect(await withRetry(send, policy, wait)).toEqual({ kind: "rejected" })
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(wait).not.toHaveBeenCalled()
+  })
+})
+
+describe("RequestQueue", () => {
+  beforeEach(() => storage.clear())
+
+  it("persists requests in order", () => {
+    const queue = createQueue()
+    queue.enqueue(sync("a"))
+    queue.enqueue(sync("b"))
+
+    const restored = new RequestQueue().getAll()
+    expect(restored.map((request) => request.id)).toEqual(["r1", "r2"])
+    expect(restored[0]).toEqual({ ...sync("a"), id: "r1", enqueuedAt: 1000, attempts: 0 })
+  })
+
+  it("sends everything in order and reports each result", async () => {
+    const queue = createQueue()
+    queue.enqueue(sync("a"))
+    queue.enqueue(sync("b"))
+    const events: string[] = []
+    queue.subscribe(({ request, result }) => events.push(`${request.id}:${result.kind}`))
+    const send = jest
+      .fn<Promise<ApiResult<unknown>>, [QueuedCall]>()
+      .mockResolvedValueOnce({ kind: "ok", data: null })
+      .mockResolvedValueOnce({ kind: "rejected" })
+
+    expect(await queue.drain(send)).toBe("drained")
+
+    expect(send.mock.calls.map(([call]) => call.params)).toEqual([
+      { cursor: "a", changes: [] },
+      { cursor: "b", changes: [] },
+    ])
+    // permanent problems are reported, not retried forever
+    expect(events).toEqual(["r1:ok", "r2:rejected"])
+    expect(queue.size).toBe(0)
+    expect(storage.load(REQUEST_QUEUE_STORAGE_KEY)).toEqual([])
+  })
+
+  it("stops at the first temporary problem and keeps the rest", async () => {
+    const queue = createQueue()
+    queue.enqueue(sync("a"))
+    queue.enqueue(sync("b"))
+    const send = jest.fn(() => Promise.resolve(offline))
+
+    expect(await queue.drain(send)).toBe("offline")
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(new RequestQueue().getAll().map(({ id, attempts }) => ({ id, attempts }))).toEqual([
+      { id: "r1", attempts: 1 },
+      { id: "r2", attempts: 0 },
+    ])
+  })
+
+  it("runs one drain at a time", async () => {
+    const queue = createQueue()
+    queue.enqueue(sync("a"))
+    const send = jest.fn(() => Promise.resolve<ApiResult<unknown>>({ kind: "ok", data: null }))
+
+    const first = queue.drain(send)
+    const second = queue.drain(send)
+
+    expect(second).toBe(first)
+    await first
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it("removes requests without sending them", () => {
+    const queue = createQueue()
+    queue.enqueue(sync("a"))
+    expect(queue.remove("r1")).toBe(true)
+    expect(queue.remove("r1")).toBe(false)
+    expect(queue.size).toBe(0)
+  })
+})
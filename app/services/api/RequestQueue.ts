@@ -0,0 +1,185 @@
+import * as storage from "@/utils/storage"
+
+import { isTemporaryProblem } from "./retry"
+import type { AlbumSyncRequest, ApiResult, PhotoUpload } from "./types"
+
+export const REQUEST_QUEUE_STORAGE_KEY = "pixassist.requestQueue"
+
+/**
+ * A mutating call that can wait for the network. Calls are stored as data rather than
+ * closures so the queue survives the app being killed.
+ */
+export type QueuedCall =
+  | { endpoint: "uploadPhoto"; params: PhotoUpload }
+  | { endpoint: "syncAlbums"; params: AlbumSyncRequest }
+
+export type QueuedRequest = QueuedCall & {
+  id: string
+  /**
+   * Epoch milliseconds.
+   */
+  enqueuedAt: number
+  /**
+   * Drain attempts that ended in a temporary problem.
+   */
+  attempts: number
+}
+
+/**
+ * A queued request is done, for better or worse. `result` is the endpoint's result, so
+ * a permanent problem like `rejected` shows up here too; those aren't retried.
+ */
+export interface QueueEvent {
+  request: QueuedRequest
+  result: ApiResult<unknown>
+}
+
+export type QueueListener = (event: QueueEvent) => void
+
+/**
+ * `drained` when the queue is empty, `offline` when a request hit a temporary problem
+ * and the rest was left for later.
+ */
+export type DrainOutcome = "drained" | "offline"
+
+export interface RequestQueueOptions {
+  /**
+   * The storage key the queue is persisted under.
+   */
+  storageKey?: string
+  /**
+   * Creates ids for queued requests. Handy to override in tests.
+   */
+  generateId?: () => string
+  now?: () => number
+}
+
+let idCounter = 0
+const defaultGenerateId = () => {
+  idCounter += 1
+  return `${Date.now().toString(36)}-${idCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Mutating requests that couldn't reach the server, persisted in order until they can.
+ * Draining sends them oldest first and stops at the first temporary problem, so a
+ * later album edit never lands before an earlier one.
+ */
+export class RequestQueue {
+  private storageKey: string
+  private generateId: () => string
+  private now: () => number
+  private requests: QueuedRequest[] | null = null
+  private draining: Promise<DrainOutcome> | null = null
+  private listeners = new Set<QueueListener>()
+  private version = 0
+
+  constructor(options: RequestQueueOptions = {}) {
+    this.storageKey = options.storageKey ?? REQUEST_QUEUE_STORAGE_KEY
+    this.generateId = options.generateId ?? defaultGenerateId
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Increments on every change. Useful as a cheap snapshot for `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to finished requests. Returns an unsubscribe function.
+   */
+  subscribe(listener: QueueListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get size() {
+    return this.load().length
+  }
+
+  /**
+   * The waiting requests, oldest first.
+   */
+  getAll(): readonly QueuedRequest[] {
+    return this.load()
+  }
+
+  enqueue(call: QueuedCall): QueuedRequest {
+    const request: QueuedRequest = {
+      ...call,
+      id: this.generateId(),
+      enqueuedAt: this.now(),
+      attempts: 0,
+    }
+    this.load().push(request)
+    this.persist()
+    return request
+  }
+
+  /**
+   * Drops a request without sending it.
+   */
+  remove(id: string) {
+    const requests = this.load()
+    const index = requests.findIndex((request) => request.id === id)
+    if (index === -1) return false
+    requests.splice(index, 1)
+    this.persist()
+    return true
+  }
+
+  clear() {
+    if (this.load().length === 0) return
+    this.requests = []
+    this.persist()
+  }
+
+  /**
+   * Sends the waiting requests in order. Only one drain runs at a time; calling this
+   * while one is in progress returns that one.
+   *
+   * @param send Sends one call, without queueing it again.
+   */
+  drain(send: (call: QueuedCall) => Promise<ApiResult<unknown>>): Promise<DrainOutcome> {
+    if (!this.draining) {
+      this.draining = this.drainInOrder(send).finally(() => {
+        this.draining = null
+      })
+    }
+    return this.draining
+  }
+
+  private async drainInOrder(
+    send: (call: QueuedCall) => Promise<ApiResult<unknown>>,
+  ): Promise<DrainOutcome> {
+    for (let request = this.load()[0]; request; request = this.load()[0]) {
+      const result = await send(request)
+      if (isTemporaryProblem(result)) {
+        request.attempts += 1
+        this.persist()
+        return "offline"
+      }
+      // removed by id, in case someone removed it while it was in flight
+      this.remove(request.id)
+      this.listeners.forEach((listener) => listener({ request, result }))
+    }
+    return "drained"
+  }
+
+  private load(): QueuedRequest[] {
+    if (!this.requests) {
+      const stored = storage.load<QueuedRequest[]>(this.storageKey)
+      this.requests = Array.isArray(stored) ? stored : []
+    }
+    return this.requests
+  }
+
+  private persist() {
+    this.version += 1
+    storage.save(this.storageKey, this.requests ?? [])
+  }
+}
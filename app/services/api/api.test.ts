@@ -0,0 +1,237 @@
+import * as storage from "@/utils/storage"
+
+import { Api } from "./Api"
+import { QueueEvent, RequestQueue } from "./RequestQueue"
+import type { AlbumSyncResponse, ApiPhoto, AssistModel, PhotoUpload } from "./types"
+import { createMockHttpAdapter } from "../../../test/mockHttpAdapter"
+
+const server = createMockHttpAdapter()
+const config = { url: "https://api.test/v1/", timeout: 1000, adapter: server.adapter }
+let api: Api
+
+const upload: PhotoUpload = {
+  clientId: "local-1",
+  uri: "file:///photos/1.jpg",
+  fileName: "1.jpg",
+  mimeType: "image/jpeg",
+  width: 4032,
+  height: 3024,
+  capturedAt: "2025-06-01T10:00:00.000Z",
+  tags: ["beach"],
+}
+
+const photo: ApiPhoto = {
+  id: "p1",
+  clientId: "local-1",
+  url: "https://cdn.test/p1.jpg",
+  thumbnailUrl: "https://cdn.test/p1_thumb.jpg",
+  width: 4032,
+  height: 3024,
+  bytes: 2_400_000,
+  uploadedAt: "2025-06-01T10:00:05.000Z",
+}
+
+const model: AssistModel = {
+  id: "horizon-v2",
+  task: "horizon",
+  version: "2.0.0",
+  url: "https://cdn.test/models/horizon-v2.tflite",
+  sizeBytes: 1_200_000,
+  sha256: "ab".repeat(32),
+}
+
+beforeEach(() => {
+  server.reset()
+  storage.clear()
+  api = new Api({ ...config, queue: new RequestQueue() })
+})
+
+describe("uploadPhoto", () => {
+  it("posts the file and its metadata as multipart form data", async () => {
+    server.on("post", "photos", { status: 201, data: photo })
+
+    const result = await api.uploadPhoto(upload)
+
+    expect(result).toEqual({ kind: "ok", data: photo })
+    const [request] = server.requests
+    expect(request.path).toBe("photos")
+    expect(request.headers["content-type"]).toContain("multipart/form-data")
+    const body = request.body as FormData
+    expect(JSON.parse(body.get("metadata") as string)).toEqual({
+      clientId: "local-1",
+      width: 4032,
+      height: 3024,
+      capturedAt: "2025-06-01T10:00:00.000Z",
+      tags: ["beach"],
+    })
+  })
+
+  it("rejects a response that isn't a photo", async () => {
+    server.on("post", "photos", { status: 201, data: { id: "p1" } })
+    expect(await api.uploadPhoto(upload)).toEqual({ kind: "bad-data" })
+  })
+
+  it("reports a rejected upload", async () => {
+    server.on("post", "photos", { status: 401 })
+    expect(await api.uploadPhoto(upload)).toEqual({ kind: "unauthorized" })
+  })
+})
+
+describe("syncAlbums", () => {
+  const response: AlbumSyncResponse = {
+    cursor: "c2",
+    albums: [{ id: "a1", name: "Trip", photoIds: ["p1"], updatedAt: "2025-06-02T00:00:00Z" }],
+    deletedIds: ["a0"],
+  }
+
+  it("sends the cursor and local changes", async () => {
+    server.on("post", "albums/sync", { status: 200, data: response })
+
+    const result = await api.syncAlbums({
+      cursor: "c1",
+      changes: [{ type: "delete", id: "a9", deletedAt: "2025-06-01T00:00:00Z" }],
+    })
+
+    expect(result).toEqual({ kind: "ok", data: response })
+    expect(server.requests[0].body).toEqual({
+      cursor: "c1",
+      changes: [{ type: "delete", id: "a9", deletedAt: "2025-06-01T00:00:00Z" }],
+    })
+  })
+
+  it("rejects albums with missing fields", async () => {
+    server.on("post", "albums/sync", {
+      status: 200,
+      data: { ...response, albums: [{ id: "a1", name: "Trip" }] },
+    })
+    expect(await api.syncAlbums({ cursor: null, changes: [] })).toEqual({ kind: "bad-data" })
+  })
+
+  it("reports server errors", async () => {
+    server.on("post", "albums/sync", { status: 500 })
+    expect(await api.syncAlbums({ cursor: null, changes: [] })).toEqual({ kind: "server" })
+  })
+})
+
+describe("getAssistModels", () => {
+  it("returns the models", async () => {
+    server.on("get", "assist/models", { status: 200, data: { models: [model] } })
+    expect(await api.getAssistModels()).toEqual({ kind: "ok", data: [model] })
+    expect(server.requests[0].method).toBe("get")
+  })
+
+  it("rejects models for tasks the app doesn't know", async () => {
+    server.on("get", "assist/models", {
+      status: 200,
+      data: { models: [{ ...model, task: "teleport" }] },
+    })
+    expect(await api.getAssistModels()).toEqual({ kind: "bad-data" })
+  })
+
+  it("reports a missing endpoint", async () => {
+    expect(await api.getAssistModels()).toEqual({ kind: "not-found" })
+  })
+
+  it("reports network failures as temporary", async () => {
+    server.on("get", "assist/models", "network-error")
+    expect(await api.getAssistModels()).toEqual({ kind: "cannot-connect", temporary: true })
+  })
+
+  it("reports timeouts as temporary", async () => {
+    server.on("get", "assist/models", "timeout")
+    expect(await api.getAssistModels()).toEqual({ kind: "timeout", temporary: true })
+  })
+})
+
+describe("retries", () => {
+  const retrying = () =>
+    new Api({ ...config, retry: { retries: 2, baseDelayMs: 0, maxDelayMs: 0 } })
+
+  it("retries temporary problems", async () => {
+    server.on("get", "assist/models", "network-error", { times: 2 })
+    server.on("get", "assist/models", { status: 200, data: { models: [] } })
+
+    expect(await retrying().getAssistModels()).toEqual({ kind: "ok", data: [] })
+    expect(server.requests).toHaveLength(3)
+  })
+
+  it("doesn't retry problems that won't go away", async () => {
+    server.on("get", "assist/models", { status: 403 })
+
+    expect(await retrying().getAssistModels()).toEqual({ kind: "forbidden" })
+    expect(server.requests).toHaveLength(1)
+  })
+})
+
+describe("offline queue", () => {
+  const response: AlbumSyncResponse = { cursor: "c2", albums: [], deletedIds: [] }
+
+  it("queues mutations the server can't receive", async () => {
+    server.on("post", "photos", "network-error")
+
+    const result = await api.uploadPhoto(upload)
+
+    expect(result).toEqual({ kind: "queued", id: expect.any(String) })
+    expect(new RequestQueue().getAll()).toEqual([
+      expect.objectContaining({ endpoint: "uploadPhoto", params: upload, attempts: 0 }),
+    ])
+  })
+
+  it("doesn't queue reads", async () => {
+    server.on("get", "assist/models", "timeout")
+
+    expect(await api.getAssistModels()).toEqual({ kind: "timeout", temporary: true })
+    expect(api.queue.size).toBe(0)
+  })
+
+  it("sends the queue in order once the server is back", async () => {
+    let online = false
+    server.on("post", "albums/sync", () =>
+      online ? { status: 200, data: response } : "network-error",
+    )
+    server.on("post", "photos", () => (online ? { status: 201, data: photo } : "network-error"))
+    await api.syncAlbums({ cursor: "c1", changes: [] })
+    // waits behind the sync even though it never tried the server itself
+    expect(await api.uploadPhoto(upload)).toEqual({ kind: "queued", id: expect.any(String) })
+    await api.drainQueue()
+    expect(api.queue.size).toBe(2)
+
+    online = true
+    const events: QueueEvent[] = []
+    api.queue.subscribe((event) => events.push(event))
+
+    expect(await api.drainQueue()).toBe("drained")
+
+    expect(server.requests.map((request) => request.path)).toEqual([
+      "albums/sync",
+      "albums/sync",
+      "albums/sync",
+      "photos",
+    ])
+    expect(events.map(({ request, result }) => [request.endpoint, result])).toEqual([
+      ["syncAlbums", { kind: "ok", data: response }],
+      ["uploadPhoto", { kind: "ok", data: photo }],
+    ])
+  })
+
+  it("keeps the queue while the server is still out of reach", async () => {
+    server.on("post", "photos", "network-error")
+    await api.uploadPhoto(upload)
+
+    expect(await api.drainQueue()).toBe("offline")
+    expect(api.queue.getAll()[0].attempts).toBe(1)
+  })
+
+  it("drains after any response from the server", async () => {
+    server.on("post", "photos", "network-error", { times: 1 })
+    server.on("post", "photos", { status: 201, data: photo })
+    await api.uploadPhoto(upload)
+    server.on("get", "assist/models", { status: 200, data: { models: [] } })
+
+    await api.getAssistModels()
+    await api.drainQueue()
+
+    expect(api.queue.size).toBe(0)
+    expect(server.requests.filter((request) => request.path === "photos")).toHaveLength(2)
+  })
+})
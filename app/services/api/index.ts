@@ -1,46 +1,14 @@
-/**
- * This Api class lets you define an API endpoint and methods to request
- * data and process it.
- *
- * See the [Backend API Integration](https://docs.infinite.red/ignite-cli/boilerplate/app/services/#backend-api-integration)
- * documentation for more details.
- */
-import { ApisauceInstance, create } from "apisauce"
+import { AuthStore } from "@/services/auth/AuthStore"
 
-import Config from "@/config"
+import { Api, DEFAULT_API_CONFIG } from "./Api"
 
-import type { ApiConfig } from "./types"
+export * from "./Api"
 
-/**
- * Configuring the apisauce instance.
- */
-export const DEFAULT_API_CONFIG: ApiConfig = {
-  url: Config.API_URL,
-  timeout: 10000,
-}
+// Singleton instance of the API for convenience. Every request it sends carries the
+// signed-in user's token.
+export const api = new Api({ ...DEFAULT_API_CONFIG })
 
-/**
- * Manages all requests to the API. You can use this class to build out
- * various requests that you need to call from your backend API.
- */
-export class Api {
-  apisauce: ApisauceInstance
-  config: ApiConfig
-
-  /**
-   * Set up our API instance. Keep this lightweight!
-   */
-  constructor(config: ApiConfig = DEFAULT_API_CONFIG) {
-    this.config = config
-    this.apisauce = create({
-      baseURL: this.config.url,
-      timeout: this.config.timeout,
-      headers: {
-        Accept: "application/json",
-      },
-    })
-  }
-}
-
-// Singleton instance of the API for convenience
-export const api = new Api()
+// Singleton instance of the auth store for convenience. It signs in through the
+// shared API, so there's only ever one request queue.
+export const authStore = new AuthStore({ api })
+api.config.auth = authStore
@@ -0,0 +1,68 @@
+import type { ApiResult } from "./types"
+
+/**
+ * How hard to try before giving up on a temporary problem.
+ */
+export interface RetryPolicy {
+  /**
+   * Attempts after the first one. 0 turns retrying off.
+   */
+  retries: number
+  /**
+   * The delay cap for the first retry. Doubles with every attempt.
+   */
+  baseDelayMs: number
+  /**
+   * No retry ever waits longer than this.
+   */
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+}
+
+/**
+ * Whether trying the same request again later could work: timeouts, dropped
+ * connections and the like. See `getGeneralApiProblem`.
+ */
+export function isTemporaryProblem(result: ApiResult<unknown>): boolean {
+  return "temporary" in result && result.temporary
+}
+
+/**
+ * How long to wait before retry number `attempt` (starting at 0). Uses "full jitter":
+ * a random delay up to the exponential cap, so clients that failed together don't
+ * all come back at the same moment.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random = Math.random) {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.round(random() * cap)
+}
+
+export function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Sends a request, and sends it again with backoff for as long as it fails with a
+ * temporary problem and the policy allows. Anything else is returned right away.
+ *
+ * @param send Makes one attempt.
+ * @param policy How many retries, and how far apart.
+ * @param wait Waits between attempts. Handy to override in tests.
+ */
+export async function withRetry<T>(
+  send: () => Promise<ApiResult<T>>,
+  policy: RetryPolicy,
+  wait: (ms: number) => Promise<void> = sleep,
+): Promise<ApiResult<T>> {
+  let result = await send()
+  for (let attempt = 0; attempt < policy.retries && isTemporaryProblem(result); attempt++) {
+    await wait(backoffDelay(attempt, policy))
+    result = await send()
+  }
+  return result
+}
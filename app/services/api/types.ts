@@ -1,37 +1,201 @@
+import type { AxiosAdapter } from "axios"
+
+import type { GeneralApiProblem } from "./apiProblem"
+import type { RequestQueue } from "./RequestQueue"
+import type { RetryPolicy } from "./retry"
+
+/**
+ * What every endpoint resolves to: the parsed data, or what went wrong.
+ */
+export type ApiResult<T> = { kind: "ok"; data: T } | GeneralApiProblem
+
+/**
+ * What mutating endpoints resolve to. `queued` means the server couldn't be reached and
+ * the request is waiting in the offline queue, under `id`; its outcome is reported to
+ * the queue's listeners once it's sent.
+ */
+export type QueueableResult<T> = ApiResult<T> | { kind: "queued"; id: string }
+
+export interface ApiUser {
+  id: string
+  email: string
+  name: string
+}
+
+export interface AuthTokens {
+  /**
+   * Sent with every request. Short-lived.
+   */
+  accessToken: string
+  /**
+   * Trades in for a new pair of tokens once the access token expires.
+   */
+  refreshToken: string
+  /**
+   * ISO 8601 timestamp of when the access token expires.
+   */
+  expiresAt: string
+}
+
+/**
+ * What signing in, registering and refreshing all return.
+ */
+export interface AuthSession {
+  user: ApiUser
+  tokens: AuthTokens
+}
+
+export interface LoginRequest {
+  email: string
+  password: string
+}
+
+export interface RegisterRequest {
+  name: string
+  email: string
+  password: string
+}
+
 /**
- * These types indicate the shape of the data you expect to receive from your
- * API endpoint, assuming it's a JSON object like we have.
- */
-export interface EpisodeItem {
-  title: string
-  pubDate: string
-  link: string
-  guid: string
-  author: string
-  thumbnail: string
-  description: string
-  content: string
-  enclosure: {
-    link: string
-    type: string
-    length: number
-    duration: number
-    rating: { scheme: string; value: string }
-  }
-  categories: string[]
-}
-
-export interface ApiFeedResponse {
-  status: string
-  feed: {
-    url: string
-    title: string
-    link: string
-    author: string
-    description: string
-    image: string
-  }
-  items: EpisodeItem[]
+ * Lets the `Api` authorize requests without knowing where the session lives.
+ */
+export interface ApiAuthenticator {
+  /**
+   * The token to send, or undefined when signed out.
+   */
+  getAccessToken(): string | undefined
+  /**
+   * Gets new tokens after a 401. Resolves to whether the request is worth sending again.
+   */
+  refresh(): Promise<boolean>
+}
+
+/**
+ * A photo to upload, as the app knows it.
+ */
+export interface PhotoUpload {
+  /**
+   * The id of the photo in the local library, echoed back so we can match the two up.
+   */
+  clientId: string
+  uri: string
+  fileName: string
+  mimeType: string
+  width: number
+  height: number
+  /**
+   * ISO 8601 timestamp of the capture.
+   */
+  capturedAt: string
+  tags: string[]
+}
+
+/**
+ * A photo as stored by the backend.
+ */
+export interface ApiPhoto {
+  id: string
+  clientId: string
+  url: string
+  thumbnailUrl: string
+  width: number
+  height: number
+  bytes: number
+  /**
+   * ISO 8601 timestamp of when the upload finished.
+   */
+  uploadedAt: string
+}
+
+/**
+ * A resumable upload in progress on the server. The file is sent in `chunkSize` byte
+ * chunks, numbered from 0, in any order.
+ */
+export interface UploadSession {
+  uploadId: string
+  /**
+   * The chunk size the server settled on. May differ from the one asked for.
+   */
+  chunkSize: number
+  /**
+   * The chunks the server has stored so far.
+   */
+  receivedChunks: number[]
+}
+
+/**
+ * Starts a resumable upload. Same metadata as a single-request upload, plus the size.
+ */
+export type UploadSessionRequest = Omit<PhotoUpload, "uri"> & {
+  bytes: number
+  chunkSize: number
+}
+
+export interface ApiAlbum {
+  id: string
+  name: string
+  /**
+   * Server ids of the photos in the album, in album order.
+   */
+  photoIds: string[]
+  /**
+   * ISO 8601 timestamp of the last change, used to settle conflicts.
+   */
+  updatedAt: string
+}
+
+/**
+ * A local album change to push during a sync.
+ */
+export type AlbumChange =
+  | { type: "upsert"; album: ApiAlbum }
+  | { type: "delete"; id: string; deletedAt: string }
+
+export interface AlbumSyncRequest {
+  /**
+   * The cursor from the previous sync, or null to get everything.
+   */
+  cursor: string | null
+  changes: AlbumChange[]
+}
+
+export interface AlbumSyncResponse {
+  /**
+   * Pass this to the next sync to only get what changed since.
+   */
+  cursor: string
+  /**
+   * Albums created or changed on the server since the cursor.
+   */
+  albums: ApiAlbum[]
+  /**
+   * Albums deleted on the server since the cursor.
+   */
+  deletedIds: string[]
+}
+
+/**
+ * What an assist model helps with on the camera or in the gallery.
+ */
+export type AssistModelTask = "blur" | "horizon" | "composition" | "duplicates"
+
+/**
+ * Metadata about an on-device model the app can download.
+ */
+export interface AssistModel {
+  id: string
+  task: AssistModelTask
+  version: string
+  url: string
+  sizeBytes: number
+  /**
+   * Hex SHA-256 of the model file, to check the download.
+   */
+  sha256: string
+  /**
+   * The oldest app version that can run the model, if it needs a newer one.
+   */
+  minAppVersion?: string
 }
 
 /**
@@ -47,4 +211,25 @@ export interface ApiConfig {
    * Milliseconds before we timeout the request.
    */
   timeout: number
+
+  /**
+   * Sends the requests. Leave undefined for the platform default; tests pass a mock.
+   */
+  adapter?: AxiosAdapter
+
+  /**
+   * How temporary problems are retried. Leave undefined to not retry.
+   */
+  retry?: RetryPolicy
+
+  /**
+   * Where mutating requests wait while the server is out of reach. Defaults to one
+   * persisted under `REQUEST_QUEUE_STORAGE_KEY`.
+   */
+  queue?: RequestQueue
+
+  /**
+   * Authorizes requests and refreshes expired tokens. Leave undefined for no auth.
+   */
+  auth?: ApiAuthenticator
 }
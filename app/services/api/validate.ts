@@ -0,0 +1,92 @@
+import type {
+  AlbumSyncResponse,
+  ApiAlbum,
+  ApiPhoto,
+  ApiUser,
+  AuthSession,
+  AssistModel,
+  AssistModelTask,
+  UploadSession,
+} from "./types"
+
+/**
+ * Type guards for response bodies. The backend is a separate deploy, so anything it
+ * sends is checked before the app trusts it; a failed check becomes a `bad-data` problem.
+ */
+
+type UnknownRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isString = (value: unknown): value is string => typeof value === "string"
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString)
+
+const ASSIST_MODEL_TASKS: AssistModelTask[] = ["blur", "horizon", "composition", "duplicates"]
+
+export function isApiPhoto(value: unknown): value is ApiPhoto {
+  return (
+    isRecord(value) &&
+    [value.id, value.clientId, value.url, value.thumbnailUrl, value.uploadedAt].every(isString) &&
+    [value.width, value.height, value.bytes].every(isNumber)
+  )
+}
+
+export function isApiAlbum(value: unknown): value is ApiAlbum {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isStringArray(value.photoIds) &&
+    isString(value.updatedAt)
+  )
+}
+
+export function isAlbumSyncResponse(value: unknown): value is AlbumSyncResponse {
+  return (
+    isRecord(value) &&
+    isString(value.cursor) &&
+    Array.isArray(value.albums) &&
+    value.albums.every(isApiAlbum) &&
+    isStringArray(value.deletedIds)
+  )
+}
+
+export function isAssistModel(value: unknown): value is AssistModel {
+  return (
+    isRecord(value) &&
+    [value.id, value.version, value.url, value.sha256].every(isString) &&
+    ASSIST_MODEL_TASKS.includes(value.task as AssistModelTask) &&
+    isNumber(value.sizeBytes) &&
+    (value.minAppVersion === undefined || isString(value.minAppVersion))
+  )
+}
+
+export function isUploadSession(value: unknown): value is UploadSession {
+  return (
+    isRecord(value) &&
+    isString(value.uploadId) &&
+    isNumber(value.chunkSize) &&
+    value.chunkSize > 0 &&
+    Array.isArray(value.receivedChunks) &&
+    value.receivedChunks.every(Number.isInteger)
+  )
+}
+
+export function isApiUser(value: unknown): value is ApiUser {
+  return isRecord(value) && [value.id, value.email, value.name].every(isString)
+}
+
+export function isAuthSession(value: unknown): value is AuthSession {
+  return (
+    isRecord(value) &&
+    isApiUser(value.user) &&
+    isRecord(value.tokens) &&
+    [value.tokens.accessToken, value.tokens.refreshToken, value.tokens.expiresAt].every(isString)
+  )
+}
@@ -0,0 +1,240 @@
+import * as SecureStore from "expo-secure-store"
+
+import { Api } from "@/services/api"
+import { RequestQueue } from "@/services/api/RequestQueue"
+import type { AuthSession } from "@/services/api/types"
+
+import { AuthStore, SESSION_KEY_NAME, SESSION_STORAGE_KEY, SessionStorage } from "./AuthStore"
+import { authProblemMessage, validateLogin, validateRegistration } from "./validation"
+import { createMockHttpAdapter, MockRequest } from "../../../test/mockHttpAdapter"
+
+jest.mock("expo-secure-store", () => {
+  const items = new Map<string, string>()
+  return {
+    getItem: jest.fn((key: string) => items.get(key) ?? null),
+    setItem: jest.fn((key: string, value: string) => void items.set(key, value)),
+  }
+})
+
+const session = (accessToken: string, refreshToken: string): AuthSession => ({
+  user: { id: "u1", email: "ada@example.com", name: "Ada" },
+  tokens: { accessToken, refreshToken, expiresAt: "2025-06-01T11:00:00.000Z" },
+})
+
+const createStorage = () => {
+  const values = new Map<string, string>()
+  const storage: SessionStorage = {
+    getString: (key) => values.get(key),
+    set: (key, value) => void values.set(key, String(value)),
+    delete: (key) => void values.delete(key),
+  }
+  return { storage, values }
+}
+
+let server: ReturnType<typeof createMockHttpAdapter>
+let api: Api
+let storage: ReturnType<typeof createStorage>
+let store: AuthStore
+
+const createStore = () => {
+  const auth = new AuthStore({ api, storage: storage.storage })
+  api.config.auth = auth
+  return auth
+}
+
+const authorization = (request: MockRequest) => request.headers.authorization
+
+beforeEach(() => {
+  server = createMockHttpAdapter()
+  api = new Api({
+    url: "https://api.test/v1/",
+    timeout: 1000,
+    adapter: server.adapter,
+    queue: new RequestQueue({ storageKey: "test.queue" }),
+  })
+  storage = createStorage()
+  store = createStore()
+})
+
+describe("signing in and out", () => {
+  it("starts signed out", () => {
+    expect(store.isSignedIn).toBe(false)
+    expect(store.user).toBeNull()
+  })
+
+  it("signs in and keeps the session across restarts", async () => {
+    server.on("post", "auth/login", { status: 200, data: session("a1", "r1") })
+    const listener = jest.fn()
+    store.subscribe(listener)
+
+    const result = await store.signIn({ email: "ada@example.com", password: "hunter22" })
+
+    expect(result).toEqual({ kind: "ok", data: session("a1", "r1").user })
+    expect(server.requests[0].body).toEqual({ email: "ada@example.com", password: "hunter22" })
+    expect(listener).toHaveBeenCalledWith(session("a1", "r1").user)
+    expect(createStore().getAccessToken()).toBe("a1")
+  })
+
+  it("stays signed out when the credentials are wrong", async () => {
+    server.on("post", "auth/login", { status: 401 })
+
+    expect(await store.signIn({ email: "ada@example.com", password: "nope" })).toEqual({
+      kind: "unauthorized",
+    })
+    expect(store.isSignedIn).toBe(false)
+    expect(storage.values.has(SESSION_STORAGE_KEY)).toBe(false)
+  })
+
+  it("registers and signs in to the new account", async () => {
+    server.on("post", "auth/register", { status: 201, data: session("a1", "r1") })
+
+    await store.register({ name: "Ada", email: "ada@example.com", password: "hunter22" })
+
+    expect(store.user?.name).toBe("Ada")
+  })
+
+  it("signs out locally even when the server can't be reached", async () => {
+    server.on("post", "auth/login", { status: 200, data: session("a1", "r1") })
+    server.on("post", "auth/logout", "network-error")
+    await store.signIn({ email: "ada@example.com", password: "hunter22" })
+
+    await store.signOut()
+
+    expect(store.isSignedIn).toBe(false)
+    expect(storage.values.has(SESSION_STORAGE_KEY)).toBe(false)
+    expect(server.requests.at(-1)?.body).toEqual({ refreshToken: "r1" })
+  })
+})
+
+describe("session storage", () => {
+  it("is encrypted with a random key kept in the secure store", () => {
+    // the singleton made the key when the module loaded
+    const setItem = jest.mocked(SecureStore.setItem)
+    expect(setItem).toHaveBeenCalledTimes(1)
+    const [name, key] = setItem.mock.calls[0]
+    expect(name).toBe(SESSION_KEY_NAME)
+    expect(key).toHaveLength(16)
+
+    // later launches reuse it instead of making a new one
+    new AuthStore({ api })
+    expect(setItem).toHaveBeenCalledTimes(1)
+    expect(SecureStore.getItem).toHaveLastReturnedWith(key)
+  })
+})
+
+describe("authorized requests", () => {
+  beforeEach(async () => {
+    server.on("post", "auth/login", { status: 200, data: session("a1", "r1") }, { times: 1 })
+    await store.signIn({ email: "ada@example.com", password: "hunter22" })
+    server.reset()
+  })
+
+  it("send the access token", async () => {
+    server.on("get", "assist/models", { status: 200, data: { models: [] } })
+
+    await api.getAssistModels()
+
+    expect(authorization(server.requests[0])).toBe("Bearer a1")
+  })
+
+  it("refresh an expired token and try once more", async () => {
+    server.on("get", "assist/models", (request) =>
+      authorization(request) === "Bearer a2"
+        ? { status: 200, data: { models: [] } }
+        : { status: 401 },
+    )
+    server.on("post", "auth/refresh", { status: 200, data: session("a2", "r2") })
+
+    expect(await api.getAssistModels()).toEqual({ kind: "ok", data: [] })
+
+    expect(server.requests.map((request) => request.path)).toEqual([
+      "assist/models",
+      "auth/refresh",
+      "assist/models",
+    ])
+    expect(server.requests[1].body).toEqual({ refreshToken: "r1" })
+    expect(createStore().getAccessToken()).toBe("a2")
+  })
+
+  it("only retry once", async () => {
+    server.on("get", "assist/models", { status: 401 })
+    server.on("post", "auth/refresh", { status: 200, data: session("a2", "r2") })
+
+    expect(await api.getAssistModels()).toEqual({ kind: "unauthorized" })
+    expect(server.requests.filter((request) => request.path === "assist/models")).toHaveLength(2)
+  })
+
+  it("share one refresh between requests that fail together", async () => {
+    server.on("get", "assist/models", (request) =>
+      authorization(request) === "Bearer a2"
+        ? { status: 200, data: { models: [] } }
+        : { status: 401 },
+    )
+    server.on("post", "auth/refresh", { status: 200, data: session("a2", "r2") })
+
+    await Promise.all([api.getAssistModels(), api.getAssistModels()])
+
+    expect(server.requests.filter((request) => request.path === "auth/refresh")).toHaveLength(1)
+  })
+
+  it("sign out when the refresh token is turned down", async () => {
+    server.on("get", "assist/models", { status: 401 })
+    server.on("post", "auth/refresh", { status: 401 })
+
+    expect(await api.getAssistModels()).toEqual({ kind: "unauthorized" })
+    expect(store.isSignedIn).toBe(false)
+  })
+
+  it("keep the session when the refresh can't get through", async () => {
+    server.on("get", "assist/models", { status: 401 })
+    server.on("post", "auth/refresh", "timeout")
+
+    expect(await api.getAssistModels()).toEqual({ kind: "unauthorized" })
+    expect(store.getAccessToken()).toBe("a1")
+  })
+
+  it("refresh for queued requests too", async () => {
+    server.on("post", "albums/sync", "network-error", { times: 1 })
+    await api.syncAlbums({ cursor: null, changes: [] })
+    server.on("post", "albums/sync", (request) =>
+      authorization(request) === "Bearer a2"
+        ? { status: 200, data: { cursor: "c1", albums: [], deletedIds: [] } }
+        : { status: 401 },
+    )
+    server.on("post", "auth/refresh", { status: 200, data: session("a2", "r2") })
+
+    expect(await api.drainQueue()).toBe("drained")
+    expect(api.queue.size).toBe(0)
+  })
+})
+
+describe("validation", () => {
+  it("checks the login form", () => {
+    expect(validateLogin({ email: "ada@example.com", password: "x" })).toEqual({})
+    expect(validateLogin({ email: "ada@", password: "" })).toEqual({
+      email: "authScreen:errors.emailInvalid",
+      password: "authScreen:errors.passwordRequired",
+    })
+  })
+
+  it("holds new passwords to the minimum length", () => {
+    expect(
+      validateRegistration({ name: " ", email: " ada@example.com ", password: "short" }),
+    ).toEqual({
+      name: "authScreen:errors.nameRequired",
+      password: "authScreen:errors.passwordTooShort",
+    })
+  })
+
+  it("explains problems in terms of what the user did", () => {
+    expect(authProblemMessage({ kind: "unauthorized" }, "login")).toBe(
+      "authScreen:errors.wrongCredentials",
+    )
+    expect(authProblemMessage({ kind: "rejected" }, "register")).toBe(
+      "authScreen:errors.emailTaken",
+    )
+    expect(authProblemMessage({ kind: "cannot-connect", temporary: true }, "login")).toBe(
+      "authScreen:errors.offline",
+    )
+  })
+})
@@ -0,0 +1,180 @@
+import { getRandomBytes } from "expo-crypto"
+import * as SecureStore from "expo-secure-store"
+import { MMKV } from "react-native-mmkv"
+
+// the class alone, since the shared `api` and store are built together from there
+import type { Api } from "@/services/api/Api"
+import type {
+  ApiAuthenticator,
+  ApiResult,
+  ApiUser,
+  AuthSession,
+  LoginRequest,
+  RegisterRequest,
+} from "@/services/api/types"
+
+export const SESSION_STORAGE_KEY = "pixassist.session"
+
+/**
+ * Refresh answers that mean the refresh token is no good anymore.
+ */
+const SESSION_ENDED: ApiResult<unknown>["kind"][] = ["unauthorized", "forbidden", "rejected"]
+
+/**
+ * The slice of MMKV the store needs, so tests can hand in their own.
+ */
+export type SessionStorage = Pick<MMKV, "getString" | "set" | "delete">
+
+/**
+ * Where the session storage's encryption key is kept in the Keychain / Keystore.
+ */
+export const SESSION_KEY_NAME = "pixassist.sessionKey"
+
+/**
+ * Tokens get their own encrypted MMKV instance rather than the shared app storage,
+ * which navigation persistence writes to and dev tools can dump. Its key is random
+ * per install and lives in the Keychain / Keystore, never in the app itself.
+ */
+const createSessionStorage = () => {
+  let key = SecureStore.getItem(SESSION_KEY_NAME)
+  if (!key) {
+    // MMKV takes keys of up to 16 bytes; 12 random bytes are 16 in base64
+    key = btoa(String.fromCharCode(...getRandomBytes(12)))
+    // the key is kept before it is used, so a crash in between can't lose it
+    SecureStore.setItem(SESSION_KEY_NAME, key)
+  }
+  return new MMKV({ id: "pixassist.session", encryptionKey: key })
+}
+
+export type AuthListener = (user: ApiUser | null) => void
+
+export interface AuthStoreOptions {
+  /**
+   * The client for the sign in, refresh and sign out endpoints.
+   */
+  api: Api
+  storage?: SessionStorage
+}
+
+/**
+ * The signed-in user and their tokens. The session is kept in encrypted storage so it
+ * survives restarts, and the store doubles as the `Api`'s authenticator: it supplies
+ * the access token and refreshes it when the server answers 401.
+ */
+export class AuthStore implements ApiAuthenticator {
+  private api: Api
+  private storage: SessionStorage
+  private session: AuthSession | null | undefined
+  private refreshing: Promise<boolean> | null = null
+  private listeners = new Set<AuthListener>()
+  private version = 0
+
+  constructor(options: AuthStoreOptions) {
+    this.api = options.api
+    this.storage = options.storage ?? createSessionStorage()
+  }
+
+  /**
+   * Increments on every change. Useful as a cheap snapshot for `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to signing in and out. The listener gets the new user, or null. Returns
+   * an unsubscribe function.
+   */
+  subscribe(listener: AuthListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get user(): ApiUser | null {
+    return this.load()?.user ?? null
+  }
+
+  get isSignedIn() {
+    return this.load() !== null
+  }
+
+  getAccessToken() {
+    return this.load()?.tokens.accessToken
+  }
+
+  async signIn(request: LoginRequest): Promise<ApiResult<ApiUser>> {
+    return this.start(await this.api.login(request))
+  }
+
+  async register(request: RegisterRequest): Promise<ApiResult<ApiUser>> {
+    return this.start(await this.api.register(request))
+  }
+
+  /**
+   * Forgets the session here right away and revokes it on the server on a best effort
+   * basis, so signing out works offline too.
+   */
+  async signOut() {
+    const session = this.load()
+    if (!session) return
+    this.save(null)
+    await this.api.logout(session.tokens.refreshToken)
+  }
+
+  /**
+   * Trades the refresh token in for new tokens. Concurrent calls share one request, so
+   * a burst of 401s doesn't burn the refresh token several times over. A refresh token
+   * the server turns down ends the session.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshOnce().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  private async refreshOnce() {
+    const session = this.load()
+    if (!session) return false
+
+    const result = await this.api.refreshSession(session.tokens.refreshToken)
+    // signed out, or in as someone else, while the refresh was in flight
+    if (this.load() !== session) return false
+    if (result.kind === "ok") {
+      this.save(result.data)
+      return true
+    }
+    // anything else, like being offline, says nothing about whether the session is still good
+    if (SESSION_ENDED.includes(result.kind)) this.save(null)
+    return false
+  }
+
+  private start(result: ApiResult<AuthSession>): ApiResult<ApiUser> {
+    if (result.kind !== "ok") return result
+    this.save(result.data)
+    return { kind: "ok", data: result.data.user }
+  }
+
+  private load(): AuthSession | null {
+    if (this.session === undefined) {
+      this.session = null
+      try {
+        const stored = this.storage.getString(SESSION_STORAGE_KEY)
+        if (stored) this.session = JSON.parse(stored) as AuthSession
+      } catch {}
+    }
+    return this.session
+  }
+
+  private save(session: AuthSession | null) {
+    this.session = session
+    if (session) this.storage.set(SESSION_STORAGE_KEY, JSON.stringify(session))
+    else this.storage.delete(SESSION_STORAGE_KEY)
+    this.version += 1
+    this.listeners.forEach((listener) => listener(session?.user ?? null))
+  }
+}
@@ -0,0 +1,3 @@
+export { authStore } from "@/services/api"
+export * from "./AuthStore"
+export * from "./useAuth"
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from "react"
+
+import { authStore } from "@/services/api"
+
+import type { AuthStore } from "./AuthStore"
+
+/**
+ * The signed-in user, or null, re-rendering on sign in and out.
+ * @param {AuthStore} store - The store to read from.
+ * @returns {ApiUser | null} - The user.
+ */
+export function useAuth(store: AuthStore = authStore) {
+  return useSyncExternalStore(
+    (onChange) => store.subscribe(onChange),
+    () => store.user,
+  )
+}
@@ -0,0 +1,50 @@
+import type { TxKeyPath } from "@/i18n"
+import type { ApiResult, LoginRequest, RegisterRequest } from "@/services/api/types"
+
+export const MIN_PASSWORD_LENGTH = 8
+
+// deliberately loose: the server has the final say, this only catches typos
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export type FieldErrors<T> = Partial<Record<keyof T, TxKeyPath>>
+
+/**
+ * Checks the login form. Existing passwords aren't held to the length rule, since
+ * accounts may predate it.
+ */
+export function validateLogin(form: LoginRequest): FieldErrors<LoginRequest> {
+  const errors: FieldErrors<LoginRequest> = {}
+  if (!EMAIL_PATTERN.test(form.email.trim())) errors.email = "authScreen:errors.emailInvalid"
+  if (!form.password) errors.password = "authScreen:errors.passwordRequired"
+  return errors
+}
+
+export function validateRegistration(form: RegisterRequest): FieldErrors<RegisterRequest> {
+  const errors: FieldErrors<RegisterRequest> = {}
+  if (!form.name.trim()) errors.name = "authScreen:errors.nameRequired"
+  if (!EMAIL_PATTERN.test(form.email.trim())) errors.email = "authScreen:errors.emailInvalid"
+  if (form.password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = "authScreen:errors.passwordTooShort"
+  }
+  return errors
+}
+
+/**
+ * The message to show when signing in or registering didn't work.
+ */
+export function authProblemMessage(
+  problem: Exclude<ApiResult<unknown>, { kind: "ok" }>,
+  action: "login" | "register",
+): TxKeyPath {
+  switch (problem.kind) {
+    case "unauthorized":
+      return "authScreen:errors.wrongCredentials"
+    case "rejected":
+      return action === "register" ? "authScreen:errors.emailTaken" : "authScreen:errors.generic"
+    case "cannot-connect":
+    case "timeout":
+      return "authScreen:errors.offline"
+    default:
+      return "authScreen:errors.generic"
+  }
+}
@@ -0,0 +1,275 @@
+import { AlbumStore } from "@/services/albums"
+import type { PhotoUpload } from "@/services/api/types"
+import { NewPhoto, PhotoLibrary } from "@/services/library"
+import { SettingsStore } from "@/services/settings"
+import type { UploadResult, UploadTask } from "@/services/upload"
+import { readPhotoMetadata } from "@/utils/exif"
+import { storage } from "@/utils/storage"
+
+import { BatchJobs, photoUpload } from "./BatchJobs"
+import { loadFixture } from "../../../test/fixtures"
+
+function photo(day: number, extra: Partial<NewPhoto> = {}): NewPhoto {
+  return {
+    uri: `file:///photos/${day}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt: new Date(Date.UTC(2024, 0, day, 9)).toISOString(),
+    ...extra,
+  }
+}
+
+/**
+ * An uploader whose uploads finish only when the test says so. Like the real one, it
+ * hands out the running task again for a client id that's already uploading.
+ */
+function createUploader() {
+  const running = new Map<string, (result: UploadResult) => void>()
+  const tasks = new Map<string, UploadTask>()
+  const upload = jest.fn(({ clientId }: PhotoUpload): UploadTask => {
+    const existing = tasks.get(clientId)
+    if (existing) return existing
+    let finish: (result: UploadResult) => void = () => {}
+    const result = new Promise<UploadResult>((resolve) => {
+      finish = resolve
+    })
+    running.set(clientId, finish)
+    const task = { clientId, result, cancel: () => finish({ kind: "cancelled" }) }
+    tasks.set(clientId, task)
+    return task
+  })
+  const finish = (clientId: string) =>
+    running.get(clientId)?.({
+      kind: "ok",
+      data: {
+        id: `server-${clientId}`,
+        clientId,
+        url: "",
+        thumbnailUrl: "",
+        width: 4032,
+        height: 3024,
+        bytes: 1024,
+        uploadedAt: "2024-06-01T12:00:00.000Z",
+      },
+    })
+  return { upload, finish }
+}
+
+/**
+ * Photo files kept in memory, each photo starting out with full EXIF.
+ */
+function createFiles() {
+  const contents = new Map<string, Uint8Array>()
+  const files = {
+    read: jest.fn(async (uri: string) => {
+      const bytes = contents.get(uri) ?? (uri.startsWith("file:///photos/") && loadFixture(EXIF))
+      if (!bytes) throw new Error(`no file at ${uri}`)
+      return bytes
+    }),
+    write: jest.fn(async (uri: string, bytes: Uint8Array) => {
+      contents.set(uri, bytes)
+    }),
+  }
+  return { ...files, contents }
+}
+
+const EXIF = "exif-little-endian.jpg"
+
+function setup() {
+  let photoId = 0
+  let jobId = 0
+  const library = new PhotoLibrary({
+    storageKey: "test.photoLibrary",
+    generateId: () => `photo-${++photoId}`,
+  })
+  const albums = new AlbumStore({ storageKey: "test.albums", library })
+  const trash = { trash: jest.fn((ids: string[]) => ids.filter((id) => library.remove(id)).length) }
+  const uploader = createUploader()
+  const files = createFiles()
+  const settings = new SettingsStore({ storageKey: "test.settings" })
+  const jobs = new BatchJobs({
+    library,
+    albums,
+    trash,
+    uploader,
+    files,
+    settings,
+    generateId: () => `job-${++jobId}`,
+  })
+  const ids = [1, 2, 3].map((day) => library.add(photo(day)).id)
+  return { library, albums, trash, uploader, files, settings, jobs, ids }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("BatchJobs", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("works through every photo and reports progress as it goes", async () => {
+    const { library, jobs, ids } = setup()
+    const seen: number[] = []
+    jobs.subscribe(() => seen.push(jobs.get("job-1")!.processed))
+
+    const task = jobs.setFavorite(ids, true)
+    expect(jobs.get(task.id)).toMatchObject({ action: "favorite", total: 3, status: "running" })
+
+    expect(await task.result).toEqual({
+      id: "job-1",
+      action: "favorite",
+      total: 3,
+      processed: 3,
+      failed: 0,
+      status: "done",
+    })
+    expect(seen).toEqual([0, 1, 2, 3, 3])
+    expect(ids.every((id) => library.get(id)?.favorite)).toBe(true)
+  })
+
+  it("adds photos to albums and tags to photos", async () => {
+    const { library, albums, jobs, ids } = setup()
+    const album = albums.createAlbum("Trip")
+    const smart = albums.createSmartAlbum("Faves", { match: "all", rules: [] })
+    library.update(ids[0], { tags: ["beach"] })
+
+    await jobs.addToAlbum(ids.slice(0, 2), album.id).result
+    await jobs.addTags(ids.slice(0, 2), ["beach", "sunset"]).result
+    const intoSmart = await jobs.addToAlbum(ids, smart.id).result
+
+    expect(albums.photoIds(album.id).sort()).toEqual(ids.slice(0, 2))
+    expect(library.get(ids[0])?.tags).toEqual(["beach", "sunset"])
+    expect(library.get(ids[2])?.tags).toEqual([])
+    expect(intoSmart).toMatchObject({ processed: 3, failed: 3, status: "done" })
+  })
+
+  it("counts photos that are gone by the time their turn comes as failed", async () => {
+    const { library, trash, jobs, ids } = setup()
+    library.remove(ids[1])
+
+    const job = await jobs.trash(ids).result
+
+    expect(job).toMatchObject({ processed: 3, failed: 1, status: "done" })
+    expect(trash.trash).toHaveBeenCalledTimes(2)
+    expect(library.size).toBe(0)
+  })
+
+  it("strips metadata from the files and forgets what the library kept of it", async () => {
+    const { library, files, jobs, ids } = setup()
+    library.update(ids[0], {
+      cameraModel: "iPhone 15 Pro",
+      location: { latitude: 48.85, longitude: 2.35 },
+    })
+    library.add(photo(4, { uri: "file:///elsewhere/4.jpg" }))
+    files.contents.set("file:///photos/2.jpg", new Uint8Array([1, 2, 3]))
+
+    const job = await jobs.stripMetadata([...ids, "photo-4"]).result
+
+    expect(job).toMatchObject({ processed: 4, failed: 2, status: "done" })
+    expect(files.write.mock.calls.map(([uri]) => uri)).toEqual([
+      "file:///photos/1.jpg",
+      "file:///photos/3.jpg",
+    ])
+    expect(readPhotoMetadata(files.contents.get("file:///photos/1.jpg")!)).toBeNull()
+    expect(library.get(ids[0])?.cameraModel).toBeUndefined()
+    expect(library.get(ids[0])?.location).toBeUndefined()
+  })
+
+  it("stops before the next photo when cancelled", async () => {
+    const { library, jobs, ids } = setup()
+    const task = jobs.setFavorite(ids, true)
+    jobs.subscribe(() => {
+      if (jobs.get(task.id)?.processed === 1) task.cancel()
+    })
+
+    expect(await task.result).toMatchObject({ processed: 1, status: "cancelled" })
+    expect(ids.map((id) => library.get(id)?.favorite)).toEqual([true, false, false])
+    expect(jobs.cancel(task.id)).toBe(false)
+  })
+
+  it("exports copies without location and device details, one photo at a time", async () => {
+    const { jobs, ids, uploader, files } = setup()
+    const task = jobs.export(ids.slice(0, 2))
+
+    for (const id of ids.slice(0, 2)) {
+      await flush()
+      await flush()
+      uploader.finish(`${id}:share`)
+    }
+
+    expect(await task.result).toMatchObject({ processed: 2, failed: 0, status: "done" })
+    const uploaded = uploader.upload.mock.calls.map(([upload]) => upload)
+    expect(uploaded).toEqual([
+      expect.objectContaining({ clientId: `${ids[0]}:share`, mimeType: "image/jpeg" }),
+      expect.objectContaining({ clientId: `${ids[1]}:share`, mimeType: "image/jpeg" }),
+    ])
+    expect(uploaded[0].uri).not.toBe("file:///photos/1.jpg")
+    const metadata = readPhotoMetadata(files.contents.get(uploaded[0].uri)!)!
+    expect(metadata.gps).toBeUndefined()
+    expect(metadata.make).toBeUndefined()
+    expect(metadata.dateTimeOriginal).toBeDefined()
+  })
+
+  it("exports the photos' own files when metadata is kept on share", async () => {
+    const { jobs, ids, uploader, files, settings } = setup()
+    settings.set("privacy.stripMetadataOnShare", false)
+    const task = jobs.export([ids[0]])
+
+    await flush()
+    uploader.finish(ids[0])
+
+    expect(await task.result).toMatchObject({ processed: 1, failed: 0 })
+    expect(uploader.upload.mock.calls[0][0].uri).toBe("file:///photos/1.jpg")
+    expect(files.write).not.toHaveBeenCalled()
+  })
+
+  it("uploads its own copy while the original of the same photo is still uploading", async () => {
+    const { library, jobs, ids, uploader, files } = setup()
+    const original = uploader.upload(photoUpload(library.get(ids[0])!))
+    const task = jobs.export([ids[0]])
+
+    await flush()
+    await flush()
+    uploader.finish(`${ids[0]}:share`)
+
+    expect(await task.result).toMatchObject({ processed: 1, failed: 0, status: "done" })
+    const exported = uploader.upload.mock.results[1].value as UploadTask
+    expect(exported).not.toBe(original)
+    const { clientId, uri } = uploader.upload.mock.calls[1][0]
+    expect(clientId).toBe(`${ids[0]}:share`)
+    expect(readPhotoMetadata(files.contents.get(uri)!)!.gps).toBeUndefined()
+
+    uploader.finish(ids[0])
+    expect(await original.result).toMatchObject({ kind: "ok", data: { clientId: ids[0] } })
+  })
+
+  it("leaves the upload in flight running when an export is cancelled", async () => {
+    const { jobs, ids, uploader } = setup()
+    const task = jobs.export(ids)
+
+    await flush()
+    await flush()
+    expect(uploader.upload).toHaveBeenCalledTimes(1)
+    const [upload] = uploader.upload.mock.results.map((result) => result.value as UploadTask)
+    const cancel = jest.spyOn(upload, "cancel")
+
+    expect(jobs.cancel(task.id)).toBe(true)
+    expect(await task.result).toMatchObject({ processed: 1, failed: 0, status: "cancelled" })
+    expect(cancel).not.toHaveBeenCalled()
+    expect(uploader.upload).toHaveBeenCalledTimes(1)
+  })
+
+  it("lists jobs until they are dismissed, but never while they run", async () => {
+    const { jobs, ids } = setup()
+    const first = jobs.setFavorite(ids, true)
+    const second = jobs.addTags(ids, ["x"])
+
+    expect(jobs.all().map((job) => job.id)).toEqual([first.id, second.id])
+    expect(jobs.dismiss(first.id)).toBe(false)
+
+    await Promise.all([first.result, second.result])
+    expect(jobs.dismiss(first.id)).toBe(true)
+    expect(jobs.all().map((job) => job.id)).toEqual([second.id])
+    expect(jobs.dismiss("job-404")).toBe(false)
+  })
+})
@@ -0,0 +1,292 @@
+import { albumStore, AlbumStore } from "@/services/albums"
+import type { PhotoUpload } from "@/services/api/types"
+import { photoLibrary, PhotoLibrary, PhotoRecord } from "@/services/library"
+import { settingsStore, SettingsStore } from "@/services/settings"
+import { PhotoFiles, photoFiles, shareableCopy } from "@/services/share"
+import { trashStore, TrashStore } from "@/services/trash"
+import { ChunkedUploader, uploader as defaultUploader } from "@/services/upload"
+import { delay } from "@/utils/delay"
+import { stripMetadata as stripFileMetadata } from "@/utils/exif"
+
+import type { BatchAction, BatchJob, BatchStep, BatchTask } from "./types"
+
+export type BatchJobsListener = () => void
+
+export interface BatchJobsOptions {
+  library?: PhotoLibrary
+  albums?: AlbumStore
+  trash?: Pick<TrashStore, "trash">
+  uploader?: Pick<ChunkedUploader, "upload">
+  /**
+   * Where photo files are read from and written to.
+   */
+  files?: PhotoFiles
+  /**
+   * Where "Remove metadata when sharing" is looked up, which exports honour too.
+   */
+  settings?: Pick<SettingsStore, "get">
+  /**
+   * Creates ids for new jobs. Handy to override in tests.
+   */
+  generateId?: () => string
+}
+
+let idCounter = 0
+const defaultGenerateId = () => {
+  idCounter += 1
+  return `job-${Date.now().toString(36)}-${idCounter.toString(36)}`
+}
+
+/**
+ * What the uploader needs to know about a library photo.
+ */
+export function photoUpload(photo: PhotoRecord): PhotoUpload {
+  return {
+    clientId: photo.id,
+    uri: photo.uri,
+    fileName: `${photo.id}.jpg`,
+    mimeType: "image/jpeg",
+    width: photo.width,
+    height: photo.height,
+    capturedAt: photo.capturedAt,
+    tags: photo.tags,
+  }
+}
+
+/**
+ * Waits for a promise, but only until the signal aborts. Resolves to null then.
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T | null> {
+  if (signal.aborted) return Promise.resolve(null)
+  return new Promise((resolve, reject) => {
+    const abort = () => resolve(null)
+    signal.addEventListener("abort", abort)
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", abort))
+  })
+}
+
+/**
+ * Runs operations over many photos at once, like the ones picked in the gallery.
+ *
+ * Each job works through its photos one at a time, yielding between them so the UI
+ * keeps up, and reports its progress to subscribers as it goes. Jobs run side by
+ * side and can be cancelled; a finished job is listed until it's dismissed.
+ */
+export class BatchJobs {
+  private library: PhotoLibrary
+  private albums: AlbumStore
+  private trashStore: Pick<TrashStore, "trash">
+  private uploader: Pick<ChunkedUploader, "upload">
+  private files: PhotoFiles
+  private settings: Pick<SettingsStore, "get">
+  private generateId: () => string
+  private jobs = new Map<string, BatchJob>()
+  private controllers = new Map<string, AbortController>()
+  private listeners = new Set<BatchJobsListener>()
+  private version = 0
+
+  constructor(options: BatchJobsOptions = {}) {
+    this.library = options.library ?? photoLibrary
+    this.albums = options.albums ?? albumStore
+    this.trashStore = options.trash ?? trashStore
+    this.uploader = options.uploader ?? defaultUploader
+    this.files = options.files ?? photoFiles
+    this.settings = options.settings ?? settingsStore
+    this.generateId = options.generateId ?? defaultGenerateId
+  }
+
+  /**
+   * Increments on every change to any job. Useful as a cheap snapshot for
+   * `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: BatchJobsListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Every job that hasn't been dismissed, in the order they were started.
+   */
+  all(): BatchJob[] {
+    return Array.from(this.jobs.values())
+  }
+
+  get(id: string): BatchJob | undefined {
+    return this.jobs.get(id)
+  }
+
+  /**
+   * Puts photos in a plain album.
+   */
+  addToAlbum(photoIds: string[], albumId: string): BatchTask {
+    return this.start("addToAlbum", photoIds, (photo) => {
+      if (this.albums.get(albumId)?.kind !== "user") return false
+      this.albums.addPhotos(albumId, [photo.id])
+      return true
+    })
+  }
+
+  /**
+   * Adds tags to photos, on top of the ones they have.
+   */
+  addTags(photoIds: string[], tags: string[]): BatchTask {
+    return this.start("addTags", photoIds, (photo) => {
+      this.library.update(photo.id, { tags: Array.from(new Set([...photo.tags, ...tags])) })
+      return true
+    })
+  }
+
+  setFavorite(photoIds: string[], favorite: boolean): BatchTask {
+    return this.start(favorite ? "favorite" : "unfavorite", photoIds, (photo) => {
+      if (photo.favorite !== favorite) this.library.update(photo.id, { favorite })
+      return true
+    })
+  }
+
+  /**
+   * Moves photos to the trash, where they can still be restored from.
+   */
+  trash(photoIds: string[]): BatchTask {
+    return this.start("trash", photoIds, (photo) => this.trashStore.trash([photo.id]) > 0)
+  }
+
+  /**
+   * Uploads photos to the user's account the way they'd be shared, so without their
+   * location and device details while "Remove metadata when sharing" is on.
+   *
+   * A stripped copy uploads under its own client id, so it never joins or resumes an
+   * upload of the original file.
+   *
+   * Cancelling stops before the next photo. The upload in flight carries on by itself:
+   * the uploader hands out one task per client id, which someone else may be waiting on too.
+   */
+  export(photoIds: string[]): BatchTask {
+    return this.start("export", photoIds, async (photo, signal) => {
+      const uri = await shareableCopy(photo, { files: this.files, settings: this.settings })
+      if (!uri) return false
+      const clientId = uri === photo.uri ? photo.id : `${photo.id}:share`
+      const task = this.uploader.upload({ ...photoUpload(photo), clientId, uri })
+      const result = await untilAborted(task.result, signal)
+      // left to the uploader, which resumes it later if it has to
+      if (!result) return true
+      return result.kind === "ok"
+    })
+  }
+
+  /**
+   * Removes the EXIF and XMP blocks from photos' files, and with them what the library
+   * picked up from those: where the photos were taken and on what camera. Photos whose
+   * files can't be rewritten, like ones that aren't JPEGs, fail.
+   */
+  stripMetadata(photoIds: string[]): BatchTask {
+    return this.start("stripMetadata", photoIds, async (photo) => {
+      const stripped = stripFileMetadata(await this.files.read(photo.uri))
+      if (!stripped) return false
+      await this.files.write(photo.uri, stripped)
+      if (photo.location || photo.cameraModel) {
+        this.library.update(photo.id, { location: undefined, cameraModel: undefined })
+      }
+      return true
+    })
+  }
+
+  /**
+   * Stops a running job. Returns whether it was running.
+   */
+  cancel(id: string): boolean {
+    const controller = this.controllers.get(id)
+    if (!controller) return false
+    controller.abort()
+    return true
+  }
+
+  /**
+   * Takes a finished or cancelled job off the list. Returns whether it was there.
+   */
+  dismiss(id: string): boolean {
+    if (this.get(id)?.status !== "running" && this.jobs.delete(id)) {
+      this.notify()
+      return true
+    }
+    return false
+  }
+
+  private start(action: BatchAction, photoIds: string[], step: BatchStep): BatchTask {
+    const id = this.generateId()
+    const controller = new AbortController()
+    this.controllers.set(id, controller)
+    const job = this.set({
+      id,
+      action,
+      total: photoIds.length,
+      processed: 0,
+      failed: 0,
+      status: "running",
+    })
+    return {
+      id,
+      result: this.run(job, photoIds, step, controller.signal),
+      cancel: () => controller.abort(),
+    }
+  }
+
+  private async run(
+    started: BatchJob,
+    photoIds: string[],
+    step: BatchStep,
+    signal: AbortSignal,
+  ): Promise<BatchJob> {
+    const { id } = started
+    // what the job looked like last, for when it's removed before it's done
+    let job = started
+    for (const photoId of photoIds) {
+      // let the UI draw the progress so far, and a cancel button press land
+      await delay(0)
+      if (signal.aborted) break
+
+      const photo = this.library.get(photoId)
+      let ok = false
+      try {
+        ok = !!photo && (await step(photo, signal))
+      } catch {
+        // a step that throws has failed for that photo, not for the whole job
+      }
+      const current = this.jobs.get(id)
+      if (!current) break
+      job = this.set({
+        ...current,
+        processed: current.processed + 1,
+        failed: current.failed + (ok ? 0 : 1),
+      })
+    }
+
+    this.controllers.delete(id)
+    const current = this.jobs.get(id)
+    if (!current) return job
+    const cancelled = signal.aborted && current.processed < current.total
+    return this.set({ ...current, status: cancelled ? "cancelled" : "done" })
+  }
+
+  private set(job: BatchJob) {
+    this.jobs.set(job.id, job)
+    this.notify()
+    return job
+  }
+
+  private notify() {
+    this.version += 1
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Singleton instance of the batch jobs for convenience
+export const batchJobs = new BatchJobs()
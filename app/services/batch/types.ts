@@ -0,0 +1,49 @@
+import type { PhotoRecord } from "@/services/library"
+
+export type BatchAction =
+  | "addToAlbum"
+  | "addTags"
+  | "favorite"
+  | "unfavorite"
+  | "trash"
+  | "export"
+  | "stripMetadata"
+
+export type BatchJobStatus = "running" | "done" | "cancelled"
+
+/**
+ * A batch operation over a set of photos, as it stands. Every change replaces the
+ * whole object, so a job can be compared by reference.
+ */
+export interface BatchJob {
+  id: string
+  action: BatchAction
+  total: number
+  /**
+   * Photos the job has got through so far, whether or not it worked out for them.
+   */
+  processed: number
+  /**
+   * Photos it didn't work out for, like ones deleted while the job was running.
+   */
+  failed: number
+  status: BatchJobStatus
+}
+
+/**
+ * A job that was started, with how it ended.
+ */
+export interface BatchTask {
+  id: string
+  result: Promise<BatchJob>
+  /**
+   * Stops the job before its next photo. What's done for earlier photos stays done.
+   */
+  cancel(): void
+}
+
+/**
+ * Does a job's work for one photo, and says whether it worked out. `signal` aborts
+ * when the job is cancelled, for steps that take a while.
+ */
+export type BatchStep = (photo: PhotoRecord, signal: AbortSignal) => boolean | Promise<boolean>
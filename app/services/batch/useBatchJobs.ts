@@ -0,0 +1,17 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+
+import { BatchJobs, batchJobs } from "./BatchJobs"
+import type { BatchJob } from "./types"
+
+/**
+ * The batch jobs that haven't been dismissed, kept up to date as they progress.
+ * @param {BatchJobs} jobs - The jobs to read from.
+ * @returns {BatchJob[]} - The jobs, in the order they were started.
+ */
+export function useBatchJobs(jobs: BatchJobs = batchJobs): BatchJob[] {
+  const subscribe = useCallback((onChange: () => void) => jobs.subscribe(onChange), [jobs])
+  const getSnapshot = useCallback(() => jobs.getVersion(), [jobs])
+  const version = useSyncExternalStore(subscribe, getSnapshot)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => jobs.all(), [jobs, version])
+}
@@ -0,0 +1,17 @@
+import { createContext, useContext } from "react"
+
+import { FakeCameraProvider } from "./FakeCameraProvider"
+import type { CameraProvider } from "./types"
+
+/**
+ * The provider used when nothing is supplied through context. No native backend
+ * is wired in yet, so this is the synthetic camera.
+ */
+export const defaultCameraProvider: CameraProvider = new FakeCameraProvider()
+
+export const CameraProviderContext = createContext<CameraProvider>(defaultCameraProvider)
+
+/**
+ * Returns the `CameraProvider` the nearest `CameraProviderContext` supplies.
+ */
+export const useCameraProvider = () => useContext(CameraProviderContext)
@@ -0,0 +1,174 @@
+import { FakeCameraProvider } from "./FakeCameraProvider"
+import { CameraError, CameraState } from "./types"
+
+const NOW = Date.UTC(2024, 4, 1, 12, 0, 0)
+
+function createProvider() {
+  return new FakeCameraProvider({ width: 8, height: 6, frameIntervalMs: 0, now: () => NOW })
+}
+
+function pixel(data: Uint8ClampedArray, width: number, x: number, y: number) {
+  const i = (y * width + x) * 4
+  return Array.from(data.slice(i, i + 4))
+}
+
+describe("FakeCameraProvider", () => {
+  it("starts closed and reports state changes while opening", async () => {
+    const camera = createProvider()
+    const statuses: CameraState["status"][] = []
+    camera.onStateChange((state) => statuses.push(state.status))
+
+    expect(camera.getState().status).toBe("closed")
+    await camera.open()
+    expect(statuses).toEqual(["opening", "ready"])
+
+    await camera.close()
+    expect(camera.getState().status).toBe("closed")
+  })
+
+  it("emits deterministic RGBA frames", async () => {
+    const first = createProvider()
+    const second = createProvider()
+    await first.open()
+    await second.open()
+
+    const frames: Uint8ClampedArray[] = []
+    first.onFrame((frame) => frames.push(frame.data))
+
+    const a = first.emitFrame()
+    const b = second.emitFrame()
+
+    expect(a.width).toBe(8)
+    expect(a.height).toBe(6)
+    expect(a.data).toHaveLength(8 * 6 * 4)
+    expect(a.timestamp).toBe(NOW)
+    expect(a.data).toEqual(b.data)
+    expect(frames).toHaveLength(1)
+    // every pixel is opaque
+    expect(pixel(a.data, 8, 3, 5)[3]).toBe(255)
+  })
+
+  it("moves the synthetic scene between frames", async () => {
+    const camera = createProvider()
+    await camera.open()
+    const a = camera.emitFrame()
+    const b = camera.emitFrame()
+    expect(a.data).not.toEqual(b.data)
+  })
+
+  it("refuses to emit frames or capture while closed", async () => {
+    const camera = createProvider()
+    expect(() => camera.emitFrame()).toThrow(CameraError)
+    await expect(camera.capture()).rejects.toMatchObject({ problem: { kind: "not-open" } })
+  })
+
+  it("captures photos with uris made from the generated ids", async () => {
+    let id = 0
+    const camera = new FakeCameraProvider({
+      width: 8,
+      height: 6,
+      frameIntervalMs: 0,
+      now: () => NOW,
+      generateId: () => `id${++id}`,
+    })
+    await camera.open()
+
+    const first = await camera.capture()
+    const second = await camera.capture()
+
+    expect(first).toMatchObject({
+      uri: "fake://captures/capture-id1.jpg",
+      width: 8,
+      height: 6,
+      capturedAt: new Date(NOW).toISOString(),
+      lens: "back",
+      flash: "off",
+      zoom: 1,
+    })
+    expect(second.uri).toBe("fake://captures/capture-id2.jpg")
+    expect(camera.getState().status).toBe("ready")
+  })
+
+  it("never reuses a uri, even across providers", async () => {
+    const uris = new Set<string>()
+    for (const camera of [createProvider(), createProvider()]) {
+      await camera.open()
+      uris.add((await camera.capture()).uri)
+      uris.add((await camera.capture()).uri)
+      await camera.close()
+    }
+
+    expect(uris.size).toBe(4)
+    uris.forEach((uri) => expect(uri).toMatch(/^fake:\/\/captures\/capture-.+\.jpg$/))
+  })
+
+  it("rejects a capture while another is in flight", async () => {
+    const camera = createProvider()
+    await camera.open()
+
+    const first = camera.capture()
+    await expect(camera.capture()).rejects.toMatchObject({ problem: { kind: "busy" } })
+    await first
+  })
+
+  it("brightens captures when the flash fires", async () => {
+    const camera = createProvider()
+    await camera.open()
+
+    const plain = await camera.capture()
+    camera.setFlash("on")
+    const flashed = await camera.capture()
+
+    expect(pixel(flashed.frame.data, 8, 0, 5)[1]).toBeGreaterThan(
+      pixel(plain.frame.data, 8, 0, 5)[1],
+    )
+  })
+
+  it("toggles between lenses and mirrors the front lens", async () => {
+    const camera = createProvider()
+    await camera.open()
+    const back = camera.emitFrame()
+
+    await expect(camera.switchLens()).resolves.toBe("front")
+    const front = camera.emitFrame()
+    expect(front.data).not.toEqual(back.data)
+
+    await expect(camera.switchLens()).resolves.toBe("back")
+    await expect(camera.switchLens("back")).resolves.toBe("back")
+  })
+
+  it("has no torch or flash on the front lens", async () => {
+    const camera = createProvider()
+    await camera.open()
+    camera.setTorch(true)
+    camera.setFlash("auto")
+
+    await camera.switchLens("front")
+    expect(camera.getState()).toMatchObject({ torch: false, flash: "off" })
+    expect(() => camera.setTorch(true)).toThrow(CameraError)
+    expect(() => camera.setFlash("on")).toThrow(CameraError)
+  })
+
+  it("clamps zoom to the supported range", async () => {
+    const camera = new FakeCameraProvider({ frameIntervalMs: 0, maxZoom: 4 })
+    expect(camera.setZoom(2)).toBe(2)
+    expect(camera.setZoom(10)).toBe(4)
+    expect(camera.setZoom(0.2)).toBe(1)
+  })
+
+  it("emits frames on a timer while open", async () => {
+    jest.useFakeTimers()
+    const camera = new FakeCameraProvider({ width: 4, height: 4, frameIntervalMs: 50 })
+    const listener = jest.fn()
+    camera.onFrame(listener)
+
+    await camera.open()
+    jest.advanceTimersByTime(160)
+    expect(listener).toHaveBeenCalledTimes(3)
+
+    await camera.close()
+    jest.advanceTimersByTime(200)
+    expect(listener).toHaveBeenCalledTimes(3)
+    jest.useRealTimers()
+  })
+})
@@ -0,0 +1,276 @@
+import {
+  CameraError,
+  CameraFrame,
+  CameraFrameListener,
+  CameraLens,
+  CameraProvider,
+  CameraState,
+  CameraStateListener,
+  CapturedPhoto,
+  FlashMode,
+} from "./types"
+
+export interface FakeCameraProviderOptions {
+  /**
+   * Preview frame width in pixels. Default: 64
+   */
+  width?: number
+  /**
+   * Preview frame height in pixels. Default: 48
+   */
+  height?: number
+  /**
+   * How often a preview frame is emitted while open. Use 0 to only emit frames
+   * when `emitFrame()` is called, which is what tests want. Default: 100
+   */
+  frameIntervalMs?: number
+  /**
+   * Highest zoom factor the fake lens supports. Default: 8
+   */
+  maxZoom?: number
+  /**
+   * Clock used to stamp frames and captures. Default: Date.now
+   */
+  now?: () => number
+  /**
+   * Prefix for the uris of captured photos. Default: "fake://captures"
+   */
+  uriPrefix?: string
+  /**
+   * Creates the ids in captured photos' uris. These have to stay unique across
+   * sessions, since the library keeps the uris. Handy to override in tests.
+   */
+  generateId?: () => string
+}
+
+let idCounter = 0
+const defaultGenerateId = () => {
+  idCounter += 1
+  return `${Date.now().toString(36)}-${idCounter.toString(36)}`
+}
+
+const TORCH_BOOST = 48
+const FLASH_BOOST = 64
+
+/**
+ * A deterministic, in-memory camera. It renders a synthetic scene (a sky/ground
+ * gradient with a bright square that drifts across it) so that everything
+ * downstream of the camera can be exercised without a device.
+ *
+ * The same sequence of calls always produces the same pixels.
+ */
+export class FakeCameraProvider implements CameraProvider {
+  private state: CameraState
+  private width: number
+  private height: number
+  private frameIntervalMs: number
+  private now: () => number
+  private uriPrefix: string
+  private generateId: () => string
+  private frameIndex = 0
+  private timer: ReturnType<typeof setInterval> | null = null
+  private stateListeners = new Set<CameraStateListener>()
+  private frameListeners = new Set<CameraFrameListener>()
+
+  constructor(options: FakeCameraProviderOptions = {}) {
+    this.width = options.width ?? 64
+    this.height = options.height ?? 48
+    this.frameIntervalMs = options.frameIntervalMs ?? 100
+    this.now = options.now ?? Date.now
+    this.uriPrefix = options.uriPrefix ?? "fake://captures"
+    this.generateId = options.generateId ?? defaultGenerateId
+    this.state = {
+      status: "closed",
+      lens: "back",
+      flash: "off",
+      torch: false,
+      zoom: 1,
+      minZoom: 1,
+      maxZoom: options.maxZoom ?? 8,
+    }
+  }
+
+  async open() {
+    if (this.state.status !== "closed") return
+    this.setState({ status: "opening" })
+    this.setState({ status: "ready" })
+    if (this.frameIntervalMs > 0) {
+      this.timer = setInterval(() => this.emitFrame(), this.frameIntervalMs)
+    }
+  }
+
+  async close() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    if (this.state.status !== "closed") this.setState({ status: "closed", torch: false })
+  }
+
+  getState() {
+    return this.state
+  }
+
+  onStateChange(listener: CameraStateListener) {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
+  onFrame(listener: CameraFrameListener) {
+    this.frameListeners.add(listener)
+    return () => {
+      this.frameListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Renders the next preview frame and hands it to every frame listener.
+   * Called on a timer while open, or manually when `frameIntervalMs` is 0.
+   */
+  emitFrame(): CameraFrame {
+    if (this.state.status === "closed") throw new CameraError({ kind: "not-open" })
+    const frame = this.renderFrame(this.state.torch ? TORCH_BOOST : 0)
+    this.frameIndex += 1
+    this.frameListeners.forEach((listener) => listener(frame))
+    return frame
+  }
+
+  async capture(): Promise<CapturedPhoto> {
+    if (this.state.status === "closed" || this.state.status === "opening") {
+      throw new CameraError({ kind: "not-open" })
+    }
+    if (this.state.status === "capturing") throw new CameraError({ kind: "busy" })
+
+    this.setState({ status: "capturing" })
+    // let listeners observe the capturing state before the shutter "fires"
+    await Promise.resolve()
+
+    const { flash, lens, zoom, torch } = this.state
+    const flashFires = flash === "on" || (flash === "auto" && this.isDark())
+    const boost = (torch ? TORCH_BOOST : 0) + (flashFires ? FLASH_BOOST : 0)
+    const frame = this.renderFrame(boost)
+
+    const photo: CapturedPhoto = {
+      uri: `${this.uriPrefix}/capture-${this.generateId()}.jpg`,
+      width: frame.width,
+      height: frame.height,
+      capturedAt: new Date(frame.timestamp).toISOString(),
+      lens,
+      flash,
+      zoom,
+      frame,
+    }
+
+    // the camera may have been closed while the shutter was open
+    if (this.getState().status === "capturing") this.setState({ status: "ready" })
+    return photo
+  }
+
+  async switchLens(lens?: CameraLens) {
+    if (this.state.status === "closed") throw new CameraError({ kind: "not-open" })
+    const next = lens ?? (this.state.lens === "back" ? "front" : "back")
+    // the front "lens" has neither flash nor torch, so drop them when switching
+    this.setState(
+      next === "front"
+        ? { lens: next, zoom: 1, torch: false, flash: "off" }
+        : { lens: next, zoom: 1 },
+    )
+    return next
+  }
+
+  setFlash(mode: FlashMode) {
+    if (this.state.lens === "front" && mode !== "off") {
+      throw new CameraError({ kind: "unsupported", feature: "flash" })
+    }
+    this.setState({ flash: mode })
+  }
+
+  setTorch(enabled: boolean) {
+    if (this.state.lens === "front" && enabled) {
+      throw new CameraError({ kind: "unsupported", feature: "torch" })
+    }
+    if (this.state.status === "closed" && enabled) throw new CameraError({ kind: "not-open" })
+    this.setState({ torch: enabled })
+  }
+
+  setZoom(zoom: number) {
+    const { minZoom, maxZoom } = this.state
+    const clamped = Math.min(maxZoom, Math.max(minZoom, zoom))
+    if (clamped !== this.state.zoom) this.setState({ zoom: clamped })
+    return clamped
+  }
+
+  private setState(patch: Partial<CameraState>) {
+    this.state = { ...this.state, ...patch }
+    this.stateListeners.forEach((listener) => listener(this.state))
+  }
+
+  /**
+   * The synthetic scene is lit evenly, so "auto" flash only fires once the
+   * scene has been zoomed into the dark ground half.
+   */
+  private isDark() {
+    return this.state.zoom >= 4
+  }
+
+  private renderFrame(boost: number): CameraFrame {
+    const { width, height } = this
+    const { lens, zoom } = this.state
+    const data = new Uint8ClampedArray(width * height * 4)
+
+    // the bright square walks across the scene one pixel per frame
+    const squareSize = Math.max(2, Math.round(height / 4))
+    const squareX = this.frameIndex % width
+    const squareY = Math.round(height / 3)
+
+    const cx = width / 2
+    const cy = height / 2
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // map the output pixel back into scene space: zoom around the center, mirror the selfie lens
+        const mirroredX = lens === "front" ? width - 1 - x : x
+        const sx = cx + (mirroredX - cx) / zoom
+        const sy = cy + (y - cy) / zoom
+
+        let r: number
+        let g: number
+        let b: number
+        if (sy < height / 2) {
+          // sky: light blue fading towards the horizon
+          const t = sy / (height / 2)
+          r = 110 + 60 * t
+          g = 160 + 50 * t
+          b = 230
+        } else {
+          // ground: dark green getting darker towards the bottom
+          const t = (sy - height / 2) / (height / 2)
+          r = 40 - 20 * t
+          g = 90 - 50 * t
+          b = 40 - 20 * t
+        }
+
+        if (
+          sx >= squareX &&
+          sx < squareX + squareSize &&
+          sy >= squareY &&
+          sy < squareY + squareSize
+        ) {
+          r = 250
+          g = 240
+          b = 200
+        }
+
+        const i = (y * width + x) * 4
+        data[i] = r + boost
+        data[i + 1] = g + boost
+        data[i + 2] = b + boost
+        data[i + 3] = 255
+      }
+    }
+
+    return { width, height, data, timestamp: this.now() }
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types"
+export * from "./FakeCameraProvider"
+export * from "./CameraContext"
+export * from "./useCamera"
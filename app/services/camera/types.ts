@@ -0,0 +1,133 @@
+/**
+ * These types describe the contract between the camera UI and whatever is
+ * actually producing pixels. CameraScreen only ever talks to a `CameraProvider`,
+ * so a native implementation and the in-memory fake are interchangeable.
+ */
+
+/**
+ * Which physical lens the provider is streaming from.
+ */
+export type CameraLens = "back" | "front"
+
+/**
+ * How the flash should behave on the next capture.
+ */
+export type FlashMode = "off" | "on" | "auto"
+
+/**
+ * Where the provider is in its lifecycle.
+ */
+export type CameraStatus = "closed" | "opening" | "ready" | "capturing"
+
+/**
+ * A single preview frame. Pixels are stored row by row as RGBA, 4 bytes per pixel.
+ */
+export interface CameraFrame {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+  /**
+   * Milliseconds since the epoch when the frame was produced.
+   */
+  timestamp: number
+}
+
+/**
+ * The result of a successful capture.
+ */
+export interface CapturedPhoto {
+  /**
+   * Where the full resolution image was written.
+   */
+  uri: string
+  width: number
+  height: number
+  /**
+   * ISO 8601 timestamp of the moment the shutter fired.
+   */
+  capturedAt: string
+  lens: CameraLens
+  flash: FlashMode
+  zoom: number
+  /**
+   * A preview-sized copy of the captured pixels, handy for on-device analysis.
+   */
+  frame: CameraFrame
+}
+
+/**
+ * Everything the UI needs to render the current camera controls.
+ */
+export interface CameraState {
+  status: CameraStatus
+  lens: CameraLens
+  flash: FlashMode
+  torch: boolean
+  zoom: number
+  minZoom: number
+  maxZoom: number
+}
+
+export type CameraProblem =
+  /**
+   * The provider has not been opened, or has been closed.
+   */
+  | { kind: "not-open" }
+  /**
+   * Another capture is still in flight.
+   */
+  | { kind: "busy" }
+  /**
+   * The requested hardware feature doesn't exist on this lens.
+   */
+  | { kind: "unsupported"; feature: "torch" | "flash" | "lens" }
+
+/**
+ * Thrown by providers when an operation can't be carried out.
+ */
+export class CameraError extends Error {
+  problem: CameraProblem
+
+  constructor(problem: CameraProblem) {
+    super(`Camera error: ${problem.kind}`)
+    this.name = "CameraError"
+    this.problem = problem
+  }
+}
+
+export type CameraStateListener = (state: CameraState) => void
+export type CameraFrameListener = (frame: CameraFrame) => void
+
+/**
+ * The interface every camera backend implements.
+ */
+export interface CameraProvider {
+  /**
+   * Starts the preview stream. Safe to call when already open.
+   */
+  open(): Promise<void>
+  /**
+   * Stops the preview stream and releases the hardware.
+   */
+  close(): Promise<void>
+  getState(): CameraState
+  /**
+   * Subscribes to state changes. Returns an unsubscribe function.
+   */
+  onStateChange(listener: CameraStateListener): () => void
+  /**
+   * Subscribes to preview frames. Returns an unsubscribe function.
+   */
+  onFrame(listener: CameraFrameListener): () => void
+  capture(): Promise<CapturedPhoto>
+  /**
+   * Switches to the given lens, or toggles between front and back when omitted.
+   */
+  switchLens(lens?: CameraLens): Promise<CameraLens>
+  setFlash(mode: FlashMode): void
+  setTorch(enabled: boolean): void
+  /**
+   * Sets the zoom factor, clamped to the provider's `minZoom`..`maxZoom`.
+   */
+  setZoom(zoom: number): number
+}
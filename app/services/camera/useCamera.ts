@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react"
+
+import type { CameraFrame, CameraLens, CameraProvider, CameraState, FlashMode } from "./types"
+
+/**
+ * Binds a `CameraProvider` to React state. The provider is opened while `active`
+ * is true and closed again when it turns false or the component unmounts. When it
+ * can't be opened, `error` says why until the next attempt.
+ * @param {CameraProvider} provider - The camera backend to drive.
+ * @param {boolean} active - Whether the preview should be running.
+ * @returns {object} - The latest camera state, frame and error, plus the camera actions.
+ */
+export function useCamera(provider: CameraProvider, active = true) {
+  const [state, setState] = useState<CameraState>(() => provider.getState())
+  const [frame, setFrame] = useState<CameraFrame | null>(null)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    setState(provider.getState())
+    const unsubscribeState = provider.onStateChange(setState)
+    const unsubscribeFrame = provider.onFrame(setFrame)
+    return () => {
+      unsubscribeState()
+      unsubscribeFrame()
+    }
+  }, [provider])
+
+  useEffect(() => {
+    if (!active) return undefined
+    let current = true
+    setError(null)
+    provider.open().catch((reason: unknown) => {
+      if (current) setError(reason instanceof Error ? reason : new Error(String(reason)))
+    })
+    return () => {
+      current = false
+      provider.close()
+    }
+  }, [provider, active])
+
+  const capture = useCallback(() => provider.capture(), [provider])
+  const switchLens = useCallback((lens?: CameraLens) => provider.switchLens(lens), [provider])
+  const setFlash = useCallback((mode: FlashMode) => provider.setFlash(mode), [provider])
+  const setTorch = useCallback((enabled: boolean) => provider.setTorch(enabled), [provider])
+  const setZoom = useCallback((zoom: number) => provider.setZoom(zoom), [provider])
+
+  return { state, frame, error, capture, switchLens, setFlash, setTorch, setZoom }
+}
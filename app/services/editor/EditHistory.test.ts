@@ -0,0 +1,140 @@
+import { storage } from "@/utils/storage"
+
+import { EditHistory } from "./EditHistory"
+import { EDIT_STORAGE_PREFIX, EditStore } from "./EditStore"
+
+describe("EditHistory", () => {
+  it("undoes and redoes edits in order", () => {
+    const history = new EditHistory()
+    history.apply({ type: "rotate", quarterTurns: 1 })
+    history.apply({ type: "exposure", stops: 1 })
+
+    expect(history.undo()).toEqual({ type: "exposure", stops: 1 })
+    expect(history.edits).toEqual([{ type: "rotate", quarterTurns: 1 }])
+    expect(history.canRedo).toBe(true)
+
+    expect(history.redo()).toEqual({ type: "exposure", stops: 1 })
+    expect(history.edits).toHaveLength(2)
+    expect(history.canRedo).toBe(false)
+  })
+
+  it("does nothing when there is nothing to undo or redo", () => {
+    const history = new EditHistory()
+
+    expect(history.undo()).toBeUndefined()
+    expect(history.redo()).toBeUndefined()
+  })
+
+  it("drops the redo stack when a new edit is applied", () => {
+    const history = new EditHistory()
+    history.apply({ type: "contrast", amount: 0.2 })
+    history.undo()
+    history.apply({ type: "saturation", amount: 0.1 })
+
+    expect(history.canRedo).toBe(false)
+    expect(history.edits).toEqual([{ type: "saturation", amount: 0.1 }])
+  })
+
+  it("coalesces repeated edits of the same type into one undo step", () => {
+    const history = new EditHistory()
+    history.apply({ type: "rotate", quarterTurns: 1 })
+    history.apply({ type: "exposure", stops: 0.25 }, { coalesce: true })
+    history.apply({ type: "exposure", stops: 0.5 }, { coalesce: true })
+
+    expect(history.edits).toEqual([
+      { type: "rotate", quarterTurns: 1 },
+      { type: "exposure", stops: 0.5 },
+    ])
+    history.undo()
+    expect(history.edits).toEqual([{ type: "rotate", quarterTurns: 1 }])
+  })
+
+  it("resets to the original and can redo its way back", () => {
+    const history = new EditHistory()
+    history.apply({ type: "rotate", quarterTurns: 2 })
+    history.apply({ type: "exposure", stops: 1 })
+    history.reset()
+
+    expect(history.edits).toEqual([])
+    history.redo()
+    expect(history.edits).toEqual([{ type: "rotate", quarterTurns: 2 }])
+  })
+
+  it("finds the latest edit of a type", () => {
+    const history = new EditHistory()
+    history.apply({ type: "exposure", stops: 1 })
+    history.apply({ type: "contrast", amount: 0.1 })
+    history.apply({ type: "exposure", stops: -0.5 })
+
+    expect(history.latest("exposure")).toEqual({ type: "exposure", stops: -0.5 })
+    expect(history.latest("crop")).toBeUndefined()
+  })
+
+  it("round-trips through JSON", () => {
+    const history = new EditHistory()
+    history.apply({ type: "crop", x: 0.1, y: 0.1, width: 0.8, height: 0.8 })
+    history.apply({ type: "whiteBalance", temperature: 0.3, tint: -0.1 })
+    history.undo()
+
+    const restored = new EditHistory(JSON.parse(JSON.stringify(history)))
+
+    expect(restored.toJSON()).toEqual(history.toJSON())
+  })
+})
+
+describe("EditStore", () => {
+  beforeEach(() => storage.clearAll())
+
+  it("persists a photo's edits and redo stack", () => {
+    const store = new EditStore()
+    const history = store.load("photo-1")
+    history.apply({ type: "rotate", quarterTurns: 3 })
+    history.apply({ type: "exposure", stops: 0.5 })
+    history.undo()
+    store.save("photo-1", history)
+
+    const loaded = store.load("photo-1")
+
+    expect(loaded.edits).toEqual([{ type: "rotate", quarterTurns: 3 }])
+    expect(loaded.canRedo).toBe(true)
+    expect(store.isEdited("photo-1")).toBe(true)
+    expect(store.isEdited("photo-2")).toBe(false)
+  })
+
+  it("drops edits it does not understand", () => {
+    storage.set(
+      EDIT_STORAGE_PREFIX + "photo-1",
+      JSON.stringify({
+        version: 1,
+        edits: [{ type: "rotate", quarterTurns: 1 }, { type: "vignette", amount: 1 }, null],
+        redo: [{ type: "exposure", stops: "lots" }],
+      }),
+    )
+
+    const loaded = new EditStore().load("photo-1")
+
+    expect(loaded.edits).toEqual([{ type: "rotate", quarterTurns: 1 }])
+    expect(loaded.canRedo).toBe(false)
+  })
+
+  it("ignores stacks written by another version", () => {
+    storage.set(EDIT_STORAGE_PREFIX + "photo-1", JSON.stringify({ version: 2, edits: [] }))
+
+    expect(new EditStore().load("photo-1").canUndo).toBe(false)
+  })
+
+  it("clears the key once nothing is left and tells subscribers", () => {
+    const store = new EditStore()
+    const listener = jest.fn()
+    store.subscribe(listener)
+    const history = store.load("photo-1")
+    history.apply({ type: "rotate", quarterTurns: 1 })
+    store.save("photo-1", history)
+    // a fresh history has nothing to undo or redo
+    store.save("photo-1", new EditHistory())
+
+    expect(storage.getString(EDIT_STORAGE_PREFIX + "photo-1")).toBeUndefined()
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledWith("photo-1")
+  })
+})
@@ -0,0 +1,94 @@
+import type { Edit, EditStack } from "./types"
+
+export interface ApplyOptions {
+  /**
+   * Replace the last edit instead of adding a new one when it has the same type.
+   * Meant for controls that fire many small changes, like steppers and sliders,
+   * so one drag is one undo step.
+   */
+  coalesce?: boolean
+}
+
+/**
+ * The ordered edits of one photo with undo and redo. Plain data in, plain data out:
+ * `toJSON()` gives back exactly what the constructor accepts.
+ */
+export class EditHistory {
+  private applied: Edit[]
+  private undone: Edit[]
+
+  constructor(stack?: Pick<EditStack, "edits" | "redo">) {
+    this.applied = stack ? [...stack.edits] : []
+    this.undone = stack ? [...stack.redo] : []
+  }
+
+  /**
+   * The edits currently in effect, oldest first.
+   */
+  get edits(): readonly Edit[] {
+    return this.applied
+  }
+
+  get canUndo() {
+    return this.applied.length > 0
+  }
+
+  get canRedo() {
+    return this.undone.length > 0
+  }
+
+  /**
+   * Adds an edit to the end of the stack. Anything that was undone can no longer be redone.
+   */
+  apply(edit: Edit, options: ApplyOptions = {}) {
+    const last = this.applied[this.applied.length - 1]
+    if (options.coalesce && last?.type === edit.type) {
+      this.applied[this.applied.length - 1] = edit
+    } else {
+      this.applied.push(edit)
+    }
+    this.undone = []
+  }
+
+  /**
+   * Takes the last edit off the stack. Returns it, or undefined when there was nothing to undo.
+   */
+  undo(): Edit | undefined {
+    const edit = this.applied.pop()
+    if (edit) this.undone.push(edit)
+    return edit
+  }
+
+  /**
+   * Puts the most recently undone edit back. Returns it, or undefined when there was nothing to redo.
+   */
+  redo(): Edit | undefined {
+    const edit = this.undone.pop()
+    if (edit) this.applied.push(edit)
+    return edit
+  }
+
+  /**
+   * Drops every edit, going back to the original photo. The dropped edits can be redone
+   * one by one until the next edit is applied.
+   */
+  reset() {
+    while (this.applied.length > 0) this.undo()
+  }
+
+  /**
+   * The latest edit of the given type, or undefined. Handy for showing the current
+   * value of an adjustment.
+   */
+  latest<T extends Edit["type"]>(type: T): Extract<Edit, { type: T }> | undefined {
+    for (let i = this.applied.length - 1; i >= 0; i--) {
+      const edit = this.applied[i]
+      if (edit.type === type) return edit as Extract<Edit, { type: T }>
+    }
+    return undefined
+  }
+
+  toJSON(): EditStack {
+    return { version: 1, edits: [...this.applied], redo: [...this.undone] }
+  }
+}
@@ -0,0 +1,98 @@
+import * as storage from "@/utils/storage"
+
+import { EditHistory } from "./EditHistory"
+import type { Edit, EditStack } from "./types"
+
+export const EDIT_STORAGE_PREFIX = "pixassist.edits."
+
+export type EditStoreListener = (photoId: string) => void
+
+/**
+ * Persists the edit stack of every photo, one storage key per photo.
+ */
+export class EditStore {
+  private prefix: string
+  private listeners = new Set<EditStoreListener>()
+
+  constructor(prefix = EDIT_STORAGE_PREFIX) {
+    this.prefix = prefix
+  }
+
+  /**
+   * Loads a photo's history. Photos that were never edited get an empty one, and
+   * edits that don't look right (say, written by a newer version) are dropped.
+   */
+  load(photoId: string): EditHistory {
+    const stack = storage.load<Partial<EditStack>>(this.prefix + photoId)
+    if (!stack || stack.version !== 1) return new EditHistory()
+    return new EditHistory({ edits: validEdits(stack.edits), redo: validEdits(stack.redo) })
+  }
+
+  save(photoId: string, history: EditHistory) {
+    const stack = history.toJSON()
+    if (stack.edits.length === 0 && stack.redo.length === 0) {
+      storage.remove(this.prefix + photoId)
+    } else {
+      storage.save(this.prefix + photoId, stack)
+    }
+    this.listeners.forEach((listener) => listener(photoId))
+  }
+
+  /**
+   * Forgets a photo's edits entirely.
+   */
+  remove(photoId: string) {
+    storage.remove(this.prefix + photoId)
+    this.listeners.forEach((listener) => listener(photoId))
+  }
+
+  /**
+   * Whether the photo currently has any edits applied.
+   */
+  isEdited(photoId: string) {
+    return this.load(photoId).canUndo
+  }
+
+  /**
+   * Subscribes to saves and removals. Returns an unsubscribe function.
+   */
+  subscribe(listener: EditStoreListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value)
+
+/**
+ * Checks that a value read from storage is an edit this version knows how to apply.
+ */
+export function isEdit(value: unknown): value is Edit {
+  if (!value || typeof value !== "object") return false
+  const edit = value as Record<string, unknown>
+  switch (edit.type) {
+    case "crop":
+      return [edit.x, edit.y, edit.width, edit.height].every(isNumber)
+    case "rotate":
+      return edit.quarterTurns === 1 || edit.quarterTurns === 2 || edit.quarterTurns === 3
+    case "exposure":
+      return isNumber(edit.stops)
+    case "contrast":
+    case "saturation":
+      return isNumber(edit.amount)
+    case "whiteBalance":
+      return isNumber(edit.temperature) && isNumber(edit.tint)
+    default:
+      return false
+  }
+}
+
+function validEdits(edits: unknown): Edit[] {
+  return Array.isArray(edits) ? edits.filter(isEdit) : []
+}
+
+// Singleton instance of the store for convenience
+export const editStore = new EditStore()
@@ -0,0 +1,74 @@
+import { centeredCrop, netAdjustment, nudgeAdjustment } from "./adjustments"
+import type { Edit } from "./types"
+
+describe("nudgeAdjustment", () => {
+  it("folds into the last edit when it is the same adjustment", () => {
+    expect(nudgeAdjustment([{ type: "exposure", stops: 0.5 }], "exposure", 0.25)).toEqual({
+      type: "exposure",
+      stops: 0.75,
+    })
+  })
+
+  it("starts from zero after a different edit", () => {
+    const edits: Edit[] = [
+      { type: "exposure", stops: 0.5 },
+      { type: "rotate", quarterTurns: 1 },
+    ]
+
+    expect(nudgeAdjustment(edits, "exposure", -0.25)).toEqual({ type: "exposure", stops: -0.25 })
+  })
+
+  it("clamps to the adjustment range and rounds away float drift", () => {
+    expect(nudgeAdjustment([{ type: "contrast", amount: 1 }], "contrast", 0.1)).toEqual({
+      type: "contrast",
+      amount: 1,
+    })
+    expect(nudgeAdjustment([{ type: "saturation", amount: 0.2 }], "saturation", 0.1)).toEqual({
+      type: "saturation",
+      amount: 0.3,
+    })
+  })
+
+  it("keeps the other white balance axis", () => {
+    const edits: Edit[] = [{ type: "whiteBalance", temperature: 0.3, tint: -0.2 }]
+
+    expect(nudgeAdjustment(edits, "tint", 0.1)).toEqual({
+      type: "whiteBalance",
+      temperature: 0.3,
+      tint: -0.1,
+    })
+  })
+})
+
+describe("netAdjustment", () => {
+  it("adds up the adjustment across the stack", () => {
+    const edits: Edit[] = [
+      { type: "exposure", stops: 0.5 },
+      { type: "whiteBalance", temperature: 0.2, tint: 0 },
+      { type: "exposure", stops: 0.25 },
+    ]
+
+    expect(netAdjustment(edits, "exposure")).toBe(0.75)
+    expect(netAdjustment(edits, "temperature")).toBe(0.2)
+    expect(netAdjustment(edits, "contrast")).toBe(0)
+  })
+})
+
+describe("centeredCrop", () => {
+  it("takes the largest centered crop in the image's orientation", () => {
+    expect(centeredCrop(4000, 3000, "square")).toEqual({
+      type: "crop",
+      x: 0.125,
+      y: 0,
+      width: 0.75,
+      height: 1,
+    })
+    expect(centeredCrop(3000, 4000, "fourThree")).toEqual({
+      type: "crop",
+      x: 0,
+      y: 0,
+      width: 1,
+      height: 1,
+    })
+  })
+})
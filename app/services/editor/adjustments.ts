@@ -0,0 +1,102 @@
+import type { Edit } from "./types"
+
+export type Adjustment = "exposure" | "contrast" | "saturation" | "temperature" | "tint"
+
+export interface AdjustmentRange {
+  step: number
+  min: number
+  max: number
+}
+
+export const ADJUSTMENTS: Record<Adjustment, AdjustmentRange> = {
+  exposure: { step: 0.25, min: -3, max: 3 },
+  contrast: { step: 0.1, min: -1, max: 1 },
+  saturation: { step: 0.1, min: -1, max: 1 },
+  temperature: { step: 0.1, min: -1, max: 1 },
+  tint: { step: 0.1, min: -1, max: 1 },
+}
+
+/**
+ * Reads the value an edit sets for an adjustment, or undefined when the edit is
+ * about something else.
+ */
+export function adjustmentValue(edit: Edit, adjustment: Adjustment): number | undefined {
+  switch (adjustment) {
+    case "exposure":
+      return edit.type === "exposure" ? edit.stops : undefined
+    case "contrast":
+      return edit.type === "contrast" ? edit.amount : undefined
+    case "saturation":
+      return edit.type === "saturation" ? edit.amount : undefined
+    case "temperature":
+      return edit.type === "whiteBalance" ? edit.temperature : undefined
+    case "tint":
+      return edit.type === "whiteBalance" ? edit.tint : undefined
+  }
+}
+
+/**
+ * The combined amount of an adjustment across the whole stack. Exact for exposure,
+ * where stops add up; a close approximation for the rest.
+ */
+export function netAdjustment(edits: readonly Edit[], adjustment: Adjustment) {
+  return edits.reduce((sum, edit) => sum + (adjustmentValue(edit, adjustment) ?? 0), 0)
+}
+
+/**
+ * Builds the edit for nudging an adjustment by `delta`. When the last edit is already
+ * of the same kind the nudge is folded into it, so apply the result with
+ * `{ coalesce: true }` and a run of nudges stays a single undo step.
+ */
+export function nudgeAdjustment(
+  edits: readonly Edit[],
+  adjustment: Adjustment,
+  delta: number,
+): Edit {
+  const last = edits[edits.length - 1]
+  const { min, max } = ADJUSTMENTS[adjustment]
+  const current = last ? (adjustmentValue(last, adjustment) ?? 0) : 0
+  // round away float drift so repeated 0.1 steps land on tidy values
+  const value = Math.round(Math.min(max, Math.max(min, current + delta)) * 100) / 100
+
+  switch (adjustment) {
+    case "exposure":
+      return { type: "exposure", stops: value }
+    case "contrast":
+      return { type: "contrast", amount: value }
+    case "saturation":
+      return { type: "saturation", amount: value }
+    case "temperature":
+    case "tint": {
+      const previous = last?.type === "whiteBalance" ? last : { temperature: 0, tint: 0 }
+      return adjustment === "temperature"
+        ? { type: "whiteBalance", temperature: value, tint: previous.tint }
+        : { type: "whiteBalance", temperature: previous.temperature, tint: value }
+    }
+  }
+}
+
+export type CropAspect = "square" | "fourThree" | "sixteenNine"
+
+export const CROP_ASPECTS: Record<CropAspect, number> = {
+  square: 1,
+  fourThree: 4 / 3,
+  sixteenNine: 16 / 9,
+}
+
+/**
+ * The largest centered crop with the given aspect ratio. The ratio follows the image's
+ * orientation, so 16:9 on a portrait image is 9:16.
+ */
+export function centeredCrop(width: number, height: number, aspect: CropAspect): Edit {
+  const ratio = width >= height ? CROP_ASPECTS[aspect] : 1 / CROP_ASPECTS[aspect]
+  const cropWidth = Math.min(width, height * ratio)
+  const cropHeight = cropWidth / ratio
+  return {
+    type: "crop",
+    x: (width - cropWidth) / 2 / width,
+    y: (height - cropHeight) / 2 / height,
+    width: cropWidth / width,
+    height: cropHeight / height,
+  }
+}
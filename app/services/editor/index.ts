@@ -0,0 +1,6 @@
+export * from "./types"
+export * from "./pipeline"
+export * from "./adjustments"
+export * from "./EditHistory"
+export * from "./EditStore"
+export * from "./useEditHistory"
@@ -0,0 +1,162 @@
+import type { RgbaImage } from "@/utils/imageAnalysis"
+
+import { editedSize, renderEdits } from "./pipeline"
+import type { Edit } from "./types"
+
+/**
+ * A 3x2 image whose red channel numbers the pixels 0..5 in reading order, so
+ * geometry can be checked by reading the red channel back.
+ */
+function numbered(): RgbaImage {
+  const data = new Uint8ClampedArray(3 * 2 * 4)
+  for (let i = 0; i < 6; i++) data.set([i, 100, 100, 255], i * 4)
+  return { width: 3, height: 2, data }
+}
+
+function solid(r: number, g: number, b: number): RgbaImage {
+  return { width: 1, height: 1, data: new Uint8ClampedArray([r, g, b, 255]) }
+}
+
+const reds = (image: RgbaImage) => Array.from(image.data.filter((_, i) => i % 4 === 0))
+const rgb = (image: RgbaImage) => Array.from(image.data.subarray(0, 3))
+
+describe("renderEdits", () => {
+  it("leaves the original pixels alone", () => {
+    const image = numbered()
+    const before = Array.from(image.data)
+
+    renderEdits(image, [
+      { type: "exposure", stops: 1 },
+      { type: "rotate", quarterTurns: 1 },
+    ])
+
+    expect(Array.from(image.data)).toEqual(before)
+  })
+
+  it("returns a copy when there is nothing to apply", () => {
+    const image = numbered()
+    const result = renderEdits(image, [])
+
+    expect(result.data).not.toBe(image.data)
+    expect(Array.from(result.data)).toEqual(Array.from(image.data))
+  })
+
+  it("rotates clockwise in quarter turns", () => {
+    // 0 1 2
+    // 3 4 5
+    const image = numbered()
+
+    const once = renderEdits(image, [{ type: "rotate", quarterTurns: 1 }])
+    expect([once.width, once.height]).toEqual([2, 3])
+    expect(reds(once)).toEqual([3, 0, 4, 1, 5, 2])
+
+    expect(reds(renderEdits(image, [{ type: "rotate", quarterTurns: 2 }]))).toEqual([
+      5, 4, 3, 2, 1, 0,
+    ])
+    expect(reds(renderEdits(image, [{ type: "rotate", quarterTurns: 3 }]))).toEqual([
+      2, 5, 1, 4, 0, 3,
+    ])
+  })
+
+  it("crops with normalized coordinates", () => {
+    const result = renderEdits(numbered(), [
+      { type: "crop", x: 1 / 3, y: 0.5, width: 2 / 3, height: 0.5 },
+    ])
+
+    expect([result.width, result.height]).toEqual([2, 1])
+    expect(reds(result)).toEqual([4, 5])
+  })
+
+  it("keeps at least one pixel when a crop runs off the image", () => {
+    const result = renderEdits(numbered(), [{ type: "crop", x: 2, y: -1, width: 0, height: 5 }])
+
+    expect([result.width, result.height]).toEqual([1, 2])
+    expect(reds(result)).toEqual([2, 5])
+  })
+
+  it("applies edits in order", () => {
+    const cropThenRotate: Edit[] = [
+      { type: "crop", x: 0, y: 0, width: 2 / 3, height: 1 },
+      { type: "rotate", quarterTurns: 1 },
+    ]
+    const rotateThenCrop: Edit[] = [
+      { type: "rotate", quarterTurns: 1 },
+      { type: "crop", x: 0, y: 0, width: 1, height: 2 / 3 },
+    ]
+
+    expect(reds(renderEdits(numbered(), cropThenRotate))).toEqual([3, 0, 4, 1])
+    expect(reds(renderEdits(numbered(), rotateThenCrop))).toEqual([3, 0, 4, 1])
+  })
+
+  it("doubles the light per stop of exposure", () => {
+    // 50% linear light is sRGB 188, 25% is 137
+    expect(rgb(renderEdits(solid(137, 137, 137), [{ type: "exposure", stops: 1 }]))).toEqual([
+      188, 188, 188,
+    ])
+    expect(rgb(renderEdits(solid(188, 188, 188), [{ type: "exposure", stops: -1 }]))).toEqual([
+      137, 137, 137,
+    ])
+    expect(rgb(renderEdits(solid(200, 200, 200), [{ type: "exposure", stops: 3 }]))).toEqual([
+      255, 255, 255,
+    ])
+  })
+
+  it("stretches and flattens contrast around mid gray", () => {
+    expect(rgb(renderEdits(solid(64, 128, 192), [{ type: "contrast", amount: 0.5 }]))).toEqual([
+      32, 128, 224,
+    ])
+    expect(rgb(renderEdits(solid(64, 128, 192), [{ type: "contrast", amount: -1 }]))).toEqual([
+      128, 128, 128,
+    ])
+  })
+
+  it("desaturates to luma and boosts away from it", () => {
+    const [r, g, b] = rgb(renderEdits(solid(200, 100, 50), [{ type: "saturation", amount: -1 }]))
+    expect(r).toBe(g)
+    expect(g).toBe(b)
+
+    const boosted = rgb(renderEdits(solid(200, 100, 50), [{ type: "saturation", amount: 0.5 }]))
+    expect(boosted[0]).toBeGreaterThan(200)
+    expect(boosted[2]).toBeLessThan(50)
+  })
+
+  it("warms, cools and tints with white balance", () => {
+    const warm = rgb(
+      renderEdits(solid(100, 100, 100), [{ type: "whiteBalance", temperature: 1, tint: 0 }]),
+    )
+    expect(warm[0]).toBeGreaterThan(100)
+    expect(warm[1]).toBe(100)
+    expect(warm[2]).toBeLessThan(100)
+
+    const magenta = rgb(
+      renderEdits(solid(100, 100, 100), [{ type: "whiteBalance", temperature: 0, tint: 1 }]),
+    )
+    expect(magenta).toEqual([100, 80, 100])
+  })
+
+  it("never touches alpha", () => {
+    const image: RgbaImage = { width: 1, height: 1, data: new Uint8ClampedArray([90, 90, 90, 40]) }
+    const result = renderEdits(image, [
+      { type: "exposure", stops: 2 },
+      { type: "contrast", amount: 1 },
+    ])
+
+    expect(result.data[3]).toBe(40)
+  })
+})
+
+describe("editedSize", () => {
+  it("follows crops and rotations without rendering", () => {
+    const edits: Edit[] = [
+      { type: "crop", x: 0, y: 0, width: 0.5, height: 1 },
+      { type: "exposure", stops: 1 },
+      { type: "rotate", quarterTurns: 1 },
+    ]
+
+    expect(editedSize(4000, 3000, edits)).toEqual({ width: 3000, height: 2000 })
+    expect(editedSize(4000, 3000, [{ type: "rotate", quarterTurns: 2 }])).toEqual({
+      width: 4000,
+      height: 3000,
+    })
+  })
+})
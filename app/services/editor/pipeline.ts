@@ -0,0 +1,181 @@
+import type { RgbaImage } from "@/utils/imageAnalysis"
+
+import type {
+  ContrastEdit,
+  CropEdit,
+  Edit,
+  ExposureEdit,
+  RotateEdit,
+  SaturationEdit,
+  WhiteBalanceEdit,
+} from "./types"
+
+const WHITE_BALANCE_RANGE = 0.2
+
+// sRGB <-> linear light, so exposure behaves like more or less light hitting the sensor
+const TO_LINEAR = Float64Array.from({ length: 256 }, (_, v) => {
+  const c = v / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+})
+
+function toSrgb(linear: number) {
+  const c = linear <= 0.0031308 ? linear * 12.92 : 1.055 * linear ** (1 / 2.4) - 0.055
+  return c * 255
+}
+
+/**
+ * Renders an edit stack onto a copy of `image`. The input is never modified, which
+ * is what keeps editing non-destructive: the original pixels plus the stack are the
+ * source of truth.
+ *
+ * @param image The original RGBA pixels.
+ * @param edits The edits to apply, in order.
+ * @returns A new image with every edit applied.
+ */
+export function renderEdits(image: RgbaImage, edits: readonly Edit[]): RgbaImage {
+  let result: RgbaImage = {
+    width: image.width,
+    height: image.height,
+    data: new Uint8ClampedArray(image.data),
+  }
+  for (const edit of edits) result = applyEdit(result, edit)
+  return result
+}
+
+/**
+ * The size the image ends up at after the edits, without touching any pixels.
+ */
+export function editedSize(width: number, height: number, edits: readonly Edit[]) {
+  let size = { width, height }
+  for (const edit of edits) {
+    if (edit.type === "crop") {
+      const rect = cropRect(size.width, size.height, edit)
+      size = { width: rect.width, height: rect.height }
+    } else if (edit.type === "rotate" && edit.quarterTurns % 2 === 1) {
+      size = { width: size.height, height: size.width }
+    }
+  }
+  return size
+}
+
+/**
+ * Applies a single edit. Geometric edits return a new buffer, tonal edits work in place.
+ */
+export function applyEdit(image: RgbaImage, edit: Edit): RgbaImage {
+  switch (edit.type) {
+    case "crop":
+      return crop(image, edit)
+    case "rotate":
+      return rotate(image, edit)
+    case "exposure":
+      return mapPixels(image, exposure(edit))
+    case "contrast":
+      return mapPixels(image, contrast(edit))
+    case "saturation":
+      return mapPixels(image, saturation(edit))
+    case "whiteBalance":
+      return mapPixels(image, whiteBalance(edit))
+  }
+}
+
+/**
+ * The pixel rectangle a crop keeps, clamped to the image and at least 1x1.
+ */
+export function cropRect(width: number, height: number, edit: CropEdit) {
+  const x = clamp(Math.round(edit.x * width), 0, width - 1)
+  const y = clamp(Math.round(edit.y * height), 0, height - 1)
+  return {
+    x,
+    y,
+    width: clamp(Math.round(edit.width * width), 1, width - x),
+    height: clamp(Math.round(edit.height * height), 1, height - y),
+  }
+}
+
+function crop(image: RgbaImage, edit: CropEdit): RgbaImage {
+  const rect = cropRect(image.width, image.height, edit)
+  const data = new Uint8ClampedArray(rect.width * rect.height * 4)
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * image.width + rect.x) * 4
+    data.set(image.data.subarray(start, start + rect.width * 4), y * rect.width * 4)
+  }
+  return { width: rect.width, height: rect.height, data }
+}
+
+function rotate(image: RgbaImage, edit: RotateEdit): RgbaImage {
+  const { width, height } = image
+  const turns = ((edit.quarterTurns % 4) + 4) % 4
+  const swap = turns % 2 === 1
+  const outWidth = swap ? height : width
+  const outHeight = swap ? width : height
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx = x
+      let ty = y
+      if (turns === 1) {
+        tx = height - 1 - y
+        ty = x
+      } else if (turns === 2) {
+        tx = width - 1 - x
+        ty = height - 1 - y
+      } else if (turns === 3) {
+        tx = y
+        ty = width - 1 - x
+      }
+      const from = (y * width + x) * 4
+      const to = (ty * outWidth + tx) * 4
+      data[to] = image.data[from]
+      data[to + 1] = image.data[from + 1]
+      data[to + 2] = image.data[from + 2]
+      data[to + 3] = image.data[from + 3]
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data }
+}
+
+type PixelMap = (r: number, g: number, b: number) => [number, number, number]
+
+function mapPixels(image: RgbaImage, map: PixelMap): RgbaImage {
+  const { data } = image
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = map(data[i], data[i + 1], data[i + 2])
+    // the buffers we create are clamped, but callers may hand us a plain Uint8Array
+    data[i] = clamp(Math.round(r), 0, 255)
+    data[i + 1] = clamp(Math.round(g), 0, 255)
+    data[i + 2] = clamp(Math.round(b), 0, 255)
+  }
+  return image
+}
+
+function exposure({ stops }: ExposureEdit): PixelMap {
+  const gain = 2 ** stops
+  const lut = Float64Array.from(TO_LINEAR, (linear) => toSrgb(Math.min(1, linear * gain)))
+  return (r, g, b) => [lut[r], lut[g], lut[b]]
+}
+
+function contrast({ amount }: ContrastEdit): PixelMap {
+  const factor = 1 + amount
+  return (r, g, b) => [(r - 128) * factor + 128, (g - 128) * factor + 128, (b - 128) * factor + 128]
+}
+
+function saturation({ amount }: SaturationEdit): PixelMap {
+  const factor = 1 + amount
+  return (r, g, b) => {
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b
+    return [luma + (r - luma) * factor, luma + (g - luma) * factor, luma + (b - luma) * factor]
+  }
+}
+
+function whiteBalance({ temperature, tint }: WhiteBalanceEdit): PixelMap {
+  const red = 1 + temperature * WHITE_BALANCE_RANGE
+  const green = 1 - tint * WHITE_BALANCE_RANGE
+  const blue = 1 - temperature * WHITE_BALANCE_RANGE
+  return (r, g, b) => [r * red, g * green, b * blue]
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value))
+}
@@ -0,0 +1,73 @@
+/**
+ * Keeps a normalized rectangle of the image, in fractions (0-1) of the image as it is
+ * at that point in the stack.
+ */
+export interface CropEdit {
+  type: "crop"
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Turns the image clockwise in 90° steps.
+ */
+export interface RotateEdit {
+  type: "rotate"
+  quarterTurns: 1 | 2 | 3
+}
+
+/**
+ * Brightens or darkens in photographic stops; +1 doubles the light.
+ */
+export interface ExposureEdit {
+  type: "exposure"
+  stops: number
+}
+
+/**
+ * -1 flattens everything to mid gray, 0 leaves the image alone, 1 doubles contrast.
+ */
+export interface ContrastEdit {
+  type: "contrast"
+  amount: number
+}
+
+/**
+ * -1 is black and white, 0 leaves the image alone, 1 doubles saturation.
+ */
+export interface SaturationEdit {
+  type: "saturation"
+  amount: number
+}
+
+/**
+ * Both from -1 to 1. Positive temperature warms (more red, less blue), positive tint
+ * shifts towards magenta (less green).
+ */
+export interface WhiteBalanceEdit {
+  type: "whiteBalance"
+  temperature: number
+  tint: number
+}
+
+export type Edit =
+  | CropEdit
+  | RotateEdit
+  | ExposureEdit
+  | ContrastEdit
+  | SaturationEdit
+  | WhiteBalanceEdit
+
+export type EditType = Edit["type"]
+
+/**
+ * The edits of one photo as written to storage: the applied edits in order, plus
+ * the undone ones that can still be redone, most recently undone last.
+ */
+export interface EditStack {
+  version: 1
+  edits: Edit[]
+  redo: Edit[]
+}
@@ -0,0 +1,55 @@
+import { useCallback, useMemo, useState } from "react"
+
+import { ApplyOptions } from "./EditHistory"
+import { editStore, EditStore } from "./EditStore"
+import type { Edit } from "./types"
+
+/**
+ * Loads a photo's edit history and saves it back after every change.
+ * @param {string} photoId - The photo being edited.
+ * @param {EditStore} store - Where edit stacks are persisted.
+ * @returns {object} - The current edits, undo/redo state and the editing actions.
+ */
+export function useEditHistory(photoId: string, store: EditStore = editStore) {
+  const history = useMemo(() => store.load(photoId), [store, photoId])
+  const [version, setVersion] = useState(0)
+
+  const commit = useCallback(() => {
+    store.save(photoId, history)
+    setVersion((current) => current + 1)
+  }, [store, photoId, history])
+
+  const apply = useCallback(
+    (edit: Edit, options?: ApplyOptions) => {
+      history.apply(edit, options)
+      commit()
+    },
+    [history, commit],
+  )
+  const undo = useCallback(() => {
+    if (history.undo()) commit()
+  }, [history, commit])
+  const redo = useCallback(() => {
+    if (history.redo()) commit()
+  }, [history, commit])
+  const reset = useCallback(() => {
+    if (!history.canUndo) return
+    history.reset()
+    commit()
+  }, [history, commit])
+
+  // the history is mutated in place, so hand out a fresh array whenever it changes
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const edits = useMemo(() => [...history.edits], [history, version])
+
+  return {
+    history,
+    edits,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    apply,
+    undo,
+    redo,
+    reset,
+  }
+}
@@ -0,0 +1,256 @@
+import { FakeCameraProvider } from "@/services/camera"
+import { storage } from "@/utils/storage"
+
+import { addCapturedPhoto } from "./addCapturedPhoto"
+import { PhotoLibrary } from "./PhotoLibrary"
+import type { NewPhoto } from "./types"
+import { loadFixture } from "../../../test/fixtures"
+
+const STORAGE_KEY = "test.photoLibrary"
+
+// the fake camera's captures have no file behind them
+const noFiles = {
+  read: async (): Promise<Uint8Array> => {
+    throw new Error("No file")
+  },
+}
+
+function createLibrary() {
+  let id = 0
+  return new PhotoLibrary({ storageKey: STORAGE_KEY, generateId: () => `photo-${++id}` })
+}
+
+function photo(day: number, extra: Partial<NewPhoto> = {}): NewPhoto {
+  return {
+    uri: `file:///photos/${day}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt: new Date(Date.UTC(2024, 0, day, 9)).toISOString(),
+    ...extra,
+  }
+}
+
+describe("PhotoLibrary", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("adds photos with defaults", () => {
+    const library = createLibrary()
+    const record = library.add(photo(1))
+
+    expect(record).toEqual({
+      id: "photo-1",
+      uri: "file:///photos/1.jpg",
+      width: 4032,
+      height: 3024,
+      capturedAt: "2024-01-01T09:00:00.000Z",
+      tags: [],
+      favorite: false,
+      albumIds: [],
+    })
+    expect(library.get("photo-1")).toEqual(record)
+    expect(library.size).toBe(1)
+  })
+
+  it("persists changes to storage", () => {
+    const library = createLibrary()
+    const { id } = library.add(photo(1, { tags: ["beach"] }))
+    library.update(id, { favorite: true })
+
+    const reopened = createLibrary()
+    expect(reopened.get(id)).toMatchObject({ favorite: true, tags: ["beach"] })
+
+    library.remove(id)
+    reopened.reload()
+    expect(reopened.size).toBe(0)
+  })
+
+  it("ignores updates and removals of unknown photos", () => {
+    const library = createLibrary()
+    expect(library.update("nope", { favorite: true })).toBeUndefined()
+    expect(library.remove("nope")).toBeUndefined()
+  })
+
+  it("notifies subscribers of every change", () => {
+    const library = createLibrary()
+    const listener = jest.fn()
+    const unsubscribe = library.subscribe(listener)
+
+    const added = library.add(photo(1))
+    const updated = library.update(added.id, { favorite: true })
+    library.remove(added.id)
+    unsubscribe()
+    library.add(photo(2))
+
+    expect(listener.mock.calls.map(([change]) => change)).toEqual([
+      { type: "added", photo: added },
+      { type: "updated", photo: updated, previous: added },
+      { type: "removed", photo: updated },
+    ])
+    expect(library.getVersion()).toBe(4)
+  })
+
+  it("restores removed photos under their old id", () => {
+    const library = createLibrary()
+    const removed = library.remove(library.add(photo(1, { tags: ["beach"] })).id)!
+    const listener = jest.fn()
+    library.subscribe(listener)
+
+    expect(library.restore(removed)).toEqual(removed)
+    expect(library.get(removed.id)).toEqual(removed)
+    expect(listener).toHaveBeenCalledWith({ type: "added", photo: removed })
+    expect(library.restore(removed)).toBeUndefined()
+  })
+
+  describe("query", () => {
+    let library: PhotoLibrary
+
+    beforeEach(() => {
+      library = createLibrary()
+      library.add(photo(3, { tags: ["beach", "sunset"], favorite: true }))
+      library.add(photo(1, { tags: ["beach"], albumIds: ["trip"] }))
+      library.add(photo(2, { tags: ["city"], width: 1000, albumIds: ["trip"] }))
+      library.add(photo(4, { favorite: true, width: 2000 }))
+    })
+
+    it("sorts newest first by default", () => {
+      const page = library.query()
+      expect(page.items.map((p) => p.id)).toEqual(["photo-4", "photo-1", "photo-3", "photo-2"])
+      expect(page).toMatchObject({ total: 4, offset: 0, hasMore: false })
+    })
+
+    it("sorts by other fields in either direction", () => {
+      const asc = library.query({ sortBy: "width", direction: "asc" })
+      expect(asc.items.map((p) => p.width)).toEqual([1000, 2000, 4032, 4032])
+      const oldest = library.query({ direction: "asc" })
+      expect(oldest.items[0].id).toBe("photo-2")
+    })
+
+    it("filters by favorite, tags, album, ids and date range", () => {
+      const ids = (filter: Parameters<PhotoLibrary["query"]>[0]) =>
+        library.query(filter).items.map((p) => p.id)
+
+      expect(ids({ filter: { favorite: true } })).toEqual(["photo-4", "photo-1"])
+      expect(ids({ filter: { tags: ["beach"] } })).toEqual(["photo-1", "photo-2"])
+      expect(ids({ filter: { tags: ["beach", "sunset"] } })).toEqual(["photo-1"])
+      expect(ids({ filter: { albumId: "trip" } })).toEqual(["photo-3", "photo-2"])
+      expect(ids({ filter: { ids: ["photo-2", "photo-4"] } })).toEqual(["photo-2", "photo-4"])
+      expect(ids({ filter: { ids: ["photo-2", "photo-4"] }, sortBy: "capturedAt" })).toEqual([
+        "photo-4",
+        "photo-2",
+      ])
+      expect(
+        ids({
+          filter: {
+            capturedAfter: "2024-01-02T00:00:00.000Z",
+            capturedBefore: "2024-01-04T00:00:00.000Z",
+          },
+        }),
+      ).toEqual(["photo-1", "photo-3"])
+    })
+
+    it("filters by rule sets", () => {
+      const ids = library
+        .query({
+          filter: {
+            rules: {
+              match: "any",
+              rules: [
+                { type: "tags", tags: ["city"], match: "any" },
+                { type: "favorite", favorite: true },
+              ],
+            },
+          },
+        })
+        .items.map((p) => p.id)
+
+      expect(ids).toEqual(["photo-4", "photo-1", "photo-3"])
+    })
+
+    it("filters by blur score, treating unscored photos as sharp", () => {
+      library.update("photo-1", { sharpness: { score: 12, blurry: true, motionBlurAngle: 0 } })
+      library.update("photo-2", { sharpness: { score: 480, blurry: false } })
+
+      expect(library.query({ filter: { blurry: true } }).items.map((p) => p.id)).toEqual([
+        "photo-1",
+      ])
+      expect(library.query({ filter: { blurry: false } }).total).toBe(3)
+    })
+
+    it("paginates", () => {
+      const first = library.query({ limit: 3 })
+      expect(first.items).toHaveLength(3)
+      expect(first.hasMore).toBe(true)
+
+      const second = library.query({ offset: 3, limit: 3 })
+      expect(second.items.map((p) => p.id)).toEqual(["photo-2"])
+      expect(second).toMatchObject({ total: 4, offset: 3, hasMore: false })
+    })
+  })
+
+  it("counts the photos a query matches in each month, newest first", () => {
+    const library = createLibrary()
+    // January 15th, February 14th and 19th, March 15th
+    library.add(photo(15, { favorite: true }))
+    library.add(photo(45))
+    library.add(photo(50, { favorite: true }))
+    library.add(photo(75, { favorite: true }))
+
+    expect(library.countByMonth()).toEqual([
+      { month: "2024-03", count: 1 },
+      { month: "2024-02", count: 2 },
+      { month: "2024-01", count: 1 },
+    ])
+    expect(library.countByMonth({ filter: { favorite: true }, direction: "asc" })).toEqual([
+      { month: "2024-01", count: 1 },
+      { month: "2024-02", count: 1 },
+      { month: "2024-03", count: 1 },
+    ])
+  })
+
+  it("scores captured photos for blur as they are added", async () => {
+    const library = createLibrary()
+    const camera = new FakeCameraProvider({ frameIntervalMs: 0, now: () => 0 })
+    await camera.open()
+
+    const capture = await camera.capture()
+    const record = await addCapturedPhoto(capture, library, noFiles)
+
+    expect(record).toMatchObject({ uri: capture.uri, width: 64, height: 48 })
+    expect(record.sharpness?.score).toBeGreaterThan(0)
+    expect(typeof record.sharpness?.blurry).toBe("boolean")
+    expect(library.get(record.id)?.sharpness).toEqual(record.sharpness)
+  })
+
+  it("reads the camera model and location from a captured photo's file", async () => {
+    const library = createLibrary()
+    const camera = new FakeCameraProvider({ frameIntervalMs: 0, now: () => 0 })
+    await camera.open()
+    const capture = await camera.capture()
+    const files = { read: async () => loadFixture("exif-little-endian.jpg") }
+
+    const record = await addCapturedPhoto(capture, library, files)
+
+    expect(library.get(record.id)).toMatchObject({
+      cameraModel: "PX-1",
+      location: { latitude: expect.closeTo(48.8581, 4), longitude: expect.any(Number) },
+    })
+    expect(
+      library.query({
+        filter: { rules: { match: "all", rules: [{ type: "cameraModel", models: ["px-1"] }] } },
+      }).items,
+    ).toEqual([record])
+  })
+
+  it("adds captured photos whose file can't be read without EXIF details", async () => {
+    const library = createLibrary()
+    const camera = new FakeCameraProvider({ frameIntervalMs: 0, now: () => 0 })
+    await camera.open()
+
+    const record = await addCapturedPhoto(await camera.capture(), library, noFiles)
+
+    expect(record.cameraModel).toBeUndefined()
+    expect(record.location).toBeUndefined()
+  })
+})
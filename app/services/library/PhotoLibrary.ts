@@ -0,0 +1,240 @@
+import * as storage from "@/utils/storage"
+
+import { matchesRules } from "./rules"
+import { timelineKey } from "./timeline"
+import type {
+  MonthCount,
+  NewPhoto,
+  PhotoFilter,
+  PhotoPage,
+  PhotoPatch,
+  PhotoQuery,
+  PhotoRecord,
+  PhotoSortField,
+} from "./types"
+
+export const PHOTO_LIBRARY_STORAGE_KEY = "pixassist.photoLibrary"
+
+/**
+ * What gets written to storage. Bump `version` if the shape of `PhotoRecord` changes
+ * in a way old data can't be read as-is.
+ */
+interface PersistedLibrary {
+  version: 1
+  photos: PhotoRecord[]
+}
+
+export type PhotoChange =
+  | { type: "added"; photo: PhotoRecord }
+  | { type: "updated"; photo: PhotoRecord; previous: PhotoRecord }
+  | { type: "removed"; photo: PhotoRecord }
+
+export type PhotoChangeListener = (change: PhotoChange) => void
+
+export interface PhotoLibraryOptions {
+  /**
+   * The storage key the index is persisted under.
+   */
+  storageKey?: string
+  /**
+   * Creates ids for new photos. Handy to override in tests.
+   */
+  generateId?: () => string
+}
+
+let idCounter = 0
+const defaultGenerateId = () => {
+  idCounter += 1
+  return `${Date.now().toString(36)}-${idCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * The persistent index of every photo PixAssist knows about. Reads are served from
+ * memory; every change is written through to storage immediately.
+ */
+export class PhotoLibrary {
+  private storageKey: string
+  private generateId: () => string
+  private photos: Map<string, PhotoRecord> | null = null
+  private listeners = new Set<PhotoChangeListener>()
+  private version = 0
+
+  constructor(options: PhotoLibraryOptions = {}) {
+    this.storageKey = options.storageKey ?? PHOTO_LIBRARY_STORAGE_KEY
+    this.generateId = options.generateId ?? defaultGenerateId
+  }
+
+  /**
+   * Increments on every change. Useful as a cheap snapshot for `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: PhotoChangeListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get(id: string): PhotoRecord | undefined {
+    return this.index().get(id)
+  }
+
+  /**
+   * Every photo, in the order they were added.
+   */
+  all(): PhotoRecord[] {
+    return Array.from(this.index().values())
+  }
+
+  get size() {
+    return this.index().size
+  }
+
+  add(photo: NewPhoto): PhotoRecord {
+    const record: PhotoRecord = {
+      tags: [],
+      favorite: false,
+      albumIds: [],
+      ...photo,
+      id: this.generateId(),
+    }
+    this.index().set(record.id, record)
+    this.commit({ type: "added", photo: record })
+    return record
+  }
+
+  /**
+   * Applies `patch` to the photo with the given id. Returns the updated record,
+   * or undefined when there is no such photo.
+   */
+  update(id: string, patch: PhotoPatch): PhotoRecord | undefined {
+    const previous = this.index().get(id)
+    if (!previous) return undefined
+
+    const photo: PhotoRecord = { ...previous, ...patch, id }
+    this.index().set(id, photo)
+    this.commit({ type: "updated", photo, previous })
+    return photo
+  }
+
+  /**
+   * Removes a photo from the index. The file at its uri is left alone.
+   */
+  remove(id: string): PhotoRecord | undefined {
+    const photo = this.index().get(id)
+    if (!photo) return undefined
+
+    this.index().delete(id)
+    this.commit({ type: "removed", photo })
+    return photo
+  }
+
+  /**
+   * Puts back a photo removed earlier, id and all, so everything that refers to it
+   * lines up again. Does nothing when a photo with that id is already here.
+   */
+  restore(photo: PhotoRecord): PhotoRecord | undefined {
+    if (this.index().has(photo.id)) return undefined
+
+    this.index().set(photo.id, photo)
+    this.commit({ type: "added", photo })
+    return photo
+  }
+
+  /**
+   * Filters, sorts and paginates the library.
+   */
+  query(query: PhotoQuery = {}): PhotoPage {
+    const { filter, sortBy, direction = "desc", offset = 0, limit } = query
+
+    const matches = this.all().filter((photo) => matchesFilter(photo, filter))
+    if (filter?.ids && !sortBy) {
+      const order = new Map(filter.ids.map((id, index) => [id, index]))
+      matches.sort((a, b) => order.get(a.id)! - order.get(b.id)!)
+    } else {
+      matches.sort(comparePhotos(sortBy ?? "capturedAt", direction))
+    }
+
+    const start = Math.max(0, offset)
+    const end = limit === undefined ? matches.length : start + Math.max(0, limit)
+    const items = matches.slice(start, end)
+
+    return { items, total: matches.length, offset: start, hasMore: end < matches.length }
+  }
+
+  /**
+   * How many photos a query matches in each month on the local calendar, in the order
+   * the query lists them. Cheap next to the photos themselves, so a timeline can offer
+   * every month before it has loaded their pages.
+   */
+  countByMonth(query: Omit<PhotoQuery, "offset" | "limit"> = {}): MonthCount[] {
+    const counts: MonthCount[] = []
+    for (const photo of this.query(query).items) {
+      const month = timelineKey(photo.capturedAt, "month")
+      const last = counts.at(-1)
+      if (last?.month === month) last.count += 1
+      else counts.push({ month, count: 1 })
+    }
+    return counts
+  }
+
+  /**
+   * Drops the in-memory copy so the next read comes from storage again.
+   */
+  reload() {
+    this.photos = null
+    this.version += 1
+  }
+
+  private index(): Map<string, PhotoRecord> {
+    if (!this.photos) {
+      const persisted = storage.load<PersistedLibrary>(this.storageKey)
+      const photos = persisted && Array.isArray(persisted.photos) ? persisted.photos : []
+      this.photos = new Map(photos.map((photo) => [photo.id, photo]))
+    }
+    return this.photos
+  }
+
+  private commit(change: PhotoChange) {
+    const persisted: PersistedLibrary = { version: 1, photos: this.all() }
+    storage.save(this.storageKey, persisted)
+    this.version += 1
+    this.listeners.forEach((listener) => listener(change))
+  }
+}
+
+function matchesFilter(photo: PhotoRecord, filter?: PhotoFilter) {
+  if (!filter) return true
+  if (filter.ids && !filter.ids.includes(photo.id)) return false
+  if (filter.favorite !== undefined && photo.favorite !== filter.favorite) return false
+  if (filter.blurry !== undefined && (photo.sharpness?.blurry ?? false) !== filter.blurry) {
+    return false
+  }
+  if (filter.albumId !== undefined && !photo.albumIds.includes(filter.albumId)) return false
+  if (filter.tags && !filter.tags.every((tag) => photo.tags.includes(tag))) return false
+  if (filter.capturedAfter && photo.capturedAt < filter.capturedAfter) return false
+  if (filter.capturedBefore && photo.capturedAt >= filter.capturedBefore) return false
+  if (filter.rules && !matchesRules(photo, filter.rules)) return false
+  return true
+}
+
+function comparePhotos(sortBy: PhotoSortField, direction: "asc" | "desc") {
+  const sign = direction === "asc" ? 1 : -1
+  return (a: PhotoRecord, b: PhotoRecord) => {
+    const left = a[sortBy]
+    const right = b[sortBy]
+    if (left < right) return -sign
+    if (left > right) return sign
+    // keep the order stable for equal keys by falling back to the id
+    return a.id < b.id ? -sign : a.id > b.id ? sign : 0
+  }
+}
+
+// Singleton instance of the library for convenience
+export const photoLibrary = new PhotoLibrary()
@@ -0,0 +1,78 @@
+import type { CameraFrame, CapturedPhoto } from "@/services/camera"
+import { photoFiles, PhotoFiles } from "@/services/share/photoFiles"
+import { readPhotoMetadata } from "@/utils/exif"
+import { analyzeSharpness, dHash, pHash, SharpnessOptions } from "@/utils/imageAnalysis"
+
+import { photoLibrary, PhotoLibrary } from "./PhotoLibrary"
+import type { NewPhoto, PhotoHashes, PhotoRecord, PhotoSharpness } from "./types"
+
+const MAX_CACHED_FRAMES = 100
+const capturedFrames = new Map<string, CameraFrame>()
+
+/**
+ * The pixels of a photo taken during this session, if we still have them. Native
+ * providers write real files we can decode later; the fake camera only has these.
+ */
+export function getCapturedFrame(uri: string): CameraFrame | undefined {
+  return capturedFrames.get(uri)
+}
+
+/**
+ * Scores a captured frame for blur in the shape the library stores.
+ */
+export function scoreSharpness(photo: CapturedPhoto, options?: SharpnessOptions): PhotoSharpness {
+  const { score, blurry, motionBlur } = analyzeSharpness(photo.frame, options)
+  const sharpness: PhotoSharpness = { score, blurry }
+  if (motionBlur) sharpness.motionBlurAngle = Math.round(motionBlur.angle)
+  return sharpness
+}
+
+/**
+ * Computes the perceptual hashes near-duplicate detection compares.
+ */
+export function hashPhoto(photo: CapturedPhoto): PhotoHashes {
+  return { dHash: dHash(photo.frame), pHash: pHash(photo.frame) }
+}
+
+/**
+ * The camera model and location from a photo file's EXIF, which smart albums and search
+ * match on. Files that can't be read or carry no EXIF add neither.
+ */
+async function readFileDetails(
+  uri: string,
+  files: Pick<PhotoFiles, "read"> = photoFiles,
+): Promise<Pick<NewPhoto, "cameraModel" | "location">> {
+  const metadata = readPhotoMetadata(await files.read(uri).catch(() => new Uint8Array()))
+  const details: Pick<NewPhoto, "cameraModel" | "location"> = {}
+  if (metadata?.model) details.cameraModel = metadata.model
+  if (metadata?.gps) {
+    details.location = { latitude: metadata.gps.latitude, longitude: metadata.gps.longitude }
+  }
+  return details
+}
+
+/**
+ * Adds a photo straight from the camera to the library, scoring and hashing it and
+ * reading its file's EXIF on the way.
+ */
+export async function addCapturedPhoto(
+  photo: CapturedPhoto,
+  library: PhotoLibrary = photoLibrary,
+  files: Pick<PhotoFiles, "read"> = photoFiles,
+): Promise<PhotoRecord> {
+  capturedFrames.set(photo.uri, photo.frame)
+  // Map iterates in insertion order, so the first key is the oldest frame
+  if (capturedFrames.size > MAX_CACHED_FRAMES) {
+    capturedFrames.delete(capturedFrames.keys().next().value!)
+  }
+
+  return library.add({
+    uri: photo.uri,
+    width: photo.width,
+    height: photo.height,
+    capturedAt: photo.capturedAt,
+    sharpness: scoreSharpness(photo),
+    hashes: hashPhoto(photo),
+    ...(await readFileDetails(photo.uri, files)),
+  })
+}
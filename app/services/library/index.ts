@@ -0,0 +1,8 @@
+export * from "./types"
+export * from "./PhotoLibrary"
+export * from "./rules"
+export * from "./similarGroups"
+export * from "./usePhotoLibrary"
+export * from "./addCapturedPhoto"
+export * from "./photoDetails"
+export * from "./timeline"
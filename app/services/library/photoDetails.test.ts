@@ -0,0 +1,103 @@
+import type { PhotoMetadata } from "@/utils/exif"
+
+import {
+  describePhoto,
+  formatCoordinates,
+  formatFileSize,
+  formatShutterSpeed,
+  PhotoFileInfo,
+} from "./photoDetails"
+import type { PhotoRecord } from "./types"
+
+const photo: PhotoRecord = {
+  id: "p1",
+  uri: "file:///photos/p1.jpg",
+  width: 4032,
+  height: 3024,
+  capturedAt: "2024-06-01T12:00:00.000Z",
+  tags: [],
+  favorite: false,
+  albumIds: [],
+}
+
+const file = (metadata: Partial<PhotoMetadata> | null, bytes = 2_400_000): PhotoFileInfo => ({
+  metadata: metadata && {
+    byteOrder: "big-endian",
+    hasMakerNote: false,
+    hasThumbnail: false,
+    ...metadata,
+  },
+  bytes,
+})
+
+describe("formatting", () => {
+  it("shows fast shutter speeds as fractions", () => {
+    expect(formatShutterSpeed(1 / 250)).toBe("1/250 s")
+    expect(formatShutterSpeed(0.0166)).toBe("1/60 s")
+    expect(formatShutterSpeed(2.5)).toBe("2.5 s")
+    expect(formatShutterSpeed(1)).toBe("1 s")
+  })
+
+  it("shows coordinates with their hemisphere", () => {
+    expect(formatCoordinates(48.85837, 2.294481)).toBe("48.8584° N, 2.2945° E")
+    expect(formatCoordinates(-33.8568, -151.2153)).toBe("33.8568° S, 151.2153° W")
+  })
+
+  it("picks a unit for file sizes", () => {
+    expect(formatFileSize(512)).toBe("512 B")
+    expect(formatFileSize(2_400_000)).toBe("2.4 MB")
+    expect(formatFileSize(1_000_000)).toBe("1 MB")
+    expect(formatFileSize(3_210_000_000)).toBe("3.2 GB")
+  })
+})
+
+describe("describePhoto", () => {
+  it("lists everything the file has to say", () => {
+    const details = describePhoto(
+      photo,
+      file({
+        make: "Apple",
+        model: "iPhone 15 Pro",
+        lensMake: "Apple",
+        lensModel: "iPhone 15 Pro back camera 6.86mm f/1.78",
+        exposureTime: 1 / 120,
+        fNumber: 1.78,
+        iso: 80,
+        focalLength: 6.86,
+        gps: { latitude: 48.85837, longitude: 2.294481 },
+      }),
+    )
+
+    expect(details).toEqual([
+      { key: "camera", value: "Apple iPhone 15 Pro" },
+      { key: "lens", value: "Apple iPhone 15 Pro back camera 6.86mm f/1.78" },
+      { key: "exposure", value: "1/120 s · f/1.8 · ISO 80 · 6.9 mm" },
+      { key: "location", value: "48.8584° N, 2.2945° E" },
+      { key: "dimensions", value: "4032 × 3024 (12.2 MP)" },
+      { key: "fileSize", value: "2.4 MB" },
+    ])
+  })
+
+  it("doesn't repeat the maker when the model names it", () => {
+    const details = describePhoto(photo, file({ make: "Canon", model: "Canon EOS R5" }))
+
+    expect(details[0]).toEqual({ key: "camera", value: "Canon EOS R5" })
+  })
+
+  it("leaves out what the file doesn't have", () => {
+    expect(describePhoto(photo, file(null)).map((detail) => detail.key)).toEqual([
+      "dimensions",
+      "fileSize",
+    ])
+    expect(describePhoto(photo, file({ iso: 400 }))).toContainEqual({
+      key: "exposure",
+      value: "ISO 400",
+    })
+  })
+
+  it("still shows the dimensions when the file can't be read", () => {
+    expect(describePhoto(photo, null)).toEqual([
+      { key: "dimensions", value: "4032 × 3024 (12.2 MP)" },
+    ])
+  })
+})
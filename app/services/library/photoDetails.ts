@@ -0,0 +1,104 @@
+import { PhotoMetadata, readPhotoMetadata } from "@/utils/exif"
+
+import type { PhotoRecord } from "./types"
+
+export type PhotoDetailKey = "camera" | "lens" | "exposure" | "location" | "dimensions" | "fileSize"
+
+export interface PhotoDetail {
+  key: PhotoDetailKey
+  value: string
+}
+
+/**
+ * What reading the file itself turned up. `metadata` is null for files without EXIF.
+ */
+export interface PhotoFileInfo {
+  metadata: PhotoMetadata | null
+  bytes: number
+}
+
+/**
+ * Reads a photo's file for the details that aren't in the library index. Resolves to
+ * null when the file can't be read.
+ */
+export async function readPhotoFile(uri: string): Promise<PhotoFileInfo | null> {
+  try {
+    const response = await fetch(uri)
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    return { metadata: readPhotoMetadata(bytes), bytes: bytes.length }
+  } catch {
+    return null
+  }
+}
+
+const trimNumber = (value: number, digits: number) => String(Number(value.toFixed(digits)))
+
+/**
+ * Shutter speeds read the way cameras show them: fractions below a second.
+ */
+export function formatShutterSpeed(seconds: number) {
+  if (seconds >= 1 || seconds <= 0) return `${trimNumber(seconds, 1)} s`
+  return `1/${Math.round(1 / seconds)} s`
+}
+
+export function formatCoordinates(latitude: number, longitude: number) {
+  const lat = `${Math.abs(latitude).toFixed(4)}° ${latitude < 0 ? "S" : "N"}`
+  const lon = `${Math.abs(longitude).toFixed(4)}° ${longitude < 0 ? "W" : "E"}`
+  return `${lat}, ${lon}`
+}
+
+const FILE_SIZE_UNITS = ["B", "KB", "MB", "GB"]
+
+export function formatFileSize(bytes: number) {
+  let size = bytes
+  let unit = 0
+  while (size >= 1000 && unit < FILE_SIZE_UNITS.length - 1) {
+    size /= 1000
+    unit += 1
+  }
+  return `${unit === 0 ? size : trimNumber(size, 1)} ${FILE_SIZE_UNITS[unit]}`
+}
+
+/**
+ * Joins a maker and a product name, without repeating the maker when the product
+ * name already starts with it ("Canon" + "Canon EOS R5").
+ */
+function withMaker(make: string | undefined, model: string | undefined) {
+  if (!model) return make
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase())) return model
+  return `${make} ${model}`
+}
+
+/**
+ * The rows of a photo's info sheet, in display order. Rows with nothing to show are
+ * left out, so a photo without EXIF still gets its dimensions.
+ */
+export function describePhoto(photo: PhotoRecord, file: PhotoFileInfo | null): PhotoDetail[] {
+  const metadata = file?.metadata
+  const details: PhotoDetail[] = []
+  const add = (key: PhotoDetailKey, value: string | undefined) => {
+    if (value) details.push({ key, value })
+  }
+
+  add("camera", withMaker(metadata?.make, metadata?.model))
+  add("lens", withMaker(metadata?.lensMake, metadata?.lensModel))
+  add(
+    "exposure",
+    [
+      metadata?.exposureTime !== undefined && formatShutterSpeed(metadata.exposureTime),
+      metadata?.fNumber !== undefined && `f/${trimNumber(metadata.fNumber, 1)}`,
+      metadata?.iso !== undefined && `ISO ${metadata.iso}`,
+      metadata?.focalLength !== undefined && `${trimNumber(metadata.focalLength, 1)} mm`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+  )
+  if (metadata?.gps) {
+    add("location", formatCoordinates(metadata.gps.latitude, metadata.gps.longitude))
+  }
+  const megapixels = (photo.width * photo.height) / 1_000_000
+  add("dimensions", `${photo.width} × ${photo.height} (${trimNumber(megapixels, 1)} MP)`)
+  if (file) add("fileSize", formatFileSize(file.bytes))
+
+  return details
+}
@@ -0,0 +1,104 @@
+import { distanceKm, isPhotoRuleSet, matchesRule, matchesRules } from "./rules"
+import type { PhotoRecord, PhotoRule } from "./types"
+
+const PARIS = { latitude: 48.8566, longitude: 2.3522 }
+const LONDON = { latitude: 51.5074, longitude: -0.1278 }
+
+function photo(extra: Partial<PhotoRecord> = {}): PhotoRecord {
+  return {
+    id: "photo-1",
+    uri: "file:///photos/1.jpg",
+    width: 4032,
+    height: 3024,
+    capturedAt: "2024-03-10T09:00:00.000Z",
+    tags: ["beach", "sunset"],
+    favorite: true,
+    albumIds: [],
+    ...extra,
+  }
+}
+
+describe("distanceKm", () => {
+  it("measures great-circle distance", () => {
+    expect(distanceKm(PARIS, LONDON)).toBeCloseTo(344, 0)
+    expect(distanceKm(PARIS, PARIS)).toBe(0)
+  })
+})
+
+describe("matchesRule", () => {
+  it("matches date ranges with an exclusive end", () => {
+    const rule = {
+      type: "dateRange",
+      after: "2024-03-01",
+      before: "2024-03-10T09:00:00.000Z",
+    } as const
+    expect(matchesRule(photo(), rule)).toBe(false)
+    expect(matchesRule(photo(), { type: "dateRange", after: "2024-03-01" })).toBe(true)
+    expect(matchesRule(photo(), { type: "dateRange", after: "2024-04-01" })).toBe(false)
+  })
+
+  it("matches all or any of the tags", () => {
+    expect(matchesRule(photo(), { type: "tags", tags: ["beach", "dog"], match: "all" })).toBe(false)
+    expect(matchesRule(photo(), { type: "tags", tags: ["beach", "dog"], match: "any" })).toBe(true)
+  })
+
+  it("matches favorites and blur scores", () => {
+    expect(matchesRule(photo(), { type: "favorite", favorite: false })).toBe(false)
+    const sharp = photo({ sharpness: { score: 480, blurry: false } })
+    expect(matchesRule(sharp, { type: "blurScore", min: 100 })).toBe(true)
+    expect(matchesRule(sharp, { type: "blurScore", max: 100 })).toBe(false)
+    // not analysed yet
+    expect(matchesRule(photo(), { type: "blurScore", min: 0 })).toBe(false)
+  })
+
+  it("matches camera models case-insensitively by substring", () => {
+    const rule: PhotoRule = { type: "cameraModel", models: ["pixel"] }
+    expect(matchesRule(photo({ cameraModel: "Google Pixel 8" }), rule)).toBe(true)
+    expect(matchesRule(photo({ cameraModel: "iPhone 15" }), rule)).toBe(false)
+    expect(matchesRule(photo(), rule)).toBe(false)
+  })
+
+  it("matches locations within the radius", () => {
+    const rule = { type: "location", center: PARIS, radiusKm: 50 } as const
+    expect(matchesRule(photo({ location: PARIS }), rule)).toBe(true)
+    expect(matchesRule(photo({ location: LONDON }), rule)).toBe(false)
+    expect(matchesRule(photo(), rule)).toBe(false)
+  })
+})
+
+describe("matchesRules", () => {
+  const favorite = { type: "favorite", favorite: true } as const
+  const dog: PhotoRule = { type: "tags", tags: ["dog"], match: "any" }
+
+  it("combines rules with all or any", () => {
+    expect(matchesRules(photo(), { match: "all", rules: [favorite, dog] })).toBe(false)
+    expect(matchesRules(photo(), { match: "any", rules: [favorite, dog] })).toBe(true)
+  })
+
+  it("treats an empty rule set as everything or nothing", () => {
+    expect(matchesRules(photo(), { match: "all", rules: [] })).toBe(true)
+    expect(matchesRules(photo(), { match: "any", rules: [] })).toBe(false)
+  })
+})
+
+describe("isPhotoRuleSet", () => {
+  it("accepts well-formed rule sets", () => {
+    expect(
+      isPhotoRuleSet({
+        match: "any",
+        rules: [
+          { type: "cameraModel", models: ["Pixel"] },
+          { type: "location", center: PARIS, radiusKm: 5 },
+        ],
+      }),
+    ).toBe(true)
+  })
+
+  it("rejects unknown or malformed rules", () => {
+    expect(isPhotoRuleSet({ match: "some", rules: [] })).toBe(false)
+    expect(isPhotoRuleSet({ match: "all", rules: [{ type: "color" }] })).toBe(false)
+    expect(isPhotoRuleSet({ match: "all", rules: [{ type: "favorite", favorite: "yes" }] })).toBe(
+      false,
+    )
+  })
+})
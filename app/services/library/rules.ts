@@ -0,0 +1,101 @@
+import type { GeoPoint, PhotoRecord, PhotoRule, PhotoRuleSet } from "./types"
+
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Great-circle distance between two points, by the haversine formula.
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint) {
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+export function matchesRule(photo: PhotoRecord, rule: PhotoRule): boolean {
+  switch (rule.type) {
+    case "dateRange":
+      if (rule.after && photo.capturedAt < rule.after) return false
+      if (rule.before && photo.capturedAt >= rule.before) return false
+      return true
+    case "tags":
+      return rule.match === "all"
+        ? rule.tags.every((tag) => photo.tags.includes(tag))
+        : rule.tags.some((tag) => photo.tags.includes(tag))
+    case "favorite":
+      return photo.favorite === rule.favorite
+    case "blurScore": {
+      const score = photo.sharpness?.score
+      if (score === undefined) return false
+      return (
+        (rule.min === undefined || score >= rule.min) &&
+        (rule.max === undefined || score <= rule.max)
+      )
+    }
+    case "cameraModel": {
+      const model = photo.cameraModel?.toLowerCase()
+      if (!model) return false
+      return rule.models.some((wanted) => model.includes(wanted.toLowerCase()))
+    }
+    case "location":
+      return !!photo.location && distanceKm(rule.center, photo.location) <= rule.radiusKm
+  }
+}
+
+/**
+ * Whether a photo satisfies a rule set. With no rules at all, "all" matches every
+ * photo and "any" matches none.
+ */
+export function matchesRules(photo: PhotoRecord, ruleSet: PhotoRuleSet): boolean {
+  return ruleSet.match === "all"
+    ? ruleSet.rules.every((rule) => matchesRule(photo, rule))
+    : ruleSet.rules.some((rule) => matchesRule(photo, rule))
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null
+
+const isOptional = (value: unknown, type: "string" | "number") =>
+  value === undefined || typeof value === type
+
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+const isGeoPoint = (value: unknown): value is GeoPoint =>
+  isObject(value) && typeof value.latitude === "number" && typeof value.longitude === "number"
+
+function isPhotoRule(value: unknown): value is PhotoRule {
+  if (!isObject(value)) return false
+  switch (value.type) {
+    case "dateRange":
+      return isOptional(value.after, "string") && isOptional(value.before, "string")
+    case "tags":
+      return isStringArray(value.tags) && (value.match === "all" || value.match === "any")
+    case "favorite":
+      return typeof value.favorite === "boolean"
+    case "blurScore":
+      return isOptional(value.min, "number") && isOptional(value.max, "number")
+    case "cameraModel":
+      return isStringArray(value.models)
+    case "location":
+      return isGeoPoint(value.center) && typeof value.radiusKm === "number"
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks rules that come from outside the app, like a deep link or a synced album.
+ */
+export function isPhotoRuleSet(value: unknown): value is PhotoRuleSet {
+  return (
+    isObject(value) &&
+    (value.match === "all" || value.match === "any") &&
+    Array.isArray(value.rules) &&
+    value.rules.every(isPhotoRule)
+  )
+}
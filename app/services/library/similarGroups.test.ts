@@ -0,0 +1,97 @@
+import { findSimilarGroups, pickKeeper } from "./similarGroups"
+import type { PhotoRecord } from "./types"
+
+function photo(
+  id: string,
+  seconds: number,
+  dHash: string,
+  pHash: string,
+  score?: number,
+): PhotoRecord {
+  return {
+    id,
+    uri: `file:///photos/${id}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt: new Date(Date.UTC(2024, 5, 1, 12, 0, seconds)).toISOString(),
+    tags: [],
+    favorite: false,
+    albumIds: [],
+    hashes: { dHash, pHash },
+    sharpness: score === undefined ? undefined : { score, blurry: score < 100 },
+  }
+}
+
+// hashes that differ from ZERO in the given number of bits
+const ZERO = "0000000000000000"
+const FIVE_BITS = "000000000000001f"
+const TWELVE_BITS = "0000000000000fff"
+const FAR = "ffffffff00000000"
+
+describe("findSimilarGroups", () => {
+  it("groups near-identical photos and leaves the rest out", () => {
+    const photos = [
+      photo("a", 0, ZERO, ZERO, 300),
+      photo("b", 60, FIVE_BITS, ZERO, 800),
+      photo("c", 120, FAR, FAR, 500),
+    ]
+
+    const groups = findSimilarGroups(photos)
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].photos.map((p) => p.id)).toEqual(["a", "b"])
+    expect(groups[0].keeper.id).toBe("b")
+  })
+
+  it("requires both hashes to agree", () => {
+    const photos = [photo("a", 0, ZERO, ZERO), photo("b", 60, ZERO, FAR)]
+
+    expect(findSimilarGroups(photos)).toEqual([])
+  })
+
+  it("gives bursts more leeway than photos taken apart", () => {
+    const burst = [photo("a", 0, ZERO, ZERO), photo("b", 1, TWELVE_BITS, ZERO)]
+    const apart = [photo("a", 0, ZERO, ZERO), photo("b", 30, TWELVE_BITS, ZERO)]
+
+    expect(findSimilarGroups(burst)).toHaveLength(1)
+    expect(findSimilarGroups(apart)).toHaveLength(0)
+    expect(findSimilarGroups(apart, { maxDistance: 12 })).toHaveLength(1)
+  })
+
+  it("chains similar photos into one group", () => {
+    // a and c are too far apart on their own, but both are close to b
+    const photos = [
+      photo("a", 0, ZERO, ZERO),
+      photo("b", 60, FIVE_BITS, ZERO),
+      photo("c", 120, "00000000000003ff", ZERO),
+    ]
+
+    expect(findSimilarGroups(photos)[0].photos.map((p) => p.id)).toEqual(["a", "b", "c"])
+  })
+
+  it("returns the most recent group first and skips unhashed photos", () => {
+    const unhashed = { ...photo("x", 5, ZERO, ZERO), hashes: undefined }
+    const photos = [
+      photo("old1", 0, ZERO, ZERO),
+      photo("old2", 1, ZERO, ZERO),
+      unhashed,
+      photo("new1", 600, FAR, FAR),
+      photo("new2", 601, FAR, FAR),
+    ]
+
+    const groups = findSimilarGroups(photos)
+
+    expect(groups.map((group) => group.photos.map((p) => p.id))).toEqual([
+      ["new1", "new2"],
+      ["old1", "old2"],
+    ])
+  })
+})
+
+describe("pickKeeper", () => {
+  it("prefers the sharpest photo, then scored photos, then the first one", () => {
+    expect(pickKeeper([photo("a", 0, ZERO, ZERO, 10), photo("b", 1, ZERO, ZERO, 90)]).id).toBe("b")
+    expect(pickKeeper([photo("a", 0, ZERO, ZERO), photo("b", 1, ZERO, ZERO, 5)]).id).toBe("b")
+    expect(pickKeeper([photo("a", 0, ZERO, ZERO), photo("b", 1, ZERO, ZERO)]).id).toBe("a")
+  })
+})
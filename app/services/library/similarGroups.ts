@@ -0,0 +1,117 @@
+import { hexToWords, popCount } from "@/utils/imageAnalysis"
+
+import type { PhotoRecord } from "./types"
+
+export interface SimilarGroupOptions {
+  /**
+   * How many of the 64 hash bits may differ for two photos to count as similar.
+   * Both the dHash and the pHash have to be within this. Default: 10
+   */
+  maxDistance?: number
+  /**
+   * Photos taken within this many milliseconds of each other count as a burst. Default: 2000
+   */
+  burstWindowMs?: number
+  /**
+   * `maxDistance` for photos in the same burst. Bursts are usually the same scene with
+   * a moving subject, so they get more leeway. Default: 16
+   */
+  burstMaxDistance?: number
+}
+
+export interface SimilarGroup {
+  /**
+   * The photo we suggest keeping: the sharpest one in the group.
+   */
+  keeper: PhotoRecord
+  /**
+   * Every photo in the group, keeper included, oldest first.
+   */
+  photos: PhotoRecord[]
+}
+
+interface HashedPhoto {
+  photo: PhotoRecord
+  time: number
+  dHash: [number, number]
+  pHash: [number, number]
+}
+
+/**
+ * Clusters photos whose perceptual hashes are close into groups of near-duplicates.
+ * Similarity is transitive, so a slow pan can chain into one group. Photos without
+ * hashes are left out, as are photos with nothing similar to them.
+ *
+ * Every pair is compared, which is fine for a few thousand photos.
+ *
+ * @param photos The photos to look through.
+ * @param options Distance thresholds and the burst window.
+ * @returns The groups, the most recently taken first.
+ */
+export function findSimilarGroups(
+  photos: PhotoRecord[],
+  options: SimilarGroupOptions = {},
+): SimilarGroup[] {
+  const { maxDistance = 10, burstWindowMs = 2000, burstMaxDistance = 16 } = options
+
+  const hashed: HashedPhoto[] = photos
+    .filter((photo) => photo.hashes)
+    .map((photo) => ({
+      photo,
+      time: Date.parse(photo.capturedAt),
+      dHash: hexToWords(photo.hashes!.dHash),
+      pHash: hexToWords(photo.hashes!.pHash),
+    }))
+    .sort((a, b) => a.time - b.time)
+
+  const parents = hashed.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parents[i] !== i) {
+      parents[i] = parents[parents[i]]
+      i = parents[i]
+    }
+    return i
+  }
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      const a = hashed[i]
+      const b = hashed[j]
+      const limit = b.time - a.time <= burstWindowMs ? burstMaxDistance : maxDistance
+      if (distance(a.dHash, b.dHash) <= limit && distance(a.pHash, b.pHash) <= limit) {
+        parents[find(j)] = find(i)
+      }
+    }
+  }
+
+  const groups = new Map<number, PhotoRecord[]>()
+  hashed.forEach(({ photo }, i) => {
+    const root = find(i)
+    const group = groups.get(root)
+    if (group) group.push(photo)
+    else groups.set(root, [photo])
+  })
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => ({ keeper: pickKeeper(group), photos: group }))
+    .sort((a, b) => latest(b.photos).localeCompare(latest(a.photos)))
+}
+
+/**
+ * The sharpest photo of the group. Unscored photos lose to scored ones, and ties go
+ * to the photo taken first.
+ */
+export function pickKeeper(photos: PhotoRecord[]): PhotoRecord {
+  return photos.reduce((best, photo) =>
+    (photo.sharpness?.score ?? -1) > (best.sharpness?.score ?? -1) ? photo : best,
+  )
+}
+
+function distance(a: [number, number], b: [number, number]) {
+  return popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1])
+}
+
+function latest(photos: PhotoRecord[]) {
+  return photos[photos.length - 1].capturedAt
+}
@@ -0,0 +1,107 @@
+import i18n from "i18next"
+
+import { loadDateFnsLocale } from "@/utils/formatDate"
+
+import { groupByDate, timelineKey, timelineTitle } from "./timeline"
+import type { PhotoRecord } from "./types"
+
+jest.mock("i18next", () => ({ language: "en-US" }))
+
+const hours = (offset: number) => () => offset * 60
+
+function photo(id: string, capturedAt: string): PhotoRecord {
+  return {
+    id,
+    uri: `file:///photos/${id}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt,
+    tags: [],
+    favorite: false,
+    albumIds: [],
+  }
+}
+
+describe("timelineKey", () => {
+  it("uses the local calendar date", () => {
+    const lateInLondon = "2024-03-10T23:30:00.000Z"
+    expect(timelineKey(lateInLondon, "day", hours(0))).toBe("2024-03-10")
+    expect(timelineKey(lateInLondon, "day", hours(9))).toBe("2024-03-11")
+    expect(timelineKey("2024-03-11T03:00:00.000Z", "day", hours(-7))).toBe("2024-03-10")
+  })
+
+  it("rolls months and years over in the local time zone", () => {
+    const newYearInTokyo = "2023-12-31T16:00:00.000Z"
+    expect(timelineKey(newYearInTokyo, "month", hours(9))).toBe("2024-01")
+    expect(timelineKey(newYearInTokyo, "year", hours(9))).toBe("2024")
+    expect(timelineKey(newYearInTokyo, "year", hours(-5))).toBe("2023")
+  })
+
+  it("asks for the offset at the moment the photo was taken", () => {
+    // one offset before a daylight saving switch, another after
+    const utcOffset = (date: Date) => (date < new Date("2024-03-31T01:00:00.000Z") ? 60 : 120)
+    expect(timelineKey("2024-03-30T22:30:00.000Z", "day", utcOffset)).toBe("2024-03-30")
+    expect(timelineKey("2024-03-31T22:30:00.000Z", "day", utcOffset)).toBe("2024-04-01")
+  })
+
+  it("puts photos without a usable date in a section of their own", () => {
+    expect(timelineKey("not a date")).toBe("")
+    expect(timelineTitle("")).toBeUndefined()
+  })
+})
+
+describe("groupByDate", () => {
+  const photos = [
+    photo("a", "2024-03-10T18:00:00.000Z"),
+    photo("b", "2024-03-10T09:00:00.000Z"),
+    photo("c", "2024-03-02T09:00:00.000Z"),
+    photo("d", "2023-12-25T09:00:00.000Z"),
+  ]
+  const ids = (sections: ReturnType<typeof groupByDate>) =>
+    sections.map((section) => [section.key, section.photos.map((p) => p.id)])
+
+  it("groups by day, month or year, keeping the photos' order", () => {
+    expect(ids(groupByDate(photos, { utcOffset: hours(0) }))).toEqual([
+      ["2024-03-10", ["a", "b"]],
+      ["2024-03-02", ["c"]],
+      ["2023-12-25", ["d"]],
+    ])
+    expect(ids(groupByDate(photos, { granularity: "month", utcOffset: hours(0) }))).toEqual([
+      ["2024-03", ["a", "b", "c"]],
+      ["2023-12", ["d"]],
+    ])
+    expect(ids(groupByDate(photos, { granularity: "year", utcOffset: hours(0) }))).toEqual([
+      ["2024", ["a", "b", "c"]],
+      ["2023", ["d"]],
+    ])
+  })
+
+  it("splits a day differently in another time zone", () => {
+    expect(ids(groupByDate(photos.slice(0, 2), { utcOffset: hours(9) }))).toEqual([
+      ["2024-03-11", ["a"]],
+      ["2024-03-10", ["b"]],
+    ])
+  })
+})
+
+describe("timelineTitle", () => {
+  const titles = (language: string) => {
+    ;(i18n as { language: string }).language = language
+    loadDateFnsLocale()
+    return ["2024-03-10", "2024-03", "2024"].map(timelineTitle)
+  }
+
+  afterAll(() => titles("en-US"))
+
+  it.each([
+    ["en-US", ["Sunday, March 10th, 2024", "March 2024", "2024"]],
+    ["ar", ["الأحد، 10 مارس 2024", "مارس 2024", "2024"]],
+    ["es", ["domingo, 10 de marzo de 2024", "marzo de 2024", "2024"]],
+    ["fr", ["dimanche 10 mars 2024", "mars 2024", "2024"]],
+    ["hi", ["रविवार, १० मार्च, 2024", "मार्च 2024", "2024"]],
+    ["ja", ["2024年3月10日日曜日", "2024年3月", "2024年"]],
+    ["ko", ["2024년 3월 10일 일요일", "2024년 3월", "2024년"]],
+  ])("formats headers in %s", (language, expected) => {
+    expect(titles(language)).toEqual(expected)
+  })
+})
@@ -0,0 +1,83 @@
+import { formatDate, formatMonthYear, formatYear } from "@/utils/formatDate"
+
+import type { PhotoRecord } from "./types"
+
+export type TimelineGranularity = "day" | "month" | "year"
+
+export const TIMELINE_GRANULARITIES: TimelineGranularity[] = ["day", "month", "year"]
+
+export interface TimelineSection {
+  /**
+   * The local date the section covers: "2024-03-10", "2024-03" or "2024". Empty
+   * for photos whose capture date doesn't parse.
+   */
+  key: string
+  photos: PhotoRecord[]
+}
+
+export interface TimelineOptions {
+  /**
+   * How much time each section covers. Default: "day"
+   */
+  granularity?: TimelineGranularity
+  /**
+   * Minutes ahead of UTC at a given moment, which decides where days begin and end.
+   * Default: the device's time zone, daylight saving included.
+   */
+  utcOffset?: (date: Date) => number
+}
+
+const deviceUtcOffset = (date: Date) => -date.getTimezoneOffset()
+
+/**
+ * The section a capture time falls in, on the local calendar.
+ */
+export function timelineKey(
+  capturedAt: string,
+  granularity: TimelineGranularity = "day",
+  utcOffset: (date: Date) => number = deviceUtcOffset,
+): string {
+  const date = new Date(capturedAt)
+  if (Number.isNaN(date.getTime())) return ""
+  // shifted so its UTC fields read as the local wall clock
+  const day = new Date(date.getTime() + utcOffset(date) * 60_000).toISOString().slice(0, 10)
+  if (granularity === "year") return day.slice(0, 4)
+  return granularity === "month" ? day.slice(0, 7) : day
+}
+
+/**
+ * Splits photos into sections by when they were taken. The sections come out in
+ * the order their first photo comes in, so pass photos already sorted by date.
+ */
+export function groupByDate(
+  photos: PhotoRecord[],
+  options: TimelineOptions = {},
+): TimelineSection[] {
+  const { granularity = "day", utcOffset = deviceUtcOffset } = options
+  const sections = new Map<string, TimelineSection>()
+  for (const photo of photos) {
+    const key = timelineKey(photo.capturedAt, granularity, utcOffset)
+    const section = sections.get(key)
+    if (section) section.photos.push(photo)
+    else sections.set(key, { key, photos: [photo] })
+  }
+  return Array.from(sections.values())
+}
+
+/**
+ * A section's header in the current language, e.g. "Sunday, March 10th, 2024",
+ * "March 2024" or "2024". Undefined for the section of undated photos.
+ */
+export function timelineTitle(key: string): string | undefined {
+  // date-only ISO strings parse as local midnight, so the calendar date survives any time zone
+  switch (key.length) {
+    case 10:
+      return formatDate(key, "PPPP")
+    case 7:
+      return formatMonthYear(`${key}-01`)
+    case 4:
+      return formatYear(`${key}-01-01`)
+    default:
+      return undefined
+  }
+}
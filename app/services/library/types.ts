@@ -0,0 +1,209 @@
+/**
+ * A single photo in the local library index. The pixels live at `uri`; this
+ * record only carries what we need to list, sort and filter without opening the file.
+ */
+export interface PhotoRecord {
+  id: string
+  uri: string
+  width: number
+  height: number
+  /**
+   * ISO 8601 timestamp of when the photo was taken.
+   */
+  capturedAt: string
+  tags: string[]
+  favorite: boolean
+  albumIds: string[]
+  /**
+   * Blur analysis of the photo, scored when it was taken. Missing for photos that
+   * were never scored.
+   */
+  sharpness?: PhotoSharpness
+  /**
+   * Perceptual hashes of the photo's thumbnail, used to find near-duplicates.
+   */
+  hashes?: PhotoHashes
+  /**
+   * The camera model from the photo's EXIF, e.g. "iPhone 15 Pro".
+   */
+  cameraModel?: string
+  /**
+   * Where the photo was taken, when that was recorded.
+   */
+  location?: GeoPoint
+  /**
+   * A note the user wrote about the photo.
+   */
+  caption?: string
+}
+
+export interface GeoPoint {
+  /**
+   * Decimal degrees, negative for south.
+   */
+  latitude: number
+  /**
+   * Decimal degrees, negative for west.
+   */
+  longitude: number
+}
+
+export interface PhotoSharpness {
+  /**
+   * Variance of the Laplacian at the analysis size. Higher is sharper.
+   */
+  score: number
+  blurry: boolean
+  /**
+   * Direction of detected motion blur in degrees (0 horizontal, 90 vertical), if any.
+   */
+  motionBlurAngle?: number
+}
+
+/**
+ * Perceptual hashes of a photo, which stay close for near-identical photos.
+ */
+export interface PhotoHashes {
+  /**
+   * 64-bit difference hash, as 16 hex digits.
+   */
+  dHash: string
+  /**
+   * 64-bit DCT hash, as 16 hex digits.
+   */
+  pHash: string
+}
+
+/**
+ * What callers provide when adding a photo. Everything but the file itself is optional.
+ */
+export type NewPhoto = Pick<PhotoRecord, "uri" | "width" | "height" | "capturedAt"> &
+  Partial<Omit<PhotoRecord, "id" | "uri" | "width" | "height" | "capturedAt">>
+
+/**
+ * The fields that can be changed once a photo is in the library.
+ */
+export type PhotoPatch = Partial<Omit<PhotoRecord, "id">>
+
+export type PhotoSortField = "capturedAt" | "width" | "height"
+
+export interface PhotoFilter {
+  /**
+   * Only these photos, like the results of a search. Unless the query asks for a sort,
+   * they come back in this order.
+   */
+  ids?: string[]
+  /**
+   * Only favorites (true) or only non-favorites (false).
+   */
+  favorite?: boolean
+  /**
+   * The photo must carry every one of these tags.
+   */
+  tags?: string[]
+  /**
+   * Only photos scored as blurry (true) or only photos that aren't (false).
+   * Photos that were never scored count as not blurry.
+   */
+  blurry?: boolean
+  /**
+   * The photo must belong to this album.
+   */
+  albumId?: string
+  /**
+   * Inclusive lower bound on `capturedAt`, as an ISO 8601 timestamp.
+   */
+  capturedAfter?: string
+  /**
+   * Exclusive upper bound on `capturedAt`, as an ISO 8601 timestamp.
+   */
+  capturedBefore?: string
+  /**
+   * The photo must satisfy these rules, the way a smart album's photos do.
+   */
+  rules?: PhotoRuleSet
+}
+
+/**
+ * One condition of a smart album. Photos missing the field a rule looks at (never
+ * scored, no location, ...) don't match it.
+ */
+export type PhotoRule =
+  | {
+      type: "dateRange"
+      /**
+       * Inclusive lower bound on `capturedAt`, as an ISO 8601 timestamp.
+       */
+      after?: string
+      /**
+       * Exclusive upper bound on `capturedAt`, as an ISO 8601 timestamp.
+       */
+      before?: string
+    }
+  | { type: "tags"; tags: string[]; match: "all" | "any" }
+  | { type: "favorite"; favorite: boolean }
+  | {
+      /**
+       * Bounds on `sharpness.score`, both inclusive.
+       */
+      type: "blurScore"
+      min?: number
+      max?: number
+    }
+  | {
+      /**
+       * The camera model contains one of these, ignoring case.
+       */
+      type: "cameraModel"
+      models: string[]
+    }
+  | { type: "location"; center: GeoPoint; radiusKm: number }
+
+export interface PhotoRuleSet {
+  /**
+   * Whether a photo has to satisfy every rule or just one of them.
+   */
+  match: "all" | "any"
+  rules: PhotoRule[]
+}
+
+export interface PhotoQuery {
+  filter?: PhotoFilter
+  /**
+   * Default: capturedAt, or the order of `filter.ids` when there are any
+   */
+  sortBy?: PhotoSortField
+  /**
+   * Default: desc (newest first)
+   */
+  direction?: "asc" | "desc"
+  /**
+   * Default: 0
+   */
+  offset?: number
+  /**
+   * Default: all remaining photos
+   */
+  limit?: number
+}
+
+/**
+ * How many photos a query matches in one month.
+ */
+export interface MonthCount {
+  /**
+   * The local month, like "2024-03". Empty for photos whose capture date doesn't parse.
+   */
+  month: string
+  count: number
+}
+
+export interface PhotoPage {
+  items: PhotoRecord[]
+  /**
+   * How many photos match the filter, across all pages.
+   */
+  total: number
+  offset: number
+  hasMore: boolean
+}
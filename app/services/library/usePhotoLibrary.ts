@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react"
+
+import { describePhoto, PhotoDetail, PhotoFileInfo, readPhotoFile } from "./photoDetails"
+import { photoLibrary, PhotoLibrary } from "./PhotoLibrary"
+import { findSimilarGroups, SimilarGroup, SimilarGroupOptions } from "./similarGroups"
+import type { MonthCount, PhotoPage, PhotoQuery, PhotoRecord } from "./types"
+
+/**
+ * Re-renders whenever the library changes and returns its current version.
+ * @param {PhotoLibrary} library - The library to watch.
+ * @returns {number} - The library version.
+ */
+export function useLibraryVersion(library: PhotoLibrary = photoLibrary) {
+  const subscribe = useCallback((onChange: () => void) => library.subscribe(onChange), [library])
+  const getSnapshot = useCallback(() => library.getVersion(), [library])
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
+
+/**
+ * A single photo, kept up to date with the library.
+ * @param {string} id - The photo to look up.
+ * @param {PhotoLibrary} library - The library to look in.
+ * @returns {PhotoRecord | undefined} - The photo, or undefined once it is gone.
+ */
+export function usePhoto(
+  id: string,
+  library: PhotoLibrary = photoLibrary,
+): PhotoRecord | undefined {
+  const version = useLibraryVersion(library)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => library.get(id), [library, version, id])
+}
+
+/**
+ * Runs a query against the library and re-runs it whenever the library changes.
+ * @param {PhotoQuery} query - The query to run.
+ * @param {PhotoLibrary} library - The library to query.
+ * @returns {PhotoPage} - The matching page of photos.
+ */
+export function usePhotoQuery(query: PhotoQuery, library: PhotoLibrary = photoLibrary): PhotoPage {
+  const version = useLibraryVersion(library)
+  const queryKey = JSON.stringify(query)
+
+  return useMemo(
+    () => library.query(query),
+    // the query object is compared by value, not identity
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [library, version, queryKey],
+  )
+}
+
+/**
+ * Like `usePhotoQuery`, but only returns the first `pageSize * pages` photos
+ * and grows by one page every time `loadMore` is called. Meant for infinite lists.
+ * @param {Omit<PhotoQuery, "offset" | "limit">} query - The query to run.
+ * @param {number} pageSize - How many photos to add per page.
+ * @param {PhotoLibrary} library - The library to query.
+ * @returns {object} - The current page plus a `loadMore` callback.
+ */
+export function usePagedPhotoQuery(
+  query: Omit<PhotoQuery, "offset" | "limit">,
+  pageSize = 60,
+  library: PhotoLibrary = photoLibrary,
+) {
+  const [pages, setPages] = useState(1)
+  const page = usePhotoQuery({ ...query, offset: 0, limit: pages * pageSize }, library)
+
+  const loadMore = useCallback(() => {
+    if (page.hasMore) setPages((current) => current + 1)
+  }, [page.hasMore])
+
+  return { ...page, loadMore }
+}
+
+/**
+ * How many photos a query matches in each month, re-counted whenever the library changes.
+ * Pairs with `usePagedPhotoQuery` to describe the pages that aren't loaded yet.
+ * @param {Omit<PhotoQuery, "offset" | "limit">} query - The query to count.
+ * @param {PhotoLibrary} library - The library to query.
+ * @returns {MonthCount[]} - The months, in the order the query lists them.
+ */
+export function usePhotoMonths(
+  query: Omit<PhotoQuery, "offset" | "limit">,
+  library: PhotoLibrary = photoLibrary,
+): MonthCount[] {
+  const version = useLibraryVersion(library)
+  const queryKey = JSON.stringify(query)
+
+  return useMemo(
+    () => library.countByMonth(query),
+    // the query object is compared by value, not identity
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [library, version, queryKey],
+  )
+}
+
+/**
+ * Groups of near-duplicate photos across the whole library, recomputed whenever it changes.
+ * @param {SimilarGroupOptions} options - Distance thresholds and the burst window.
+ * @param {PhotoLibrary} library - The library to look through.
+ * @returns {SimilarGroup[]} - The groups, the most recently taken first.
+ */
+export function useSimilarGroups(
+  options: SimilarGroupOptions = {},
+  library: PhotoLibrary = photoLibrary,
+): SimilarGroup[] {
+  const version = useLibraryVersion(library)
+  const { maxDistance, burstWindowMs, burstMaxDistance } = options
+
+  return useMemo(
+    () => findSimilarGroups(library.all(), { maxDistance, burstWindowMs, burstMaxDistance }),
+    // the library is mutable, so its version stands in for its contents
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [library, version, maxDistance, burstWindowMs, burstMaxDistance],
+  )
+}
+
+/**
+ * The info sheet rows for a photo. Starts out with what the library index knows and
+ * fills in the rest once the file has been read.
+ * @param {PhotoRecord | undefined} photo - The photo to describe.
+ * @returns {PhotoDetail[]} - The rows to show.
+ */
+export function usePhotoDetails(photo: PhotoRecord | undefined): PhotoDetail[] {
+  const uri = photo?.uri
+  const [file, setFile] = useState<{ uri: string; info: PhotoFileInfo | null }>()
+
+  useEffect(() => {
+    if (!uri) return undefined
+    let current = true
+    readPhotoFile(uri).then((info) => {
+      if (current) setFile({ uri, info })
+    })
+    return () => {
+      current = false
+    }
+  }, [uri])
+
+  return useMemo(
+    () => (photo ? describePhoto(photo, file?.uri === photo.uri ? file.info : null) : []),
+    [photo, file],
+  )
+}
@@ -0,0 +1,145 @@
+import { ComplementaryFilter, isLevel, tiltFromGravity, wrapDegrees } from "./ComplementaryFilter"
+import { FakeMotionSource, gravityAt } from "./FakeMotionSource"
+import type { MotionSample } from "./types"
+
+function sample(
+  timestamp: number,
+  roll: number,
+  pitch: number,
+  rotationRate = { x: 0, y: 0, z: 0 },
+) {
+  return {
+    timestamp,
+    acceleration: gravityAt({ roll, pitch }),
+    rotationRate,
+  } satisfies MotionSample
+}
+
+describe("tiltFromGravity", () => {
+  it("reads level when the device is upright", () => {
+    const { roll, pitch } = tiltFromGravity({ x: 0, y: 9.81, z: 0 })
+    expect(roll).toBeCloseTo(0)
+    expect(pitch).toBeCloseTo(0)
+  })
+
+  it("round-trips the angles of a tilted device", () => {
+    const reading = tiltFromGravity(gravityAt({ roll: 12, pitch: -7 }))
+    expect(reading.roll).toBeCloseTo(12)
+    expect(reading.pitch).toBeCloseTo(-7)
+  })
+
+  it("reports a clockwise turn as positive roll", () => {
+    // turned clockwise, gravity's "up" leans towards the left edge of the screen
+    expect(tiltFromGravity({ x: -1, y: 1, z: 0 }).roll).toBeCloseTo(45)
+  })
+})
+
+describe("ComplementaryFilter", () => {
+  it("starts from the accelerometer reading", () => {
+    const filter = new ComplementaryFilter()
+    expect(filter.reading).toBeNull()
+
+    const reading = filter.update(sample(0, 5, 3))
+    expect(reading.roll).toBeCloseTo(5)
+    expect(reading.pitch).toBeCloseTo(3)
+  })
+
+  it("smooths out accelerometer noise", () => {
+    const filter = new ComplementaryFilter({ timeConstant: 0.5 })
+    filter.update(sample(0, 0, 0))
+
+    // a jittery accelerometer flipping between ±4° while the gyro says nothing moved
+    let largest = 0
+    for (let i = 1; i <= 100; i++) {
+      const noise = i % 2 === 0 ? 4 : -4
+      const { roll } = filter.update(sample(i * 20, noise, 0))
+      largest = Math.max(largest, Math.abs(roll))
+    }
+    expect(largest).toBeLessThan(1)
+  })
+
+  it("follows the gyroscope immediately and corrects its drift over time", () => {
+    const filter = new ComplementaryFilter({ timeConstant: 0.5 })
+    filter.update(sample(0, 0, 0))
+
+    // the gyro claims a steady 10°/s clockwise turn that the accelerometer never sees
+    const drift = { x: 0, y: 0, z: (-10 * Math.PI) / 180 }
+    const first = filter.update(sample(20, 0, 0, drift))
+    expect(first.roll).toBeGreaterThan(0.15)
+
+    let roll = first.roll
+    for (let i = 2; i <= 500; i++) roll = filter.update(sample(i * 20, 0, 0, drift)).roll
+    // pure integration would be at 100° by now; the filter settles at rate * timeConstant
+    expect(roll).toBeCloseTo(5, 0)
+  })
+
+  it("converges on a new orientation", () => {
+    const source = new FakeMotionSource({ intervalMs: 0 })
+    const filter = new ComplementaryFilter()
+    source.onSample((next) => filter.update(next))
+    source.start()
+
+    for (let i = 0; i <= 50; i++) {
+      source.emitTilt({ roll: Math.min(i, 20), pitch: -Math.min(i, 10) }, i * 20)
+    }
+    for (let i = 51; i <= 150; i++) source.emitTilt({ roll: 20, pitch: -10 }, i * 20)
+
+    expect(filter.reading!.roll).toBeCloseTo(20, 1)
+    expect(filter.reading!.pitch).toBeCloseTo(-10, 1)
+  })
+
+  it("blends the short way round when the device is upside down", () => {
+    const filter = new ComplementaryFilter()
+    filter.update(sample(0, 179, 0))
+    const { roll } = filter.update(sample(20, -179, 0))
+
+    expect(Math.abs(roll)).toBeGreaterThan(178)
+  })
+
+  it("restarts from the accelerometer after a long gap", () => {
+    const filter = new ComplementaryFilter({ maxGapMs: 500 })
+    filter.update(sample(0, 0, 0))
+    const reading = filter.update(sample(2000, 30, 0))
+
+    expect(reading.roll).toBeCloseTo(30)
+  })
+})
+
+describe("FakeMotionSource", () => {
+  it("only delivers samples while started", () => {
+    const source = new FakeMotionSource({ intervalMs: 0 })
+    const listener = jest.fn()
+    source.onSample(listener)
+
+    source.emitTilt({ roll: 0, pitch: 0 })
+    expect(listener).not.toHaveBeenCalled()
+
+    source.start()
+    source.emitTilt({ roll: 0, pitch: 0 })
+    source.stop()
+    source.emitTilt({ roll: 0, pitch: 0 })
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it("derives the rotation rate from consecutive tilts", () => {
+    const source = new FakeMotionSource({ intervalMs: 0 })
+    source.start()
+    source.emitTilt({ roll: 0, pitch: 0 }, 0)
+    const next = source.emitTilt({ roll: 10, pitch: 0 }, 1000)
+
+    expect(next.rotationRate.z).toBeCloseTo((-10 * Math.PI) / 180)
+  })
+})
+
+describe("helpers", () => {
+  it("wraps angles into [-180, 180)", () => {
+    expect(wrapDegrees(190)).toBe(-170)
+    expect(wrapDegrees(-190)).toBe(170)
+    expect(wrapDegrees(45)).toBe(45)
+  })
+
+  it("checks level against a tolerance", () => {
+    expect(isLevel(0.8, 1)).toBe(true)
+    expect(isLevel(-1.2, 1)).toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import type { LevelReading, MotionSample } from "./types"
+
+export interface ComplementaryFilterOptions {
+  /**
+   * How long, in seconds, the gyroscope is trusted before the accelerometer pulls the
+   * estimate back. Longer is smoother but slower to settle. Default: 0.5
+   */
+  timeConstant?: number
+  /**
+   * Gaps between samples longer than this (in ms) reset the filter to the
+   * accelerometer reading instead of integrating across them. Default: 1000
+   */
+  maxGapMs?: number
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+/**
+ * Wraps an angle in degrees into [-180, 180).
+ */
+export function wrapDegrees(angle: number) {
+  return ((((angle + 180) % 360) + 360) % 360) - 180
+}
+
+/**
+ * Roll and pitch from the accelerometer alone. Accurate on average but noisy,
+ * and thrown off by any acceleration other than gravity.
+ */
+export function tiltFromGravity({ x, y, z }: MotionSample["acceleration"]): LevelReading {
+  return {
+    roll: toDegrees(Math.atan2(-x, y)),
+    pitch: toDegrees(Math.atan2(z, Math.hypot(x, y))),
+  }
+}
+
+/**
+ * Fuses accelerometer and gyroscope samples into a steady roll/pitch estimate.
+ * The gyroscope is integrated for smooth short-term changes and the accelerometer
+ * slowly corrects the drift that integration accumulates.
+ */
+export class ComplementaryFilter {
+  private timeConstant: number
+  private maxGapMs: number
+  private estimate: LevelReading | null = null
+  private lastTimestamp = 0
+
+  constructor(options: ComplementaryFilterOptions = {}) {
+    this.timeConstant = options.timeConstant ?? 0.5
+    this.maxGapMs = options.maxGapMs ?? 1000
+  }
+
+  /**
+   * The current estimate, or null before the first sample.
+   */
+  get reading() {
+    return this.estimate
+  }
+
+  /**
+   * Feeds one sample in and returns the updated estimate.
+   */
+  update(sample: MotionSample): LevelReading {
+    const measured = tiltFromGravity(sample.acceleration)
+    const dtMs = sample.timestamp - this.lastTimestamp
+    this.lastTimestamp = sample.timestamp
+
+    if (!this.estimate || dtMs <= 0 || dtMs > this.maxGapMs) {
+      this.estimate = measured
+      return measured
+    }
+
+    const dt = dtMs / 1000
+    const alpha = this.timeConstant / (this.timeConstant + dt)
+    // turning clockwise and leaning the top away are negative rotations about z and x
+    const predictedRoll = this.estimate.roll - toDegrees(sample.rotationRate.z) * dt
+    const predictedPitch = this.estimate.pitch - toDegrees(sample.rotationRate.x) * dt
+
+    this.estimate = {
+      // blend along the shortest way round so ±180° doesn't average out to 0
+      roll: wrapDegrees(predictedRoll + (1 - alpha) * wrapDegrees(measured.roll - predictedRoll)),
+      pitch: alpha * predictedPitch + (1 - alpha) * measured.pitch,
+    }
+    return this.estimate
+  }
+
+  reset() {
+    this.estimate = null
+    this.lastTimestamp = 0
+  }
+}
+
+/**
+ * Whether an angle is within `tolerance` degrees of level.
+ */
+export function isLevel(angle: number, tolerance: number) {
+  return Math.abs(angle) <= tolerance
+}
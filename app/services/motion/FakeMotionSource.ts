@@ -0,0 +1,123 @@
+import type { LevelReading, MotionSample, MotionSampleListener, MotionSource } from "./types"
+
+export interface FakeMotionSourceOptions {
+  /**
+   * How often a sample is emitted while started. Use 0 to only emit samples when
+   * `emit()` or `emitTilt()` is called, which is what tests want. Default: 50
+   */
+  intervalMs?: number
+  /**
+   * The orientation the fake device is held at, given the time in milliseconds.
+   * Default: a slow sway of a few degrees around level.
+   */
+  motion?: (time: number) => LevelReading
+  /**
+   * Clock used to stamp samples. Default: Date.now
+   */
+  now?: () => number
+}
+
+const GRAVITY = 9.81
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+const defaultMotion = (time: number): LevelReading => ({
+  roll: 4 * Math.sin(time / 1500),
+  pitch: 2 * Math.sin(time / 2300),
+})
+
+/**
+ * Builds the accelerometer reading of a device resting at the given roll and pitch.
+ */
+export function gravityAt({ roll, pitch }: LevelReading): MotionSample["acceleration"] {
+  const r = toRadians(roll)
+  const p = toRadians(pitch)
+  return {
+    x: -GRAVITY * Math.cos(p) * Math.sin(r),
+    y: GRAVITY * Math.cos(p) * Math.cos(r),
+    z: GRAVITY * Math.sin(p),
+  }
+}
+
+/**
+ * A scripted motion sensor. By default it sways gently around level so the
+ * leveling UI has something to show without a device.
+ *
+ * The same sequence of calls always produces the same samples.
+ */
+export class FakeMotionSource implements MotionSource {
+  private intervalMs: number
+  private motion: (time: number) => LevelReading
+  private now: () => number
+  private running = false
+  private timer: ReturnType<typeof setInterval> | null = null
+  private previous: { time: number; reading: LevelReading } | null = null
+  private listeners = new Set<MotionSampleListener>()
+
+  constructor(options: FakeMotionSourceOptions = {}) {
+    this.intervalMs = options.intervalMs ?? 50
+    this.motion = options.motion ?? defaultMotion
+    this.now = options.now ?? Date.now
+  }
+
+  get isRunning() {
+    return this.running
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    if (this.intervalMs > 0) {
+      this.timer = setInterval(() => {
+        const time = this.now()
+        this.emitTilt(this.motion(time), time)
+      }, this.intervalMs)
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.running = false
+    this.previous = null
+  }
+
+  onSample(listener: MotionSampleListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Hands a raw sample to every listener. Ignored while stopped, like a real sensor.
+   */
+  emit(sample: MotionSample) {
+    if (!this.running) return
+    this.listeners.forEach((listener) => listener(sample))
+  }
+
+  /**
+   * Emits the sample a device held at `reading` would produce. The rotation rate is
+   * derived from the previous `emitTilt` call, so a scripted sequence of tilts
+   * looks like real, continuous motion.
+   */
+  emitTilt(reading: LevelReading, timestamp = this.now()): MotionSample {
+    let rotationRate = { x: 0, y: 0, z: 0 }
+    if (this.previous && timestamp > this.previous.time) {
+      const dt = (timestamp - this.previous.time) / 1000
+      rotationRate = {
+        // tilting the top away and turning clockwise are negative rotations about x and z
+        x: -toRadians(reading.pitch - this.previous.reading.pitch) / dt,
+        y: 0,
+        z: -toRadians(reading.roll - this.previous.reading.roll) / dt,
+      }
+    }
+    this.previous = { time: timestamp, reading }
+
+    const sample: MotionSample = { timestamp, acceleration: gravityAt(reading), rotationRate }
+    this.emit(sample)
+    return sample
+  }
+}
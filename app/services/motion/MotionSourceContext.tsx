@@ -0,0 +1,17 @@
+import { createContext, useContext } from "react"
+
+import { FakeMotionSource } from "./FakeMotionSource"
+import type { MotionSource } from "./types"
+
+/**
+ * The source used when nothing is supplied through context. No native sensor
+ * backend is wired in yet, so this is the scripted one.
+ */
+export const defaultMotionSource: MotionSource = new FakeMotionSource()
+
+export const MotionSourceContext = createContext<MotionSource>(defaultMotionSource)
+
+/**
+ * Returns the `MotionSource` the nearest `MotionSourceContext` supplies.
+ */
+export const useMotionSource = () => useContext(MotionSourceContext)
@@ -0,0 +1,5 @@
+export * from "./types"
+export * from "./ComplementaryFilter"
+export * from "./FakeMotionSource"
+export * from "./MotionSourceContext"
+export * from "./useLevel"
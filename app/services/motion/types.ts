@@ -0,0 +1,62 @@
+/**
+ * A three-axis reading in device coordinates: x to the right of the screen, y towards
+ * the top of the screen and z out of the screen, towards the user.
+ */
+export interface Vector3 {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * One reading from the motion sensors.
+ */
+export interface MotionSample {
+  /**
+   * Milliseconds since the epoch (or any monotonic clock, as long as it's consistent).
+   */
+  timestamp: number
+  /**
+   * Accelerometer reading including gravity, pointing up when the device is at rest.
+   * Only the direction matters, so g or m/s² both work.
+   */
+  acceleration: Vector3
+  /**
+   * Gyroscope reading in radians per second, counter-clockwise about each axis.
+   */
+  rotationRate: Vector3
+}
+
+/**
+ * How far the device is from level, in degrees.
+ */
+export interface LevelReading {
+  /**
+   * Rotation about the screen's normal. Positive when the device is turned clockwise.
+   */
+  roll: number
+  /**
+   * Forward/back tilt. Positive when the top edge leans away from the user.
+   */
+  pitch: number
+}
+
+export type MotionSampleListener = (sample: MotionSample) => void
+
+/**
+ * The interface every motion sensor backend implements.
+ */
+export interface MotionSource {
+  /**
+   * Starts delivering samples. Calling it while already started does nothing.
+   */
+  start(): void
+  /**
+   * Stops delivering samples.
+   */
+  stop(): void
+  /**
+   * Subscribes to samples. Returns an unsubscribe function.
+   */
+  onSample(listener: MotionSampleListener): () => void
+}
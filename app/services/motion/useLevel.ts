@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react"
+
+import { ComplementaryFilter, ComplementaryFilterOptions } from "./ComplementaryFilter"
+import type { LevelReading, MotionSource } from "./types"
+
+/**
+ * Streams a smoothed roll/pitch estimate from a `MotionSource`. The source is
+ * started while `active` is true and stopped again when it turns false or the
+ * component unmounts.
+ * @param {MotionSource} source - The sensor backend to read.
+ * @param {boolean} active - Whether samples should be flowing.
+ * @param {ComplementaryFilterOptions} options - Smoothing options for the filter.
+ * @returns {LevelReading | null} - The latest estimate, or null before the first sample.
+ */
+export function useLevel(
+  source: MotionSource,
+  active = true,
+  options: ComplementaryFilterOptions = {},
+) {
+  const { timeConstant, maxGapMs } = options
+  const [reading, setReading] = useState<LevelReading | null>(null)
+
+  useEffect(() => {
+    if (!active) return undefined
+
+    const filter = new ComplementaryFilter({ timeConstant, maxGapMs })
+    const unsubscribe = source.onSample((sample) => setReading(filter.update(sample)))
+    source.start()
+    return () => {
+      unsubscribe()
+      source.stop()
+      setReading(null)
+    }
+  }, [source, active, timeConstant, maxGapMs])
+
+  return reading
+}
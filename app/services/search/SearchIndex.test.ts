@@ -0,0 +1,207 @@
+import { AlbumStore } from "@/services/albums"
+import { FakeCameraProvider } from "@/services/camera"
+import { addCapturedPhoto, NewPhoto, PhotoLibrary } from "@/services/library"
+import { storage } from "@/utils/storage"
+
+import { SearchIndex } from "./SearchIndex"
+import { loadFixture } from "../../../test/fixtures"
+
+const STORAGE_KEY = "test.searchIndex"
+
+function photo(day: number, extra: Partial<NewPhoto> = {}): NewPhoto {
+  return {
+    uri: `file:///photos/${day}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt: new Date(Date.UTC(2024, 2, day, 12)).toISOString(),
+    ...extra,
+  }
+}
+
+/**
+ * Takes a photo with the fake camera and adds it the way the camera screen does, with a
+ * file whose EXIF names the "PX-1" camera.
+ */
+async function capturePhoto(library: PhotoLibrary, day: number) {
+  const camera = new FakeCameraProvider({
+    frameIntervalMs: 0,
+    now: () => Date.UTC(2024, 2, day, 12),
+  })
+  await camera.open()
+  const files = { read: async () => loadFixture("exif-little-endian.jpg") }
+  return addCapturedPhoto(await camera.capture(), library, files)
+}
+
+function setup() {
+  let photoId = 0
+  const library = new PhotoLibrary({
+    storageKey: "test.photoLibrary",
+    generateId: () => `photo-${++photoId}`,
+  })
+  const albums = new AlbumStore({ storageKey: "test.albums", library })
+  const createIndex = () => new SearchIndex({ storageKey: STORAGE_KEY, library, albums })
+  return { library, albums, index: createIndex(), createIndex }
+}
+
+const ids = (index: SearchIndex, text: string) => index.search(text).map((hit) => hit.photo.id)
+
+describe("SearchIndex", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("finds photos by tag, caption, camera and date", async () => {
+    const { library, index } = setup()
+    library.add(photo(1, { tags: ["beach"] }))
+    library.add(photo(2, { caption: "Dinner with Ada" }))
+    await capturePhoto(library, 3)
+
+    expect(ids(index, "beach")).toEqual(["photo-1"])
+    expect(ids(index, "ada")).toEqual(["photo-2"])
+    expect(ids(index, "px-1")).toEqual(["photo-3"])
+    expect(ids(index, "2024-03-02")).toEqual(["photo-2"])
+    expect(ids(index, "march")).toEqual(["photo-3", "photo-2", "photo-1"])
+    expect(ids(index, "")).toEqual([])
+  })
+
+  it("finds photos by the names of their albums", () => {
+    const { library, albums, index } = setup()
+    const trip = albums.createAlbum("Lisbon trip")
+    albums.createSmartAlbum("Faves", {
+      match: "all",
+      rules: [{ type: "favorite", favorite: true }],
+    })
+    library.add(photo(1, { albumIds: [trip.id] }))
+    library.add(photo(2, { favorite: true }))
+
+    expect(ids(index, "lisbon")).toEqual(["photo-1"])
+    expect(ids(index, "faves")).toEqual(["photo-2"])
+
+    albums.rename(trip.id, "Porto trip")
+    expect(ids(index, "lisbon")).toEqual([])
+    expect(ids(index, "porto")).toEqual(["photo-1"])
+  })
+
+  it("matches prefixes and typos", () => {
+    const { library, index } = setup()
+    library.add(photo(1, { tags: ["sunset"] }))
+    library.add(photo(2, { tags: ["waterfall"] }))
+
+    expect(ids(index, "suns")).toEqual(["photo-1"])
+    expect(ids(index, "sunste")).toEqual(["photo-1"])
+    expect(ids(index, "watrefal")).toEqual(["photo-2"])
+    // too short to guess at
+    expect(ids(index, "sux")).toEqual([])
+  })
+
+  it("needs every word to match", () => {
+    const { library, index } = setup()
+    library.add(photo(1, { tags: ["beach", "dog"] }))
+    library.add(photo(2, { tags: ["beach"] }))
+
+    expect(ids(index, "beach dog")).toEqual(["photo-1"])
+    expect(ids(index, "beach cat")).toEqual([])
+  })
+
+  describe("ranking", () => {
+    it("puts exact matches before prefixes before typos", () => {
+      const { library, index } = setup()
+      library.add(photo(1, { tags: ["parker"] }))
+      library.add(photo(2, { tags: ["park"] }))
+      library.add(photo(3, { tags: ["parc"] }))
+
+      expect(ids(index, "park")).toEqual(["photo-2", "photo-1", "photo-3"])
+    })
+
+    it("weighs tags over camera models over captions", async () => {
+      const { library, index } = setup()
+      library.add(photo(1, { caption: "Shot on a px" }))
+      library.add(photo(2, { tags: ["px"] }))
+      await capturePhoto(library, 3)
+
+      expect(ids(index, "px")).toEqual(["photo-2", "photo-3", "photo-1"])
+    })
+
+    it("adds up the scores of each word", () => {
+      const { library, index } = setup()
+      library.add(photo(1, { tags: ["beach"], caption: "dog" }))
+      library.add(photo(2, { tags: ["beach", "dog"] }))
+
+      const [best, second] = index.search("beach dog")
+      expect(best.photo.id).toBe("photo-2")
+      expect(best.score).toBeGreaterThan(second.score)
+    })
+
+    it("breaks ties by the newest photo first and honours the limit", () => {
+      const { library, index } = setup()
+      library.add(photo(1, { tags: ["cat"] }))
+      library.add(photo(9, { tags: ["cat"] }))
+      library.add(photo(5, { tags: ["cat"] }))
+
+      expect(index.search("cat", { limit: 2 }).map((hit) => hit.photo.id)).toEqual([
+        "photo-2",
+        "photo-3",
+      ])
+    })
+  })
+
+  it("follows edits and removals", () => {
+    const { library, index } = setup()
+    const { id } = library.add(photo(1, { tags: ["beach"] }))
+
+    library.update(id, { tags: ["mountain"] })
+    expect(ids(index, "beach")).toEqual([])
+    expect(ids(index, "mountain")).toEqual([id])
+
+    library.remove(id)
+    expect(ids(index, "mountain")).toEqual([])
+  })
+
+  it("persists the index and catches up on photos it missed", () => {
+    const { library, index, createIndex } = setup()
+    library.add(photo(1, { tags: ["beach"] }))
+    library.add(photo(2, { tags: ["beach"] }))
+    index.flush()
+
+    const persisted = JSON.parse(storage.getString(STORAGE_KEY) ?? "{}")
+    expect(persisted.postings.beach).toEqual({ "photo-1": 3, "photo-2": 3 })
+
+    // photos changed behind the index's back, through another library on the same storage
+    const other = new PhotoLibrary({ storageKey: "test.photoLibrary", generateId: () => "photo-x" })
+    other.remove("photo-1")
+    other.add(photo(3, { tags: ["beach"] }))
+    library.reload()
+
+    expect(ids(createIndex(), "beach")).toEqual(["photo-x", "photo-2"])
+  })
+
+  it("writes a burst of changes to storage once", () => {
+    jest.useFakeTimers()
+    try {
+      const { library } = setup()
+      const save = jest.spyOn(storage, "set")
+      library.add(photo(1, { tags: ["beach"] }))
+      library.add(photo(2, { tags: ["beach"] }))
+      const writes = () => save.mock.calls.filter(([key]) => key === STORAGE_KEY)
+
+      expect(writes()).toHaveLength(0)
+      jest.advanceTimersByTime(1000)
+      expect(writes()).toHaveLength(1)
+      expect(JSON.parse(storage.getString(STORAGE_KEY) ?? "{}").postings.beach).toEqual({
+        "photo-1": 3,
+        "photo-2": 3,
+      })
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it("finds photos by month in the app's other languages", () => {
+    const { library, index } = setup()
+    library.add(photo(1))
+
+    expect(ids(index, "march")).toEqual(["photo-1"])
+    expect(ids(index, "marzo")).toEqual(["photo-1"])
+    expect(ids(index, "3月")).toEqual(["photo-1"])
+  })
+})
@@ -0,0 +1,329 @@
+import { AppState } from "react-native"
+
+import { albumStore, AlbumStore } from "@/services/albums"
+import { PhotoChange, photoLibrary, PhotoLibrary, PhotoRecord } from "@/services/library"
+import * as storage from "@/utils/storage"
+
+import { dateTerms, editDistance, maxTypos, tokenize } from "./tokenize"
+
+export const SEARCH_INDEX_STORAGE_KEY = "pixassist.searchIndex"
+
+export const DEFAULT_PERSIST_DELAY_MS = 1000
+
+// version 1 had English month names only; those indexes are rebuilt
+interface PersistedSearchIndex {
+  version: 2
+  /**
+   * Term to photo id to how much the term counts for that photo.
+   */
+  postings: Record<string, Record<string, number>>
+}
+
+/**
+ * How much a term counts for depending on where in the photo it was found.
+ */
+export const FIELD_WEIGHTS = {
+  tag: 3,
+  album: 2.5,
+  camera: 2,
+  caption: 1,
+  date: 1,
+} as const
+
+// how much of a term's weight a query word gets, by how closely it matched
+const EXACT = 1
+const PREFIX = 0.7
+const TYPO = 0.5
+
+export interface SearchHit {
+  photo: PhotoRecord
+  score: number
+}
+
+export interface SearchOptions {
+  /**
+   * At most this many hits, the best first. Default: all of them.
+   */
+  limit?: number
+}
+
+export interface SearchIndexOptions {
+  /**
+   * The storage key the index is persisted under.
+   */
+  storageKey?: string
+  /**
+   * The library to index.
+   */
+  library?: PhotoLibrary
+  /**
+   * Where album names come from. Photos are found by the names of the albums they're in.
+   */
+  albums?: AlbumStore
+  /**
+   * How long to wait for more changes before writing the index to storage, so a burst
+   * of changes, like an import, writes it once.
+   */
+  persistDelayMs?: number
+}
+
+/**
+ * The terms a photo is found by, each with the weight of the field it came from.
+ * A term in more than one field keeps the highest weight.
+ */
+export function photoTerms(photo: PhotoRecord): Map<string, number> {
+  const terms = new Map<string, number>()
+  const add = (words: string[], weight: number) => {
+    for (const word of words) terms.set(word, Math.max(terms.get(word) ?? 0, weight))
+  }
+  for (const tag of photo.tags) add(tokenize(tag), FIELD_WEIGHTS.tag)
+  if (photo.cameraModel) add(tokenize(photo.cameraModel), FIELD_WEIGHTS.camera)
+  if (photo.caption) add(tokenize(photo.caption), FIELD_WEIGHTS.caption)
+  add(dateTerms(photo.capturedAt), FIELD_WEIGHTS.date)
+  return terms
+}
+
+/**
+ * How well a query word matches a term: fully, as its start, or with a typo or
+ * two. Zero when it doesn't match at all.
+ */
+export function matchQuality(word: string, term: string) {
+  if (word === term) return EXACT
+  if (term.startsWith(word)) return PREFIX
+  const typos = maxTypos(word)
+  if (!typos) return 0
+  const distance = editDistance(word, term, typos)
+  return distance <= typos ? TYPO / distance : 0
+}
+
+const newestFirst = (a: PhotoRecord, b: PhotoRecord) =>
+  a.capturedAt < b.capturedAt ? 1 : a.capturedAt > b.capturedAt ? -1 : 0
+
+/**
+ * Full-text search over the library. Tags, captions, camera models and capture
+ * dates go in an inverted index that is persisted and follows the library's
+ * change events one photo at a time; album names are few and change on their own,
+ * so they are matched when searching instead.
+ *
+ * Every query word has to match somewhere for a photo to be a hit. Words match
+ * terms whole, as a prefix, or with typos, and hits are ranked by the weights of
+ * the fields they matched in.
+ */
+export class SearchIndex {
+  private storageKey: string
+  private library: PhotoLibrary
+  private albums: AlbumStore
+  private persistDelayMs: number
+  private persistTimer: ReturnType<typeof setTimeout> | undefined
+  private postings: Map<string, Map<string, number>> | null = null
+  private docs = new Map<string, Map<string, number>>()
+  private sortedTerms: string[] | null = null
+  // the library version the index reflects; a reload without change events leaves it behind
+  private syncedVersion = -1
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.storageKey = options.storageKey ?? SEARCH_INDEX_STORAGE_KEY
+    this.library = options.library ?? photoLibrary
+    this.albums = options.albums ?? albumStore
+    this.persistDelayMs = options.persistDelayMs ?? DEFAULT_PERSIST_DELAY_MS
+    this.library.subscribe((change) => this.onPhotoChange(change))
+    // the app may not come back from the background, so nothing is left waiting
+    AppState.addEventListener("change", (state) => {
+      if (state !== "active") this.flush()
+    })
+  }
+
+  /**
+   * Writes changes still waiting to be persisted right away.
+   */
+  flush() {
+    if (this.persistTimer === undefined) return
+    clearTimeout(this.persistTimer)
+    this.persistTimer = undefined
+    this.save()
+  }
+
+  /**
+   * The photos matching `text`, the best first and the most recent first among equals.
+   */
+  search(text: string, options: SearchOptions = {}): SearchHit[] {
+    const words = Array.from(new Set(tokenize(text)))
+    if (!words.length) return []
+
+    let scores: Map<string, number> | undefined
+    for (const word of words) {
+      const wordScores = this.scoreWord(word)
+      if (scores) {
+        for (const [id, score] of scores) {
+          const wordScore = wordScores.get(id)
+          if (wordScore === undefined) scores.delete(id)
+          else scores.set(id, score + wordScore)
+        }
+      } else {
+        scores = wordScores
+      }
+      if (!scores.size) return []
+    }
+
+    const hits: SearchHit[] = []
+    for (const [id, score] of scores ?? []) {
+      const photo = this.library.get(id)
+      if (photo) hits.push({ photo, score })
+    }
+    hits.sort((a, b) => b.score - a.score || newestFirst(a.photo, b.photo))
+    return options.limit === undefined ? hits : hits.slice(0, options.limit)
+  }
+
+  private terms(): string[] {
+    if (!this.sortedTerms) this.sortedTerms = Array.from(this.index().keys()).sort()
+    return this.sortedTerms
+  }
+
+  /**
+   * Each photo matching one query word, with the best score it gets for it.
+   */
+  private scoreWord(word: string) {
+    const scores = new Map<string, number>()
+    const bump = (id: string, score: number) => {
+      if (score > (scores.get(id) ?? 0)) scores.set(id, score)
+    }
+
+    const postings = this.index()
+    for (const [term, quality] of this.matchingTerms(word)) {
+      for (const [id, weight] of postings.get(term) ?? []) bump(id, weight * quality)
+    }
+
+    for (const album of this.albums.all()) {
+      const quality = Math.max(0, ...tokenize(album.name).map((term) => matchQuality(word, term)))
+      if (!quality) continue
+      for (const id of this.albums.photoIds(album.id)) bump(id, FIELD_WEIGHTS.album * quality)
+    }
+    return scores
+  }
+
+  private matchingTerms(word: string) {
+    const matches = new Map<string, number>()
+    const terms = this.terms()
+
+    // terms starting with the word sit together in sorted order, the word itself first
+    let low = 0
+    let high = terms.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (terms[mid] < word) low = mid + 1
+      else high = mid
+    }
+    for (let i = low; i < terms.length && terms[i].startsWith(word); i++) {
+      matches.set(terms[i], terms[i] === word ? EXACT : PREFIX)
+    }
+
+    if (maxTypos(word)) {
+      for (const term of terms) {
+        if (matches.has(term)) continue
+        const quality = matchQuality(word, term)
+        if (quality) matches.set(term, quality)
+      }
+    }
+    return matches
+  }
+
+  private onPhotoChange(change: PhotoChange) {
+    this.index()
+    this.removeDoc(change.photo.id)
+    if (change.type !== "removed") this.addDoc(change.photo)
+    this.syncedVersion = this.library.getVersion()
+    this.persist()
+  }
+
+  private addDoc(photo: PhotoRecord) {
+    const postings = this.index()
+    const terms = photoTerms(photo)
+    for (const [term, weight] of terms) {
+      let ids = postings.get(term)
+      if (!ids) {
+        ids = new Map()
+        postings.set(term, ids)
+        this.sortedTerms = null
+      }
+      ids.set(photo.id, weight)
+    }
+    this.docs.set(photo.id, terms)
+  }
+
+  private removeDoc(id: string) {
+    const postings = this.index()
+    for (const term of this.docs.get(id)?.keys() ?? []) {
+      const ids = postings.get(term)
+      ids?.delete(id)
+      if (ids?.size === 0) {
+        postings.delete(term)
+        this.sortedTerms = null
+      }
+    }
+    this.docs.delete(id)
+  }
+
+  private index(): Map<string, Map<string, number>> {
+    if (!this.postings) {
+      this.postings = new Map()
+      const persisted = storage.load<PersistedSearchIndex>(this.storageKey)
+      if (
+        persisted?.version === 2 &&
+        persisted.postings &&
+        typeof persisted.postings === "object"
+      ) {
+        for (const [term, ids] of Object.entries(persisted.postings)) {
+          this.postings.set(term, new Map(Object.entries(ids)))
+          for (const [id, weight] of Object.entries(ids)) {
+            const doc = this.docs.get(id) ?? new Map<string, number>()
+            doc.set(term, weight)
+            this.docs.set(id, doc)
+          }
+        }
+      }
+    }
+    if (this.syncedVersion !== this.library.getVersion()) this.reconcile()
+    return this.postings
+  }
+
+  /**
+   * Indexes photos added, and drops photos removed, while nothing was listening:
+   * before the first load, or behind a library reload. Edits always arrive as
+   * change events, so photos already indexed are left as they are.
+   */
+  private reconcile() {
+    this.syncedVersion = this.library.getVersion()
+    const photos = this.library.all()
+    const ids = new Set(photos.map((photo) => photo.id))
+    let changed = false
+    for (const id of Array.from(this.docs.keys())) {
+      if (ids.has(id)) continue
+      this.removeDoc(id)
+      changed = true
+    }
+    for (const photo of photos) {
+      if (this.docs.has(photo.id)) continue
+      this.addDoc(photo)
+      changed = true
+    }
+    if (changed) this.persist()
+  }
+
+  private persist() {
+    if (this.persistTimer !== undefined) return
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined
+      this.save()
+    }, this.persistDelayMs)
+  }
+
+  private save() {
+    const postings: PersistedSearchIndex["postings"] = {}
+    for (const [term, ids] of this.index()) postings[term] = Object.fromEntries(ids)
+    const persisted: PersistedSearchIndex = { version: 2, postings }
+    storage.save(this.storageKey, persisted)
+  }
+}
+
+// Singleton instance of the search index for convenience
+export const searchIndex = new SearchIndex()
@@ -0,0 +1,3 @@
+export * from "./tokenize"
+export * from "./SearchIndex"
+export * from "./useSearch"
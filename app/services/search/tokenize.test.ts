@@ -0,0 +1,59 @@
+import { dateTerms, editDistance, maxTypos, normalize, tokenize } from "./tokenize"
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and splits on punctuation", () => {
+    expect(normalize("Café Crème")).toBe("cafe creme")
+    expect(tokenize("Sunset, at the BEACH!")).toEqual(["sunset", "at", "the", "beach"])
+  })
+
+  it("keeps dates whole", () => {
+    expect(tokenize("photos from 2024-03-10")).toEqual(["photos", "from", "2024-03-10"])
+    expect(tokenize("2024-03")).toEqual(["2024-03"])
+  })
+
+  it("keeps letters outside the Latin alphabet", () => {
+    expect(tokenize("東京 タワー")).toEqual(["東京", "タワー"])
+  })
+})
+
+describe("dateTerms", () => {
+  it("gives the day, year and month name in every language", () => {
+    // normalized like everything else, which takes Hindi vowel signs off and splits Hangul
+    expect(dateTerms("2024-03-10T12:00:00.000Z")).toEqual([
+      "2024-03-10",
+      "2024",
+      "march",
+      "مارس",
+      "marzo",
+      "mars",
+      normalize("मार्च"),
+      "3月",
+      normalize("3월"),
+    ])
+  })
+
+  it("ignores dates that don't parse", () => {
+    expect(dateTerms("yesterday")).toEqual([])
+  })
+})
+
+describe("editDistance", () => {
+  it("counts edits, with a swap of neighbours as one", () => {
+    expect(editDistance("beach", "beach", 2)).toBe(0)
+    expect(editDistance("beach", "beech", 2)).toBe(1)
+    expect(editDistance("beahc", "beach", 2)).toBe(1)
+    expect(editDistance("bech", "beach", 2)).toBe(1)
+  })
+
+  it("stops counting past the limit", () => {
+    expect(editDistance("mountain", "fountains", 1)).toBe(2)
+    expect(editDistance("cat", "elephant", 2)).toBe(3)
+  })
+
+  it("allows more typos in longer words", () => {
+    expect(maxTypos("dog")).toBe(0)
+    expect(maxTypos("beach")).toBe(1)
+    expect(maxTypos("waterfall")).toBe(2)
+    expect(maxTypos("2024-03-10")).toBe(0)
+  })
+})
@@ -0,0 +1,81 @@
+import { format } from "date-fns/format"
+import { ar } from "date-fns/locale/ar"
+import { enUS } from "date-fns/locale/en-US"
+import { es } from "date-fns/locale/es"
+import { fr } from "date-fns/locale/fr"
+import { hi } from "date-fns/locale/hi"
+import { ja } from "date-fns/locale/ja"
+import { ko } from "date-fns/locale/ko"
+
+// every language the app speaks, not just the current one, so switching languages
+// doesn't leave the month names in the persisted index behind
+const MONTH_LOCALES = [enUS, ar, es, fr, hi, ja, ko]
+
+// whole dates stay one token so "2024-03" can prefix-match a month of dates
+const TOKEN = /\d{4}-\d{2}(?:-\d{2})?|[\p{L}\p{N}]+/gu
+
+/**
+ * Lowercases text and strips accents, so "Café" and "cafe" index the same.
+ */
+export function normalize(text: string) {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase()
+}
+
+/**
+ * Splits text into normalized search terms.
+ */
+export function tokenize(text: string): string[] {
+  return normalize(text).match(TOKEN) ?? []
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+/**
+ * The terms a capture date is found by: the full local date, its year and the
+ * month's name in each of the app's languages.
+ */
+export function dateTerms(iso: string): string[] {
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return []
+  const year = String(date.getFullYear())
+  const day = `${year}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  const months = MONTH_LOCALES.flatMap((locale) => tokenize(format(date, "LLLL", { locale })))
+  return Array.from(new Set([day, year, ...months]))
+}
+
+/**
+ * How many typos a word is allowed before it stops matching. None for numbers and
+ * dates, where one digit off is a different thing entirely.
+ */
+export function maxTypos(term: string) {
+  if (term.length < 4 || /\d/.test(term)) return 0
+  return term.length < 8 ? 1 : 2
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * neighbouring letters. Gives up and returns `max + 1` as soon as the distance
+ * is known to be over `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return Math.min(previous[b.length], max + 1)
+}
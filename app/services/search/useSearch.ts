@@ -0,0 +1,29 @@
+import { useMemo } from "react"
+
+import { useAlbumsVersion } from "@/services/albums"
+import { useLibraryVersion } from "@/services/library"
+
+import { SearchHit, searchIndex, SearchIndex, SearchOptions } from "./SearchIndex"
+
+/**
+ * Searches the library, re-running the search whenever photos or albums change.
+ * @param {string} text - What the user typed.
+ * @param {SearchOptions} options - How many hits to return.
+ * @param {SearchIndex} index - The index to search.
+ * @returns {SearchHit[]} - The hits, the best first. Empty for blank text.
+ */
+export function usePhotoSearch(
+  text: string,
+  options: SearchOptions = {},
+  index: SearchIndex = searchIndex,
+): SearchHit[] {
+  const libraryVersion = useLibraryVersion()
+  const albumsVersion = useAlbumsVersion()
+  const { limit } = options
+
+  return useMemo(
+    () => index.search(text, { limit }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [index, text, limit, libraryVersion, albumsVersion],
+  )
+}
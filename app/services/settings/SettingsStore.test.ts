@@ -0,0 +1,200 @@
+import { act, renderHook } from "@testing-library/react-native"
+
+import * as storage from "@/utils/storage"
+
+import {
+  LEGACY_COMPOSITION_GUIDE_KEY,
+  LEGACY_THEME_KEY,
+  migrateSettings,
+  SettingsMigration,
+} from "./migrations"
+import { defaultSettings } from "./schema"
+import { SETTINGS_STORAGE_KEY, SettingsStore } from "./SettingsStore"
+import { useSetting } from "./useSetting"
+
+const stored = () =>
+  storage.load<{ version: number; values: Record<string, unknown> }>(SETTINGS_STORAGE_KEY)
+
+describe("SettingsStore", () => {
+  beforeEach(() => storage.clear())
+
+  it("starts from the defaults", () => {
+    expect(new SettingsStore().getAll()).toEqual(defaultSettings())
+  })
+
+  it("persists changes and only writes what differs from the defaults", () => {
+    const store = new SettingsStore()
+
+    expect(store.set("capture.format", "heic")).toBe(true)
+    expect(store.set("privacy.stripMetadataOnShare", true)).toBe(true)
+
+    expect(stored()).toEqual({ version: 1, values: { "capture.format": "heic" } })
+    expect(new SettingsStore().get("capture.format")).toBe("heic")
+  })
+
+  it("rejects values the schema doesn't allow", () => {
+    const store = new SettingsStore()
+
+    // @ts-expect-error not a capture format
+    expect(store.set("capture.format", "gif")).toBe(false)
+    // any number type-checks, but only the offered limits pass the schema
+    expect(store.set("storage.cacheLimitMb", 123)).toBe(false)
+
+    expect(store.get("capture.format")).toBe("jpeg")
+    expect(store.get("storage.cacheLimitMb")).toBe(250)
+  })
+
+  it("falls back to the default for stored values that don't validate", () => {
+    storage.save(SETTINGS_STORAGE_KEY, {
+      version: 1,
+      values: {
+        "capture.grid": "fibonacci",
+        "appearance.theme": "dark",
+        "privacy.crashReports": "yes",
+      },
+    })
+
+    const store = new SettingsStore()
+
+    expect(store.get("capture.grid")).toBe("thirds")
+    expect(store.get("appearance.theme")).toBe("dark")
+    expect(store.get("privacy.crashReports")).toBe(false)
+  })
+
+  it("notifies subscribers of the key that changed", () => {
+    const store = new SettingsStore()
+    const listener = jest.fn()
+    store.subscribe(listener)
+
+    store.set("appearance.theme", "dark")
+    store.set("appearance.theme", "dark")
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith("appearance.theme")
+  })
+
+  it("resets one setting or all of them", () => {
+    const store = new SettingsStore()
+    store.set("capture.format", "raw")
+    store.set("appearance.language", "ja")
+    const listener = jest.fn()
+    store.subscribe(listener)
+
+    store.reset("capture.format")
+    expect(store.get("capture.format")).toBe("jpeg")
+    expect(store.get("appearance.language")).toBe("ja")
+
+    store.reset()
+    expect(store.getAll()).toEqual(defaultSettings())
+    expect(listener.mock.calls).toEqual([["capture.format"], ["appearance.language"]])
+    expect(stored()?.values).toEqual({})
+  })
+})
+
+describe("settings migrations", () => {
+  beforeEach(() => storage.clear())
+
+  it("moves the settings that predate the store into it", () => {
+    storage.saveString(LEGACY_COMPOSITION_GUIDE_KEY, "goldenSpiral")
+    storage.saveString(LEGACY_THEME_KEY, "dark")
+
+    const store = new SettingsStore()
+
+    expect(store.get("capture.grid")).toBe("goldenSpiral")
+    expect(store.get("appearance.theme")).toBe("dark")
+    expect(storage.loadString(LEGACY_COMPOSITION_GUIDE_KEY)).toBeNull()
+    expect(storage.loadString(LEGACY_THEME_KEY)).toBeNull()
+    expect(stored()?.version).toBe(1)
+  })
+
+  it("runs pending migrations in order and skips applied ones", () => {
+    const migrations: SettingsMigration[] = [
+      { version: 1, migrate: (values) => ({ ...values, trail: "1" }) },
+      { version: 2, migrate: (values) => ({ ...values, trail: `${values.trail}2` }) },
+      { version: 3, migrate: (values) => ({ ...values, trail: `${values.trail}3` }) },
+    ]
+
+    expect(migrateSettings(null, migrations)).toEqual({
+      settings: { version: 3, values: { trail: "123" } },
+      migrated: true,
+    })
+    expect(migrateSettings({ version: 2, values: { trail: "x" } }, migrations).settings).toEqual({
+      version: 3,
+      values: { trail: "x3" },
+    })
+    expect(migrateSettings({ version: 3, values: {} }, migrations).migrated).toBe(false)
+  })
+
+  it("renames a setting through an injected migration", () => {
+    storage.save(SETTINGS_STORAGE_KEY, { version: 1, values: { "camera.format": "raw" } })
+    const migrations: SettingsMigration[] = [
+      { version: 1, migrate: (values) => values },
+      {
+        version: 2,
+        migrate: ({ "camera.format": format, ...rest }) => ({ ...rest, "capture.format": format }),
+      },
+    ]
+
+    const store = new SettingsStore({ migrations })
+
+    expect(store.get("capture.format")).toBe("raw")
+    expect(stored()).toEqual({ version: 2, values: { "capture.format": "raw" } })
+  })
+
+  it("leaves settings from a newer version readable", () => {
+    storage.save(SETTINGS_STORAGE_KEY, {
+      version: 9,
+      values: { "capture.format": "heic", "capture.hdr": true },
+    })
+
+    expect(new SettingsStore().get("capture.format")).toBe("heic")
+  })
+})
+
+describe("composition guide setting", () => {
+  beforeEach(() => storage.clear())
+
+  it("defaults to the rule of thirds and is remembered across launches", () => {
+    const store = new SettingsStore()
+    expect(store.get("capture.grid")).toBe("thirds")
+
+    expect(store.set("capture.grid", "goldenSpiral")).toBe(true)
+    expect(new SettingsStore().get("capture.grid")).toBe("goldenSpiral")
+  })
+
+  it("falls back to the rule of thirds for guides it doesn't know", () => {
+    storage.save(SETTINGS_STORAGE_KEY, { version: 1, values: { "capture.grid": "fibonacci" } })
+    expect(new SettingsStore().get("capture.grid")).toBe("thirds")
+
+    storage.clear()
+    storage.saveString(LEGACY_COMPOSITION_GUIDE_KEY, "fibonacci")
+    expect(new SettingsStore().get("capture.grid")).toBe("thirds")
+    expect(storage.loadString(LEGACY_COMPOSITION_GUIDE_KEY)).toBeNull()
+  })
+
+  it("rejects unknown guides when set", () => {
+    const store = new SettingsStore()
+    // @ts-expect-error not a composition guide
+    expect(store.set("capture.grid", "fibonacci")).toBe(false)
+    expect(store.get("capture.grid")).toBe("thirds")
+  })
+})
+
+describe("useSetting", () => {
+  beforeEach(() => storage.clear())
+
+  it("reads, writes and follows changes made elsewhere", () => {
+    const store = new SettingsStore()
+    const { result } = renderHook(() => useSetting("capture.grid", store))
+
+    expect(result.current[0]).toBe("thirds")
+
+    act(() => result.current[1]("diagonals"))
+    expect(result.current[0]).toBe("diagonals")
+
+    act(() => {
+      store.set("capture.grid", "none")
+    })
+    expect(result.current[0]).toBe("none")
+  })
+})
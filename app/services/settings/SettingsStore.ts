@@ -0,0 +1,148 @@
+import * as storage from "@/utils/storage"
+
+import {
+  migrateSettings,
+  PersistedSettings,
+  SETTINGS_MIGRATIONS,
+  SettingsMigration,
+} from "./migrations"
+import { defaultSettings, isValidSetting, SETTING_KEYS, SettingKey, Settings } from "./schema"
+
+export const SETTINGS_STORAGE_KEY = "pixassist.settings"
+
+export type SettingsListener = (key: SettingKey) => void
+
+export interface SettingsStoreOptions {
+  /**
+   * The storage key settings are persisted under.
+   */
+  storageKey?: string
+  /**
+   * The migrations to run on load. Handy to override in tests.
+   */
+  migrations?: readonly SettingsMigration[]
+}
+
+/**
+ * Typed, validated, persisted user settings. Stored values are migrated on first read
+ * and anything that doesn't pass the schema falls back to its default, so callers
+ * always get a complete `Settings` object.
+ */
+export class SettingsStore {
+  private storageKey: string
+  private migrations: readonly SettingsMigration[]
+  private settings: Settings | null = null
+  private storedVersion = 0
+  private listeners = new Set<SettingsListener>()
+  private version = 0
+
+  constructor(options: SettingsStoreOptions = {}) {
+    this.storageKey = options.storageKey ?? SETTINGS_STORAGE_KEY
+    this.migrations = options.migrations ?? SETTINGS_MIGRATIONS
+  }
+
+  /**
+   * Increments on every change. Useful as a cheap snapshot for `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to changes. The listener gets the key that changed. Returns an unsubscribe function.
+   */
+  subscribe(listener: SettingsListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get<K extends SettingKey>(key: K): Settings[K] {
+    return this.load()[key]
+  }
+
+  /**
+   * Every setting at once.
+   */
+  getAll(): Readonly<Settings> {
+    return this.load()
+  }
+
+  /**
+   * Changes a setting. Returns false, and changes nothing, when the value doesn't
+   * pass the schema.
+   */
+  set<K extends SettingKey>(key: K, value: Settings[K]): boolean {
+    if (!isValidSetting(key, value)) return false
+    const settings = this.load()
+    if (settings[key] === value) return true
+    settings[key] = value
+    this.persist()
+    this.notify(key)
+    return true
+  }
+
+  /**
+   * Puts one setting, or every setting when no key is given, back to its default.
+   */
+  reset(key?: SettingKey) {
+    const defaults = defaultSettings()
+    const settings = this.load()
+    const keys = key ? [key] : SETTING_KEYS
+    const changed = keys.filter((k) => settings[k] !== defaults[k])
+    if (changed.length === 0) return
+    for (const k of changed) (settings as Record<SettingKey, unknown>)[k] = defaults[k]
+    this.persist()
+    changed.forEach((k) => this.notify(k))
+  }
+
+  /**
+   * Drops the in-memory copy so the next read comes from storage again.
+   */
+  reload() {
+    this.settings = null
+    SETTING_KEYS.forEach((key) => this.notify(key))
+  }
+
+  private load(): Settings {
+    if (this.settings) return this.settings
+
+    const persisted = storage.load<PersistedSettings>(this.storageKey)
+    const { settings: migrated, migrated: changed } = migrateSettings(
+      persisted && typeof persisted === "object" && typeof persisted.version === "number"
+        ? { version: persisted.version, values: persisted.values ?? {} }
+        : null,
+      this.migrations,
+    )
+
+    const settings = defaultSettings() as Record<SettingKey, unknown>
+    for (const key of SETTING_KEYS) {
+      if (isValidSetting(key, migrated.values[key])) settings[key] = migrated.values[key]
+    }
+    this.settings = settings as Settings
+    this.storedVersion = migrated.version
+    if (changed) this.persist()
+    return this.settings
+  }
+
+  private persist() {
+    if (!this.settings) return
+    // only what differs from the defaults, so changing a default reaches existing users
+    const defaults = defaultSettings()
+    const values: Record<string, unknown> = {}
+    for (const key of SETTING_KEYS) {
+      if (this.settings[key] !== defaults[key]) values[key] = this.settings[key]
+    }
+    const persisted: PersistedSettings = { version: this.storedVersion, values }
+    storage.save(this.storageKey, persisted)
+  }
+
+  private notify(key: SettingKey) {
+    this.version += 1
+    this.listeners.forEach((listener) => listener(key))
+  }
+}
+
+// Singleton instance of the settings store for convenience
+export const settingsStore = new SettingsStore()
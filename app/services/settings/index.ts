@@ -0,0 +1,4 @@
+export * from "./schema"
+export * from "./migrations"
+export * from "./SettingsStore"
+export * from "./useSetting"
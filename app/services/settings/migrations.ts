@@ -0,0 +1,65 @@
+import * as storage from "@/utils/storage"
+
+/**
+ * Settings as they sit in storage. Values are unknown until validated against the
+ * schema, since they may have been written by an older or newer version of the app.
+ */
+export interface PersistedSettings {
+  version: number
+  values: Record<string, unknown>
+}
+
+/**
+ * Upgrades stored settings by one version. Migrations run in order, each one seeing
+ * the output of the previous, and may read or clean up storage keys of their own.
+ */
+export interface SettingsMigration {
+  /**
+   * The version this migration upgrades to.
+   */
+  version: number
+  migrate: (values: Record<string, unknown>) => Record<string, unknown>
+}
+
+// keys that predate the settings store
+export const LEGACY_COMPOSITION_GUIDE_KEY = "pixassist.compositionGuide"
+export const LEGACY_THEME_KEY = "ignite.themeScheme"
+
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+  {
+    // version 1 gathers the settings that used to live under their own keys
+    version: 1,
+    migrate: (values) => {
+      const next = { ...values }
+      const guide = storage.loadString(LEGACY_COMPOSITION_GUIDE_KEY)
+      if (guide !== null) next["capture.grid"] = guide
+      const theme = storage.loadString(LEGACY_THEME_KEY)
+      if (theme !== null) next["appearance.theme"] = theme
+      storage.remove(LEGACY_COMPOSITION_GUIDE_KEY)
+      storage.remove(LEGACY_THEME_KEY)
+      return next
+    },
+  },
+]
+
+/**
+ * Brings stored settings up to the latest version. Anything already at or past a
+ * migration's version skips it, so settings written by a newer app are left alone.
+ *
+ * @param persisted What was read from storage, or null on first launch.
+ * @param migrations The migrations to run, ordered by version.
+ * @returns The migrated settings and whether anything changed.
+ */
+export function migrateSettings(
+  persisted: PersistedSettings | null,
+  migrations: readonly SettingsMigration[] = SETTINGS_MIGRATIONS,
+): { settings: PersistedSettings; migrated: boolean } {
+  let settings = persisted ?? { version: 0, values: {} }
+  let migrated = false
+  for (const migration of migrations) {
+    if (migration.version <= settings.version) continue
+    settings = { version: migration.version, values: migration.migrate(settings.values) }
+    migrated = true
+  }
+  return { settings, migrated }
+}
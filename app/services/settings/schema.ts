@@ -0,0 +1,100 @@
+import { COMPOSITION_GUIDES, CompositionGuideType } from "@/utils/composition"
+
+export type CaptureFormat = "jpeg" | "heic" | "raw"
+export type ThemeSetting = "system" | "light" | "dark"
+export type LanguageSetting = "system" | "en" | "ar" | "es" | "fr" | "hi" | "ja" | "ko"
+
+/**
+ * Every user-facing setting and its type. Keys are grouped by the settings section
+ * they show up in.
+ */
+export interface Settings {
+  "capture.format": CaptureFormat
+  "capture.grid": CompositionGuideType
+  "appearance.theme": ThemeSetting
+  "appearance.language": LanguageSetting
+  /**
+   * Write GPS coordinates into new photos.
+   */
+  "privacy.saveLocation": boolean
+  /**
+   * Remove EXIF metadata from photos before they leave the device.
+   */
+  "privacy.stripMetadataOnShare": boolean
+  "privacy.crashReports": boolean
+  /**
+   * How much disk the thumbnail and upload caches may use, in megabytes.
+   */
+  "storage.cacheLimitMb": number
+  /**
+   * Warn before capturing when the device is nearly full.
+   */
+  "storage.lowSpaceWarning": boolean
+}
+
+export type SettingKey = keyof Settings
+
+export interface SettingDefinition<T> {
+  default: T
+  /**
+   * The values the picker offers, for settings that are a choice.
+   */
+  options?: readonly T[]
+  validate: (value: unknown) => value is T
+}
+
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean"
+
+function oneOf<T>(options: readonly T[], fallback: T): SettingDefinition<T> {
+  return {
+    default: fallback,
+    options,
+    validate: (value: unknown): value is T => options.includes(value as T),
+  }
+}
+
+function toggle(fallback: boolean): SettingDefinition<boolean> {
+  return { default: fallback, validate: isBoolean }
+}
+
+export const CAPTURE_FORMATS = ["jpeg", "heic", "raw"] as const
+export const THEMES = ["system", "light", "dark"] as const
+export const LANGUAGES = ["system", "en", "ar", "es", "fr", "hi", "ja", "ko"] as const
+export const CACHE_LIMITS_MB = [100, 250, 500, 1000] as const
+
+/**
+ * The sections of the settings screen, in the order they're shown. Deep links can open
+ * the screen scrolled to one of them.
+ */
+export const SETTINGS_SECTIONS = ["capture", "appearance", "privacy", "storage", "account"] as const
+export type SettingsSection = (typeof SETTINGS_SECTIONS)[number]
+
+export const SETTINGS_SCHEMA: { [K in SettingKey]: SettingDefinition<Settings[K]> } = {
+  "capture.format": oneOf<CaptureFormat>(CAPTURE_FORMATS, "jpeg"),
+  "capture.grid": oneOf<CompositionGuideType>(COMPOSITION_GUIDES, "thirds"),
+  "appearance.theme": oneOf<ThemeSetting>(THEMES, "system"),
+  "appearance.language": oneOf<LanguageSetting>(LANGUAGES, "system"),
+  "privacy.saveLocation": toggle(false),
+  "privacy.stripMetadataOnShare": toggle(true),
+  "privacy.crashReports": toggle(false),
+  "storage.cacheLimitMb": oneOf<number>(CACHE_LIMITS_MB, 250),
+  "storage.lowSpaceWarning": toggle(true),
+}
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[]
+
+/**
+ * Whether `value` is acceptable for `key`.
+ */
+export function isValidSetting<K extends SettingKey>(key: K, value: unknown): value is Settings[K] {
+  return SETTINGS_SCHEMA[key].validate(value)
+}
+
+/**
+ * A fresh copy of every default.
+ */
+export function defaultSettings(): Settings {
+  const settings = {} as Record<SettingKey, unknown>
+  for (const key of SETTING_KEYS) settings[key] = SETTINGS_SCHEMA[key].default
+  return settings as Settings
+}
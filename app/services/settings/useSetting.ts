@@ -0,0 +1,31 @@
+import { useCallback, useSyncExternalStore } from "react"
+
+import type { SettingKey, Settings } from "./schema"
+import { settingsStore, SettingsStore } from "./SettingsStore"
+
+/**
+ * Reads a setting and re-renders when it changes, wherever the change came from.
+ * @param {SettingKey} key - The setting to watch.
+ * @param {SettingsStore} store - The store to read from.
+ * @returns {[value, setValue]} - The current value and a setter that validates against the schema.
+ */
+export function useSetting<K extends SettingKey>(key: K, store: SettingsStore = settingsStore) {
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      store.subscribe((changed) => {
+        if (changed === key) onChange()
+      }),
+    [store, key],
+  )
+  const getSnapshot = useCallback(() => store.get(key), [store, key])
+  const value = useSyncExternalStore(subscribe, getSnapshot)
+
+  const setValue = useCallback(
+    (next: Settings[K]) => {
+      store.set(key, next)
+    },
+    [store, key],
+  )
+
+  return [value, setValue] as const
+}
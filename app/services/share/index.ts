@@ -0,0 +1,2 @@
+export * from "./photoFiles"
+export * from "./shareCopy"
@@ -0,0 +1,43 @@
+import * as FileSystem from "expo-file-system"
+
+/**
+ * Reading and writing whole photo files, so code that does can be tested without any.
+ */
+export interface PhotoFiles {
+  read(uri: string): Promise<Uint8Array>
+  /**
+   * Replaces the file's contents, creating it and any missing folders on the way.
+   */
+  write(uri: string, bytes: Uint8Array): Promise<void>
+}
+
+// spreading a whole photo into `String.fromCharCode` would overflow the stack
+const CHUNK_SIZE = 0x8000
+
+function toBase64(bytes: Uint8Array) {
+  let binary = ""
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Photo files on the device. Reads go through `fetch`, which React Native serves for
+ * `file://` URIs; writes through the file system, which only takes text, so the
+ * bytes travel as base64.
+ */
+export const photoFiles: PhotoFiles = {
+  read: async (uri) => {
+    const response = await fetch(uri)
+    return new Uint8Array(await response.arrayBuffer())
+  },
+  write: async (uri, bytes) => {
+    await FileSystem.makeDirectoryAsync(uri.slice(0, uri.lastIndexOf("/")), {
+      intermediates: true,
+    })
+    await FileSystem.writeAsStringAsync(uri, toBase64(bytes), {
+      encoding: FileSystem.EncodingType.Base64,
+    })
+  },
+}
@@ -0,0 +1,67 @@
+import type { PhotoRecord } from "@/services/library"
+import { SettingsStore } from "@/services/settings"
+import { readPhotoMetadata } from "@/utils/exif"
+import { storage } from "@/utils/storage"
+
+import { shareableCopy } from "./shareCopy"
+import { loadFixture } from "../../../test/fixtures"
+
+const photo = (uri: string): PhotoRecord => ({
+  id: "photo-1",
+  uri,
+  width: 8,
+  height: 8,
+  capturedAt: "2024-05-01T16:30:00.000Z",
+  tags: [],
+  favorite: false,
+  albumIds: [],
+})
+
+function setup() {
+  const contents = new Map<string, Uint8Array>([
+    ["file:///photos/exif.jpg", loadFixture("exif-little-endian.jpg")],
+    ["file:///photos/not-a.jpg", new Uint8Array([1, 2, 3])],
+  ])
+  const files = {
+    read: async (uri: string) => contents.get(uri)!,
+    write: jest.fn(async (uri: string, bytes: Uint8Array) => void contents.set(uri, bytes)),
+  }
+  const settings = new SettingsStore({ storageKey: "test.settings" })
+  const options = { files, settings, directory: "file:///cache/share/" }
+  return { contents, files, settings, options }
+}
+
+describe("shareableCopy", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("writes a copy without location and device details", async () => {
+    const { contents, options } = setup()
+
+    const uri = await shareableCopy(photo("file:///photos/exif.jpg"), options)
+
+    expect(uri).toBe("file:///cache/share/photo-1.jpg")
+    const metadata = readPhotoMetadata(contents.get(uri!)!)!
+    expect(metadata.gps).toBeUndefined()
+    expect(metadata.make).toBeUndefined()
+    expect(readPhotoMetadata(contents.get("file:///photos/exif.jpg")!)?.gps).toBeDefined()
+  })
+
+  it("hands over the photo's own file while metadata is kept on share", async () => {
+    const { files, settings, options } = setup()
+    settings.set("privacy.stripMetadataOnShare", false)
+
+    expect(await shareableCopy(photo("file:///photos/exif.jpg"), options)).toBe(
+      "file:///photos/exif.jpg",
+    )
+    expect(files.write).not.toHaveBeenCalled()
+  })
+
+  it("gives up on files it can't take the metadata out of", async () => {
+    const { files, options } = setup()
+
+    expect(await shareableCopy(photo("file:///photos/not-a.jpg"), options)).toBeNull()
+    expect(files.write).not.toHaveBeenCalled()
+  })
+})
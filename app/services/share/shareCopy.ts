@@ -0,0 +1,43 @@
+import * as FileSystem from "expo-file-system"
+
+import type { PhotoRecord } from "@/services/library"
+import { settingsStore, SettingsStore } from "@/services/settings"
+import { rewriteExif, SHARE_REWRITE_OPTIONS } from "@/utils/exif"
+
+import { PhotoFiles, photoFiles } from "./photoFiles"
+
+export interface ShareCopyOptions {
+  files?: PhotoFiles
+  settings?: Pick<SettingsStore, "get">
+  /**
+   * Where copies are written. Default: a folder in the cache directory, which the
+   * system clears when it needs the space.
+   */
+  directory?: string
+}
+
+/**
+ * The file to hand over when a photo leaves the device, by sharing or exporting it.
+ * With "Remove metadata when sharing" on, that's a copy without the location and
+ * device details; otherwise it's the photo's own file.
+ *
+ * Resolves to null when the metadata can't be removed, like for a file that isn't a
+ * JPEG, so nothing leaves the device with metadata it was meant to lose.
+ *
+ * @param photo The photo to share.
+ * @param options Where the file comes from and goes to, and which setting to honour.
+ */
+export async function shareableCopy(
+  photo: PhotoRecord,
+  options: ShareCopyOptions = {},
+): Promise<string | null> {
+  const { files = photoFiles, settings = settingsStore } = options
+  if (!settings.get("privacy.stripMetadataOnShare")) return photo.uri
+
+  const rewritten = rewriteExif(await files.read(photo.uri), SHARE_REWRITE_OPTIONS)
+  if (!rewritten) return null
+  const directory = options.directory ?? `${FileSystem.cacheDirectory}share/`
+  const uri = `${directory}${photo.id}.jpg`
+  await files.write(uri, rewritten)
+  return uri
+}
@@ -0,0 +1,203 @@
+import { AlbumStore } from "@/services/albums"
+import { RequestQueue } from "@/services/api/RequestQueue"
+import { EditHistory, EditStore } from "@/services/editor"
+import { NewPhoto, PhotoLibrary } from "@/services/library"
+import { SearchIndex } from "@/services/search"
+import { storage } from "@/utils/storage"
+
+import { TRASH_STORAGE_KEY, TrashStore } from "./TrashStore"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function photo(day: number, extra: Partial<NewPhoto> = {}): NewPhoto {
+  return {
+    uri: `file:///photos/${day}.jpg`,
+    width: 4032,
+    height: 3024,
+    capturedAt: new Date(Date.UTC(2024, 0, day, 9)).toISOString(),
+    ...extra,
+  }
+}
+
+function setup() {
+  let photoId = 0
+  let now = new Date("2024-06-01T12:00:00.000Z")
+  const library = new PhotoLibrary({
+    storageKey: "test.photoLibrary",
+    generateId: () => `photo-${++photoId}`,
+  })
+  const albums = new AlbumStore({ storageKey: "test.albums", library })
+  const search = new SearchIndex({ storageKey: "test.searchIndex", library, albums })
+  const uploader = { discard: jest.fn(() => true) }
+  const queue = new RequestQueue({ storageKey: "test.queue" })
+  const edits = new EditStore("test.edits.")
+  const deleteFile = jest.fn(async (_uri: string) => {})
+  const createTrash = () =>
+    new TrashStore({ library, albums, uploader, queue, edits, deleteFile, now: () => now })
+  return {
+    library,
+    albums,
+    search,
+    uploader,
+    queue,
+    edits,
+    deleteFile,
+    trash: createTrash(),
+    createTrash,
+    advance: (days: number) => {
+      now = new Date(now.getTime() + days * DAY_MS)
+    },
+  }
+}
+
+describe("TrashStore", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("moves photos out of the library and keeps them across restarts", () => {
+    const { library, trash, createTrash } = setup()
+    const a = library.add(photo(1))
+    library.add(photo(2))
+
+    expect(trash.trash([a.id, "photo-404"])).toBe(1)
+    expect(library.get(a.id)).toBeUndefined()
+    expect(library.size).toBe(1)
+    expect(createTrash().items()).toEqual([{ photo: a, trashedAt: "2024-06-01T12:00:00.000Z" }])
+    expect(storage.getString(TRASH_STORAGE_KEY)).toBeDefined()
+  })
+
+  it("takes trashed photos out of albums and search, and drops their uploads", () => {
+    const { library, albums, search, uploader, queue, trash } = setup()
+    const trip = albums.createAlbum("Trip")
+    const faves = albums.createSmartAlbum("Faves", {
+      match: "all",
+      rules: [{ type: "favorite", favorite: true }],
+    })
+    const a = library.add(photo(1, { tags: ["beach"], favorite: true, albumIds: [trip.id] }))
+    expect(albums.photoIds(trip.id)).toEqual([a.id])
+    expect(search.search("beach")).toHaveLength(1)
+    const upload = (clientId: string) => ({
+      clientId,
+      uri: `file:///photos/${clientId}.jpg`,
+      fileName: `${clientId}.jpg`,
+      mimeType: "image/jpeg",
+      width: 4032,
+      height: 3024,
+      capturedAt: a.capturedAt,
+      tags: [],
+    })
+    queue.enqueue({ endpoint: "uploadPhoto", params: upload(a.id) })
+    const other = queue.enqueue({ endpoint: "uploadPhoto", params: upload("photo-other") })
+    queue.enqueue({ endpoint: "uploadPhoto", params: upload(a.id) })
+
+    trash.trash([a.id])
+
+    expect(albums.photoIds(trip.id)).toEqual([])
+    expect(albums.photoIds(faves.id)).toEqual([])
+    expect(search.search("beach")).toEqual([])
+    expect(uploader.discard).toHaveBeenCalledWith(a.id)
+    expect(queue.getAll()).toEqual([other])
+  })
+
+  it("restores photos under the same id, back in their albums", () => {
+    const { library, albums, search, trash } = setup()
+    const trip = albums.createAlbum("Trip")
+    const gone = albums.createAlbum("Gone")
+    const a = library.add(photo(1, { tags: ["beach"], albumIds: [trip.id, gone.id] }))
+    trash.trash([a.id])
+    albums.remove(gone.id)
+
+    expect(trash.restore([a.id])).toBe(1)
+
+    expect(library.get(a.id)).toEqual({ ...a, albumIds: [trip.id] })
+    expect(albums.photoIds(trip.id)).toEqual([a.id])
+    expect(search.search("beach").map((hit) => hit.photo.id)).toEqual([a.id])
+    expect(trash.size).toBe(0)
+  })
+
+  it("purges photos, their files and their edits for good", () => {
+    const { library, edits, deleteFile, trash } = setup()
+    const a = library.add(photo(1))
+    edits.save(a.id, new EditHistory({ edits: [{ type: "exposure", stops: 1 }], redo: [] }))
+    trash.trash([a.id])
+
+    expect(trash.purge([a.id])).toBe(1)
+
+    expect(trash.size).toBe(0)
+    expect(deleteFile).toHaveBeenCalledWith(a.uri)
+    expect(edits.isEdited(a.id)).toBe(false)
+    expect(trash.restore([a.id])).toBe(0)
+    expect(library.get(a.id)).toBeUndefined()
+  })
+
+  it("empties the trash", () => {
+    const { library, deleteFile, trash } = setup()
+    trash.trash([library.add(photo(1)).id, library.add(photo(2)).id])
+
+    expect(trash.empty()).toBe(2)
+    expect(deleteFile.mock.calls.map(([uri]) => uri).sort()).toEqual([
+      "file:///photos/1.jpg",
+      "file:///photos/2.jpg",
+    ])
+    expect(trash.items()).toEqual([])
+    expect(trash.empty()).toBe(0)
+  })
+
+  describe("retention", () => {
+    it("counts down the days left, rounding part days up", () => {
+      const { library, trash, advance } = setup()
+      trash.trash([library.add(photo(1)).id])
+      const [item] = trash.items()
+
+      expect(trash.expiresAt(item).toISOString()).toBe("2024-07-01T12:00:00.000Z")
+      expect(trash.daysLeft(item)).toBe(30)
+      advance(0.5)
+      expect(trash.daysLeft(item)).toBe(30)
+      advance(29)
+      expect(trash.daysLeft(item)).toBe(1)
+      advance(1)
+      expect(trash.daysLeft(item)).toBe(0)
+    })
+
+    it("purges only photos that have been in the trash for 30 days", () => {
+      const { library, trash, advance } = setup()
+      const old = library.add(photo(1))
+      const recent = library.add(photo(2))
+      trash.trash([old.id])
+      advance(10)
+      trash.trash([recent.id])
+
+      advance(19.99)
+      expect(trash.purgeExpired()).toBe(0)
+
+      advance(0.01)
+      expect(trash.purgeExpired()).toBe(1)
+      expect(trash.items().map((item) => item.photo.id)).toEqual([recent.id])
+
+      advance(10)
+      expect(trash.purgeExpired()).toBe(1)
+      expect(trash.size).toBe(0)
+    })
+
+    it("honours a custom retention period", () => {
+      const { library, albums, uploader, queue, deleteFile } = setup()
+      let now = new Date("2024-06-01T12:00:00.000Z")
+      const trash = new TrashStore({
+        library,
+        albums,
+        uploader,
+        queue,
+        deleteFile,
+        retentionDays: 7,
+        now: () => now,
+      })
+      trash.trash([library.add(photo(1)).id])
+
+      now = new Date("2024-06-08T11:59:59.000Z")
+      expect(trash.purgeExpired()).toBe(0)
+      now = new Date("2024-06-08T12:00:00.000Z")
+      expect(trash.purgeExpired()).toBe(1)
+    })
+  })
+})
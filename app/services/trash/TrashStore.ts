@@ -0,0 +1,270 @@
+import * as FileSystem from "expo-file-system"
+
+import { albumStore, AlbumStore } from "@/services/albums"
+import { api } from "@/services/api"
+import { RequestQueue } from "@/services/api/RequestQueue"
+import { editStore, EditStore } from "@/services/editor"
+import { photoLibrary, PhotoLibrary, PhotoRecord } from "@/services/library"
+import { ChunkedUploader, uploader as defaultUploader } from "@/services/upload"
+import * as storage from "@/utils/storage"
+
+export const TRASH_STORAGE_KEY = "pixassist.trash"
+
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A photo in the trash, as it was when it left the library.
+ */
+export interface TrashedPhoto {
+  photo: PhotoRecord
+  /**
+   * ISO 8601 timestamp.
+   */
+  trashedAt: string
+}
+
+interface PersistedTrash {
+  version: 1
+  items: TrashedPhoto[]
+}
+
+export type TrashListener = () => void
+
+export interface TrashStoreOptions {
+  /**
+   * The storage key the trash is persisted under.
+   */
+  storageKey?: string
+  library?: PhotoLibrary
+  /**
+   * Albums a restored photo may have been taken out of in the meantime.
+   */
+  albums?: AlbumStore
+  /**
+   * Where a trashed photo's upload gets dropped.
+   */
+  uploader?: Pick<ChunkedUploader, "discard">
+  /**
+   * Where a trashed photo's queued uploads get dropped.
+   */
+  queue?: RequestQueue
+  /**
+   * Where a purged photo's edits get dropped.
+   */
+  edits?: EditStore
+  /**
+   * Deletes a purged photo's file. Handy to override in tests.
+   */
+  deleteFile?: (uri: string) => Promise<void>
+  /**
+   * How long photos stay in the trash before they're purged. Default: 30
+   */
+  retentionDays?: number
+  /**
+   * The clock retention is measured against. Handy to override in tests.
+   */
+  now?: () => Date
+}
+
+/**
+ * Deletes a photo's file, if it's one of the app's own. Files elsewhere, like in the
+ * device's photo library, aren't the app's to delete.
+ */
+export async function deleteFile(uri: string) {
+  const owned = [FileSystem.documentDirectory, FileSystem.cacheDirectory]
+  if (!owned.some((directory) => directory && uri.startsWith(directory))) return
+  await FileSystem.deleteAsync(uri, { idempotent: true })
+}
+
+const isTrashedPhoto = (value: unknown): value is TrashedPhoto => {
+  if (!value || typeof value !== "object") return false
+  const item = value as Record<string, unknown>
+  const photo = item.photo as Record<string, unknown> | undefined
+  return typeof item.trashedAt === "string" && typeof photo?.id === "string"
+}
+
+/**
+ * Photos deleted from the gallery, kept for a while so they can be restored.
+ *
+ * A trashed photo leaves the library, so albums, search and the rest of the app
+ * stop seeing it through the library's own change events; its uploads, if any are
+ * pending or queued, are dropped. Restoring puts it back under the same id. Purging,
+ * by hand or once it has been in the trash for the retention period, deletes it, its
+ * file and its edits for good.
+ */
+export class TrashStore {
+  private storageKey: string
+  private library: PhotoLibrary
+  private albums: AlbumStore
+  private uploader: Pick<ChunkedUploader, "discard">
+  private queue: RequestQueue
+  private edits: EditStore
+  private deleteFile: (uri: string) => Promise<void>
+  private retentionDays: number
+  private now: () => Date
+  private trashed: Map<string, TrashedPhoto> | null = null
+  private listeners = new Set<TrashListener>()
+  private version = 0
+
+  constructor(options: TrashStoreOptions = {}) {
+    this.storageKey = options.storageKey ?? TRASH_STORAGE_KEY
+    this.library = options.library ?? photoLibrary
+    this.albums = options.albums ?? albumStore
+    this.uploader = options.uploader ?? defaultUploader
+    this.queue = options.queue ?? api.queue
+    this.edits = options.edits ?? editStore
+    this.deleteFile = options.deleteFile ?? deleteFile
+    this.retentionDays = options.retentionDays ?? TRASH_RETENTION_DAYS
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Increments on every change. Useful as a cheap snapshot for `useSyncExternalStore`.
+   */
+  getVersion() {
+    return this.version
+  }
+
+  /**
+   * Subscribes to changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: TrashListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Everything in the trash, the most recently trashed first.
+   */
+  items(): TrashedPhoto[] {
+    return Array.from(this.index().values()).sort((a, b) =>
+      a.trashedAt < b.trashedAt ? 1 : a.trashedAt > b.trashedAt ? -1 : 0,
+    )
+  }
+
+  get size() {
+    return this.index().size
+  }
+
+  get(photoId: string): TrashedPhoto | undefined {
+    return this.index().get(photoId)
+  }
+
+  /**
+   * When a trashed photo will be purged.
+   */
+  expiresAt(item: TrashedPhoto): Date {
+    return new Date(new Date(item.trashedAt).getTime() + this.retentionDays * DAY_MS)
+  }
+
+  /**
+   * Whole days until a trashed photo is purged, counting a part day as a day.
+   */
+  daysLeft(item: TrashedPhoto): number {
+    const left = this.expiresAt(item).getTime() - this.now().getTime()
+    return Math.max(0, Math.ceil(left / DAY_MS))
+  }
+
+  /**
+   * Moves photos from the library to the trash. Returns how many were moved.
+   */
+  trash(photoIds: string[]): number {
+    const trashedAt = this.now().toISOString()
+    let moved = 0
+    for (const id of photoIds) {
+      const photo = this.library.remove(id)
+      if (!photo) continue
+      this.uploader.discard(id)
+      this.dequeueUploads(id)
+      this.index().set(id, { photo, trashedAt })
+      moved += 1
+    }
+    if (moved) this.commit()
+    return moved
+  }
+
+  /**
+   * Puts trashed photos back in the library, minus any albums deleted since.
+   * Returns how many were restored.
+   */
+  restore(photoIds: string[]): number {
+    let restored = 0
+    for (const id of photoIds) {
+      const item = this.index().get(id)
+      if (!item) continue
+      this.index().delete(id)
+      const albumIds = item.photo.albumIds.filter((albumId) => this.albums.get(albumId))
+      this.library.restore({ ...item.photo, albumIds })
+      restored += 1
+    }
+    if (restored) this.commit()
+    return restored
+  }
+
+  /**
+   * Deletes trashed photos for good. Returns how many were deleted.
+   */
+  purge(photoIds: string[]): number {
+    let purged = 0
+    for (const id of photoIds) {
+      const item = this.index().get(id)
+      if (!item) continue
+      this.index().delete(id)
+      this.edits.remove(id)
+      // best effort; a file left behind only takes up space
+      this.deleteFile(item.photo.uri).catch(() => {})
+      purged += 1
+    }
+    if (purged) this.commit()
+    return purged
+  }
+
+  /**
+   * Deletes everything in the trash for good. Returns how many photos that was.
+   */
+  empty(): number {
+    return this.purge(Array.from(this.index().keys()))
+  }
+
+  /**
+   * Deletes the photos that have been in the trash for the whole retention period.
+   * Run it when the app starts. Returns how many were deleted.
+   */
+  purgeExpired(): number {
+    const now = this.now().getTime()
+    const expired = this.items().filter((item) => this.expiresAt(item).getTime() <= now)
+    return this.purge(expired.map((item) => item.photo.id))
+  }
+
+  private dequeueUploads(photoId: string) {
+    // a copy, since removing changes the queue's own list
+    for (const request of [...this.queue.getAll()]) {
+      if (request.endpoint === "uploadPhoto" && request.params.clientId === photoId) {
+        this.queue.remove(request.id)
+      }
+    }
+  }
+
+  private index(): Map<string, TrashedPhoto> {
+    if (!this.trashed) {
+      const persisted = storage.load<PersistedTrash>(this.storageKey)
+      const items = persisted && Array.isArray(persisted.items) ? persisted.items : []
+      this.trashed = new Map(items.filter(isTrashedPhoto).map((item) => [item.photo.id, item]))
+    }
+    return this.trashed
+  }
+
+  private commit() {
+    const persisted: PersistedTrash = { version: 1, items: this.items() }
+    storage.save(this.storageKey, persisted)
+    this.version += 1
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Singleton instance of the trash for convenience
+export const trashStore = new TrashStore()
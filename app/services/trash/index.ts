@@ -0,0 +1,2 @@
+export * from "./TrashStore"
+export * from "./useTrash"
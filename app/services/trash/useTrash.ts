@@ -0,0 +1,16 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+
+import { TrashedPhoto, trashStore, TrashStore } from "./TrashStore"
+
+/**
+ * Everything in the trash, kept up to date.
+ * @param {TrashStore} store - The trash to read from.
+ * @returns {TrashedPhoto[]} - The trashed photos, the most recently trashed first.
+ */
+export function useTrashedPhotos(store: TrashStore = trashStore): TrashedPhoto[] {
+  const subscribe = useCallback((onChange: () => void) => store.subscribe(onChange), [store])
+  const getSnapshot = useCallback(() => store.getVersion(), [store])
+  const version = useSyncExternalStore(subscribe, getSnapshot)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => store.items(), [store, version])
+}
@@ -0,0 +1,358 @@
+import * as FileSystem from "expo-file-system"
+
+import { Api } from "@/services/api"
+import { RequestQueue } from "@/services/api/RequestQueue"
+import type { ApiPhoto, PhotoUpload } from "@/services/api/types"
+import * as storage from "@/utils/storage"
+
+import { ChunkedUploader, openFile, UPLOADS_STORAGE_KEY } from "./ChunkedUploader"
+import type { ChunkSource, UploadProgress } from "./types"
+import { createMockHttpAdapter, MockReply, MockRequest } from "../../../test/mockHttpAdapter"
+
+jest.mock("expo-file-system", () => ({
+  EncodingType: { Base64: "base64" },
+  getInfoAsync: jest.fn(),
+  readAsStringAsync: jest.fn(),
+}))
+
+const CHUNK_SIZE = 4
+
+const upload: PhotoUpload = {
+  clientId: "local-1",
+  uri: "file:///photos/1.jpg",
+  fileName: "1.jpg",
+  mimeType: "image/jpeg",
+  width: 4,
+  height: 3,
+  capturedAt: "2025-06-01T10:00:00.000Z",
+  tags: [],
+}
+
+const file = Uint8Array.from({ length: 10 }, (_, i) => i)
+
+const source = (bytes = file): ChunkSource => ({
+  size: bytes.length,
+  read: async (offset, length) => bytes.subarray(offset, offset + length),
+})
+
+/**
+ * A tiny version of the backend's resumable upload endpoints. `failChunk` makes one
+ * chunk fail with the given reply, `onChunk` sees every chunk as it arrives.
+ */
+function createUploadServer() {
+  const server = createMockHttpAdapter()
+  const sessions = new Map<string, Map<number, number[]>>()
+  const completed: number[][] = []
+  let nextId = 0
+  let failChunk: { index: number; reply: MockReply } | undefined
+  let onChunk: ((index: number) => void) | undefined
+
+  const sessionBody = (uploadId: string) => ({
+    uploadId,
+    chunkSize: CHUNK_SIZE,
+    receivedChunks: [...(sessions.get(uploadId)?.keys() ?? [])],
+  })
+
+  server.on("post", "uploads", () => {
+    const uploadId = `u${++nextId}`
+    sessions.set(uploadId, new Map())
+    return { status: 201, data: sessionBody(uploadId) }
+  })
+  server.on("get", /^uploads\/[^/]+$/, ({ path }) => {
+    const uploadId = path.split("/")[1]
+    return sessions.has(uploadId) ? { status: 200, data: sessionBody(uploadId) } : { status: 404 }
+  })
+  server.on("put", /^uploads\/[^/]+\/chunks\/\d+$/, ({ path, body }: MockRequest) => {
+    const [, uploadId, , index] = path.split("/")
+    onChunk?.(Number(index))
+    if (failChunk?.index === Number(index)) return failChunk.reply
+    sessions.get(uploadId)?.set(Number(index), [...new Uint8Array(body as ArrayBuffer)])
+    return { status: 204 }
+  })
+  server.on("post", /^uploads\/[^/]+\/complete$/, ({ path }) => {
+    const uploadId = path.split("/")[1]
+    const chunks = sessions.get(uploadId)
+    if (!chunks) return { status: 404 }
+    const bytes = [...chunks.keys()].sort((a, b) => a - b).flatMap((index) => chunks.get(index)!)
+    const photo: ApiPhoto = {
+      id: uploadId,
+      clientId: upload.clientId,
+      url: `https://cdn.test/${uploadId}.jpg`,
+      thumbnailUrl: `https://cdn.test/${uploadId}_thumb.jpg`,
+      width: upload.width,
+      height: upload.height,
+      bytes: bytes.length,
+      uploadedAt: "2025-06-01T10:00:05.000Z",
+    }
+    completed.push(bytes)
+    return { status: 200, data: photo }
+  })
+  server.on("delete", /^uploads\/[^/]+$/, ({ path }) => {
+    sessions.delete(path.split("/")[1])
+    return { status: 204 }
+  })
+
+  return {
+    server,
+    sessions,
+    completed,
+    failChunk: (index: number, reply: MockReply) => {
+      failChunk = { index, reply }
+    },
+    recover: () => {
+      failChunk = undefined
+    },
+    onChunk: (listener: (index: number) => void) => {
+      onChunk = listener
+    },
+  }
+}
+
+let backend: ReturnType<typeof createUploadServer>
+let api: Api
+
+const createUploader = (bytes = file) =>
+  new ChunkedUploader({ api, chunkSize: CHUNK_SIZE, openFile: async () => source(bytes) })
+
+const chunkPuts = () =>
+  backend.server.requests.filter((request) => request.method === "put").map((r) => r.path)
+
+beforeEach(() => {
+  storage.clear()
+  backend = createUploadServer()
+  api = new Api({
+    url: "https://api.test/v1/",
+    timeout: 1000,
+    adapter: backend.server.adapter,
+    queue: new RequestQueue(),
+  })
+})
+
+it("uploads a file in chunks", async () => {
+  const uploader = createUploader()
+
+  const result = await uploader.upload(upload).result
+
+  expect(result).toEqual({ kind: "ok", data: expect.objectContaining({ id: "u1", bytes: 10 }) })
+  expect(chunkPuts()).toEqual(["uploads/u1/chunks/0", "uploads/u1/chunks/1", "uploads/u1/chunks/2"])
+  expect(backend.completed).toEqual([[...file]])
+  expect(backend.server.requests[1].headers["content-range"]).toBe("bytes 0-3/10")
+  expect(uploader.pending()).toEqual([])
+})
+
+it("reports progress after every chunk", async () => {
+  const uploader = createUploader()
+  const progress: UploadProgress[] = []
+  uploader.subscribe((event) => progress.push(event))
+
+  await uploader.upload(upload).result
+
+  expect(progress.map(({ sentBytes, sentChunks }) => [sentBytes, sentChunks])).toEqual([
+    [4, 1],
+    [8, 2],
+    [10, 3],
+  ])
+  expect(progress[0]).toMatchObject({ clientId: "local-1", totalBytes: 10, totalChunks: 3 })
+})
+
+it("keeps its place when the connection drops and resumes after a restart", async () => {
+  backend.failChunk(1, "network-error")
+  const first = await createUploader().upload(upload).result
+
+  expect(first).toEqual({ kind: "cannot-connect", temporary: true })
+  expect(storage.load(UPLOADS_STORAGE_KEY)).toEqual({
+    "local-1": expect.objectContaining({ uploadId: "u1", acknowledged: [0] }),
+  })
+
+  backend.recover()
+  // a fresh uploader, as after an app restart
+  const restarted = createUploader()
+  expect(restarted.progress("local-1")).toMatchObject({ sentBytes: 4, sentChunks: 1 })
+  const [task] = restarted.resumeAll()
+
+  expect(await task.result).toEqual({ kind: "ok", data: expect.objectContaining({ id: "u1" }) })
+  expect(chunkPuts()).toEqual([
+    "uploads/u1/chunks/0",
+    "uploads/u1/chunks/1",
+    "uploads/u1/chunks/1",
+    "uploads/u1/chunks/2",
+  ])
+  expect(backend.completed).toEqual([[...file]])
+})
+
+it("trusts the server over its own records when resuming", async () => {
+  backend.failChunk(2, "timeout")
+  await createUploader().upload(upload).result
+  // the server lost chunk 1, say to a crash before it was stored
+  backend.sessions.get("u1")!.delete(1)
+  backend.recover()
+
+  await createUploader().upload(upload).result
+
+  expect(chunkPuts().slice(3)).toEqual(["uploads/u1/chunks/1", "uploads/u1/chunks/2"])
+  expect(backend.completed).toEqual([[...file]])
+})
+
+it("starts over when the server has forgotten the upload", async () => {
+  backend.failChunk(1, "network-error")
+  await createUploader().upload(upload).result
+  backend.sessions.clear()
+  backend.recover()
+
+  const result = await createUploader().upload(upload).result
+
+  expect(result).toEqual({ kind: "ok", data: expect.objectContaining({ id: "u2" }) })
+})
+
+it("starts over when the file changed size", async () => {
+  backend.failChunk(1, "network-error")
+  await createUploader().upload(upload).result
+  backend.recover()
+
+  const edited = Uint8Array.from({ length: 6 }, (_, i) => 100 + i)
+  const result = await createUploader(edited).upload(upload).result
+
+  expect(result).toEqual({ kind: "ok", data: expect.objectContaining({ id: "u2", bytes: 6 }) })
+  expect(backend.completed).toEqual([[...edited]])
+})
+
+it("drops uploads the server rejects", async () => {
+  backend.failChunk(0, { status: 413 })
+  const uploader = createUploader()
+
+  expect(await uploader.upload(upload).result).toEqual({ kind: "rejected" })
+  expect(uploader.pending()).toEqual([])
+})
+
+it("forgets a resumed upload whose file is gone", async () => {
+  backend.failChunk(1, "network-error")
+  await createUploader().upload(upload).result
+
+  const restarted = new ChunkedUploader({
+    api,
+    chunkSize: CHUNK_SIZE,
+    openFile: () => Promise.reject(new Error("no such file")),
+  })
+  const [task] = restarted.resumeAll()
+
+  expect(await task.result).toEqual({ kind: "not-found" })
+  expect(restarted.pending()).toEqual([])
+  expect(storage.load(UPLOADS_STORAGE_KEY)).toEqual({})
+})
+
+it("drops uploads whose file fails to read partway", async () => {
+  const uploader = new ChunkedUploader({
+    api,
+    chunkSize: CHUNK_SIZE,
+    openFile: async () => ({
+      size: file.length,
+      read: async (offset, length) => {
+        if (offset > 0) throw new Error("read failed")
+        return file.subarray(offset, offset + length)
+      },
+    }),
+  })
+
+  expect(await uploader.upload(upload).result).toEqual({ kind: "not-found" })
+  expect(uploader.pending()).toEqual([])
+})
+
+it("keeps the upload for later when something unexpected goes wrong", async () => {
+  const uploader = createUploader()
+  jest.spyOn(api, "completeUpload").mockRejectedValueOnce(new Error("boom"))
+
+  expect(await uploader.upload(upload).result).toEqual({ kind: "unknown", temporary: true })
+  expect(uploader.pending()).toEqual([expect.objectContaining({ uploadId: "u1" })])
+})
+
+it("returns the running task for a photo that's already uploading", () => {
+  const uploader = createUploader()
+  expect(uploader.upload(upload)).toBe(uploader.upload(upload))
+})
+
+it("cancels, here and on the server", async () => {
+  const uploader = createUploader()
+  const unsubscribe = uploader.subscribe(({ sentChunks }) => {
+    if (sentChunks === 1) task.cancel()
+  })
+  const task = uploader.upload(upload)
+
+  expect(await task.result).toEqual({ kind: "cancelled" })
+  unsubscribe()
+
+  expect(chunkPuts()).toEqual(["uploads/u1/chunks/0"])
+  expect(backend.server.requests.at(-1)).toMatchObject({ method: "delete", path: "uploads/u1" })
+  expect(backend.sessions.size).toBe(0)
+  expect(uploader.pending()).toEqual([])
+})
+
+it("cancels a chunk in flight", async () => {
+  backend.onChunk((index) => {
+    if (index === 1) task.cancel()
+  })
+  const task = createUploader().upload(upload)
+
+  expect(await task.result).toEqual({ kind: "cancelled" })
+  expect(chunkPuts()).toEqual(["uploads/u1/chunks/0", "uploads/u1/chunks/1"])
+  expect(backend.sessions.size).toBe(0)
+})
+
+it("discards a pending upload, here and on the server", async () => {
+  backend.failChunk(1, "network-error")
+  await createUploader().upload(upload).result
+
+  const restarted = createUploader()
+  expect(restarted.discard("local-1")).toBe(true)
+  expect(restarted.pending()).toEqual([])
+  expect(restarted.discard("local-1")).toBe(false)
+
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  expect(backend.sessions.size).toBe(0)
+})
+
+it("discards a running upload by cancelling it", async () => {
+  const uploader = createUploader()
+  const task = uploader.upload(upload)
+
+  expect(uploader.discard("local-1")).toBe(true)
+  expect(await task.result).toEqual({ kind: "cancelled" })
+  expect(uploader.pending()).toEqual([])
+})
+
+it("opens files by reading only the range asked for", async () => {
+  const bytes = Uint8Array.from({ length: 10 }, (_, i) => i * 20)
+  jest.mocked(FileSystem.getInfoAsync).mockResolvedValue({
+    exists: true,
+    uri: upload.uri,
+    size: 10,
+    isDirectory: false,
+    modificationTime: 0,
+  })
+  jest
+    .mocked(FileSystem.readAsStringAsync)
+    .mockImplementation(async (_uri, options) =>
+      btoa(
+        String.fromCharCode(
+          ...bytes.subarray(options!.position, options!.position! + options!.length!),
+        ),
+      ),
+    )
+
+  const opened = await openFile(upload.uri)
+
+  expect(opened.size).toBe(10)
+  expect(Array.from(await opened.read(4, 4))).toEqual([80, 100, 120, 140])
+  expect(FileSystem.readAsStringAsync).toHaveBeenCalledWith(upload.uri, {
+    encoding: "base64",
+    position: 4,
+    length: 4,
+  })
+})
+
+it("fails to open a file that isn't there", async () => {
+  jest
+    .mocked(FileSystem.getInfoAsync)
+    .mockResolvedValue({ exists: false, uri: upload.uri, isDirectory: false })
+
+  await expect(openFile(upload.uri)).rejects.toThrow()
+})
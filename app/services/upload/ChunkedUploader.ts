@@ -0,0 +1,299 @@
+import * as FileSystem from "expo-file-system"
+
+import { Api, api as defaultApi } from "@/services/api"
+import { isTemporaryProblem } from "@/services/api/retry"
+import type { PhotoUpload } from "@/services/api/types"
+import * as storage from "@/utils/storage"
+
+import type { ChunkSource, UploadProgress, UploadResult, UploadState, UploadTask } from "./types"
+
+export const UPLOADS_STORAGE_KEY = "pixassist.uploads"
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024
+
+export type UploadProgressListener = (progress: UploadProgress) => void
+
+export interface ChunkedUploaderOptions {
+  api?: Api
+  /**
+   * The chunk size to ask the server for.
+   */
+  chunkSize?: number
+  /**
+   * The storage key upload state is persisted under.
+   */
+  storageKey?: string
+  /**
+   * Opens a photo's file for reading. Handy to override in tests.
+   */
+  openFile?: (uri: string) => Promise<ChunkSource>
+}
+
+function fromBase64(text: string) {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * Reads a local file a range at a time. The file system only returns text, so each
+ * chunk travels as base64 and is decoded on its own.
+ */
+export async function openFile(uri: string): Promise<ChunkSource> {
+  const info = await FileSystem.getInfoAsync(uri, { size: true })
+  if (!info.exists || info.isDirectory) throw new Error(`No file at ${uri}`)
+  return {
+    size: info.size,
+    read: async (offset, length) =>
+      fromBase64(
+        await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position: offset,
+          length,
+        }),
+      ),
+  }
+}
+
+/**
+ * Uploads photos in chunks. Every chunk the server confirms is written to storage, so
+ * an upload interrupted by a dropped connection or an app restart resumes from the
+ * first missing chunk instead of starting over.
+ */
+export class ChunkedUploader {
+  private api: Api
+  private chunkSize: number
+  private storageKey: string
+  private openFile: (uri: string) => Promise<ChunkSource>
+  private states: Record<string, UploadState> | null = null
+  private tasks = new Map<string, UploadTask>()
+  private listeners = new Set<UploadProgressListener>()
+
+  constructor(options: ChunkedUploaderOptions = {}) {
+    this.api = options.api ?? defaultApi
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+    this.storageKey = options.storageKey ?? UPLOADS_STORAGE_KEY
+    this.openFile = options.openFile ?? openFile
+  }
+
+  /**
+   * Subscribes to progress, reported after every confirmed chunk. Returns an unsubscribe function.
+   */
+  subscribe(listener: UploadProgressListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Uploads that were started and haven't finished, including ones from before a restart.
+   */
+  pending(): UploadState[] {
+    return Object.values(this.load())
+  }
+
+  /**
+   * How far along an upload is, or undefined when there's nothing in progress for it.
+   */
+  progress(clientId: string): UploadProgress | undefined {
+    const state = this.load()[clientId]
+    return state && progressOf(state)
+  }
+
+  /**
+   * Starts uploading a photo, or resumes it if an earlier attempt got partway. Calling
+   * this again while the photo is uploading returns the running task.
+   */
+  upload(upload: PhotoUpload): UploadTask {
+    const running = this.tasks.get(upload.clientId)
+    if (running) return running
+
+    const controller = new AbortController()
+    const task: UploadTask = {
+      clientId: upload.clientId,
+      result: this.run(upload, controller.signal).finally(() => {
+        this.tasks.delete(upload.clientId)
+      }),
+      cancel: () => controller.abort(),
+    }
+    this.tasks.set(upload.clientId, task)
+    return task
+  }
+
+  /**
+   * Resumes every pending upload. Call once the app has started.
+   */
+  resumeAll(): UploadTask[] {
+    return this.pending().map((state) => this.upload(state.upload))
+  }
+
+  /**
+   * Drops a photo's upload, running or pending, here and on the server. For photos
+   * that are gone from the library. Returns whether there was anything to drop.
+   */
+  discard(clientId: string): boolean {
+    const running = this.tasks.get(clientId)
+    if (running) {
+      running.cancel()
+      return true
+    }
+    const state = this.load()[clientId]
+    if (!state) return false
+    // best effort; the server expires abandoned sessions anyway
+    this.api.cancelUpload(state.uploadId)
+    this.forget(clientId)
+    return true
+  }
+
+  /**
+   * Runs an upload to the end. Never rejects: whatever goes wrong on the way ends up
+   * as a problem in the result.
+   */
+  private async run(upload: PhotoUpload, signal: AbortSignal): Promise<UploadResult> {
+    try {
+      return await this.send(upload, signal)
+    } catch {
+      if (signal.aborted) return this.cancelled(upload.clientId)
+      return this.finish(upload.clientId, { kind: "unknown", temporary: true })
+    }
+  }
+
+  private async send(upload: PhotoUpload, signal: AbortSignal): Promise<UploadResult> {
+    const { clientId } = upload
+    // a file that can't be read is gone or broken; trying again won't help
+    const source = await this.openFile(upload.uri).catch(() => null)
+    if (signal.aborted) return this.cancelled(clientId)
+    if (!source) return this.finish(clientId, { kind: "not-found" })
+
+    const session = await this.session(upload, source.size)
+    if (signal.aborted) return this.cancelled(clientId)
+    if (session.kind !== "ok") return this.finish(clientId, session)
+    const state = session.data
+
+    for (let index = 0; index < totalChunks(state); index++) {
+      if (state.acknowledged.includes(index)) continue
+      const offset = index * state.chunkSize
+      const chunk = await source
+        .read(offset, Math.min(state.chunkSize, state.bytes - offset))
+        .catch(() => null)
+      if (!chunk) return this.finish(clientId, { kind: "not-found" })
+      const result = await this.api.uploadChunk(
+        state.uploadId,
+        index,
+        offset,
+        state.bytes,
+        chunk,
+        signal,
+      )
+      if (signal.aborted) return this.cancelled(clientId)
+      if (result.kind !== "ok") return this.finish(clientId, result)
+
+      state.acknowledged.push(index)
+      this.persist()
+      const progress = progressOf(state)
+      this.listeners.forEach((listener) => listener(progress))
+    }
+
+    const result = await this.api.completeUpload(state.uploadId)
+    if (signal.aborted) return this.cancelled(clientId)
+    return this.finish(clientId, result)
+  }
+
+  /**
+   * The stored state for a resumed upload, reconciled with what the server actually
+   * has, or a new session.
+   */
+  private async session(upload: PhotoUpload, bytes: number) {
+    const states = this.load()
+    const stored = states[upload.clientId]
+
+    // a different size means the file changed since; its chunks are useless
+    if (stored && stored.bytes === bytes) {
+      const result = await this.api.getUploadSession(stored.uploadId)
+      if (result.kind === "ok") {
+        stored.acknowledged = result.data.receivedChunks
+        this.persist()
+        return { kind: "ok" as const, data: stored }
+      }
+      if (result.kind !== "not-found") return result
+    }
+
+    const { uri: _uri, ...metadata } = upload
+    const result = await this.api.createUploadSession({
+      ...metadata,
+      bytes,
+      chunkSize: this.chunkSize,
+    })
+    if (result.kind !== "ok") return result
+
+    const state: UploadState = {
+      upload,
+      uploadId: result.data.uploadId,
+      bytes,
+      chunkSize: result.data.chunkSize,
+      acknowledged: result.data.receivedChunks,
+    }
+    states[upload.clientId] = state
+    this.persist()
+    return { kind: "ok" as const, data: state }
+  }
+
+  private finish(clientId: string, result: UploadResult): UploadResult {
+    // temporary problems keep the state around for the next attempt
+    if (result.kind === "cancelled" || !isTemporaryProblem(result)) this.forget(clientId)
+    return result
+  }
+
+  private cancelled(clientId: string): UploadResult {
+    const state = this.load()[clientId]
+    // best effort; the server expires abandoned sessions anyway
+    if (state) this.api.cancelUpload(state.uploadId)
+    this.forget(clientId)
+    return { kind: "cancelled" }
+  }
+
+  private forget(clientId: string) {
+    const states = this.load()
+    if (!states[clientId]) return
+    delete states[clientId]
+    this.persist()
+  }
+
+  private load(): Record<string, UploadState> {
+    if (!this.states) {
+      const stored = storage.load<Record<string, UploadState>>(this.storageKey)
+      this.states = stored && typeof stored === "object" ? stored : {}
+    }
+    return this.states
+  }
+
+  private persist() {
+    storage.save(this.storageKey, this.states ?? {})
+  }
+}
+
+function totalChunks(state: UploadState) {
+  return Math.max(1, Math.ceil(state.bytes / state.chunkSize))
+}
+
+function progressOf(state: UploadState): UploadProgress {
+  const total = totalChunks(state)
+  const last = total - 1
+  const sentBytes = state.acknowledged.reduce(
+    // every chunk is full size except, possibly, the last one
+    (sum, index) => sum + (index === last ? state.bytes - last * state.chunkSize : state.chunkSize),
+    0,
+  )
+  return {
+    clientId: state.upload.clientId,
+    sentBytes,
+    totalBytes: state.bytes,
+    sentChunks: state.acknowledged.length,
+    totalChunks: total,
+  }
+}
+
+// Singleton instance of the uploader for convenience
+export const uploader = new ChunkedUploader()
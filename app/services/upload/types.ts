@@ -0,0 +1,47 @@
+import type { ApiPhoto, ApiResult, PhotoUpload } from "@/services/api/types"
+
+/**
+ * Random access to the bytes of a file, so the uploader only ever holds one chunk.
+ */
+export interface ChunkSource {
+  size: number
+  read(offset: number, length: number): Promise<Uint8Array>
+}
+
+/**
+ * What the uploader persists for an upload in progress, so it can pick up where it
+ * left off after the app restarts.
+ */
+export interface UploadState {
+  upload: PhotoUpload
+  uploadId: string
+  bytes: number
+  chunkSize: number
+  /**
+   * Chunks the server confirmed, in the order they were confirmed.
+   */
+  acknowledged: number[]
+}
+
+export interface UploadProgress {
+  clientId: string
+  sentBytes: number
+  totalBytes: number
+  sentChunks: number
+  totalChunks: number
+}
+
+/**
+ * How an upload ended. A temporary problem leaves the upload persisted for `resume`;
+ * anything else clears it.
+ */
+export type UploadResult = ApiResult<ApiPhoto> | { kind: "cancelled" }
+
+export interface UploadTask {
+  clientId: string
+  result: Promise<UploadResult>
+  /**
+   * Stops sending and drops the upload, here and on the server.
+   */
+  cancel(): void
+}
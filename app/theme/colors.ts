@@ -82,4 +82,23 @@ export const colors = {
    * Error Background.
    */
   errorBackground: palette.angry100,
+  /**
+   * Backdrop behind the camera preview. Stays dark in both themes.
+   */
+  cameraBackground: palette.neutral900,
+  /**
+   * Controls and text drawn over the camera preview. Stays light in both themes.
+   */
+  cameraForeground: palette.neutral100,
+  /**
+   * Histogram traces drawn over the camera preview.
+   */
+  histogramLuminance: "rgba(255, 255, 255, 0.8)",
+  histogramRed: "rgba(255, 82, 82, 0.7)",
+  histogramGreen: "rgba(76, 217, 100, 0.7)",
+  histogramBlue: "rgba(64, 156, 255, 0.7)",
+  /**
+   * Level indicators once the device is within tolerance.
+   */
+  levelAligned: "#4CD964",
 } as const
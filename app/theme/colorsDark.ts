@@ -47,4 +47,11 @@ export const colors = {
   separator: palette.neutral300,
   error: palette.angry500,
   errorBackground: palette.angry100,
+  cameraBackground: palette.neutral100,
+  cameraForeground: palette.neutral900,
+  histogramLuminance: "rgba(255, 255, 255, 0.8)",
+  histogramRed: "rgba(255, 82, 82, 0.7)",
+  histogramGreen: "rgba(76, 217, 100, 0.7)",
+  histogramBlue: "rgba(64, 156, 255, 0.7)",
+  levelAligned: "#4CD964",
 } as const
@@ -13,9 +13,8 @@ import {
   DefaultTheme as NavDefaultTheme,
   Theme as NavTheme,
 } from "@react-navigation/native"
-import { useMMKVString } from "react-native-mmkv"
 
-import { storage } from "@/utils/storage"
+import { useSetting } from "@/services/settings"
 
 import { setImperativeTheming } from "./context.utils"
 import { darkTheme, lightTheme } from "./theme"
@@ -57,8 +56,9 @@ export const ThemeProvider: FC<PropsWithChildren<ThemeProviderProps>> = ({
 }) => {
   // The operating system theme:
   const systemColorScheme = useColorScheme()
-  // Our saved theme context: can be "light", "dark", or undefined (system theme)
-  const [themeScheme, setThemeScheme] = useMMKVString("ignite.themeScheme", storage)
+  // Our saved theme setting: can be "light", "dark", or "system"
+  const [themeSetting, setThemeSetting] = useSetting("appearance.theme")
+  const themeScheme = themeSetting === "system" ? undefined : themeSetting
 
   /**
    * This function is used to set the theme context and is exported from the useAppTheme() hook.
@@ -68,14 +68,14 @@ export const ThemeProvider: FC<PropsWithChildren<ThemeProviderProps>> = ({
    */
   const setThemeContextOverride = useCallback(
     (newTheme: ThemeContextModeT) => {
-      setThemeScheme(newTheme)
+      setThemeSetting(newTheme ?? "system")
     },
-    [setThemeScheme],
+    [setThemeSetting],
   )
 
   /**
    * initialContext is the theme context passed in from the app.tsx file and always takes precedence.
-   * themeScheme is the value from MMKV. If undefined, we fall back to the system theme
+   * themeScheme is the saved theme setting. If undefined, we fall back to the system theme
    * systemColorScheme is the value from the device. If undefined, we fall back to "light"
    */
   const themeContext: ImmutableThemeContextModeT = useMemo(() => {
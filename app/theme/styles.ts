@@ -5,6 +5,7 @@ export const $styles = {
   row: { flexDirection: "row" } as ViewStyle,
   flex1: { flex: 1 } as ViewStyle,
   flexWrap: { flexWrap: "wrap" } as ViewStyle,
+  absoluteFill: { position: "absolute", top: 0, left: 0, right: 0, bottom: 0 } as ViewStyle,
 
   toggleInner: {
     width: "100%",
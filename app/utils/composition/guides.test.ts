@@ -0,0 +1,129 @@
+import {
+  compositionGuideShapes,
+  GuideShape,
+  isCompositionGuide,
+  nextCompositionGuide,
+  PHI,
+} from "./guides"
+
+type Line = Extract<GuideShape, { type: "line" }>
+
+const lines = (shapes: GuideShape[]) =>
+  shapes.filter((shape): shape is Line => shape.type === "line")
+
+/**
+ * Pulls the start point and every arc out of a spiral path.
+ */
+function parseSpiral(d: string) {
+  const [, mx, my] = d.match(/^M([\d.-]+),([\d.-]+)/)!.map(Number)
+  const arcs = Array.from(d.matchAll(/A([\d.-]+),([\d.-]+) 0 0 ([01]) ([\d.-]+),([\d.-]+)/g)).map(
+    ([, rx, ry, sweep, x, y]) => ({
+      rx: Number(rx),
+      ry: Number(ry),
+      sweep: Number(sweep),
+      x: Number(x),
+      y: Number(y),
+    }),
+  )
+  return { start: { x: mx, y: my }, arcs }
+}
+
+describe("compositionGuideShapes", () => {
+  it("draws nothing for 'none' or an unmeasured frame", () => {
+    expect(compositionGuideShapes("none", 300, 200)).toEqual([])
+    expect(compositionGuideShapes("thirds", 0, 0)).toEqual([])
+  })
+
+  it("splits the frame into thirds", () => {
+    const shapes = lines(compositionGuideShapes("thirds", 300, 600))
+
+    expect(shapes).toHaveLength(4)
+    expect(shapes.filter((line) => line.x1 === line.x2).map((line) => line.x1)).toEqual([100, 200])
+    expect(shapes.filter((line) => line.y1 === line.y2).map((line) => line.y1)).toEqual([200, 400])
+  })
+
+  it("puts the golden ratio lines at 0.382 and 0.618", () => {
+    const shapes = lines(compositionGuideShapes("goldenRatio", 1000, 1000))
+    const verticals = shapes.filter((line) => line.x1 === line.x2).map((line) => line.x1)
+
+    expect(verticals[0]).toBeCloseTo(381.97, 1)
+    expect(verticals[1]).toBeCloseTo(618.03, 1)
+  })
+
+  it("connects opposite corners for the diagonals", () => {
+    expect(compositionGuideShapes("diagonals", 40, 30)).toEqual([
+      { type: "line", x1: 0, y1: 0, x2: 40, y2: 30 },
+      { type: "line", x1: 40, y1: 0, x2: 0, y2: 30 },
+    ])
+  })
+
+  it("centers the cross and sizes it from the shorter side", () => {
+    const [horizontal, vertical] = lines(
+      compositionGuideShapes("centerCross", 400, 200, { crossSize: 0.1 }),
+    )
+
+    expect(horizontal).toMatchObject({ x1: 180, x2: 220, y1: 100, y2: 100 })
+    expect(vertical).toMatchObject({ x1: 200, x2: 200, y1: 80, y2: 120 })
+  })
+
+  describe("golden spiral", () => {
+    const width = Math.round(PHI * 1000) / 10
+    const height = 100
+
+    it("unwinds from the bottom-left along a landscape frame", () => {
+      const [shape] = compositionGuideShapes("goldenSpiral", width, height)
+      const { start, arcs } = parseSpiral((shape as { d: string }).d)
+
+      expect(start).toEqual({ x: 0, y: 100 })
+      // the first arc sweeps through the square cut off the left side
+      expect(arcs[0]).toMatchObject({ x: 100, y: 0, rx: 100, ry: 100, sweep: 1 })
+      // and each arc after that shrinks by the golden ratio
+      expect(arcs[1].rx).toBeCloseTo(100 / PHI, 1)
+      expect(arcs[2].rx).toBeCloseTo(100 / PHI ** 2, 1)
+    })
+
+    it("stays inside the frame", () => {
+      const [shape] = compositionGuideShapes("goldenSpiral", width, height)
+      const { arcs } = parseSpiral((shape as { d: string }).d)
+
+      arcs.forEach(({ x, y }) => {
+        expect(x).toBeGreaterThanOrEqual(0)
+        expect(x).toBeLessThanOrEqual(width)
+        expect(y).toBeGreaterThanOrEqual(0)
+        expect(y).toBeLessThanOrEqual(height)
+      })
+    })
+
+    it("follows the long side of a portrait frame", () => {
+      const [shape] = compositionGuideShapes("goldenSpiral", height, width)
+      const { start, arcs } = parseSpiral((shape as { d: string }).d)
+
+      expect(start).toEqual({ x: 0, y: 0 })
+      expect(arcs[0]).toMatchObject({ x: 100, y: 100, rx: 100, ry: 100 })
+    })
+
+    it("mirrors horizontally and turns the other way", () => {
+      const [shape] = compositionGuideShapes("goldenSpiral", width, height, { mirrored: true })
+      const { start, arcs } = parseSpiral((shape as { d: string }).d)
+
+      expect(start).toEqual({ x: width, y: 100 })
+      expect(arcs[0].x).toBeCloseTo(width - 100, 1)
+      expect(arcs.every((arc) => arc.sweep === 0)).toBe(true)
+    })
+  })
+})
+
+describe("nextCompositionGuide", () => {
+  it("cycles through every guide and back to none", () => {
+    expect(nextCompositionGuide("none")).toBe("thirds")
+    expect(nextCompositionGuide("centerCross")).toBe("none")
+  })
+})
+
+describe("isCompositionGuide", () => {
+  it("accepts known guides only", () => {
+    expect(isCompositionGuide("goldenSpiral")).toBe(true)
+    expect(isCompositionGuide("fibonacci")).toBe(false)
+    expect(isCompositionGuide(undefined)).toBe(false)
+  })
+})
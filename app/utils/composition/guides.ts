@@ -0,0 +1,161 @@
+export const COMPOSITION_GUIDES = [
+  "none",
+  "thirds",
+  "goldenRatio",
+  "goldenSpiral",
+  "diagonals",
+  "centerCross",
+] as const
+
+export type CompositionGuideType = (typeof COMPOSITION_GUIDES)[number]
+
+export type GuideShape =
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "path"; d: string }
+
+export interface GuideOptions {
+  /**
+   * Flip the guide horizontally. Only asymmetric guides (the spiral) are affected.
+   */
+  mirrored?: boolean
+  /**
+   * Length of each arm of the center cross, as a fraction of the shorter side. Default: 0.08
+   */
+  crossSize?: number
+}
+
+export const PHI = (1 + Math.sqrt(5)) / 2
+
+/**
+ * Checks whether a stored value is one of the guides we know how to draw.
+ */
+export function isCompositionGuide(value: unknown): value is CompositionGuideType {
+  return typeof value === "string" && (COMPOSITION_GUIDES as readonly string[]).includes(value)
+}
+
+/**
+ * Returns the guide after `guide` in `COMPOSITION_GUIDES`, wrapping around to "none".
+ */
+export function nextCompositionGuide(guide: CompositionGuideType): CompositionGuideType {
+  const index = COMPOSITION_GUIDES.indexOf(guide)
+  return COMPOSITION_GUIDES[(index + 1) % COMPOSITION_GUIDES.length]
+}
+
+/**
+ * Computes the lines and curves of a composition guide for a frame of the given size.
+ * The shapes follow the frame's orientation: the golden spiral always unwinds along
+ * the longer side.
+ *
+ * @param guide Which guide to draw.
+ * @param width Frame width, in whatever unit the shapes should be in.
+ * @param height Frame height.
+ * @param options Mirroring and cross size.
+ */
+export function compositionGuideShapes(
+  guide: CompositionGuideType,
+  width: number,
+  height: number,
+  options: GuideOptions = {},
+): GuideShape[] {
+  if (width <= 0 || height <= 0) return []
+
+  switch (guide) {
+    case "none":
+      return []
+    case "thirds":
+      return gridLines([1 / 3, 2 / 3], width, height)
+    case "goldenRatio":
+      return gridLines([1 - 1 / PHI, 1 / PHI], width, height)
+    case "diagonals":
+      return [
+        { type: "line", x1: 0, y1: 0, x2: width, y2: height },
+        { type: "line", x1: width, y1: 0, x2: 0, y2: height },
+      ]
+    case "centerCross": {
+      const arm = Math.min(width, height) * (options.crossSize ?? 0.08)
+      const cx = width / 2
+      const cy = height / 2
+      return [
+        { type: "line", x1: cx - arm, y1: cy, x2: cx + arm, y2: cy },
+        { type: "line", x1: cx, y1: cy - arm, x2: cx, y2: cy + arm },
+      ]
+    }
+    case "goldenSpiral":
+      return [{ type: "path", d: goldenSpiralPath(width, height, options.mirrored ?? false) }]
+  }
+}
+
+function gridLines(fractions: number[], width: number, height: number): GuideShape[] {
+  return [
+    ...fractions.map(
+      (f): GuideShape => ({ type: "line", x1: width * f, y1: 0, x2: width * f, y2: height }),
+    ),
+    ...fractions.map(
+      (f): GuideShape => ({ type: "line", x1: 0, y1: height * f, x2: width, y2: height * f }),
+    ),
+  ]
+}
+
+const SPIRAL_TURNS = 10
+
+/**
+ * Builds the spiral in a golden rectangle (PHI x 1, or 1 x PHI in portrait) by
+ * repeatedly cutting a square off the remaining rectangle - left, top, right, bottom -
+ * and drawing a quarter circle in each. The result is then stretched onto the frame,
+ * so on frames that aren't golden the arcs become elliptical.
+ */
+function goldenSpiralPath(width: number, height: number, mirrored: boolean) {
+  const landscape = width >= height
+  let x = 0
+  let y = 0
+  let w = landscape ? PHI : 1
+  let h = landscape ? 1 : PHI
+  const scaleX = width / w
+  const scaleY = height / h
+
+  const px = (value: number) => round(mirrored ? width - value * scaleX : value * scaleX)
+  const py = (value: number) => round(value * scaleY)
+  // mirroring reverses the direction the spiral turns in
+  const sweep = mirrored ? 0 : 1
+
+  // portrait frames start by cutting the top square so the spiral still follows the long side
+  let side = landscape ? 0 : 1
+  let d = landscape ? `M${px(x)},${py(y + h)}` : `M${px(x)},${py(y)}`
+
+  for (let turn = 0; turn < SPIRAL_TURNS; turn++) {
+    let end: [number, number]
+    let s: number
+    switch (side) {
+      case 0: // left
+        s = h
+        end = [x + s, y]
+        x += s
+        w -= s
+        break
+      case 1: // top
+        s = w
+        end = [x + s, y + s]
+        y += s
+        h -= s
+        break
+      case 2: // right
+        s = h
+        end = [x + w - s, y + s]
+        w -= s
+        break
+      default: // bottom
+        s = w
+        end = [x, y + h - s]
+        h -= s
+        break
+    }
+    d += `A${round(s * scaleX)},${round(s * scaleY)} 0 0 ${sweep} ${px(end[0])},${py(end[1])}`
+    side = (side + 1) % 4
+  }
+
+  return d
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100
+}
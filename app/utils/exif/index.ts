@@ -0,0 +1,7 @@
+export * from "./types"
+export * from "./tags"
+export { readPhotoMetadata, parseDateTime } from "./reader"
+export { parseTiff, decodeEntry } from "./tiff"
+export type { IfdEntry, TiffData, ExifValue } from "./tiff"
+export { rewriteExif, stripMetadata, SHARE_REWRITE_OPTIONS } from "./writer"
+export type { ExifRewriteOptions, ExifTagWrite } from "./writer"
@@ -0,0 +1,143 @@
+/**
+ * Just enough JPEG parsing to find the metadata segments. Nothing here decodes pixels.
+ */
+
+export const SOI = 0xd8
+export const EOI = 0xd9
+export const SOS = 0xda
+export const APP1 = 0xe1
+
+/**
+ * The six bytes ("Exif\0\0") that open an APP1 segment holding EXIF data.
+ */
+export const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]
+
+// Start-of-frame markers that carry the image dimensions (C4, C8 and CC are not frames)
+const SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+])
+
+export interface JpegSegment {
+  /**
+   * The second byte of the marker, e.g. 0xe1 for APP1.
+   */
+  marker: number
+  /**
+   * Offset of the 0xff byte that starts this segment.
+   */
+  offset: number
+  /**
+   * The segment payload, not including the marker or the length field.
+   */
+  data: Uint8Array
+}
+
+export interface JpegStructure {
+  /**
+   * Every segment between SOI and the first SOS, in file order.
+   */
+  segments: JpegSegment[]
+  /**
+   * Offset of the SOS marker. Everything from here on is compressed image data.
+   */
+  scanOffset: number
+}
+
+export function toUint8Array(input: ArrayBuffer | Uint8Array): Uint8Array {
+  return input instanceof Uint8Array ? input : new Uint8Array(input)
+}
+
+export function isJpeg(bytes: Uint8Array) {
+  return bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === SOI
+}
+
+/**
+ * Splits a JPEG into its header segments. Returns null when the bytes aren't a
+ * JPEG or the header is truncated.
+ */
+export function readJpegStructure(bytes: Uint8Array): JpegStructure | null {
+  if (!isJpeg(bytes)) return null
+
+  const segments: JpegSegment[] = []
+  let offset = 2
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+
+    // fill bytes: any number of 0xff may precede a marker
+    if (marker === 0xff) {
+      offset += 1
+      continue
+    }
+    if (marker === SOS || marker === EOI) return { segments, scanOffset: offset }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const end = offset + 2 + length
+    if (length < 2 || end > bytes.length) return null
+
+    segments.push({ marker, offset, data: bytes.subarray(offset + 4, end) })
+    offset = end
+  }
+
+  return null
+}
+
+export function isExifSegment(segment: JpegSegment) {
+  return (
+    segment.marker === APP1 &&
+    segment.data.length >= EXIF_HEADER.length &&
+    EXIF_HEADER.every((byte, i) => segment.data[i] === byte)
+  )
+}
+
+/**
+ * Returns the TIFF payload of the EXIF APP1 segment, or null if there isn't one.
+ */
+export function findExifPayload(structure: JpegStructure): Uint8Array | null {
+  const segment = structure.segments.find(isExifSegment)
+  return segment ? segment.data.subarray(EXIF_HEADER.length) : null
+}
+
+/**
+ * Reads the pixel dimensions from the start-of-frame segment.
+ */
+export function readFrameSize(structure: JpegStructure): { width: number; height: number } | null {
+  const frame = structure.segments.find((segment) => SOF_MARKERS.has(segment.marker))
+  if (!frame || frame.data.length < 5) return null
+  return {
+    height: (frame.data[1] << 8) | frame.data[2],
+    width: (frame.data[3] << 8) | frame.data[4],
+  }
+}
+
+/**
+ * Reassembles a JPEG from header segments plus the compressed data of the original
+ * file, which is copied untouched from `scanOffset` onwards.
+ */
+export function writeJpeg(
+  original: Uint8Array,
+  scanOffset: number,
+  segments: Pick<JpegSegment, "marker" | "data">[],
+): Uint8Array {
+  const scan = original.subarray(scanOffset)
+  const size = 2 + segments.reduce((total, segment) => total + 4 + segment.data.length, 0)
+  const out = new Uint8Array(size + scan.length)
+
+  out[0] = 0xff
+  out[1] = SOI
+  let offset = 2
+  for (const segment of segments) {
+    const length = segment.data.length + 2
+    if (length > 0xffff)
+      throw new Error(`JPEG segment 0x${segment.marker.toString(16)} is too large`)
+    out[offset] = 0xff
+    out[offset + 1] = segment.marker
+    out[offset + 2] = length >> 8
+    out[offset + 3] = length & 0xff
+    out.set(segment.data, offset + 4)
+    offset += 4 + segment.data.length
+  }
+  out.set(scan, offset)
+  return out
+}
@@ -0,0 +1,141 @@
+import { parseDateTime, readPhotoMetadata } from "./reader"
+import { loadFixture } from "../../../test/fixtures"
+
+describe("readPhotoMetadata", () => {
+  it("reads a little-endian EXIF block", () => {
+    const metadata = readPhotoMetadata(loadFixture("exif-little-endian.jpg"))
+
+    expect(metadata).toEqual({
+      byteOrder: "little-endian",
+      make: "PixCam",
+      model: "PX-1",
+      software: "PX-1 Firmware 1.0",
+      orientation: 6,
+      width: 4032,
+      height: 3024,
+      lensModel: "PX-1 back camera 4.2mm f/1.8",
+      exposureTime: 1 / 250,
+      fNumber: 1.8,
+      iso: 200,
+      exposureBias: -1 / 3,
+      focalLength: 4.2,
+      focalLengthIn35mm: 26,
+      flashFired: false,
+      whiteBalance: "auto",
+      dateTime: {
+        local: "2024-05-01T18:30:05",
+        offset: "+02:00",
+        utc: "2024-05-01T16:30:05.000Z",
+      },
+      dateTimeOriginal: {
+        local: "2024-05-01T18:30:00.120",
+        offset: "+02:00",
+        utc: "2024-05-01T16:30:00.120Z",
+      },
+      dateTimeDigitized: { local: "2024-05-01T18:30:00" },
+      gps: {
+        latitude: expect.closeTo(48.8581, 4),
+        longitude: expect.closeTo(2.2945, 4),
+        altitude: 35,
+        timestamp: "2024-05-01T16:30:00.000Z",
+      },
+      hasMakerNote: true,
+      hasThumbnail: true,
+    })
+  })
+
+  it("reads a big-endian EXIF block that follows a JFIF segment", () => {
+    const metadata = readPhotoMetadata(loadFixture("exif-big-endian.jpg"))
+
+    expect(metadata).toMatchObject({
+      byteOrder: "big-endian",
+      make: "Canon",
+      // trailing padding is trimmed
+      model: "Canon EOS R6",
+      orientation: 1,
+      lensMake: "Canon",
+      lensModel: "RF50mm F1.8 STM",
+      exposureTime: 1 / 60,
+      fNumber: 4,
+      iso: 3200,
+      focalLength: 50,
+      flashFired: true,
+      whiteBalance: "manual",
+      // no offset was recorded, so there is no absolute time
+      dateTimeOriginal: { local: "2023-12-24T23:59:59" },
+      hasMakerNote: false,
+      hasThumbnail: false,
+    })
+  })
+
+  it("falls back to the frame header for dimensions", () => {
+    expect(readPhotoMetadata(loadFixture("exif-big-endian.jpg"))).toMatchObject({
+      width: 8,
+      height: 8,
+    })
+  })
+
+  it("signs southern, western and below-sea-level GPS positions", () => {
+    const { gps } = readPhotoMetadata(loadFixture("exif-big-endian.jpg"))!
+    expect(gps?.latitude).toBeCloseTo(-(22 + 54 / 60 + 30 / 3600), 6)
+    expect(gps?.longitude).toBeCloseTo(-(43 + 10 / 60 + 45 / 3600), 6)
+    expect(gps?.altitude).toBe(-5)
+    expect(gps?.timestamp).toBeUndefined()
+  })
+
+  it("accepts an ArrayBuffer", () => {
+    const bytes = loadFixture("exif-little-endian.jpg")
+    const buffer = new ArrayBuffer(bytes.byteLength)
+    new Uint8Array(buffer).set(bytes)
+    expect(readPhotoMetadata(buffer)?.make).toBe("PixCam")
+  })
+
+  it("returns null without EXIF data", () => {
+    expect(readPhotoMetadata(loadFixture("no-exif.jpg"))).toBeNull()
+  })
+
+  it("returns null for anything that isn't a JPEG", () => {
+    expect(readPhotoMetadata(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull()
+    expect(readPhotoMetadata(new Uint8Array())).toBeNull()
+  })
+
+  it("survives a truncated file", () => {
+    const bytes = loadFixture("exif-little-endian.jpg")
+    expect(readPhotoMetadata(bytes.subarray(0, 60))).toBeNull()
+  })
+
+  it("skips entries that point outside the EXIF block", () => {
+    const bytes = loadFixture("exif-little-endian.jpg").slice()
+    // SOI, APP1 marker, APP1 length and "Exif\0\0" come before the TIFF header
+    const tiffStart = 2 + 2 + 2 + 6
+    // IFD0 starts at TIFF offset 8; its first entry (Make) keeps its value behind an offset
+    const view = new DataView(bytes.buffer)
+    view.setUint32(tiffStart + 8 + 2 + 8, 0xffffff, true)
+
+    const metadata = readPhotoMetadata(bytes)
+    expect(metadata?.make).toBeUndefined()
+    expect(metadata?.model).toBe("PX-1")
+  })
+})
+
+describe("parseDateTime", () => {
+  it("handles negative offsets that cross midnight", () => {
+    expect(parseDateTime("2024:01:01 20:00:00", undefined, "-05:30")).toEqual({
+      local: "2024-01-01T20:00:00",
+      offset: "-05:30",
+      utc: "2024-01-02T01:30:00.000Z",
+    })
+  })
+
+  it("ignores empty and zeroed dates", () => {
+    expect(parseDateTime(undefined)).toBeUndefined()
+    expect(parseDateTime("0000:00:00 00:00:00")).toBeUndefined()
+    expect(parseDateTime("    :  :     :  :  ")).toBeUndefined()
+  })
+
+  it("ignores malformed offsets", () => {
+    expect(parseDateTime("2024:01:01 20:00:00", "5", "UTC")).toEqual({
+      local: "2024-01-01T20:00:00.500",
+    })
+  })
+})
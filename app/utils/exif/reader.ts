@@ -0,0 +1,191 @@
+import { findExifPayload, readFrameSize, readJpegStructure, toUint8Array } from "./jpeg"
+import { Tag } from "./tags"
+import { decodeEntry, IfdEntry, parseTiff, readNumbers, readRationals } from "./tiff"
+import type { ExifDateTime, GpsPosition, Orientation, PhotoMetadata } from "./types"
+
+/**
+ * Reads the EXIF metadata of a JPEG.
+ *
+ * Returns null when the bytes are not a JPEG or carry no readable EXIF block.
+ * Malformed individual tags are skipped rather than failing the whole read.
+ *
+ * @param input The JPEG file contents.
+ */
+export function readPhotoMetadata(input: ArrayBuffer | Uint8Array): PhotoMetadata | null {
+  const bytes = toUint8Array(input)
+  const structure = readJpegStructure(bytes)
+  if (!structure) return null
+
+  const payload = findExifPayload(structure)
+  const tiff = payload && parseTiff(payload)
+  if (!tiff) return null
+
+  const { littleEndian } = tiff
+  const ifd0 = fieldReader(tiff.ifd0, littleEndian)
+  const exif = fieldReader(tiff.exif, littleEndian)
+  const frameSize = readFrameSize(structure)
+
+  const orientation = ifd0.number(Tag.Orientation)
+  const flash = exif.number(Tag.Flash)
+  const whiteBalance = exif.number(Tag.WhiteBalance)
+
+  const metadata: PhotoMetadata = {
+    byteOrder: littleEndian ? "little-endian" : "big-endian",
+    make: ifd0.string(Tag.Make),
+    model: ifd0.string(Tag.Model),
+    software: ifd0.string(Tag.Software),
+    description: ifd0.string(Tag.ImageDescription),
+    artist: ifd0.string(Tag.Artist),
+    orientation:
+      orientation !== undefined && orientation >= 1 && orientation <= 8
+        ? (orientation as Orientation)
+        : undefined,
+    width: exif.number(Tag.PixelXDimension) ?? frameSize?.width,
+    height: exif.number(Tag.PixelYDimension) ?? frameSize?.height,
+    lensMake: exif.string(Tag.LensMake),
+    lensModel: exif.string(Tag.LensModel),
+    exposureTime: exif.number(Tag.ExposureTime),
+    fNumber: exif.number(Tag.FNumber),
+    iso: exif.number(Tag.Iso),
+    exposureBias: exif.number(Tag.ExposureBias),
+    focalLength: exif.number(Tag.FocalLength),
+    focalLengthIn35mm: exif.number(Tag.FocalLengthIn35mm),
+    // bit 0 of the Flash tag is "flash fired"
+    flashFired: flash !== undefined ? (flash & 1) === 1 : undefined,
+    whiteBalance: whiteBalance === undefined ? undefined : whiteBalance === 1 ? "manual" : "auto",
+    dateTime: parseDateTime(
+      ifd0.string(Tag.DateTime),
+      exif.string(Tag.SubSecTime),
+      exif.string(Tag.OffsetTime),
+    ),
+    dateTimeOriginal: parseDateTime(
+      exif.string(Tag.DateTimeOriginal),
+      exif.string(Tag.SubSecTimeOriginal),
+      exif.string(Tag.OffsetTimeOriginal),
+    ),
+    dateTimeDigitized: parseDateTime(
+      exif.string(Tag.DateTimeDigitized),
+      exif.string(Tag.SubSecTimeDigitized),
+      exif.string(Tag.OffsetTimeDigitized),
+    ),
+    gps: readGps(tiff.gps, littleEndian),
+    hasMakerNote: tiff.exif.some((entry) => entry.tag === Tag.MakerNote),
+    hasThumbnail: tiff.thumbnail !== null,
+  }
+
+  // drop the keys we couldn't fill so the result is easy to inspect and compare
+  for (const key of Object.keys(metadata) as (keyof PhotoMetadata)[]) {
+    if (metadata[key] === undefined) delete metadata[key]
+  }
+  return metadata
+}
+
+function fieldReader(entries: IfdEntry[], littleEndian: boolean) {
+  const find = (tag: number) => entries.find((entry) => entry.tag === tag)
+  return {
+    string(tag: number): string | undefined {
+      const entry = find(tag)
+      if (!entry) return undefined
+      const value = decodeEntry(entry, littleEndian)
+      return typeof value === "string" && value.length > 0 ? value : undefined
+    },
+    number(tag: number): number | undefined {
+      const entry = find(tag)
+      if (!entry) return undefined
+      const value = decodeEntry(entry, littleEndian)
+      return Array.isArray(value) && Number.isFinite(value[0]) ? value[0] : undefined
+    },
+    numbers(tag: number): number[] | undefined {
+      const entry = find(tag)
+      if (!entry) return undefined
+      const value = decodeEntry(entry, littleEndian)
+      return Array.isArray(value) ? value : undefined
+    },
+    entry: find,
+  }
+}
+
+const DATE_TIME_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/
+const OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/
+
+/**
+ * Turns the EXIF "YYYY:MM:DD HH:MM:SS" format plus the optional sub-second and
+ * offset tags into an `ExifDateTime`. Blank or zeroed-out dates yield undefined.
+ */
+export function parseDateTime(
+  value: string | undefined,
+  subSeconds?: string,
+  offset?: string,
+): ExifDateTime | undefined {
+  const match = value && DATE_TIME_PATTERN.exec(value)
+  if (!match) return undefined
+  const [, year, month, day, hours, minutes, seconds] = match
+  if (year === "0000") return undefined
+
+  const fraction =
+    subSeconds && /^\d+$/.test(subSeconds) ? `.${subSeconds.padEnd(3, "0").slice(0, 3)}` : ""
+  const local = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${fraction}`
+
+  const offsetMatch = offset && OFFSET_PATTERN.exec(offset)
+  if (!offsetMatch) return { local }
+
+  const [, sign, offsetHours, offsetMinutes] = offsetMatch
+  const offsetMs =
+    (sign === "-" ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes)) * 60 * 1000
+  const utcMs =
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds),
+      fraction ? Number(fraction.slice(1)) : 0,
+    ) - offsetMs
+
+  return { local, offset: offsetMatch[0], utc: new Date(utcMs).toISOString() }
+}
+
+function readGps(entries: IfdEntry[], littleEndian: boolean): GpsPosition | undefined {
+  const gps = fieldReader(entries, littleEndian)
+  const latitude = toDegrees(gps.entry(Tag.GpsLatitude), littleEndian)
+  const longitude = toDegrees(gps.entry(Tag.GpsLongitude), littleEndian)
+  if (latitude === undefined || longitude === undefined) return undefined
+
+  const position: GpsPosition = {
+    latitude: gps.string(Tag.GpsLatitudeRef) === "S" ? -latitude : latitude,
+    longitude: gps.string(Tag.GpsLongitudeRef) === "W" ? -longitude : longitude,
+  }
+
+  const altitude = gps.number(Tag.GpsAltitude)
+  if (altitude !== undefined) {
+    // ref 1 means below sea level
+    const ref = gps.entry(Tag.GpsAltitudeRef)
+    const below = ref ? readNumbers(ref, littleEndian)[0] === 1 : false
+    position.altitude = below ? -altitude : altitude
+  }
+
+  const direction = gps.number(Tag.GpsImgDirection)
+  if (direction !== undefined) position.direction = direction
+
+  const date = gps.string(Tag.GpsDateStamp)
+  const time = gps.numbers(Tag.GpsTimeStamp)
+  const dateMatch = date && /^(\d{4}):(\d{2}):(\d{2})$/.exec(date)
+  if (dateMatch && time && time.length === 3) {
+    const [, year, month, day] = dateMatch
+    const ms = Math.round((time[0] * 3600 + time[1] * 60 + time[2]) * 1000)
+    position.timestamp = new Date(
+      Date.UTC(Number(year), Number(month) - 1, Number(day)) + ms,
+    ).toISOString()
+  }
+
+  return position
+}
+
+function toDegrees(entry: IfdEntry | undefined, littleEndian: boolean) {
+  if (!entry) return undefined
+  const parts = readRationals(entry, littleEndian)
+  if (parts.length !== 3 || parts.some(([, d]) => d === 0)) return undefined
+  const [degrees, minutes, seconds] = parts.map(([n, d]) => n / d)
+  return degrees + minutes / 60 + seconds / 3600
+}
@@ -0,0 +1,98 @@
+/**
+ * The TIFF/EXIF tags PixAssist reads or writes. Numbers are from the EXIF 2.32 spec.
+ */
+export const Tag = {
+  // IFD0
+  ImageDescription: 0x010e,
+  Make: 0x010f,
+  Model: 0x0110,
+  Orientation: 0x0112,
+  Software: 0x0131,
+  DateTime: 0x0132,
+  Artist: 0x013b,
+  ImageHistory: 0x9213,
+  ExifIfdPointer: 0x8769,
+  GpsIfdPointer: 0x8825,
+
+  // IFD1 (thumbnail)
+  ThumbnailOffset: 0x0201,
+  ThumbnailLength: 0x0202,
+
+  // Exif IFD
+  ExposureTime: 0x829a,
+  FNumber: 0x829d,
+  ExposureProgram: 0x8822,
+  Iso: 0x8827,
+  DateTimeOriginal: 0x9003,
+  DateTimeDigitized: 0x9004,
+  OffsetTime: 0x9010,
+  OffsetTimeOriginal: 0x9011,
+  OffsetTimeDigitized: 0x9012,
+  ExposureBias: 0x9204,
+  MeteringMode: 0x9207,
+  Flash: 0x9209,
+  FocalLength: 0x920a,
+  MakerNote: 0x927c,
+  UserComment: 0x9286,
+  SubSecTime: 0x9290,
+  SubSecTimeOriginal: 0x9291,
+  SubSecTimeDigitized: 0x9292,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+  InteropIfdPointer: 0xa005,
+  WhiteBalance: 0xa403,
+  FocalLengthIn35mm: 0xa405,
+  BodySerialNumber: 0xa431,
+  LensMake: 0xa433,
+  LensModel: 0xa434,
+  LensSerialNumber: 0xa435,
+
+  // GPS IFD
+  GpsVersionId: 0x0000,
+  GpsLatitudeRef: 0x0001,
+  GpsLatitude: 0x0002,
+  GpsLongitudeRef: 0x0003,
+  GpsLongitude: 0x0004,
+  GpsAltitudeRef: 0x0005,
+  GpsAltitude: 0x0006,
+  GpsTimeStamp: 0x0007,
+  GpsImgDirectionRef: 0x0010,
+  GpsImgDirection: 0x0011,
+  GpsDateStamp: 0x001d,
+} as const
+
+/**
+ * TIFF field types.
+ */
+export const FieldType = {
+  Byte: 1,
+  Ascii: 2,
+  Short: 3,
+  Long: 4,
+  Rational: 5,
+  SByte: 6,
+  Undefined: 7,
+  SShort: 8,
+  SLong: 9,
+  SRational: 10,
+  Float: 11,
+  Double: 12,
+} as const
+
+/**
+ * Size in bytes of a single value of each field type.
+ */
+export const FIELD_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+}
@@ -0,0 +1,399 @@
+import { FIELD_TYPE_SIZES, FieldType, Tag } from "./tags"
+
+/**
+ * A raw IFD entry. `data` holds the value bytes exactly as they appear in the
+ * file, so an entry can be written back out without being decoded first.
+ */
+export interface IfdEntry {
+  tag: number
+  type: number
+  count: number
+  data: Uint8Array
+}
+
+/**
+ * The IFDs found in an EXIF payload. Missing IFDs are empty arrays.
+ */
+export interface TiffData {
+  littleEndian: boolean
+  ifd0: IfdEntry[]
+  exif: IfdEntry[]
+  gps: IfdEntry[]
+  interop: IfdEntry[]
+  /**
+   * The thumbnail IFD.
+   */
+  ifd1: IfdEntry[]
+  /**
+   * The embedded JPEG thumbnail that IFD1 points at, if any.
+   */
+  thumbnail: Uint8Array | null
+}
+
+export type ExifValue = string | number[] | Uint8Array
+
+// guards against offset loops in corrupt files
+const MAX_ENTRIES_PER_IFD = 1000
+
+/**
+ * Parses a TIFF structure (the payload of an EXIF APP1 segment, after "Exif\0\0").
+ * Returns null when the header is invalid. Entries that point outside the buffer are skipped.
+ */
+export function parseTiff(tiff: Uint8Array): TiffData | null {
+  if (tiff.length < 8) return null
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const littleEndian = order === 0x4949
+  if (view.getUint16(2, littleEndian) !== 42) return null
+
+  const visited = new Set<number>()
+  const readAt = (offset: number) => readIfd(tiff, view, offset, littleEndian, visited)
+
+  const ifd0 = readAt(view.getUint32(4, littleEndian))
+  const pointer = (entries: IfdEntry[], tag: number) => {
+    const entry = entries.find((e) => e.tag === tag)
+    return entry ? readNumbers(entry, littleEndian)[0] : undefined
+  }
+
+  const exifOffset = pointer(ifd0.entries, Tag.ExifIfdPointer)
+  const gpsOffset = pointer(ifd0.entries, Tag.GpsIfdPointer)
+  const exif = exifOffset !== undefined ? readAt(exifOffset).entries : []
+  const gps = gpsOffset !== undefined ? readAt(gpsOffset).entries : []
+  const interopOffset = pointer(exif, Tag.InteropIfdPointer)
+  const interop = interopOffset !== undefined ? readAt(interopOffset).entries : []
+  const ifd1 = ifd0.next ? readAt(ifd0.next).entries : []
+
+  let thumbnail: Uint8Array | null = null
+  const thumbnailOffset = pointer(ifd1, Tag.ThumbnailOffset)
+  const thumbnailLength = pointer(ifd1, Tag.ThumbnailLength)
+  if (
+    thumbnailOffset !== undefined &&
+    thumbnailLength !== undefined &&
+    thumbnailOffset + thumbnailLength <= tiff.length
+  ) {
+    thumbnail = tiff.slice(thumbnailOffset, thumbnailOffset + thumbnailLength)
+  }
+
+  return { littleEndian, ifd0: ifd0.entries, exif, gps, interop, ifd1, thumbnail }
+}
+
+function readIfd(
+  tiff: Uint8Array,
+  view: DataView,
+  offset: number,
+  littleEndian: boolean,
+  visited: Set<number>,
+): { entries: IfdEntry[]; next: number } {
+  if (visited.has(offset) || offset < 8 || offset + 2 > tiff.length) return { entries: [], next: 0 }
+  visited.add(offset)
+
+  const count = Math.min(view.getUint16(offset, littleEndian), MAX_ENTRIES_PER_IFD)
+  const entries: IfdEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12
+    if (entryOffset + 12 > tiff.length) break
+
+    const tag = view.getUint16(entryOffset, littleEndian)
+    const type = view.getUint16(entryOffset + 2, littleEndian)
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian)
+    const size = FIELD_TYPE_SIZES[type]
+    if (!size) continue
+
+    const byteLength = size * valueCount
+    // values of 4 bytes or less are stored inline, bigger ones behind an offset
+    const valueOffset =
+      byteLength <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian)
+    if (valueOffset + byteLength > tiff.length) continue
+
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      data: tiff.slice(valueOffset, valueOffset + byteLength),
+    })
+  }
+
+  const nextOffset = offset + 2 + count * 12
+  const next = nextOffset + 4 <= tiff.length ? view.getUint32(nextOffset, littleEndian) : 0
+  return { entries, next }
+}
+
+/**
+ * Decodes an entry into a string (ASCII), bytes (UNDEFINED) or a list of numbers
+ * (everything else; rationals are divided out).
+ */
+export function decodeEntry(entry: IfdEntry, littleEndian: boolean): ExifValue {
+  switch (entry.type) {
+    case FieldType.Ascii:
+      return decodeAscii(entry.data)
+    case FieldType.Undefined:
+      return entry.data
+    case FieldType.Rational:
+    case FieldType.SRational:
+      return readRationals(entry, littleEndian).map(([n, d]) => (d === 0 ? 0 : n / d))
+    default:
+      return readNumbers(entry, littleEndian)
+  }
+}
+
+/**
+ * Reads the numerator/denominator pairs of a RATIONAL or SRATIONAL entry.
+ */
+export function readRationals(entry: IfdEntry, littleEndian: boolean): [number, number][] {
+  const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength)
+  const signed = entry.type === FieldType.SRational
+  const result: [number, number][] = []
+  for (let i = 0; i + 8 <= entry.data.length; i += 8) {
+    result.push(
+      signed
+        ? [view.getInt32(i, littleEndian), view.getInt32(i + 4, littleEndian)]
+        : [view.getUint32(i, littleEndian), view.getUint32(i + 4, littleEndian)],
+    )
+  }
+  return result
+}
+
+/**
+ * Reads an integer or floating point entry as a list of numbers.
+ */
+export function readNumbers(entry: IfdEntry, littleEndian: boolean): number[] {
+  const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength)
+  const size = FIELD_TYPE_SIZES[entry.type]
+  const result: number[] = []
+  for (let i = 0; i + size <= entry.data.length; i += size) {
+    switch (entry.type) {
+      case FieldType.Byte:
+        result.push(view.getUint8(i))
+        break
+      case FieldType.SByte:
+        result.push(view.getInt8(i))
+        break
+      case FieldType.Short:
+        result.push(view.getUint16(i, littleEndian))
+        break
+      case FieldType.SShort:
+        result.push(view.getInt16(i, littleEndian))
+        break
+      case FieldType.Long:
+        result.push(view.getUint32(i, littleEndian))
+        break
+      case FieldType.SLong:
+        result.push(view.getInt32(i, littleEndian))
+        break
+      case FieldType.Float:
+        result.push(view.getFloat32(i, littleEndian))
+        break
+      case FieldType.Double:
+        result.push(view.getFloat64(i, littleEndian))
+        break
+    }
+  }
+  return result
+}
+
+function decodeAscii(data: Uint8Array) {
+  let end = data.indexOf(0)
+  if (end === -1) end = data.length
+  let text = ""
+  for (let i = 0; i < end; i++) text += String.fromCharCode(data[i])
+  // camera firmware loves to pad strings with spaces
+  return text.trim()
+}
+
+// tags whose values are offsets we recompute on every write
+const POINTER_TAGS = new Set<number>([
+  Tag.ExifIfdPointer,
+  Tag.GpsIfdPointer,
+  Tag.InteropIfdPointer,
+  Tag.ThumbnailOffset,
+  Tag.ThumbnailLength,
+])
+
+/**
+ * Writes a `TiffData` back out as a TIFF structure in its own byte order.
+ * Sub-IFD pointers and the thumbnail offset are recomputed; empty IFDs are left out.
+ *
+ * Maker notes are copied byte for byte. Many of them contain absolute offsets,
+ * so they may not survive being moved; strip them if that matters.
+ */
+export function serializeTiff(tiff: TiffData): Uint8Array {
+  const { littleEndian, thumbnail } = tiff
+  const strip = (entries: IfdEntry[]) => entries.filter((entry) => !POINTER_TAGS.has(entry.tag))
+
+  const exif = strip(tiff.exif)
+  const interop = strip(tiff.interop)
+  const gps = strip(tiff.gps)
+  const ifd1 = strip(tiff.ifd1)
+  const hasIfd1 = ifd1.length > 0 || thumbnail !== null
+
+  // placeholders for the pointers; their values are patched in once the layout is known
+  const placeholder = (tag: number) => encodeEntry(tag, FieldType.Long, [0], littleEndian)
+  const ifd0 = strip(tiff.ifd0)
+  const hasExif = exif.length > 0 || interop.length > 0
+  if (hasExif) ifd0.push(placeholder(Tag.ExifIfdPointer))
+  if (gps.length > 0) ifd0.push(placeholder(Tag.GpsIfdPointer))
+  if (interop.length > 0) exif.push(placeholder(Tag.InteropIfdPointer))
+  if (thumbnail) {
+    ifd1.push(placeholder(Tag.ThumbnailOffset))
+    ifd1.push(encodeEntry(Tag.ThumbnailLength, FieldType.Long, [thumbnail.length], littleEndian))
+  }
+
+  const blocks: { name: string; entries: IfdEntry[] }[] = [{ name: "ifd0", entries: ifd0 }]
+  if (hasExif) blocks.push({ name: "exif", entries: exif })
+  if (interop.length > 0) blocks.push({ name: "interop", entries: interop })
+  if (gps.length > 0) blocks.push({ name: "gps", entries: gps })
+  if (hasIfd1) blocks.push({ name: "ifd1", entries: ifd1 })
+
+  // first pass: lay every IFD out followed by its out-of-line values
+  const offsets: Record<string, number> = {}
+  let size = 8
+  for (const block of blocks) {
+    block.entries.sort((a, b) => a.tag - b.tag)
+    offsets[block.name] = size
+    size += ifdSize(block.entries)
+  }
+  const thumbnailOffset = size
+  if (thumbnail) size += thumbnail.length
+
+  const patch: Record<number, number> = {
+    [Tag.ExifIfdPointer]: offsets.exif,
+    [Tag.GpsIfdPointer]: offsets.gps,
+    [Tag.InteropIfdPointer]: offsets.interop,
+    [Tag.ThumbnailOffset]: thumbnailOffset,
+  }
+
+  // second pass: write it all out
+  const out = new Uint8Array(size)
+  const view = new DataView(out.buffer)
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d)
+  view.setUint16(2, 42, littleEndian)
+  view.setUint32(4, 8, littleEndian)
+
+  for (const block of blocks) {
+    const start = offsets[block.name]
+    let dataOffset = start + 2 + block.entries.length * 12 + 4
+    view.setUint16(start, block.entries.length, littleEndian)
+
+    block.entries.forEach((entry, i) => {
+      const entryOffset = start + 2 + i * 12
+      view.setUint16(entryOffset, entry.tag, littleEndian)
+      view.setUint16(entryOffset + 2, entry.type, littleEndian)
+      view.setUint32(entryOffset + 4, entry.count, littleEndian)
+
+      const pointer = patch[entry.tag]
+      if (pointer !== undefined) {
+        view.setUint32(entryOffset + 8, pointer, littleEndian)
+      } else if (entry.data.length <= 4) {
+        out.set(entry.data, entryOffset + 8)
+      } else {
+        view.setUint32(entryOffset + 8, dataOffset, littleEndian)
+        out.set(entry.data, dataOffset)
+        // values must start on a word boundary
+        dataOffset += entry.data.length + (entry.data.length % 2)
+      }
+    })
+
+    // only IFD0 links to a next IFD, and that is always IFD1
+    const next = block.name === "ifd0" && hasIfd1 ? offsets.ifd1 : 0
+    view.setUint32(start + 2 + block.entries.length * 12, next, littleEndian)
+  }
+
+  if (thumbnail) out.set(thumbnail, thumbnailOffset)
+  return out
+}
+
+function ifdSize(entries: IfdEntry[]) {
+  let size = 2 + entries.length * 12 + 4
+  for (const entry of entries) {
+    if (entry.data.length > 4) size += entry.data.length + (entry.data.length % 2)
+  }
+  return size
+}
+
+/**
+ * Builds an entry from a value. Strings are written as ASCII (anything outside
+ * ASCII becomes "?"); rational types take decimal numbers and store them as fractions.
+ */
+export function encodeEntry(
+  tag: number,
+  type: number,
+  value: string | number[],
+  littleEndian: boolean,
+): IfdEntry {
+  if (typeof value === "string") {
+    const data = new Uint8Array(value.length + 1)
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i)
+      data[i] = code < 0x80 ? code : 0x3f
+    }
+    return { tag, type: FieldType.Ascii, count: data.length, data }
+  }
+
+  const size = FIELD_TYPE_SIZES[type]
+  if (!size) throw new Error(`Unsupported TIFF field type ${type}`)
+
+  const data = new Uint8Array(size * value.length)
+  const view = new DataView(data.buffer)
+  value.forEach((number, i) => {
+    const offset = i * size
+    switch (type) {
+      case FieldType.Byte:
+      case FieldType.Undefined:
+        view.setUint8(offset, number)
+        break
+      case FieldType.SByte:
+        view.setInt8(offset, number)
+        break
+      case FieldType.Short:
+        view.setUint16(offset, number, littleEndian)
+        break
+      case FieldType.SShort:
+        view.setInt16(offset, number, littleEndian)
+        break
+      case FieldType.Long:
+        view.setUint32(offset, number, littleEndian)
+        break
+      case FieldType.SLong:
+        view.setInt32(offset, number, littleEndian)
+        break
+      case FieldType.Rational:
+      case FieldType.SRational: {
+        const [numerator, denominator] = toFraction(number)
+        if (type === FieldType.Rational) {
+          view.setUint32(offset, numerator, littleEndian)
+          view.setUint32(offset + 4, denominator, littleEndian)
+        } else {
+          view.setInt32(offset, numerator, littleEndian)
+          view.setInt32(offset + 4, denominator, littleEndian)
+        }
+        break
+      }
+      case FieldType.Float:
+        view.setFloat32(offset, number, littleEndian)
+        break
+      case FieldType.Double:
+        view.setFloat64(offset, number, littleEndian)
+        break
+    }
+  })
+
+  return { tag, type, count: value.length, data }
+}
+
+/**
+ * Approximates a decimal as a fraction with a denominator of at most 10000.
+ */
+function toFraction(value: number): [number, number] {
+  if (Number.isInteger(value)) return [value, 1]
+  const denominator = 10000
+  const numerator = Math.round(value * denominator)
+  const divisor = gcd(Math.abs(numerator), denominator)
+  return [numerator / divisor, denominator / divisor]
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b)
+}
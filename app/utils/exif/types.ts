@@ -0,0 +1,91 @@
+/**
+ * EXIF orientation values. 1 is upright; 2-8 are the mirrored/rotated variants
+ * in the order the spec defines them.
+ */
+export type Orientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8
+
+/**
+ * A camera timestamp. EXIF stores wall-clock time with the UTC offset in a separate
+ * tag (when the camera bothered to write one at all), so we keep both halves.
+ */
+export interface ExifDateTime {
+  /**
+   * Wall-clock time as the camera recorded it, e.g. "2024-05-01T18:30:00.120".
+   */
+  local: string
+  /**
+   * UTC offset, e.g. "+02:00". Missing when the camera didn't record one.
+   */
+  offset?: string
+  /**
+   * The absolute moment as an ISO 8601 UTC timestamp. Only present when `offset` is known.
+   */
+  utc?: string
+}
+
+export interface GpsPosition {
+  /**
+   * Decimal degrees, negative for south.
+   */
+  latitude: number
+  /**
+   * Decimal degrees, negative for west.
+   */
+  longitude: number
+  /**
+   * Meters above sea level, negative below.
+   */
+  altitude?: number
+  /**
+   * Compass direction the camera was pointing, in degrees.
+   */
+  direction?: number
+  /**
+   * When the GPS fix was taken, as an ISO 8601 UTC timestamp.
+   */
+  timestamp?: string
+}
+
+/**
+ * Everything PixAssist reads from a photo's EXIF block. Every field is optional
+ * because cameras write wildly different subsets.
+ */
+export interface PhotoMetadata {
+  byteOrder: "little-endian" | "big-endian"
+  make?: string
+  model?: string
+  software?: string
+  description?: string
+  artist?: string
+  orientation?: Orientation
+  /**
+   * Pixel dimensions, from the Exif IFD or failing that the JPEG frame header.
+   */
+  width?: number
+  height?: number
+  lensMake?: string
+  lensModel?: string
+  /**
+   * Shutter speed in seconds.
+   */
+  exposureTime?: number
+  fNumber?: number
+  iso?: number
+  /**
+   * Exposure compensation in EV.
+   */
+  exposureBias?: number
+  /**
+   * Focal length in millimeters.
+   */
+  focalLength?: number
+  focalLengthIn35mm?: number
+  flashFired?: boolean
+  whiteBalance?: "auto" | "manual"
+  dateTime?: ExifDateTime
+  dateTimeOriginal?: ExifDateTime
+  dateTimeDigitized?: ExifDateTime
+  gps?: GpsPosition
+  hasMakerNote: boolean
+  hasThumbnail: boolean
+}
@@ -0,0 +1,158 @@
+import { readJpegStructure } from "./jpeg"
+import { readPhotoMetadata } from "./reader"
+import { FieldType, Tag } from "./tags"
+import { decodeEntry, parseTiff } from "./tiff"
+import { rewriteExif, SHARE_REWRITE_OPTIONS, stripMetadata } from "./writer"
+import { loadFixture } from "../../../test/fixtures"
+
+const FIXTURES = ["exif-little-endian.jpg", "exif-big-endian.jpg"]
+
+/**
+ * Everything from the SOS marker onwards: the compressed pixels.
+ */
+function imageData(bytes: Uint8Array) {
+  const structure = readJpegStructure(bytes)!
+  return bytes.subarray(structure.scanOffset)
+}
+
+function withXmp(bytes: Uint8Array) {
+  const header = "http://ns.adobe.com/xap/1.0/\0"
+  const packet = `${header}<x:xmpmeta><exif:GPSLatitude>48,51.488N</exif:GPSLatitude></x:xmpmeta>`
+  const segment = new Uint8Array(4 + packet.length)
+  segment.set([0xff, 0xe1, (packet.length + 2) >> 8, (packet.length + 2) & 0xff])
+  for (let i = 0; i < packet.length; i++) segment[4 + i] = packet.charCodeAt(i)
+
+  const out = new Uint8Array(bytes.length + segment.length)
+  out.set(bytes.subarray(0, 2))
+  out.set(segment, 2)
+  out.set(bytes.subarray(2), 2 + segment.length)
+  return out
+}
+
+describe("rewriteExif", () => {
+  it.each(FIXTURES)("round-trips %s unchanged when no edits are requested", (name) => {
+    const original = loadFixture(name)
+    const rewritten = rewriteExif(original, {})!
+
+    expect(readPhotoMetadata(rewritten)).toEqual(readPhotoMetadata(original))
+    expect(imageData(rewritten)).toEqual(imageData(original))
+  })
+
+  it.each(FIXTURES)("removes GPS from %s and keeps everything else", (name) => {
+    const original = readPhotoMetadata(loadFixture(name))!
+    const rewritten = readPhotoMetadata(rewriteExif(loadFixture(name), { removeGps: true })!)!
+
+    expect(rewritten.gps).toBeUndefined()
+    const { gps: _, ...rest } = original
+    expect(rewritten).toEqual(rest)
+  })
+
+  it("removes the maker note", () => {
+    const rewritten = rewriteExif(loadFixture("exif-little-endian.jpg"), { removeMakerNote: true })!
+    const metadata = readPhotoMetadata(rewritten)!
+
+    expect(metadata.hasMakerNote).toBe(false)
+    expect(metadata.iso).toBe(200)
+  })
+
+  it("removes device information", () => {
+    const rewritten = rewriteExif(loadFixture("exif-big-endian.jpg"), { removeDeviceInfo: true })!
+
+    const metadata = readPhotoMetadata(rewritten)!
+
+    expect(metadata).not.toHaveProperty("make")
+    expect(metadata).not.toHaveProperty("model")
+    expect(metadata).not.toHaveProperty("lensMake")
+    expect(metadata).not.toHaveProperty("lensModel")
+    expect(metadata.fNumber).toBe(4)
+  })
+
+  it("removes the thumbnail", () => {
+    const rewritten = rewriteExif(loadFixture("exif-little-endian.jpg"), { removeThumbnail: true })!
+    expect(readPhotoMetadata(rewritten)?.hasThumbnail).toBe(false)
+  })
+
+  it("keeps the thumbnail bytes intact when moving them", () => {
+    const original = loadFixture("exif-little-endian.jpg")
+    const rewritten = rewriteExif(original, { removeGps: true, removeMakerNote: true })!
+    const tiffOf = (bytes: Uint8Array) =>
+      parseTiff(readJpegStructure(bytes)!.segments[0].data.subarray(6))!
+
+    expect(tiffOf(rewritten).thumbnail).toEqual(tiffOf(original).thumbnail)
+  })
+
+  it("sets the orientation, software and edit history", () => {
+    const rewritten = rewriteExif(loadFixture("exif-big-endian.jpg"), {
+      orientation: 8,
+      software: "PixAssist",
+      editHistory: ["crop 0,0,100,100", "exposure +0.3"],
+    })!
+    const metadata = readPhotoMetadata(rewritten)!
+    const tiff = parseTiff(readJpegStructure(rewritten)!.segments[1].data.subarray(6))!
+    const history = tiff.ifd0.find((entry) => entry.tag === Tag.ImageHistory)!
+
+    expect(metadata).toMatchObject({ orientation: 8, software: "PixAssist", make: "Canon" })
+    expect(decodeEntry(history, tiff.littleEndian)).toBe("crop 0,0,100,100; exposure +0.3")
+  })
+
+  it("writes arbitrary tags with inferred or explicit types", () => {
+    const rewritten = rewriteExif(loadFixture("exif-little-endian.jpg"), {
+      tags: [
+        { ifd: "ifd0", tag: Tag.Artist, value: "Jane Doe" },
+        { ifd: "exif", tag: Tag.ExposureBias, value: [0.5], type: FieldType.SRational },
+        { ifd: "exif", tag: Tag.Iso, value: [100000] },
+      ],
+    })!
+
+    expect(readPhotoMetadata(rewritten)).toMatchObject({
+      artist: "Jane Doe",
+      exposureBias: 0.5,
+      iso: 100000,
+    })
+  })
+
+  it("adds an EXIF block after the JFIF segment of a file that has none", () => {
+    const original = loadFixture("no-exif.jpg")
+    const rewritten = rewriteExif(original, { software: "PixAssist", orientation: 3 })!
+    const structure = readJpegStructure(rewritten)!
+
+    expect(structure.segments.map((segment) => segment.marker).slice(0, 2)).toEqual([0xe0, 0xe1])
+    expect(readPhotoMetadata(rewritten)).toMatchObject({ software: "PixAssist", orientation: 3 })
+    expect(imageData(rewritten)).toEqual(imageData(original))
+  })
+
+  it("leaves a file without EXIF alone when there is nothing to write", () => {
+    const original = loadFixture("no-exif.jpg")
+    expect(rewriteExif(original, { removeGps: true })).toEqual(original)
+  })
+
+  it("prepares a photo for sharing", () => {
+    const shared = rewriteExif(
+      withXmp(loadFixture("exif-little-endian.jpg")),
+      SHARE_REWRITE_OPTIONS,
+    )!
+    const metadata = readPhotoMetadata(shared)!
+
+    expect(metadata.gps).toBeUndefined()
+    expect(metadata.make).toBeUndefined()
+    expect(metadata.hasMakerNote).toBe(false)
+    expect(metadata.software).toBe("PixAssist")
+    expect(metadata.dateTimeOriginal?.utc).toBe("2024-05-01T16:30:00.120Z")
+    expect(Buffer.from(shared).includes("GPSLatitude")).toBe(false)
+  })
+
+  it("returns null for anything that isn't a JPEG", () => {
+    expect(rewriteExif(new Uint8Array([1, 2, 3, 4]), {})).toBeNull()
+  })
+})
+
+describe("stripMetadata", () => {
+  it.each(FIXTURES)("removes all metadata from %s but keeps the image", (name) => {
+    const original = withXmp(loadFixture(name))
+    const stripped = stripMetadata(original)!
+
+    expect(readPhotoMetadata(stripped)).toBeNull()
+    expect(Buffer.from(stripped).includes("xap/1.0")).toBe(false)
+    expect(imageData(stripped)).toEqual(imageData(original))
+  })
+})
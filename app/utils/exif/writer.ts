@@ -0,0 +1,214 @@
+import {
+  APP1,
+  EXIF_HEADER,
+  isExifSegment,
+  JpegSegment,
+  readJpegStructure,
+  toUint8Array,
+  writeJpeg,
+} from "./jpeg"
+import { FieldType, Tag } from "./tags"
+import { encodeEntry, IfdEntry, parseTiff, serializeTiff, TiffData } from "./tiff"
+import type { Orientation } from "./types"
+
+/**
+ * A tag to add or overwrite.
+ */
+export interface ExifTagWrite {
+  ifd: "ifd0" | "exif" | "gps"
+  tag: number
+  /**
+   * One of `FieldType`. Inferred from the value when omitted: strings become ASCII,
+   * whole numbers SHORT or LONG, and anything else (S)RATIONAL.
+   */
+  type?: number
+  value: string | number[]
+}
+
+export interface ExifRewriteOptions {
+  /**
+   * Drop the whole GPS IFD.
+   */
+  removeGps?: boolean
+  /**
+   * Drop the vendor maker note, which often hides serial numbers and locations.
+   */
+  removeMakerNote?: boolean
+  /**
+   * Drop the camera and lens make, model and serial numbers.
+   */
+  removeDeviceInfo?: boolean
+  /**
+   * Drop the embedded thumbnail, which still shows the unedited photo.
+   */
+  removeThumbnail?: boolean
+  /**
+   * Drop XMP packets as well. They can carry their own copy of the location.
+   */
+  removeXmp?: boolean
+  orientation?: Orientation
+  /**
+   * Written to the Software tag.
+   */
+  software?: string
+  /**
+   * Written to the ImageHistory tag, one step per entry.
+   */
+  editHistory?: string[]
+  /**
+   * Any other tags to write. Applied after everything above.
+   */
+  tags?: ExifTagWrite[]
+}
+
+/**
+ * What a share should do by default: keep what the photo looks like and when it
+ * was taken, drop where it was taken and what took it.
+ */
+export const SHARE_REWRITE_OPTIONS: ExifRewriteOptions = {
+  removeGps: true,
+  removeMakerNote: true,
+  removeDeviceInfo: true,
+  removeXmp: true,
+  software: "PixAssist",
+}
+
+const DEVICE_TAGS: Record<"ifd0" | "exif", number[]> = {
+  ifd0: [Tag.Make, Tag.Model, Tag.Artist],
+  exif: [Tag.BodySerialNumber, Tag.LensMake, Tag.LensModel, Tag.LensSerialNumber],
+}
+
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0"
+
+/**
+ * Rewrites the EXIF block of a JPEG. The compressed image data is copied as-is,
+ * so the pixels are bit-for-bit identical afterwards.
+ *
+ * Returns null when the input isn't a JPEG. A JPEG without EXIF gets a new block
+ * if the options add anything to it.
+ *
+ * @param input The JPEG file contents.
+ * @param options What to remove and what to write.
+ */
+export function rewriteExif(
+  input: ArrayBuffer | Uint8Array,
+  options: ExifRewriteOptions,
+): Uint8Array | null {
+  const bytes = toUint8Array(input)
+  const structure = readJpegStructure(bytes)
+  if (!structure) return null
+
+  const exifSegment = structure.segments.find(isExifSegment)
+  const existing = exifSegment ? parseTiff(exifSegment.data.subarray(EXIF_HEADER.length)) : null
+  const tiff = applyOptions(existing ?? emptyTiff(), options)
+  const isEmpty =
+    tiff.ifd0.length + tiff.exif.length + tiff.gps.length + tiff.interop.length === 0 &&
+    !tiff.thumbnail
+
+  const segments: Pick<JpegSegment, "marker" | "data">[] = structure.segments.filter(
+    (segment) => !isExifSegment(segment) && !(options.removeXmp && isXmpSegment(segment)),
+  )
+
+  if (!isEmpty) {
+    const payload = serializeTiff(tiff)
+    const data = new Uint8Array(EXIF_HEADER.length + payload.length)
+    data.set(EXIF_HEADER)
+    data.set(payload, EXIF_HEADER.length)
+
+    // EXIF goes first, but a JFIF APP0 must stay at the very start of the file
+    const insertAt = exifSegment
+      ? structure.segments.filter((s) => s.offset < exifSegment.offset && segments.includes(s))
+          .length
+      : segments.findIndex((segment) => segment.marker !== 0xe0)
+    segments.splice(insertAt === -1 ? segments.length : insertAt, 0, { marker: APP1, data })
+  }
+
+  return writeJpeg(bytes, structure.scanOffset, segments)
+}
+
+/**
+ * Removes every EXIF and XMP block from a JPEG. Returns null when the input isn't a JPEG.
+ *
+ * @param input The JPEG file contents.
+ */
+export function stripMetadata(input: ArrayBuffer | Uint8Array): Uint8Array | null {
+  const bytes = toUint8Array(input)
+  const structure = readJpegStructure(bytes)
+  if (!structure) return null
+
+  const segments = structure.segments.filter(
+    (segment) => !isExifSegment(segment) && !isXmpSegment(segment),
+  )
+  return writeJpeg(bytes, structure.scanOffset, segments)
+}
+
+function emptyTiff(): TiffData {
+  return { littleEndian: true, ifd0: [], exif: [], gps: [], interop: [], ifd1: [], thumbnail: null }
+}
+
+function applyOptions(source: TiffData, options: ExifRewriteOptions): TiffData {
+  const tiff: TiffData = {
+    ...source,
+    ifd0: [...source.ifd0],
+    exif: [...source.exif],
+    gps: options.removeGps ? [] : [...source.gps],
+    interop: [...source.interop],
+    ifd1: options.removeThumbnail ? [] : [...source.ifd1],
+    thumbnail: options.removeThumbnail ? null : source.thumbnail,
+  }
+  const { littleEndian } = tiff
+  const without = (entries: IfdEntry[], tags: number[]) =>
+    entries.filter((entry) => !tags.includes(entry.tag))
+
+  if (options.removeMakerNote) tiff.exif = without(tiff.exif, [Tag.MakerNote])
+  if (options.removeDeviceInfo) {
+    tiff.ifd0 = without(tiff.ifd0, DEVICE_TAGS.ifd0)
+    tiff.exif = without(tiff.exif, DEVICE_TAGS.exif)
+  }
+
+  const writes: ExifTagWrite[] = []
+  if (options.orientation !== undefined) {
+    writes.push({
+      ifd: "ifd0",
+      tag: Tag.Orientation,
+      type: FieldType.Short,
+      value: [options.orientation],
+    })
+  }
+  if (options.software !== undefined) {
+    writes.push({ ifd: "ifd0", tag: Tag.Software, value: options.software })
+  }
+  if (options.editHistory !== undefined) {
+    writes.push({ ifd: "ifd0", tag: Tag.ImageHistory, value: options.editHistory.join("; ") })
+  }
+  writes.push(...(options.tags ?? []))
+
+  for (const write of writes) {
+    const entry = encodeEntry(
+      write.tag,
+      write.type ?? inferType(write.value),
+      write.value,
+      littleEndian,
+    )
+    tiff[write.ifd] = [...without(tiff[write.ifd], [write.tag]), entry]
+  }
+
+  return tiff
+}
+
+function inferType(value: string | number[]) {
+  if (typeof value === "string") return FieldType.Ascii
+  if (value.every((n) => Number.isInteger(n) && n >= 0)) {
+    return value.every((n) => n <= 0xffff) ? FieldType.Short : FieldType.Long
+  }
+  if (value.every((n) => Number.isInteger(n))) return FieldType.SLong
+  return value.every((n) => n >= 0) ? FieldType.Rational : FieldType.SRational
+}
+
+function isXmpSegment(segment: Pick<JpegSegment, "marker" | "data">) {
+  if (segment.marker !== APP1 || segment.data.length < XMP_HEADER.length) return false
+  for (let i = 0; i < XMP_HEADER.length; i++) {
+    if (segment.data[i] !== XMP_HEADER.charCodeAt(i)) return false
+  }
+  return true
+}
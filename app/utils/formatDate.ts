@@ -9,33 +9,35 @@ import i18n from "i18next"
 
 type Options = Parameters<typeof format>[2]
 
+const primaryLanguage = () => i18n.language.split("-")[0]
+
 let dateFnsLocale: Locale
+// date-fns locales only have named exports, e.g. `require("date-fns/locale/fr").fr`
 export const loadDateFnsLocale = () => {
-  const primaryTag = i18n.language.split("-")[0]
-  switch (primaryTag) {
+  switch (primaryLanguage()) {
     case "en":
-      dateFnsLocale = require("date-fns/locale/en-US").default
+      dateFnsLocale = require("date-fns/locale/en-US").enUS
       break
     case "ar":
-      dateFnsLocale = require("date-fns/locale/ar").default
+      dateFnsLocale = require("date-fns/locale/ar").ar
       break
     case "ko":
-      dateFnsLocale = require("date-fns/locale/ko").default
+      dateFnsLocale = require("date-fns/locale/ko").ko
       break
     case "es":
-      dateFnsLocale = require("date-fns/locale/es").default
+      dateFnsLocale = require("date-fns/locale/es").es
       break
     case "fr":
-      dateFnsLocale = require("date-fns/locale/fr").default
+      dateFnsLocale = require("date-fns/locale/fr").fr
       break
     case "hi":
-      dateFnsLocale = require("date-fns/locale/hi").default
+      dateFnsLocale = require("date-fns/locale/hi").hi
       break
     case "ja":
-      dateFnsLocale = require("date-fns/locale/ja").default
+      dateFnsLocale = require("date-fns/locale/ja").ja
       break
     default:
-      dateFnsLocale = require("date-fns/locale/en-US").default
+      dateFnsLocale = require("date-fns/locale/en-US").enUS
       break
   }
 }
@@ -47,3 +49,22 @@ export const formatDate = (date: string, dateFormat?: string, options?: Options)
   }
   return format(parseISO(date), dateFormat ?? "MMM dd, yyyy", dateOptions)
 }
+
+// date-fns has no localized token for a month with its year, or a year on its own,
+// so the languages that don't just put the words side by side spell it out
+const MONTH_YEAR_FORMATS: Record<string, string> = {
+  es: "LLLL 'de' yyyy",
+  ja: "yyyy'年'M'月'",
+  ko: "yyyy'년' M'월'",
+}
+
+const YEAR_FORMATS: Record<string, string> = {
+  ja: "yyyy'年'",
+  ko: "yyyy'년'",
+}
+
+export const formatMonthYear = (date: string) =>
+  formatDate(date, MONTH_YEAR_FORMATS[primaryLanguage()] ?? "LLLL yyyy")
+
+export const formatYear = (date: string) =>
+  formatDate(date, YEAR_FORMATS[primaryLanguage()] ?? "yyyy")
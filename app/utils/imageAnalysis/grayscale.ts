@@ -0,0 +1,52 @@
+import type { GrayImage, RgbaImage } from "./types"
+
+/**
+ * Converts an RGBA image to Rec. 709 luminance, shrinking it on the way so its
+ * longer side is at most `maxSize` pixels. Each output pixel averages the block of
+ * input pixels it covers, which also takes out most of the sensor noise.
+ *
+ * @param image The RGBA pixels to convert.
+ * @param maxSize Longest side of the result. Images already smaller are not enlarged.
+ */
+export function toGrayscale(image: RgbaImage, maxSize = Infinity): GrayImage {
+  const { width, height, data } = image
+  const scale = Math.min(1, maxSize / Math.max(width, height, 1))
+  const outWidth = Math.max(1, Math.round(width * scale))
+  const outHeight = Math.max(1, Math.round(height * scale))
+
+  const gray = new Float32Array(width * height)
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2]
+  }
+
+  return resizeGray({ width, height, data: gray }, outWidth, outHeight)
+}
+
+/**
+ * Resizes a grayscale image to exactly `width` x `height` by averaging the source
+ * pixels under each target pixel. Meant for shrinking; enlarging repeats pixels.
+ */
+export function resizeGray(image: GrayImage, width: number, height: number): GrayImage {
+  if (image.width === width && image.height === height) return image
+
+  const data = new Float32Array(width * height)
+  const scaleX = image.width / width
+  const scaleY = image.height / height
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY)
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX)
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX))
+      let sum = 0
+      for (let sy = y0; sy < y1; sy++) {
+        const row = sy * image.width
+        for (let sx = x0; sx < x1; sx++) sum += image.data[row + sx]
+      }
+      data[y * width + x] = sum / ((x1 - x0) * (y1 - y0))
+    }
+  }
+
+  return { width, height, data }
+}
@@ -0,0 +1,136 @@
+import { analyzeExposure, normalizeHistograms } from "./histogram"
+import type { RgbaImage } from "./types"
+
+/**
+ * Builds an image where pixel i gets the color `pixel(i)`.
+ */
+function image(width: number, height: number, pixel: (i: number) => [number, number, number]) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const [r, g, b] = pixel(i)
+    data[i * 4] = r
+    data[i * 4 + 1] = g
+    data[i * 4 + 2] = b
+    data[i * 4 + 3] = 255
+  }
+  return { width, height, data } satisfies RgbaImage
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+describe("analyzeExposure", () => {
+  it("puts a black frame in the first bucket and reports it as crushed", () => {
+    const result = analyzeExposure(image(8, 8, () => [0, 0, 0]))
+
+    expect(result.samples).toBe(64)
+    expect(result.luminance[0]).toBe(64)
+    expect(sum(result.luminance)).toBe(64)
+    expect(result.meanLuminance).toBe(0)
+    expect(result.clipping.overall).toEqual({ shadows: 1, highlights: 0 })
+  })
+
+  it("puts a white frame in the last bucket and reports it as blown", () => {
+    const result = analyzeExposure(
+      image(8, 8, () => [255, 255, 255]),
+      { bins: 16 },
+    )
+
+    expect(result.luminance).toHaveLength(16)
+    expect(result.luminance[15]).toBe(64)
+    expect(result.meanLuminance).toBe(255)
+    expect(result.clipping.overall).toEqual({ shadows: 0, highlights: 1 })
+  })
+
+  it("spreads a full gradient evenly across the buckets", () => {
+    const result = analyzeExposure(
+      image(256, 1, (i) => [i, i, i]),
+      { bins: 64 },
+    )
+
+    expect(result.red.every((count) => count === 4)).toBe(true)
+    expect(result.luminance.every((count) => count === 4)).toBe(true)
+    expect(result.meanLuminance).toBeCloseTo(127.5, 5)
+    // 0, 1, 2 are at or below the shadow threshold; 253, 254, 255 at or above the highlight one
+    expect(result.clipping.luminance.shadows).toBeCloseTo(3 / 256)
+    expect(result.clipping.luminance.highlights).toBeCloseTo(3 / 256)
+  })
+
+  it("keeps each channel in its own histogram", () => {
+    const result = analyzeExposure(
+      image(4, 4, () => [255, 128, 0]),
+      { bins: 4 },
+    )
+
+    expect(result.red).toEqual([0, 0, 0, 16])
+    expect(result.green).toEqual([0, 0, 16, 0])
+    expect(result.blue).toEqual([16, 0, 0, 0])
+    expect(result.clipping.red.highlights).toBe(1)
+    expect(result.clipping.blue.shadows).toBe(1)
+  })
+
+  it("counts a pixel as blown when any channel clips but as crushed only when all do", () => {
+    const pixels: [number, number, number][] = [
+      [255, 0, 0],
+      [0, 0, 0],
+      [0, 0, 255],
+      [90, 90, 90],
+    ]
+    const result = analyzeExposure(image(4, 1, (i) => pixels[i]))
+
+    expect(result.clipping.overall.highlights).toBe(0.5)
+    expect(result.clipping.overall.shadows).toBe(0.25)
+    // the luminance of pure red or blue is far from clipped
+    expect(result.clipping.luminance.highlights).toBe(0)
+  })
+
+  it("samples every step-th pixel in each direction", () => {
+    const result = analyzeExposure(
+      image(8, 8, () => [10, 10, 10]),
+      { step: 2 },
+    )
+
+    expect(result.samples).toBe(16)
+  })
+
+  it("honors custom clipping thresholds", () => {
+    const result = analyzeExposure(
+      image(2, 1, (i) => (i === 0 ? [20, 20, 20] : [240, 240, 240])),
+      {
+        shadowThreshold: 20,
+        highlightThreshold: 240,
+      },
+    )
+
+    expect(result.clipping.overall).toEqual({ shadows: 0.5, highlights: 0.5 })
+  })
+
+  it("handles an empty image", () => {
+    const result = analyzeExposure({ width: 0, height: 0, data: new Uint8ClampedArray(0) })
+
+    expect(result.samples).toBe(0)
+    expect(result.meanLuminance).toBe(0)
+    expect(result.clipping.overall).toEqual({ shadows: 0, highlights: 0 })
+  })
+
+  it("rejects bucket counts that don't divide 256", () => {
+    expect(() =>
+      analyzeExposure(
+        image(1, 1, () => [0, 0, 0]),
+        { bins: 100 },
+      ),
+    ).toThrow()
+  })
+})
+
+describe("normalizeHistograms", () => {
+  it("scales every histogram against the tallest bucket of all of them", () => {
+    expect(normalizeHistograms([1, 2], [4, 0])).toEqual([
+      [0.25, 0.5],
+      [1, 0],
+    ])
+  })
+
+  it("leaves empty histograms at zero", () => {
+    expect(normalizeHistograms([0, 0])).toEqual([[0, 0]])
+  })
+})
@@ -0,0 +1,151 @@
+import type { RgbaImage } from "./types"
+
+export interface HistogramOptions {
+  /**
+   * How many buckets the 0-255 range is split into. Must divide 256. Default: 64
+   */
+  bins?: number
+  /**
+   * Only every `step`-th pixel in each direction is sampled. Default: 1
+   */
+  step?: number
+  /**
+   * Values at or below this count as crushed shadows. Default: 2
+   */
+  shadowThreshold?: number
+  /**
+   * Values at or above this count as blown highlights. Default: 253
+   */
+  highlightThreshold?: number
+}
+
+export interface ChannelClipping {
+  /**
+   * Fraction (0-1) of sampled pixels at or below the shadow threshold.
+   */
+  shadows: number
+  /**
+   * Fraction (0-1) of sampled pixels at or above the highlight threshold.
+   */
+  highlights: number
+}
+
+export interface ExposureAnalysis {
+  /**
+   * Pixel counts per bucket, darkest first.
+   */
+  luminance: number[]
+  red: number[]
+  green: number[]
+  blue: number[]
+  /**
+   * How many pixels were sampled.
+   */
+  samples: number
+  /**
+   * Average luminance, 0-255.
+   */
+  meanLuminance: number
+  clipping: {
+    /**
+     * Shadows: every channel is crushed. Highlights: any channel is blown.
+     * This is what photographers usually mean by "clipping".
+     */
+    overall: ChannelClipping
+    luminance: ChannelClipping
+    red: ChannelClipping
+    green: ChannelClipping
+    blue: ChannelClipping
+  }
+}
+
+/**
+ * Builds luminance and RGB histograms of an image and measures how much of it is
+ * clipped. Luminance uses the Rec. 709 weights.
+ *
+ * @param image The RGBA pixels to analyze.
+ * @param options Bucket count, sampling and clipping thresholds.
+ */
+export function analyzeExposure(
+  image: RgbaImage,
+  options: HistogramOptions = {},
+): ExposureAnalysis {
+  const { bins = 64, step = 1, shadowThreshold = 2, highlightThreshold = 253 } = options
+  if (bins < 1 || 256 % bins !== 0) throw new Error(`bins must divide 256, got ${bins}`)
+
+  const shift = Math.log2(256 / bins)
+  const luminance = new Array<number>(bins).fill(0)
+  const red = new Array<number>(bins).fill(0)
+  const green = new Array<number>(bins).fill(0)
+  const blue = new Array<number>(bins).fill(0)
+
+  // shadows/highlights counters: luminance, red, green, blue, overall
+  const shadows = [0, 0, 0, 0, 0]
+  const highlights = [0, 0, 0, 0, 0]
+  let samples = 0
+  let luminanceSum = 0
+
+  const { width, height, data } = image
+  const stride = Math.max(1, Math.floor(step))
+
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const i = (y * width + x) * 4
+      const r = data[i]
+      const g = data[i + 1]
+      const b = data[i + 2]
+      const l = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)
+
+      luminance[l >> shift]++
+      red[r >> shift]++
+      green[g >> shift]++
+      blue[b >> shift]++
+      luminanceSum += l
+      samples++
+
+      if (l <= shadowThreshold) shadows[0]++
+      if (r <= shadowThreshold) shadows[1]++
+      if (g <= shadowThreshold) shadows[2]++
+      if (b <= shadowThreshold) shadows[3]++
+      if (l >= highlightThreshold) highlights[0]++
+      if (r >= highlightThreshold) highlights[1]++
+      if (g >= highlightThreshold) highlights[2]++
+      if (b >= highlightThreshold) highlights[3]++
+      if (r <= shadowThreshold && g <= shadowThreshold && b <= shadowThreshold) shadows[4]++
+      if (r >= highlightThreshold || g >= highlightThreshold || b >= highlightThreshold) {
+        highlights[4]++
+      }
+    }
+  }
+
+  const fraction = (count: number) => (samples === 0 ? 0 : count / samples)
+  const clippingOf = (c: number): ChannelClipping => ({
+    shadows: fraction(shadows[c]),
+    highlights: fraction(highlights[c]),
+  })
+
+  return {
+    luminance,
+    red,
+    green,
+    blue,
+    samples,
+    meanLuminance: samples === 0 ? 0 : luminanceSum / samples,
+    clipping: {
+      overall: clippingOf(4),
+      luminance: clippingOf(0),
+      red: clippingOf(1),
+      green: clippingOf(2),
+      blue: clippingOf(3),
+    },
+  }
+}
+
+/**
+ * Scales histogram counts to 0-1 against the tallest bucket across all the given
+ * histograms, so several channels can share one chart.
+ */
+export function normalizeHistograms(...histograms: number[][]): number[][] {
+  const max = Math.max(1, ...histograms.map((histogram) => Math.max(0, ...histogram)))
+  return histograms.map((histogram) => histogram.map((count) => count / max))
+}
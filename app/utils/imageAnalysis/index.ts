@@ -0,0 +1,5 @@
+export * from "./types"
+export * from "./grayscale"
+export * from "./histogram"
+export * from "./perceptualHash"
+export * from "./sharpness"
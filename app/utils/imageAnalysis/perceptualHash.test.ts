@@ -0,0 +1,93 @@
+import { dHash, hammingDistance, pHash, popCount } from "./perceptualHash"
+import type { RgbaImage } from "./types"
+
+/**
+ * Builds a grayscale RGBA image from `shade(x, y)`.
+ */
+function image(width: number, height: number, shade: (x: number, y: number) => number): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      const value = shade(x, y)
+      data[i] = value
+      data[i + 1] = value
+      data[i + 2] = value
+      data[i + 3] = 255
+    }
+  }
+  return { width, height, data }
+}
+
+/**
+ * A scene with a few soft blobs; `seed` picks where they are. The scene scales with the size.
+ */
+function blobs(seed: number, width = 96, height = 72, brightness = 0) {
+  let state = seed
+  const random = () => (state = (state * 1664525 + 1013904223) >>> 0) / 2 ** 32
+  const spots = Array.from({ length: 6 }, () => ({
+    x: random() * width,
+    y: random() * height,
+    r: ((8 + random() * 16) * width) / 96,
+    v: random() * 200,
+  }))
+  return image(width, height, (x, y) =>
+    spots.reduce(
+      (value, spot) =>
+        value + spot.v * Math.exp(-((x - spot.x) ** 2 + (y - spot.y) ** 2) / (2 * spot.r ** 2)),
+      30 + brightness,
+    ),
+  )
+}
+
+describe("dHash", () => {
+  it("encodes brightness falling to the right as set bits", () => {
+    expect(dHash(image(90, 80, (x) => 255 - x * 2))).toBe("ffffffffffffffff")
+    expect(dHash(image(90, 80, (x) => x * 2))).toBe("0000000000000000")
+  })
+
+  it("ignores exposure changes and resizing", () => {
+    const base = dHash(blobs(1))
+
+    expect(hammingDistance(base, dHash(blobs(1, 96, 72, 25)))).toBeLessThanOrEqual(4)
+    expect(hammingDistance(base, dHash(blobs(1, 48, 36)))).toBeLessThanOrEqual(8)
+  })
+
+  it("tells different scenes apart", () => {
+    expect(hammingDistance(dHash(blobs(1)), dHash(blobs(7)))).toBeGreaterThan(16)
+  })
+})
+
+describe("pHash", () => {
+  it("is 16 hex digits and stable for the same pixels", () => {
+    const hash = pHash(blobs(3))
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/)
+    expect(pHash(blobs(3))).toBe(hash)
+  })
+
+  it("ignores exposure changes and resizing", () => {
+    const base = pHash(blobs(2))
+
+    expect(hammingDistance(base, pHash(blobs(2, 96, 72, 25)))).toBeLessThanOrEqual(4)
+    expect(hammingDistance(base, pHash(blobs(2, 64, 48)))).toBeLessThanOrEqual(8)
+  })
+
+  it("tells different scenes apart", () => {
+    expect(hammingDistance(pHash(blobs(2)), pHash(blobs(9)))).toBeGreaterThan(16)
+  })
+})
+
+describe("hammingDistance", () => {
+  it("counts differing bits across both halves", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0)
+    expect(hammingDistance("8000000000000001", "0000000000000000")).toBe(2)
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64)
+  })
+
+  it("pop-counts 32-bit words", () => {
+    expect(popCount(0)).toBe(0)
+    expect(popCount(0xffffffff)).toBe(32)
+    expect(popCount(0b1011)).toBe(3)
+  })
+})
@@ -0,0 +1,106 @@
+import { resizeGray, toGrayscale } from "./grayscale"
+import type { RgbaImage } from "./types"
+
+/**
+ * A 64-bit perceptual hash as 16 lowercase hex digits, so it can be stored as JSON.
+ */
+export type PerceptualHash = string
+
+/**
+ * Difference hash: shrinks the image to 9x8 and records, for each pair of horizontal
+ * neighbours, whether the left one is brighter. Cheap, and robust to exposure and
+ * scaling changes.
+ *
+ * @param image The RGBA pixels to hash.
+ */
+export function dHash(image: RgbaImage): PerceptualHash {
+  const { data } = resizeGray(toGrayscale(image), 9, 8)
+  const bits: boolean[] = []
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(data[y * 9 + x] > data[y * 9 + x + 1])
+  }
+  return bitsToHex(bits)
+}
+
+const DCT_SIZE = 32
+const DCT_KEEP = 8
+
+// cos((2x + 1) * u * π / 2N) for the low frequencies we keep, computed once
+const DCT_COSINES = Array.from({ length: DCT_KEEP }, (_, u) =>
+  Float64Array.from({ length: DCT_SIZE }, (__, x) =>
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)),
+  ),
+)
+
+/**
+ * DCT hash: shrinks the image to 32x32, takes the lowest 8x8 frequencies of its
+ * discrete cosine transform and records which are above their median. Slower than
+ * `dHash` but less bothered by small crops and local edits.
+ *
+ * @param image The RGBA pixels to hash.
+ */
+export function pHash(image: RgbaImage): PerceptualHash {
+  const { data } = resizeGray(toGrayscale(image), DCT_SIZE, DCT_SIZE)
+
+  // separable DCT: transform the rows, then the columns of the result
+  const rows = new Float64Array(DCT_SIZE * DCT_KEEP)
+  for (let y = 0; y < DCT_SIZE; y++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0
+      for (let x = 0; x < DCT_SIZE; x++) sum += data[y * DCT_SIZE + x] * DCT_COSINES[u][x]
+      rows[y * DCT_KEEP + u] = sum
+    }
+  }
+  const coefficients: number[] = []
+  for (let v = 0; v < DCT_KEEP; v++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0
+      for (let y = 0; y < DCT_SIZE; y++) sum += rows[y * DCT_KEEP + u] * DCT_COSINES[v][y]
+      coefficients.push(sum)
+    }
+  }
+
+  // the DC term is just the average brightness, so it stays out of the median
+  const median = medianOf(coefficients.slice(1))
+  return bitsToHex(coefficients.map((value) => value > median))
+}
+
+/**
+ * Counts the bits that differ between two hashes: 0 for identical images,
+ * around 32 for unrelated ones.
+ */
+export function hammingDistance(a: PerceptualHash, b: PerceptualHash): number {
+  const [aHigh, aLow] = hexToWords(a)
+  const [bHigh, bLow] = hexToWords(b)
+  return popCount(aHigh ^ bHigh) + popCount(aLow ^ bLow)
+}
+
+/**
+ * Splits a hash into two 32-bit words, which is what `hammingDistance` works on.
+ * Exposed so callers comparing many hashes can parse each one once.
+ */
+export function hexToWords(hash: PerceptualHash): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16) >>> 0, parseInt(hash.slice(8, 16), 16) >>> 0]
+}
+
+export function popCount(word: number) {
+  let value = word >>> 0
+  value -= (value >>> 1) & 0x55555555
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333)
+  return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+function bitsToHex(bits: boolean[]): PerceptualHash {
+  let hex = ""
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+function medianOf(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = sorted.length >> 1
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
@@ -0,0 +1,169 @@
+import { resizeGray, toGrayscale } from "./grayscale"
+import { analyzeSharpness, laplacianVariance } from "./sharpness"
+import type { GrayImage, RgbaImage } from "./types"
+
+const SIZE = 128
+
+/**
+ * A deterministic scene of hard-edged discs in random shades, sharp in every direction.
+ */
+function scene(seed = 1): GrayImage {
+  let state = seed
+  const random = () => (state = (state * 1664525 + 1013904223) >>> 0) / 2 ** 32
+
+  const data = new Float32Array(SIZE * SIZE).fill(128)
+  for (let n = 0; n < 60; n++) {
+    const cx = random() * SIZE
+    const cy = random() * SIZE
+    const radius = 3 + random() * 10
+    const shade = random() * 255
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 < radius ** 2) data[y * SIZE + x] = shade
+      }
+    }
+  }
+  return { width: SIZE, height: SIZE, data }
+}
+
+/**
+ * Averages each pixel with its neighbours `k * (dx, dy)` for k in [-length, length].
+ * A single direction is a motion smear; running it twice, across, is a box blur.
+ */
+function smear(image: GrayImage, length: number, dx: number, dy: number): GrayImage {
+  const { width, height, data } = image
+  const out = new Float32Array(data.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -length; k <= length; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k * dx))
+        const sy = Math.min(height - 1, Math.max(0, y + k * dy))
+        sum += data[sy * width + sx]
+      }
+      out[y * width + x] = sum / (2 * length + 1)
+    }
+  }
+  return { width, height, data: out }
+}
+
+const defocus = (image: GrayImage, radius: number) =>
+  smear(smear(image, radius, 1, 0), radius, 0, 1)
+
+/**
+ * Distance between two directions, which wrap around at 180°.
+ */
+function angleBetween(a: number, b: number) {
+  const difference = Math.abs(a - b) % 180
+  return Math.min(difference, 180 - difference)
+}
+
+function toRgba({ width, height, data }: GrayImage): RgbaImage {
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  data.forEach((value, i) => {
+    rgba[i * 4] = value
+    rgba[i * 4 + 1] = value
+    rgba[i * 4 + 2] = value
+    rgba[i * 4 + 3] = 255
+  })
+  return { width, height, data: rgba }
+}
+
+describe("analyzeSharpness", () => {
+  it("scores a crisp scene as sharp", () => {
+    const result = analyzeSharpness(toRgba(scene()))
+
+    expect(result.score).toBeGreaterThan(1000)
+    expect(result.blurry).toBe(false)
+    expect(result.motionBlur).toBeNull()
+  })
+
+  it("scores lower the more an image is defocused", () => {
+    const sharp = analyzeSharpness(toRgba(scene())).score
+    const soft = analyzeSharpness(toRgba(defocus(scene(), 2)))
+    const softer = analyzeSharpness(toRgba(defocus(scene(), 4)))
+
+    expect(soft.score).toBeLessThan(sharp / 10)
+    expect(softer.score).toBeLessThan(soft.score)
+    expect(soft.blurry).toBe(true)
+    // defocus blurs every direction alike, so it isn't mistaken for motion
+    expect(soft.motionBlur).toBeNull()
+  })
+
+  it("flags a horizontal smear as motion blur", () => {
+    const result = analyzeSharpness(toRgba(smear(scene(), 7, 1, 0)))
+
+    expect(result.blurry).toBe(true)
+    expect(result.motionBlur).not.toBeNull()
+    expect(angleBetween(result.motionBlur!.angle, 0)).toBeLessThan(5)
+  })
+
+  it("finds the direction of vertical and diagonal smears", () => {
+    const vertical = analyzeSharpness(toRgba(smear(scene(2), 7, 0, 1)))
+    const diagonal = analyzeSharpness(toRgba(smear(scene(3), 5, 1, 1)))
+
+    expect(angleBetween(vertical.motionBlur!.angle, 90)).toBeLessThan(5)
+    // image y points down, so down-and-right is a clockwise 45°
+    expect(angleBetween(diagonal.motionBlur!.angle, 45)).toBeLessThan(5)
+  })
+
+  it("gives the same verdict after downscaling", () => {
+    const sharp = analyzeSharpness(toRgba(scene()), { maxSize: 64 })
+    const blurred = analyzeSharpness(toRgba(defocus(scene(), 4)), { maxSize: 64 })
+
+    expect(sharp.blurry).toBe(false)
+    expect(blurred.blurry).toBe(true)
+  })
+
+  it("treats a flat image as blurry without a direction", () => {
+    const flat = { width: SIZE, height: SIZE, data: new Float32Array(SIZE * SIZE).fill(90) }
+    const result = analyzeSharpness(toRgba(flat))
+
+    expect(result.score).toBe(0)
+    expect(result.blurry).toBe(true)
+    expect(result.motionBlur).toBeNull()
+  })
+})
+
+describe("laplacianVariance", () => {
+  it("is zero for images too small to have an interior", () => {
+    expect(
+      laplacianVariance({ width: 2, height: 2, data: new Float32Array([0, 255, 255, 0]) }),
+    ).toBe(0)
+  })
+})
+
+describe("grayscale", () => {
+  it("weights the channels by Rec. 709 luminance", () => {
+    const rgba = {
+      width: 3,
+      height: 1,
+      data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]),
+    }
+    const gray = toGrayscale(rgba)
+
+    expect(gray.data[0]).toBeCloseTo(54.2, 1)
+    expect(gray.data[1]).toBeCloseTo(182.4, 1)
+    expect(gray.data[2]).toBeCloseTo(18.4, 1)
+  })
+
+  it("shrinks to the requested size, keeping the aspect ratio", () => {
+    const gray = toGrayscale(
+      toRgba({ width: 200, height: 100, data: new Float32Array(20000).fill(10) }),
+      50,
+    )
+
+    expect(gray).toMatchObject({ width: 50, height: 25 })
+    expect(gray.data.every((value) => Math.abs(value - 10) < 0.001)).toBe(true)
+  })
+
+  it("averages the pixels under each target pixel", () => {
+    const resized = resizeGray(
+      { width: 4, height: 1, data: new Float32Array([0, 10, 20, 30]) },
+      2,
+      1,
+    )
+
+    expect(Array.from(resized.data)).toEqual([5, 25])
+  })
+})
@@ -0,0 +1,138 @@
+import { toGrayscale } from "./grayscale"
+import type { GrayImage, RgbaImage } from "./types"
+
+export interface SharpnessOptions {
+  /**
+   * The image is shrunk so its longer side is at most this many pixels before
+   * scoring. Scores are only comparable between runs with the same size. Default: 256
+   */
+  maxSize?: number
+  /**
+   * Scores below this count as blurry. Default: 100
+   */
+  blurThreshold?: number
+  /**
+   * Scores above this are never reported as motion blur, however lopsided their
+   * gradients are. Motion blur leaves edges across the movement crisp, so smeared
+   * shots score higher than defocused ones. Default: 500
+   */
+  sharpThreshold?: number
+  /**
+   * How lopsided the gradients must be (0-1) before the image is reported as
+   * smeared in one direction. Default: 0.4
+   */
+  motionThreshold?: number
+}
+
+export interface MotionBlur {
+  /**
+   * Direction of the smear in degrees, 0-180: 0 is horizontal, 90 vertical. Image y
+   * points down, so angles turn clockwise.
+   */
+  angle: number
+  /**
+   * How strongly the gradients favor one direction, 0-1.
+   */
+  strength: number
+}
+
+export interface SharpnessAnalysis {
+  /**
+   * Variance of the Laplacian. Higher is sharper; there is no upper bound.
+   */
+  score: number
+  /**
+   * True when the score is below `blurThreshold` or motion blur was detected.
+   */
+  blurry: boolean
+  /**
+   * Set when the image looks smeared in one direction, as from camera shake.
+   */
+  motionBlur: MotionBlur | null
+}
+
+/**
+ * Scores how sharp an image is using the variance of its Laplacian: crisp edges
+ * give strong, varied second derivatives, blur flattens them out.
+ *
+ * Motion blur is spotted with the gradient structure tensor: it wipes out gradients
+ * along the direction of movement while keeping those across it.
+ *
+ * @param image The RGBA pixels to score.
+ * @param options Working size and thresholds.
+ */
+export function analyzeSharpness(
+  image: RgbaImage,
+  options: SharpnessOptions = {},
+): SharpnessAnalysis {
+  const {
+    maxSize = 256,
+    blurThreshold = 100,
+    sharpThreshold = 500,
+    motionThreshold = 0.4,
+  } = options
+  const gray = toGrayscale(image, maxSize)
+
+  const score = laplacianVariance(gray)
+  const motion = score < sharpThreshold ? gradientDirection(gray) : null
+  const motionBlur = motion && motion.strength >= motionThreshold ? motion : null
+
+  return { score, blurry: score < blurThreshold || motionBlur !== null, motionBlur }
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian over the interior of the image.
+ */
+export function laplacianVariance(image: GrayImage): number {
+  const { width, height, data } = image
+  if (width < 3 || height < 3) return 0
+
+  let sum = 0
+  let sumOfSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const value = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i]
+      sum += value
+      sumOfSquares += value * value
+      count++
+    }
+  }
+
+  const mean = sum / count
+  return sumOfSquares / count - mean * mean
+}
+
+/**
+ * Sums the gradient structure tensor and returns the direction with the least
+ * gradient energy (where a smear would point), plus how anisotropic the image is.
+ */
+function gradientDirection(image: GrayImage): MotionBlur | null {
+  const { width, height, data } = image
+  let xx = 0
+  let yy = 0
+  let xy = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gx = (data[i + 1] - data[i - 1]) / 2
+      const gy = (data[i + width] - data[i - width]) / 2
+      xx += gx * gx
+      yy += gy * gy
+      xy += gx * gy
+    }
+  }
+
+  const trace = xx + yy
+  if (trace === 0) return null
+
+  // eigenvalues of [[xx, xy], [xy, yy]]; their spread says how one-sided the gradients are
+  const spread = Math.sqrt((xx - yy) * (xx - yy) + 4 * xy * xy)
+  const strength = spread / trace
+  // the dominant gradient points across the smear, so turn it a quarter
+  const gradientAngle = (0.5 * Math.atan2(2 * xy, xx - yy) * 180) / Math.PI
+  const angle = (((gradientAngle + 90) % 180) + 180) % 180
+
+  return { angle, strength }
+}
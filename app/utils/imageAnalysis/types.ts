@@ -0,0 +1,18 @@
+/**
+ * An uncompressed image: rows of RGBA pixels, 4 bytes per pixel.
+ * Camera frames satisfy this shape, so they can be analyzed directly.
+ */
+export interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray | Uint8Array
+}
+
+/**
+ * A single-channel image, one luminance value (0-255) per pixel.
+ */
+export interface GrayImage {
+  width: number
+  height: number
+  data: Float32Array
+}
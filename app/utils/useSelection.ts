@@ -0,0 +1,54 @@
+import { useCallback, useMemo, useRef, useState } from "react"
+
+export interface Selection {
+  ids: ReadonlySet<string>
+  toggle: (id: string) => void
+  /**
+   * Replaces the selection with exactly these ids.
+   */
+  set: (ids: Iterable<string>) => void
+  clear: () => void
+  /**
+   * Adds a dragged-over range to what was selected when the drag started. Pass
+   * `start` on the first range of a drag; after that, each range replaces the last,
+   * so dragging back unselects what the drag had picked.
+   */
+  selectRange: (ids: string[], start: boolean) => void
+}
+
+const EMPTY: ReadonlySet<string> = new Set()
+
+/**
+ * A set of picked ids for a multi-select list, with drag-to-select ranges.
+ * @returns {Selection} - The selected ids and the functions that change them.
+ */
+export function useSelection(): Selection {
+  const [ids, setIds] = useState(EMPTY)
+  // what was selected before the current drag began
+  const base = useRef(EMPTY)
+
+  const toggle = useCallback((id: string) => {
+    setIds((current) => {
+      const next = new Set(current)
+      if (!next.delete(id)) next.add(id)
+      return next
+    })
+  }, [])
+
+  const set = useCallback((next: Iterable<string>) => setIds(new Set(next)), [])
+
+  const clear = useCallback(() => setIds(EMPTY), [])
+
+  const selectRange = useCallback(
+    (range: string[], start: boolean) => {
+      if (start) base.current = ids
+      setIds(new Set([...base.current, ...range]))
+    },
+    [ids],
+  )
+
+  return useMemo(
+    () => ({ ids, toggle, set, clear, selectRange }),
+    [ids, toggle, set, clear, selectRange],
+  )
+}
@@ -0,0 +1,15 @@
+import { readFileSync } from "fs"
+import { join } from "path"
+
+/**
+ * Reads a binary fixture from this directory.
+ *
+ * exif-little-endian.jpg - Intel byte order, full IFD0/Exif/GPS blocks, maker note and thumbnail
+ * exif-big-endian.jpg    - Motorola byte order after a JFIF segment, southern/western GPS, no offsets
+ * no-exif.jpg            - a plain JFIF file
+ *
+ * All three are valid 8x8 baseline JPEGs.
+ */
+export function loadFixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, name)))
+}
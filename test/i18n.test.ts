@@ -1,6 +1,14 @@
 import { exec } from "child_process"
+import { join } from "path"
 
+import { diffLocale, formatReport, scanSource } from "./translationCheck"
+import ar from "../app/i18n/ar"
 import en from "../app/i18n/en"
+import es from "../app/i18n/es"
+import fr from "../app/i18n/fr"
+import hi from "../app/i18n/hi"
+import ja from "../app/i18n/ja"
+import ko from "../app/i18n/ko"
 
 // Use this array for keys that for whatever reason aren't greppable so they
 // don't hold your test suite hostage by always failing.
@@ -73,3 +81,20 @@ describe("i18n", () => {
     })
   }, 240000)
 })
+
+describe("translation completeness", () => {
+  const locales = { ar, es, fr, hi, ja, ko }
+
+  test.each(Object.keys(locales))("%s matches en key for key", (locale) => {
+    const report = diffLocale(locale, en, locales[locale])
+
+    // the formatted report names every offending key when this fails
+    expect(formatReport([report])).toBe("")
+  })
+
+  test("every literal key in the source exists", () => {
+    const unknownKeys = scanSource(join(__dirname, "../app"), en, join(__dirname, ".."))
+
+    expect(formatReport([], unknownKeys)).toBe("")
+  })
+})
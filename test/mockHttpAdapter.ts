@@ -0,0 +1,155 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios"
+
+/**
+ * A stand-in for the backend that runs inside the test process. Pass `adapter` to the
+ * `Api` config and every request is answered by the routes registered with `on()`,
+ * so the real apisauce and axios code paths run without touching the network.
+ */
+
+export interface MockRequest {
+  method: string
+  /**
+   * The path relative to the base URL, without the query string.
+   */
+  path: string
+  params: Record<string, unknown>
+  headers: Record<string, string>
+  /**
+   * The request body. JSON bodies are parsed; anything else, like FormData or bytes, is
+   * passed as is.
+   */
+  body: unknown
+}
+
+export type MockReply =
+  | { status: number; data?: unknown; headers?: Record<string, string> }
+  /**
+   * The connection drops before any response arrives.
+   */
+  | "network-error"
+  /**
+   * The request runs into the client's timeout.
+   */
+  | "timeout"
+
+export type MockHandler = (request: MockRequest) => MockReply | Promise<MockReply>
+
+interface Route {
+  method: string
+  path: string | RegExp
+  handler: MockHandler
+  times: number
+}
+
+export function createMockHttpAdapter() {
+  const routes: Route[] = []
+  const requests: MockRequest[] = []
+
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const request = toMockRequest(config)
+    requests.push(request)
+
+    const route = routes.find(
+      (candidate) =>
+        candidate.times !== 0 &&
+        candidate.method === request.method &&
+        (typeof candidate.path === "string"
+          ? candidate.path === request.path
+          : candidate.path.test(request.path)),
+    )
+    if (route && route.times > 0) route.times -= 1
+    const reply = route ? await route.handler(request) : { status: 404, data: null }
+
+    // a real transport aborts mid-flight; here the reply is simply thrown away
+    if (config.signal?.aborted) throw new CanceledError(undefined, undefined, config)
+
+    if (reply === "network-error") {
+      throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config)
+    }
+    if (reply === "timeout") {
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, "ECONNABORTED", config)
+    }
+
+    const response: AxiosResponse = {
+      status: reply.status,
+      statusText: String(reply.status),
+      data: reply.data ?? null,
+      headers: new AxiosHeaders(reply.headers ?? {}),
+      config,
+    }
+    if (reply.status >= 200 && reply.status < 300) return response
+    throw new AxiosError(
+      `Request failed with status code ${reply.status}`,
+      reply.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+      config,
+      null,
+      response,
+    )
+  }
+
+  return {
+    adapter,
+    /**
+     * Every request the adapter has seen, oldest first.
+     */
+    requests,
+    /**
+     * Answers requests to `path` with a fixed reply or a handler. Later routes for the
+     * same path only get used once earlier ones with a `times` limit are spent.
+     */
+    on(
+      method: string,
+      path: string | RegExp,
+      reply: MockReply | MockHandler,
+      options: { times?: number } = {},
+    ) {
+      routes.push({
+        method: method.toLowerCase(),
+        path,
+        handler: typeof reply === "function" ? reply : () => reply,
+        times: options.times ?? -1,
+      })
+    },
+    reset() {
+      routes.length = 0
+      requests.length = 0
+    },
+  }
+}
+
+export type MockHttpAdapter = ReturnType<typeof createMockHttpAdapter>
+
+function toMockRequest(config: InternalAxiosRequestConfig): MockRequest {
+  const url = config.url ?? ""
+  const base = config.baseURL ?? ""
+  const path = (url.startsWith(base) ? url.slice(base.length) : url)
+    .split("?")[0]
+    .replace(/^\//, "")
+
+  let body: unknown = config.data
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body)
+    } catch {}
+  }
+
+  const headers: Record<string, string> = {}
+  for (const [key, value] of Object.entries(AxiosHeaders.from(config.headers).toJSON())) {
+    headers[key.toLowerCase()] = String(value)
+  }
+
+  return {
+    method: (config.method ?? "get").toLowerCase(),
+    path,
+    params: config.params ?? {},
+    headers,
+    body,
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  diffLocale,
+  findKeyUsages,
+  findUnknownKeys,
+  flattenTranslations,
+  formatReport,
+  interpolationsOf,
+} from "./translationCheck"
+
+const en = {
+  common: { ok: "OK", cancel: "Cancel" },
+  gallery: {
+    count: "{{count}} photos",
+    modes: { all: "All", similar: "Similar" },
+    greeting: "Hi {{name}}, you have {{count}} photos",
+  },
+}
+
+describe("flattenTranslations", () => {
+  it("uses a colon after the section and dots below it", () => {
+    expect([...flattenTranslations(en).keys()]).toEqual([
+      "common:ok",
+      "common:cancel",
+      "gallery:count",
+      "gallery:modes.all",
+      "gallery:modes.similar",
+      "gallery:greeting",
+    ])
+  })
+})
+
+describe("interpolationsOf", () => {
+  it("lists each variable once, formats and spacing aside", () => {
+    expect(interpolationsOf("{{ b }} and {{a}} and {{b}} on {{date, short}}")).toEqual([
+      "a",
+      "b",
+      "date",
+    ])
+    expect(interpolationsOf("no variables")).toEqual([])
+  })
+})
+
+describe("diffLocale", () => {
+  it("reports missing, extra and mismatched keys", () => {
+    const fr = {
+      common: { ok: "OK", retry: "Réessayer" },
+      gallery: {
+        count: "{{total}} photos",
+        modes: { all: "Toutes", similar: "Similaires" },
+        greeting: "Bonjour {{name}}, vous avez {{count}} photos",
+      },
+    }
+
+    expect(diffLocale("fr", en, fr)).toEqual({
+      locale: "fr",
+      missing: ["common:cancel"],
+      extra: ["common:retry"],
+      interpolationMismatches: [{ key: "gallery:count", expected: ["count"], actual: ["total"] }],
+    })
+  })
+
+  it("lets plural forms differ per language without inventing variables", () => {
+    const reference = { gallery: { photos_one: "One photo", photos_other: "{{count}} photos" } }
+    const ar = {
+      gallery: {
+        photos_zero: "لا صور",
+        photos_one: "صورة واحدة",
+        photos_two: "صورتان",
+        photos_other: "{{count}} صور",
+      },
+    }
+    const broken = { gallery: { photos_one: "{{n}} photo", photos_other: "{{count}} photos" } }
+
+    expect(diffLocale("ar", reference, ar).interpolationMismatches).toEqual([])
+    expect(diffLocale("xx", reference, broken).interpolationMismatches).toHaveLength(1)
+  })
+})
+
+describe("findKeyUsages", () => {
+  it("finds tx props, translate calls and keys in objects", () => {
+    const source = [
+      `<Text tx="common:ok" />`,
+      `<EmptyState headingTx={"gallery:count"} />`,
+      `const label = translate("common:cancel", { x: 1 })`,
+      `<Radio {...{ labelTx: "gallery:greeting" }} />`,
+      "<Text tx={`gallery:modes.${mode}`} />",
+    ].join("\n")
+
+    expect(findKeyUsages(source, "Screen.tsx")).toEqual([
+      { key: "common:ok", file: "Screen.tsx", line: 1, dynamic: false },
+      { key: "gallery:count", file: "Screen.tsx", line: 2, dynamic: false },
+      { key: "common:cancel", file: "Screen.tsx", line: 3, dynamic: false },
+      { key: "gallery:greeting", file: "Screen.tsx", line: 4, dynamic: false },
+      { key: "gallery:modes.${mode}", file: "Screen.tsx", line: 5, dynamic: true },
+    ])
+  })
+
+  it("skips comments", () => {
+    const source = `/**\n * translate("hello")\n */\n// <Text tx="nope:nope" />\n<Text tx="common:ok" />`
+
+    expect(findKeyUsages(source).map(({ key, line }) => [key, line])).toEqual([["common:ok", 5]])
+  })
+})
+
+describe("findUnknownKeys", () => {
+  const defined = flattenTranslations(en).keys()
+
+  it("flags literal keys that don't exist, including section-only keys", () => {
+    const usages = findKeyUsages(
+      `<Text tx="common:ok" /><Text tx="common:nope" /><Text tx="gallery:modes" />`,
+    )
+
+    expect(findUnknownKeys(usages, defined).map((usage) => usage.key)).toEqual([
+      "common:nope",
+      "gallery:modes",
+    ])
+  })
+
+  it("accepts dynamic keys that fit at least one defined key", () => {
+    const usages = findKeyUsages(
+      "<Text tx={`gallery:modes.${mode}`} /><Text tx={`gallery:tabs.${tab}`} />",
+    )
+
+    expect(findUnknownKeys(usages, [...flattenTranslations(en).keys()]).map((u) => u.key)).toEqual([
+      "gallery:tabs.${tab}",
+    ])
+  })
+})
+
+describe("formatReport", () => {
+  it("prints one problem per line and nothing when all is well", () => {
+    const report = diffLocale("ja", en, { common: { ok: "OK", cancel: "キャンセル" }, gallery: {} })
+
+    expect(formatReport([report])).toBe(
+      [
+        "ja:",
+        "  missing  gallery:count",
+        "  missing  gallery:modes.all",
+        "  missing  gallery:modes.similar",
+        "  missing  gallery:greeting",
+      ].join("\n"),
+    )
+    expect(formatReport([diffLocale("en", en, en)])).toBe("")
+  })
+})
@@ -0,0 +1,226 @@
+import { readdirSync, readFileSync, statSync } from "fs"
+import { join, relative } from "path"
+
+/**
+ * Helpers for checking translations: every locale against the English reference, and
+ * the source code against the keys that actually exist. Used by `test/i18n.test.ts`;
+ * run `npm run i18n:check` to see the report.
+ */
+
+type TranslationTree = { [key: string]: string | TranslationTree }
+
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/
+
+/**
+ * Flattens a translation object into i18next key paths, `section:nested.key`, mapped
+ * to their strings.
+ */
+export function flattenTranslations(tree: TranslationTree): Map<string, string> {
+  const keys = new Map<string, string>()
+  const walk = (node: TranslationTree, path: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      // i18next separates the first level (the namespace-like section) with a colon
+      const next = path ? `${path}${path.includes(":") ? "." : ":"}${key}` : key
+      if (typeof value === "string") keys.set(next, value)
+      else walk(value, next)
+    }
+  }
+  walk(tree, "")
+  return keys
+}
+
+/**
+ * The `{{variables}}` a string interpolates, sorted and without duplicates.
+ */
+export function interpolationsOf(text: string): string[] {
+  const names = new Set<string>()
+  for (const match of text.matchAll(/{{\s*([\w.]+)(?:\s*,[^}]*)?\s*}}/g)) names.add(match[1])
+  return [...names].sort()
+}
+
+/**
+ * Plural forms (`photos_one`, `photos_other`) all count as the key they inflect, since
+ * languages need different sets of them.
+ */
+export function pluralBase(key: string) {
+  return key.replace(PLURAL_SUFFIX, "")
+}
+
+export interface InterpolationMismatch {
+  key: string
+  expected: string[]
+  actual: string[]
+}
+
+export interface LocaleReport {
+  locale: string
+  /**
+   * Keys English has and this locale doesn't. These show up in English at runtime.
+   */
+  missing: string[]
+  /**
+   * Keys this locale has and English doesn't, usually leftovers from a rename.
+   */
+  extra: string[]
+  /**
+   * Keys whose `{{variables}}` differ from English, which renders raw braces or drops values.
+   */
+  interpolationMismatches: InterpolationMismatch[]
+}
+
+/**
+ * Compares a locale against the reference translations.
+ */
+export function diffLocale(
+  locale: string,
+  reference: TranslationTree,
+  translations: TranslationTree,
+): LocaleReport {
+  const expected = groupByBase(flattenTranslations(reference))
+  const actual = groupByBase(flattenTranslations(translations))
+
+  const missing = [...expected.keys()].filter((key) => !actual.has(key))
+  const extra = [...actual.keys()].filter((key) => !expected.has(key))
+  const interpolationMismatches: InterpolationMismatch[] = []
+
+  for (const [key, texts] of actual) {
+    const referenceTexts = expected.get(key)
+    if (!referenceTexts) continue
+    const want = union(referenceTexts.map(interpolationsOf))
+    const have = union(texts.map(interpolationsOf))
+    // plural forms may leave the count out ("one photo"), but never make variables up
+    const plural = referenceTexts.length > 1 || texts.length > 1
+    const mismatch = plural
+      ? have.some((name) => !want.includes(name))
+      : want.join() !== have.join()
+    if (mismatch) interpolationMismatches.push({ key, expected: want, actual: have })
+  }
+
+  return { locale, missing, extra, interpolationMismatches }
+}
+
+export function isCleanReport(report: LocaleReport) {
+  return (
+    report.missing.length === 0 &&
+    report.extra.length === 0 &&
+    report.interpolationMismatches.length === 0
+  )
+}
+
+export interface KeyUsage {
+  key: string
+  file: string
+  line: number
+  /**
+   * Whether the key is built from a template literal, like `` `modes.${mode}` ``.
+   */
+  dynamic: boolean
+}
+
+const KEY_PATTERNS = [
+  // tx="a:b", headingTx={"a:b"}, tx={`a:${b}`}
+  /\b\w*[tT]x=\{?\s*(["'`])((?:(?!\1)[^\\]|\\.)*)\1/g,
+  // { labelTx: "a:b" }
+  /\b\w*[tT]x:\s*(["'`])((?:(?!\1)[^\\]|\\.)*)\1/g,
+  // translate("a:b", ...)
+  /\btranslate\(\s*(["'`])((?:(?!\1)[^\\]|\\.)*)\1/g,
+]
+
+/**
+ * Finds translation keys used as string literals in a source file: `tx` props and
+ * friends, and `translate()` calls. Comments are skipped.
+ */
+export function findKeyUsages(source: string, file = ""): KeyUsage[] {
+  // blank out comments but keep line breaks, so line numbers stay right
+  const code = source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (comment) =>
+    comment.replace(/[^\n]/g, " "),
+  )
+  const usages: KeyUsage[] = []
+  for (const pattern of KEY_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      const [, quote, key] = match
+      usages.push({
+        key,
+        file,
+        line: code.slice(0, match.index).split("\n").length,
+        dynamic: quote === "`" && key.includes("${"),
+      })
+    }
+  }
+  return usages.sort((a, b) => a.line - b.line)
+}
+
+/**
+ * The usages that don't resolve to a translated string. A dynamic key counts as known
+ * when at least one defined key fits its shape.
+ */
+export function findUnknownKeys(usages: KeyUsage[], defined: Iterable<string>): KeyUsage[] {
+  const keys = new Set([...defined].map(pluralBase))
+  return usages.filter((usage) => {
+    if (!usage.dynamic) return !keys.has(usage.key)
+    const shape = new RegExp(
+      `^${usage.key
+        .split(/\$\{[^}]*\}/)
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^:]+")}$`,
+    )
+    return ![...keys].some((key) => shape.test(key))
+  })
+}
+
+/**
+ * Every `.ts` and `.tsx` file below `dir`, tests excluded.
+ */
+export function sourceFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name)
+    if (statSync(path).isDirectory()) return sourceFiles(path)
+    return /\.tsx?$/.test(name) && !/\.test\.tsx?$/.test(name) ? [path] : []
+  })
+}
+
+/**
+ * Scans the source below `dir` for keys that aren't in the reference translations.
+ */
+export function scanSource(dir: string, reference: TranslationTree, root = dir): KeyUsage[] {
+  const usages = sourceFiles(dir).flatMap((path) =>
+    findKeyUsages(readFileSync(path, "utf8"), relative(root, path)),
+  )
+  return findUnknownKeys(usages, flattenTranslations(reference).keys())
+}
+
+/**
+ * A human readable summary, one problem per line.
+ */
+export function formatReport(reports: LocaleReport[], unknownKeys: KeyUsage[] = []): string {
+  const lines: string[] = []
+  for (const report of reports) {
+    if (isCleanReport(report)) continue
+    lines.push(`${report.locale}:`)
+    report.missing.forEach((key) => lines.push(`  missing  ${key}`))
+    report.extra.forEach((key) => lines.push(`  extra    ${key}`))
+    report.interpolationMismatches.forEach(({ key, expected, actual }) =>
+      lines.push(
+        `  vars     ${key}: expected {${expected.join(", ")}}, got {${actual.join(", ")}}`,
+      ),
+    )
+  }
+  if (unknownKeys.length > 0) {
+    lines.push("unknown keys in source:")
+    unknownKeys.forEach(({ key, file, line }) => lines.push(`  ${file}:${line}  ${key}`))
+  }
+  return lines.join("\n")
+}
+
+function groupByBase(keys: Map<string, string>) {
+  const groups = new Map<string, string[]>()
+  for (const [key, text] of keys) {
+    const base = pluralBase(key)
+    groups.set(base, [...(groups.get(base) ?? []), text])
+  }
+  return groups
+}
+
+function union(lists: string[][]) {
+  return [...new Set(lists.flat())].sort()
+}